@@ -10,13 +10,7 @@ import {
   type EngineConfig,
 } from '../src';
 
-import {
-  RenderSystem,
-  MovementSystem,
-  PhysicsSystem,
-  type Transform,
-  type Sprite,
-} from '../src/systems/CoreSystems';
+import { type Transform, type Sprite } from '../src/systems/CoreSystems';
 
 // Game Components
 interface NumberComponent {
@@ -42,9 +36,6 @@ class MathGameScene implements Scene {
   public active = true;
 
   private engine!: GameEngine;
-  private renderSystem!: RenderSystem;
-  private movementSystem!: MovementSystem;
-  private physicsSystem!: PhysicsSystem;
 
   private currentEquation: EquationComponent = {
     leftNumber: 0,
@@ -59,30 +50,8 @@ class MathGameScene implements Scene {
   public async init(engine: GameEngine): Promise<void> {
     this.engine = engine;
 
-    // Initialize systems
-    this.renderSystem = new RenderSystem(engine);
-    this.movementSystem = new MovementSystem(engine);
-    this.physicsSystem = new PhysicsSystem(engine);
-
-    // Register systems with SystemManager
-    engine.systemManager.addSystem({
-      name: 'render',
-      priority: 100,
-      enabled: true,
-      update: (deltaTime: number) => this.renderSystem.update(deltaTime),
-    });
-    engine.systemManager.addSystem({
-      name: 'movement',
-      priority: 50,
-      enabled: true,
-      update: (deltaTime: number) => this.movementSystem.update(deltaTime),
-    });
-    engine.systemManager.addSystem({
-      name: 'physics',
-      priority: 25,
-      enabled: true,
-      update: (deltaTime: number) => this.physicsSystem.update(deltaTime),
-    });
+    // Install the default movement/physics/animation/render pipeline
+    engine.installDefaultSystems();
 
     // Load game assets
     await this.loadAssets();
@@ -102,9 +71,6 @@ class MathGameScene implements Scene {
   }
 
   public update(deltaTime: number, engine: GameEngine): void {
-    // Update all game systems
-    engine.systemManager.update(deltaTime);
-
     // Check for completed equations
     this.checkEquationCompletion();
 
@@ -0,0 +1,22 @@
+/** @type {import('jest').Config} */
+module.exports = {
+    testEnvironment: 'node',
+    moduleNameMapper: {
+        '^@cropschool/shared$': '<rootDir>/../shared/src',
+    },
+    transform: {
+        // @cropschool/shared ships React components alongside its constants
+        '^.+\\.tsx?$': 'ts-jest',
+    },
+    moduleFileExtensions: ['ts', 'tsx', 'js', 'json'],
+    testMatch: [
+        '<rootDir>/src/**/__tests__/**/*.(ts|js)',
+        '<rootDir>/src/**/?(*.)(spec|test).(ts|js)',
+    ],
+    collectCoverageFrom: [
+        'src/**/*.ts',
+        '!src/**/*.d.ts',
+        '!src/index.ts',
+    ],
+    modulePathIgnorePatterns: ['<rootDir>/dist/'],
+};
@@ -0,0 +1,311 @@
+/**
+ * Export - Save melodies as Standard MIDI Files or rendered WAV audio
+ */
+
+import { SynthInstrument } from './Instruments';
+import type { Instrument } from './Instruments';
+import { DEFAULT_VELOCITY, toMidi } from './Notes';
+import type { NoteEvent } from './Notes';
+
+export interface MelodyTrack {
+  notes: NoteEvent[];
+  name?: string;
+  instrument?: Instrument; // Used when rendering audio (default triangle synth)
+  channel?: number; // MIDI channel 0-15 (default: next free melodic channel)
+  program?: number; // General MIDI program number, 0-127
+}
+
+export interface MidiExportOptions {
+  bpm?: number; // Default 120
+  ppq?: number; // Ticks per beat (default 480)
+  beatsPerBar?: number; // Time signature numerator (default 4)
+}
+
+export interface WavExportOptions {
+  bpm?: number; // Default 120
+  sampleRate?: number; // Default 44100
+  channels?: number; // Default 2
+  tail?: number; // Seconds rendered after the last note ends (default 1)
+  createContext?: (
+    channels: number,
+    length: number,
+    sampleRate: number
+  ) => OfflineAudioContext;
+}
+
+// Only the parts of AudioBuffer needed for encoding
+export type PcmSource = Pick<
+  AudioBuffer,
+  'numberOfChannels' | 'sampleRate' | 'length' | 'getChannelData'
+>;
+
+interface MidiMessage {
+  tick: number;
+  order: number; // Note-offs sort before note-ons on the same tick
+  bytes: number[];
+}
+
+// Default channels skip 9, which General MIDI keeps for percussion
+const MELODIC_CHANNELS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 10, 11, 12, 13, 14, 15];
+
+function toTracks(melody: MelodyTrack | MelodyTrack[]): MelodyTrack[] {
+  return Array.isArray(melody) ? melody : [melody];
+}
+
+function toChannel(track: MelodyTrack, index: number): number {
+  const { channel } = track;
+  if (channel === undefined) {
+    return MELODIC_CHANNELS[index % MELODIC_CHANNELS.length];
+  }
+  if (!Number.isInteger(channel) || channel < 0 || channel > 15) {
+    throw new Error(`Invalid MIDI channel: ${channel}`);
+  }
+  return channel;
+}
+
+function writeVarLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  let rest = value >>> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>>= 7;
+  }
+  return bytes;
+}
+
+function writeUint(value: number, size: number): number[] {
+  const bytes: number[] = [];
+  for (let i = size - 1; i >= 0; i--) {
+    bytes.push((value >>> (i * 8)) & 0xff);
+  }
+  return bytes;
+}
+
+function writeText(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+function writeChunk(id: string, data: number[]): number[] {
+  return [...writeText(id), ...writeUint(data.length, 4), ...data];
+}
+
+function writeTrackChunk(messages: MidiMessage[]): number[] {
+  const sorted = [...messages].sort(
+    (a, b) => a.tick - b.tick || a.order - b.order
+  );
+  const data: number[] = [];
+  let lastTick = 0;
+
+  for (const message of sorted) {
+    data.push(...writeVarLength(message.tick - lastTick), ...message.bytes);
+    lastTick = message.tick;
+  }
+  data.push(...writeVarLength(0), 0xff, 0x2f, 0x00); // End of track
+
+  return writeChunk('MTrk', data);
+}
+
+/**
+ * Encode tracks of notes as a format 1 Standard MIDI File: a tempo track
+ * followed by one track per melody
+ */
+export function exportMidi(
+  melody: MelodyTrack | MelodyTrack[],
+  options: MidiExportOptions = {}
+): Uint8Array {
+  const tracks = toTracks(melody);
+  const bpm = options.bpm ?? 120;
+  const ppq = options.ppq ?? 480;
+  const beatsPerBar = options.beatsPerBar ?? 4;
+  const toTick = (beats: number): number =>
+    Math.max(0, Math.round(beats * ppq));
+
+  const tempo = Math.round(60000000 / bpm); // Microseconds per beat
+  const conductor: MidiMessage[] = [
+    { tick: 0, order: 0, bytes: [0xff, 0x51, 0x03, ...writeUint(tempo, 3)] },
+    { tick: 0, order: 0, bytes: [0xff, 0x58, 0x04, beatsPerBar, 2, 24, 8] },
+  ];
+
+  const chunks = tracks.map((track, index) => {
+    const channel = toChannel(track, index);
+    const messages: MidiMessage[] = [];
+
+    if (track.name) {
+      const name = writeText(track.name);
+      messages.push({
+        tick: 0,
+        order: 0,
+        bytes: [0xff, 0x03, ...writeVarLength(name.length), ...name],
+      });
+    }
+    if (track.program !== undefined) {
+      messages.push({
+        tick: 0,
+        order: 0,
+        bytes: [0xc0 | channel, track.program & 0x7f],
+      });
+    }
+
+    for (const note of track.notes) {
+      const midi = Math.min(127, Math.max(0, toMidi(note.note)));
+      const velocity = Math.min(
+        127,
+        Math.max(1, Math.round((note.velocity ?? DEFAULT_VELOCITY) * 127))
+      );
+      const start = toTick(note.time);
+
+      messages.push(
+        { tick: start, order: 2, bytes: [0x90 | channel, midi, velocity] },
+        {
+          tick: Math.max(start + 1, toTick(note.time + note.duration)),
+          order: 1,
+          bytes: [0x80 | channel, midi, 0],
+        }
+      );
+    }
+
+    return writeTrackChunk(messages);
+  });
+
+  const header = writeChunk('MThd', [
+    ...writeUint(1, 2), // Format 1
+    ...writeUint(tracks.length + 1, 2),
+    ...writeUint(ppq, 2),
+  ]);
+
+  return new Uint8Array([
+    ...header,
+    ...writeTrackChunk(conductor),
+    ...chunks.flat(),
+  ]);
+}
+
+/**
+ * Render audio offline, faster than real time. The render callback
+ * schedules sound into the context's destination.
+ */
+export async function renderOffline(
+  duration: number,
+  render: (context: OfflineAudioContext) => void,
+  options: Pick<
+    WavExportOptions,
+    'sampleRate' | 'channels' | 'createContext'
+  > = {}
+): Promise<AudioBuffer> {
+  const sampleRate = options.sampleRate ?? 44100;
+  const channels = options.channels ?? 2;
+  const length = Math.max(1, Math.ceil(duration * sampleRate));
+  const createContext =
+    options.createContext ??
+    ((c: number, l: number, r: number) => new OfflineAudioContext(c, l, r));
+
+  const context = createContext(channels, length, sampleRate);
+  render(context);
+  return context.startRendering();
+}
+
+/**
+ * Encode audio as a 16-bit PCM WAV file
+ */
+export function encodeWav(buffer: PcmSource): ArrayBuffer {
+  const channels = buffer.numberOfChannels;
+  const blockAlign = channels * 2;
+  const dataSize = buffer.length * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, text: string): void => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const data = Array.from({ length: channels }, (_, c) =>
+    buffer.getChannelData(c)
+  );
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (const samples of data) {
+      const sample = Math.max(-1, Math.min(1, samples[i]));
+      view.setInt16(
+        offset,
+        sample < 0 ? sample * 0x8000 : sample * 0x7fff,
+        true
+      );
+      offset += 2;
+    }
+  }
+
+  return view.buffer;
+}
+
+/**
+ * Render tracks of notes with their instruments and encode them as WAV
+ */
+export async function exportWav(
+  melody: MelodyTrack | MelodyTrack[],
+  options: WavExportOptions = {}
+): Promise<ArrayBuffer> {
+  const tracks = toTracks(melody);
+  const secondsPerBeat = 60 / (options.bpm ?? 120);
+  const lastBeat = Math.max(
+    0,
+    ...tracks.flatMap(track =>
+      track.notes.map(note => note.time + note.duration)
+    )
+  );
+  const duration = lastBeat * secondsPerBeat + (options.tail ?? 1);
+
+  const buffer = await renderOffline(
+    duration,
+    context => {
+      for (const track of tracks) {
+        const instrument = track.instrument ?? new SynthInstrument();
+        for (const note of track.notes) {
+          instrument.playNote(
+            context.destination,
+            note.note,
+            note.time * secondsPerBeat,
+            note.duration * secondsPerBeat,
+            note.velocity
+          );
+        }
+      }
+    },
+    options
+  );
+
+  return encodeWav(buffer);
+}
+
+/**
+ * Save an exported file as a download (browser only)
+ */
+export function downloadAudioFile(
+  data: ArrayBuffer | Uint8Array,
+  filename: string
+): void {
+  const type = filename.endsWith('.wav') ? 'audio/wav' : 'audio/midi';
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  // Revoking straight away can cancel the download before it starts
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,266 @@
+/**
+ * Instruments - Oscillator synths and samplers with ADSR envelopes
+ */
+
+import { DEFAULT_VELOCITY, midiToFrequency, toMidi } from './Notes';
+import type { NoteValue } from './Notes';
+
+export interface Envelope {
+  attack: number; // Seconds to reach the peak
+  decay: number; // Seconds to fall to the sustain level
+  sustain: number; // Level (0-1 of the peak) held until release
+  release: number; // Seconds to fade out after the note ends
+}
+
+export interface ScheduledNote {
+  midi: number;
+  start: number; // Context seconds
+  end: number; // When the release finishes
+  stop: (time?: number) => void; // Cut the note short
+}
+
+export interface InstrumentOptions {
+  volume?: number;
+  envelope?: Partial<Envelope>;
+}
+
+export interface SynthOptions extends InstrumentOptions {
+  waveform?: OscillatorType;
+  detune?: number; // Cents
+}
+
+export interface SamplerOptions extends InstrumentOptions {
+  samples: Record<string, AudioBuffer>; // Keyed by note name or MIDI number
+  oneShot?: boolean; // Play each sample to its end regardless of note length
+}
+
+const STOP_FADE = 0.015; // Seconds, avoids clicks when notes are cut short
+
+/**
+ * Schedule an ADSR envelope on a gain param. Notes shorter than the attack
+ * or decay release from wherever the envelope has reached. Returns when
+ * the release ends.
+ */
+function scheduleEnvelope(
+  param: AudioParam,
+  envelope: Envelope,
+  peak: number,
+  time: number,
+  duration: number
+): number {
+  const { attack, decay, release } = envelope;
+  const sustainLevel = peak * envelope.sustain;
+  const noteOff = time + duration;
+
+  param.setValueAtTime(0, time);
+  if (duration <= attack) {
+    param.linearRampToValueAtTime(
+      attack > 0 ? (peak * duration) / attack : peak,
+      noteOff
+    );
+  } else {
+    param.linearRampToValueAtTime(peak, time + attack);
+    if (duration <= attack + decay) {
+      const progress = (duration - attack) / decay;
+      param.linearRampToValueAtTime(
+        peak + (sustainLevel - peak) * progress,
+        noteOff
+      );
+    } else {
+      param.linearRampToValueAtTime(sustainLevel, time + attack + decay);
+      param.setValueAtTime(sustainLevel, noteOff);
+    }
+  }
+  param.linearRampToValueAtTime(0, noteOff + release);
+
+  return noteOff + release;
+}
+
+/**
+ * Instrument - Plays notes into any audio node, so the same instrument
+ * works live through AudioManager and offline when rendering to WAV.
+ * Subclasses provide the sound source; the base class shapes it with the
+ * envelope and scales it by volume and velocity.
+ */
+export abstract class Instrument {
+  public volume: number;
+  public envelope: Envelope;
+
+  private active: Set<ScheduledNote> = new Set();
+
+  constructor(options: InstrumentOptions, defaults: Envelope) {
+    this.volume = options.volume ?? 0.5;
+    this.envelope = { ...defaults, ...options.envelope };
+  }
+
+  /**
+   * Schedule a note at a context time; its release starts after duration
+   * seconds
+   */
+  public playNote(
+    output: AudioNode,
+    note: NoteValue,
+    time: number,
+    duration: number,
+    velocity = DEFAULT_VELOCITY
+  ): ScheduledNote {
+    const context = output.context;
+    const midi = toMidi(note);
+    const start = Math.max(time, context.currentTime);
+
+    const gain = context.createGain();
+    gain.connect(output);
+
+    const source = this.createSource(context, midi);
+    source.connect(gain);
+
+    const end = scheduleEnvelope(
+      gain.gain,
+      this.envelope,
+      this.volume * velocity,
+      start,
+      this.getNoteLength(midi, duration)
+    );
+    source.start(start);
+    source.stop(end);
+
+    const scheduled: ScheduledNote = {
+      midi,
+      start,
+      end,
+      stop: (stopTime = context.currentTime) => {
+        const at = Math.max(stopTime, start);
+        gain.gain.cancelScheduledValues(at);
+        gain.gain.setTargetAtTime(0, at, STOP_FADE / 3);
+        source.stop(at + STOP_FADE);
+        this.active.delete(scheduled);
+      },
+    };
+
+    this.active.add(scheduled);
+    source.addEventListener('ended', () => {
+      this.active.delete(scheduled);
+      gain.disconnect();
+    });
+
+    return scheduled;
+  }
+
+  /**
+   * Schedule several notes at once, e.g. a chord
+   */
+  public playChord(
+    output: AudioNode,
+    notes: NoteValue[],
+    time: number,
+    duration: number,
+    velocity = DEFAULT_VELOCITY
+  ): ScheduledNote[] {
+    return notes.map(note =>
+      this.playNote(output, note, time, duration, velocity)
+    );
+  }
+
+  /**
+   * Cut every sounding and scheduled note
+   */
+  public stopAll(time?: number): void {
+    for (const note of Array.from(this.active)) {
+      note.stop(time);
+    }
+  }
+
+  public getActiveNoteCount(): number {
+    return this.active.size;
+  }
+
+  protected getNoteLength(_midi: number, duration: number): number {
+    return duration;
+  }
+
+  protected abstract createSource(
+    context: BaseAudioContext,
+    midi: number
+  ): AudioScheduledSourceNode;
+}
+
+/**
+ * Synth Instrument - A single oscillator per note
+ */
+export class SynthInstrument extends Instrument {
+  public waveform: OscillatorType;
+  public detune: number;
+
+  constructor(options: SynthOptions = {}) {
+    super(options, { attack: 0.01, decay: 0.1, sustain: 0.7, release: 0.2 });
+    this.waveform = options.waveform ?? 'triangle';
+    this.detune = options.detune ?? 0;
+  }
+
+  protected createSource(
+    context: BaseAudioContext,
+    midi: number
+  ): AudioScheduledSourceNode {
+    const oscillator = context.createOscillator();
+    oscillator.type = this.waveform;
+    oscillator.frequency.value = midiToFrequency(midi);
+    oscillator.detune.value = this.detune;
+    return oscillator;
+  }
+}
+
+/**
+ * Sampler Instrument - Plays recorded samples, repitching the nearest one
+ * to reach notes that weren't sampled
+ */
+export class SamplerInstrument extends Instrument {
+  private samples: Array<{ midi: number; buffer: AudioBuffer }>;
+  private oneShot: boolean;
+
+  constructor(options: SamplerOptions) {
+    super(options, { attack: 0.005, decay: 0, sustain: 1, release: 0.1 });
+    this.oneShot = options.oneShot ?? false;
+    this.samples = Object.entries(options.samples)
+      .map(([note, buffer]) => ({
+        midi: /^-?\d+$/.test(note) ? Number(note) : toMidi(note),
+        buffer,
+      }))
+      .sort((a, b) => a.midi - b.midi);
+
+    if (this.samples.length === 0) {
+      throw new Error('Sampler needs at least one sample');
+    }
+  }
+
+  protected override getNoteLength(midi: number, duration: number): number {
+    if (!this.oneShot) return duration;
+
+    const sample = this.findSample(midi);
+    return sample.buffer.duration / this.getPlaybackRate(sample.midi, midi);
+  }
+
+  protected createSource(
+    context: BaseAudioContext,
+    midi: number
+  ): AudioScheduledSourceNode {
+    const sample = this.findSample(midi);
+    const source = context.createBufferSource();
+    source.buffer = sample.buffer;
+    source.playbackRate.value = this.getPlaybackRate(sample.midi, midi);
+    return source;
+  }
+
+  private findSample(midi: number): { midi: number; buffer: AudioBuffer } {
+    let nearest = this.samples[0];
+    for (const sample of this.samples) {
+      if (Math.abs(sample.midi - midi) < Math.abs(nearest.midi - midi)) {
+        nearest = sample;
+      }
+    }
+    return nearest;
+  }
+
+  private getPlaybackRate(root: number, midi: number): number {
+    return Math.pow(2, (midi - root) / 12);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Notes - Note names, MIDI numbers, frequencies and chords
+ */
+
+// A note to play: a MIDI number (60 = middle C) or a name like 'C4' or 'F#3'
+export type NoteValue = number | string;
+
+export interface NoteEvent {
+  note: NoteValue;
+  time: number; // Beats from the start of the part
+  duration: number; // Beats
+  velocity?: number; // 0 to 1 (default 0.8)
+}
+
+export type ChordQuality =
+  | 'major'
+  | 'minor'
+  | 'diminished'
+  | 'augmented'
+  | 'sus2'
+  | 'sus4'
+  | 'major7'
+  | 'minor7'
+  | 'dominant7';
+
+// Semitones above the root
+export const CHORDS: Record<ChordQuality, number[]> = {
+  major: [0, 4, 7],
+  minor: [0, 3, 7],
+  diminished: [0, 3, 6],
+  augmented: [0, 4, 8],
+  sus2: [0, 2, 7],
+  sus4: [0, 5, 7],
+  major7: [0, 4, 7, 11],
+  minor7: [0, 3, 7, 10],
+  dominant7: [0, 4, 7, 10],
+};
+
+const NOTE_NAMES = [
+  'C',
+  'C#',
+  'D',
+  'D#',
+  'E',
+  'F',
+  'F#',
+  'G',
+  'G#',
+  'A',
+  'A#',
+  'B',
+];
+
+const NOTE_OFFSETS: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+
+export const DEFAULT_VELOCITY = 0.8;
+
+/**
+ * MIDI number of a note. Names default to octave 4; '#' and 'b' are
+ * accepted as accidentals.
+ */
+export function toMidi(note: NoteValue): number {
+  if (typeof note === 'number') return note;
+
+  const match = /^([A-Ga-g])([#b]*)(-?\d+)?$/.exec(note.trim());
+  if (!match) {
+    throw new Error(`Invalid note name: ${note}`);
+  }
+
+  const [, letter, accidentals, octave] = match;
+  let semitone = NOTE_OFFSETS[letter.toUpperCase()];
+  for (const accidental of accidentals) {
+    semitone += accidental === '#' ? 1 : -1;
+  }
+  return (Number(octave ?? 4) + 1) * 12 + semitone;
+}
+
+export function midiToFrequency(midi: number, tuning = 440): number {
+  return tuning * Math.pow(2, (midi - 69) / 12);
+}
+
+export function noteToFrequency(note: NoteValue, tuning = 440): number {
+  return midiToFrequency(toMidi(note), tuning);
+}
+
+/**
+ * Name of a MIDI note with sharps, e.g. 61 -> 'C#4'
+ */
+export function midiToNoteName(midi: number): string {
+  const octave = Math.floor(midi / 12) - 1;
+  return `${NOTE_NAMES[((midi % 12) + 12) % 12]}${octave}`;
+}
+
+/**
+ * MIDI numbers of a chord, e.g. chord('C4', 'major') -> [60, 64, 67]
+ */
+export function chord(
+  root: NoteValue,
+  quality: ChordQuality = 'major'
+): number[] {
+  const midi = toMidi(root);
+  return CHORDS[quality].map(interval => midi + interval);
+}
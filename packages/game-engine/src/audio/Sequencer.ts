@@ -0,0 +1,333 @@
+/**
+ * Sequencer - Note parts and a step sequencer driven by a Transport
+ */
+
+import { EventEmitter } from '../core/EventEmitter';
+import type { Instrument, ScheduledNote } from './Instruments';
+import type { NoteEvent, NoteValue } from './Notes';
+import type { Transport } from './Transport';
+
+export interface PartOptions {
+  instrument: Instrument;
+  output: AudioNode;
+  notes?: NoteEvent[];
+  loop?: number; // Loop length in beats; 0 plays once (default)
+}
+
+export interface StepTrack {
+  name: string;
+  instrument: Instrument;
+  note: NoteValue;
+  steps: number[]; // Velocity per step; 0 is a rest
+  muted: boolean;
+}
+
+export interface StepSequencerOptions {
+  output: AudioNode;
+  steps?: number; // Steps per pattern (default 16)
+  stepLength?: number; // Beats per step (default 0.25, sixteenth notes)
+  gate?: number; // Fraction of a step each note lasts (default 0.5)
+}
+
+/**
+ * Keeps the notes a player scheduled so they can be cut on stop without
+ * silencing other players sharing the instrument
+ */
+class NoteTracker {
+  private notes: ScheduledNote[] = [];
+
+  public add(note: ScheduledNote, now: number): void {
+    this.notes = this.notes.filter(n => n.end > now);
+    this.notes.push(note);
+  }
+
+  public stopAll(now: number): void {
+    for (const note of this.notes) {
+      if (note.end > now) note.stop(now);
+    }
+    this.notes = [];
+  }
+}
+
+/**
+ * Part - A list of notes in beats, played (or looped) on the transport
+ * from a starting beat. Emits 'note' as each note is scheduled.
+ */
+export class Part extends EventEmitter {
+  public instrument: Instrument;
+  public output: AudioNode;
+
+  private transport: Transport;
+  private notes: NoteEvent[];
+  private loop: number;
+  private startBeat = 0;
+  private eventIds: number[] = [];
+  private playing = false;
+  private tracker = new NoteTracker();
+
+  constructor(transport: Transport, options: PartOptions) {
+    super();
+    this.transport = transport;
+    this.instrument = options.instrument;
+    this.output = options.output;
+    this.notes = (options.notes ?? []).map(note => ({ ...note }));
+    this.loop = options.loop ?? 0;
+  }
+
+  /**
+   * Play from a transport beat (default 0)
+   */
+  public start(beat = 0): void {
+    this.stop();
+    this.startBeat = beat;
+    this.playing = true;
+    this.register();
+  }
+
+  /**
+   * Stop scheduling and cut notes already scheduled
+   */
+  public stop(): void {
+    this.unregister();
+    this.tracker.stopAll(this.transport.context.currentTime);
+    this.playing = false;
+  }
+
+  public isPlaying(): boolean {
+    return this.playing;
+  }
+
+  public getNotes(): NoteEvent[] {
+    return this.notes.map(note => ({ ...note }));
+  }
+
+  /**
+   * Replace the notes; a playing part picks them up immediately
+   */
+  public setNotes(notes: NoteEvent[]): void {
+    this.notes = notes.map(note => ({ ...note }));
+    if (this.playing) {
+      this.unregister();
+      this.register();
+    }
+  }
+
+  public setLoop(beats: number): void {
+    this.loop = beats;
+    if (this.playing) {
+      this.unregister();
+      this.register();
+    }
+  }
+
+  private register(): void {
+    for (const note of this.notes) {
+      const callback = (time: number, beat: number): void =>
+        this.playEvent(note, time, beat);
+      const beat = this.startBeat + note.time;
+
+      this.eventIds.push(
+        this.loop > 0
+          ? this.transport.scheduleRepeat(this.loop, callback, beat)
+          : this.transport.schedule(beat, callback)
+      );
+    }
+  }
+
+  private unregister(): void {
+    for (const id of this.eventIds) this.transport.clear(id);
+    this.eventIds = [];
+  }
+
+  private playEvent(note: NoteEvent, time: number, beat: number): void {
+    const scheduled = this.instrument.playNote(
+      this.output,
+      note.note,
+      time,
+      this.transport.beatsToSeconds(note.duration),
+      note.velocity
+    );
+    this.tracker.add(scheduled, this.transport.context.currentTime);
+    this.emit('note', { note, time, beat });
+  }
+
+  public destroy(): void {
+    this.stop();
+    this.removeAllListeners();
+  }
+}
+
+/**
+ * Step Sequencer - A looping grid of tracks by steps, as in a drum
+ * machine. Emits 'step' with the step index and the context time it
+ * sounds at, for highlighting the playhead.
+ */
+export class StepSequencer extends EventEmitter {
+  public output: AudioNode;
+  public gate: number;
+
+  private transport: Transport;
+  private steps: number;
+  private stepLength: number;
+  private tracks: StepTrack[] = [];
+  private startBeat = 0;
+  private eventId: number | null = null;
+  private tracker = new NoteTracker();
+
+  constructor(transport: Transport, options: StepSequencerOptions) {
+    super();
+    this.transport = transport;
+    this.output = options.output;
+    this.steps = options.steps ?? 16;
+    this.stepLength = options.stepLength ?? 0.25;
+    this.gate = options.gate ?? 0.5;
+  }
+
+  public addTrack(
+    name: string,
+    instrument: Instrument,
+    note: NoteValue,
+    steps: number[] = []
+  ): StepTrack {
+    if (this.getTrack(name)) {
+      throw new Error(`Step track '${name}' already exists`);
+    }
+
+    const track: StepTrack = {
+      name,
+      instrument,
+      note,
+      steps: this.fitSteps(steps),
+      muted: false,
+    };
+    this.tracks.push(track);
+    return track;
+  }
+
+  public removeTrack(name: string): void {
+    this.tracks = this.tracks.filter(track => track.name !== name);
+  }
+
+  public getTrack(name: string): StepTrack | undefined {
+    return this.tracks.find(track => track.name === name);
+  }
+
+  public getTracks(): StepTrack[] {
+    return [...this.tracks];
+  }
+
+  /**
+   * Set a step's velocity (true for the default velocity, false or 0 for a
+   * rest)
+   */
+  public setStep(name: string, index: number, value: number | boolean): void {
+    const track = this.requireTrack(name);
+    if (index < 0 || index >= this.steps) return;
+    track.steps[index] = value === true ? 0.8 : value === false ? 0 : value;
+  }
+
+  public toggleStep(name: string, index: number): boolean {
+    const on = this.requireTrack(name).steps[index] > 0;
+    this.setStep(name, index, !on);
+    return !on;
+  }
+
+  public getStepCount(): number {
+    return this.steps;
+  }
+
+  /**
+   * Change the pattern length, keeping existing steps
+   */
+  public setStepCount(steps: number): void {
+    this.steps = steps;
+    for (const track of this.tracks) {
+      track.steps = this.fitSteps(track.steps);
+    }
+  }
+
+  public start(beat = 0): void {
+    this.stop();
+    this.startBeat = beat;
+    this.eventId = this.transport.scheduleRepeat(
+      this.stepLength,
+      (time, stepBeat) => this.playStep(time, stepBeat),
+      beat
+    );
+  }
+
+  public stop(): void {
+    if (this.eventId !== null) {
+      this.transport.clear(this.eventId);
+      this.eventId = null;
+    }
+    this.tracker.stopAll(this.transport.context.currentTime);
+  }
+
+  public isPlaying(): boolean {
+    return this.eventId !== null;
+  }
+
+  /**
+   * The pattern as notes, e.g. for MIDI export
+   */
+  public toNotes(name?: string): NoteEvent[] {
+    const tracks = name ? [this.requireTrack(name)] : this.tracks;
+    const notes: NoteEvent[] = [];
+
+    for (const track of tracks) {
+      track.steps.forEach((velocity, index) => {
+        if (velocity <= 0) return;
+        notes.push({
+          note: track.note,
+          time: index * this.stepLength,
+          duration: this.stepLength * this.gate,
+          velocity,
+        });
+      });
+    }
+    return notes.sort((a, b) => a.time - b.time);
+  }
+
+  private playStep(time: number, beat: number): void {
+    const index =
+      Math.round((beat - this.startBeat) / this.stepLength) % this.steps;
+    const duration = this.transport.beatsToSeconds(this.stepLength * this.gate);
+    const now = this.transport.context.currentTime;
+
+    for (const track of this.tracks) {
+      const velocity = track.steps[index];
+      if (track.muted || !(velocity > 0)) continue;
+
+      this.tracker.add(
+        track.instrument.playNote(
+          this.output,
+          track.note,
+          time,
+          duration,
+          velocity
+        ),
+        now
+      );
+    }
+
+    this.emit('step', { index, time, beat });
+  }
+
+  private fitSteps(steps: number[]): number[] {
+    return Array.from({ length: this.steps }, (_, i) => steps[i] ?? 0);
+  }
+
+  private requireTrack(name: string): StepTrack {
+    const track = this.getTrack(name);
+    if (!track) {
+      throw new Error(`Step track '${name}' does not exist`);
+    }
+    return track;
+  }
+
+  public destroy(): void {
+    this.stop();
+    this.removeAllListeners();
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Transport - Musical clock in beats with a lookahead scheduler
+ */
+
+import { EventEmitter } from '../core/EventEmitter';
+
+export type TransportState = 'stopped' | 'playing' | 'paused';
+
+// Receives the exact context time to schedule audio at, ahead of when it sounds
+export type TransportCallback = (time: number, beat: number) => void;
+
+export interface TransportOptions {
+  bpm?: number; // Default 120
+  beatsPerBar?: number; // Default 4
+  lookahead?: number; // Seconds scheduled ahead of the context clock (default 0.1)
+  interval?: number; // ms between scheduler runs; 0 leaves it to update() (default 25)
+}
+
+interface TransportEvent {
+  id: number;
+  beat: number;
+  repeat: number; // Beats between repeats; 0 for one-shot events
+  callback: TransportCallback;
+  next: number; // Next beat to dispatch (Infinity once passed)
+}
+
+/**
+ * Transport - Maps beats to AudioContext time at a tempo that can change
+ * while playing. Events are dispatched slightly before they are due with
+ * the precise time to schedule at, so note timing follows the audio clock
+ * rather than frame or timer jitter. The scheduler runs on a timer and
+ * from update(). Emits 'start', 'stop', 'pause', 'tempo' and 'beat'.
+ */
+export class Transport extends EventEmitter {
+  public readonly context: BaseAudioContext;
+  public beatsPerBar: number;
+
+  private bpm: number;
+  private lookahead: number;
+  private interval: number;
+  private state: TransportState = 'stopped';
+  private anchorTime = 0; // Context time of anchorBeat
+  private anchorBeat = 0;
+  private scheduled: TransportEvent[] = [];
+  private nextEventId = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(context: BaseAudioContext, options: TransportOptions = {}) {
+    super();
+    this.context = context;
+    this.bpm = options.bpm ?? 120;
+    this.beatsPerBar = options.beatsPerBar ?? 4;
+    this.lookahead = options.lookahead ?? 0.1;
+    this.interval = options.interval ?? 25;
+
+    // Beat events drive metronomes and beat-synced UI
+    this.scheduleRepeat(1, (time, beat) => this.emit('beat', { time, beat }));
+  }
+
+  /**
+   * Start (or resume) playback, optionally at a later context time
+   */
+  public start(time = this.context.currentTime): void {
+    if (this.state === 'playing') return;
+
+    this.anchorTime = time;
+    this.state = 'playing';
+    this.startTimer();
+    this.emit('start', { time, beat: this.anchorBeat });
+    this.update();
+  }
+
+  /**
+   * Pause, keeping the position
+   */
+  public pause(): void {
+    if (this.state !== 'playing') return;
+
+    this.anchorBeat = this.getBeat();
+    this.state = 'paused';
+    this.stopTimer();
+    this.emit('pause', { beat: this.anchorBeat });
+  }
+
+  /**
+   * Stop and return to the first beat
+   */
+  public stop(): void {
+    if (this.state === 'stopped') return;
+
+    this.state = 'stopped';
+    this.stopTimer();
+    this.rewind(0);
+    this.emit('stop');
+  }
+
+  /**
+   * Jump to a beat. Events before it are skipped; jumping back replays
+   * them.
+   */
+  public seek(beat: number): void {
+    this.anchorTime = this.context.currentTime;
+    this.rewind(beat);
+  }
+
+  public getState(): TransportState {
+    return this.state;
+  }
+
+  public getBpm(): number {
+    return this.bpm;
+  }
+
+  /**
+   * Change tempo at a context time (now by default), keeping the beat
+   * position continuous
+   */
+  public setBpm(bpm: number, time = this.context.currentTime): void {
+    if (bpm <= 0) {
+      throw new Error(`Invalid tempo: ${bpm}`);
+    }
+
+    if (this.state === 'playing') {
+      this.anchorBeat = this.getBeat(time);
+      this.anchorTime = time;
+    }
+    this.bpm = bpm;
+    this.emit('tempo', { bpm, time });
+  }
+
+  /**
+   * Beat position at a context time (now by default)
+   */
+  public getBeat(time = this.context.currentTime): number {
+    if (this.state !== 'playing') return this.anchorBeat;
+    return this.anchorBeat + ((time - this.anchorTime) * this.bpm) / 60;
+  }
+
+  /**
+   * Context time at which a beat plays at the current tempo
+   */
+  public beatToTime(beat: number): number {
+    return this.anchorTime + ((beat - this.anchorBeat) * 60) / this.bpm;
+  }
+
+  public beatsToSeconds(beats: number): number {
+    return (beats * 60) / this.bpm;
+  }
+
+  public getBar(time?: number): number {
+    return Math.floor(this.getBeat(time) / this.beatsPerBar);
+  }
+
+  /**
+   * Call back when playback reaches a beat (again after seeking back or
+   * stopping). Returns an id for clear().
+   */
+  public schedule(beat: number, callback: TransportCallback): number {
+    return this.addEvent(beat, 0, callback);
+  }
+
+  /**
+   * Call back every interval beats, starting at a beat
+   */
+  public scheduleRepeat(
+    interval: number,
+    callback: TransportCallback,
+    startBeat = 0
+  ): number {
+    if (interval <= 0) {
+      throw new Error(`Invalid repeat interval: ${interval}`);
+    }
+    return this.addEvent(startBeat, interval, callback);
+  }
+
+  public clear(eventId: number): void {
+    this.scheduled = this.scheduled.filter(event => event.id !== eventId);
+  }
+
+  /**
+   * Dispatch events due before the lookahead horizon (called by the timer;
+   * call it every frame when the timer is off). Events added by callbacks
+   * are dispatched in the same pass if they fall inside it.
+   */
+  public update(): void {
+    if (this.state !== 'playing') return;
+
+    const horizon = this.getBeat(this.context.currentTime + this.lookahead);
+    for (;;) {
+      // Earliest due event first; ties go to the one scheduled first
+      let due: TransportEvent | null = null;
+      for (const event of this.scheduled) {
+        if (event.next < horizon && (!due || event.next < due.next)) {
+          due = event;
+        }
+      }
+      if (!due) return;
+
+      const beat = due.next;
+      due.next = due.repeat > 0 ? beat + due.repeat : Infinity;
+      due.callback(this.beatToTime(beat), beat);
+    }
+  }
+
+  private rewind(beat: number): void {
+    this.anchorBeat = beat;
+    for (const event of this.scheduled) {
+      event.next = this.firstBeatFrom(event, beat);
+    }
+  }
+
+  private firstBeatFrom(
+    event: Pick<TransportEvent, 'beat' | 'repeat'>,
+    beat: number
+  ): number {
+    if (event.beat >= beat) return event.beat;
+    if (event.repeat === 0) return Infinity;
+
+    const repeats = Math.ceil((beat - event.beat) / event.repeat - 1e-9);
+    return event.beat + repeats * event.repeat;
+  }
+
+  private addEvent(
+    beat: number,
+    repeat: number,
+    callback: TransportCallback
+  ): number {
+    const id = ++this.nextEventId;
+    const next = this.firstBeatFrom({ beat, repeat }, this.getBeat());
+    this.scheduled.push({ id, beat, repeat, callback, next });
+    return id;
+  }
+
+  private startTimer(): void {
+    if (this.interval <= 0 || this.timer !== null) return;
+    this.timer = setInterval(() => this.update(), this.interval);
+  }
+
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public destroy(): void {
+    this.stop();
+    this.stopTimer();
+    this.scheduled = [];
+    this.removeAllListeners();
+  }
+}
@@ -0,0 +1,60 @@
+import { downloadAudioFile, exportMidi } from '../Export';
+import type { MelodyTrack } from '../Export';
+
+// Channel of the first event in each melody track (after the tempo track)
+function firstEventChannels(file: Uint8Array): number[] {
+  const channels: number[] = [];
+  let offset = 14; // MThd chunk
+  for (let track = 0; offset < file.length; track++) {
+    const length = new DataView(file.buffer).getUint32(offset + 4);
+    const status = file[offset + 9]; // After a one-byte delta time
+    if (track > 0) channels.push(status & 0x0f);
+    offset += 8 + length;
+  }
+  return channels;
+}
+
+function melody(count: number, channel?: number): MelodyTrack[] {
+  return Array.from({ length: count }, () => ({
+    notes: [{ note: 'C4', time: 0, duration: 1 }],
+    channel,
+  }));
+}
+
+describe('exportMidi', () => {
+  it('gives each track its own channel and keeps 9 for drums', () => {
+    expect(firstEventChannels(exportMidi(melody(17)))).toEqual([
+      0, 1, 2, 3, 4, 5, 6, 7, 8, 10, 11, 12, 13, 14, 15, 0, 1,
+    ]);
+  });
+
+  it('uses an explicit channel, including the drum channel', () => {
+    expect(firstEventChannels(exportMidi(melody(2, 9)))).toEqual([9, 9]);
+    expect(() => exportMidi(melody(1, 16))).toThrow('Invalid MIDI channel: 16');
+  });
+});
+
+describe('downloadAudioFile', () => {
+  it('revokes the object URL only after the download has started', () => {
+    jest.useFakeTimers();
+    const link = { href: '', download: '', click: jest.fn() };
+    const globals = globalThis as { document?: unknown };
+    globals.document = { createElement: () => link };
+    jest.spyOn(URL, 'createObjectURL').mockReturnValue('blob:song');
+    const revoke = jest
+      .spyOn(URL, 'revokeObjectURL')
+      .mockImplementation(() => {});
+
+    downloadAudioFile(new Uint8Array([1, 2, 3]), 'song.mid');
+
+    expect(link).toMatchObject({ href: 'blob:song', download: 'song.mid' });
+    expect(link.click).toHaveBeenCalled();
+    expect(revoke).not.toHaveBeenCalled();
+    jest.runAllTimers();
+    expect(revoke).toHaveBeenCalledWith('blob:song');
+
+    delete globals.document;
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Accessibility Components - Roles, labels and state for assistive technology
+ */
+
+import { defineComponent } from '../core/Component';
+import type { MessageParams } from '../core/I18n';
+
+// 'button', 'checkbox', 'switch' and 'link' can be focused and activated
+export type AccessibleRole =
+  | 'button'
+  | 'checkbox'
+  | 'switch'
+  | 'link'
+  | 'img'
+  | 'text'
+  | 'heading'
+  | 'status'
+  | 'progressbar'
+  | 'group';
+
+// How eagerly screen readers read out label changes
+export type LivePoliteness = 'off' | 'polite' | 'assertive';
+
+export interface AccessibleState {
+  disabled?: boolean;
+  pressed?: boolean; // Toggle buttons
+  checked?: boolean; // 'checkbox' and 'switch'
+  selected?: boolean;
+  expanded?: boolean;
+  busy?: boolean;
+  value?: number; // 'progressbar'
+  min?: number;
+  max?: number;
+  valueText?: string; // Read instead of the number, e.g. '3 of 5 seeds'
+}
+
+export interface Accessible {
+  role: AccessibleRole;
+  label: string; // Accessible name, shown as-is when there is no key
+  labelKey?: string; // Message key translated through engine.i18n
+  labelParams?: MessageParams;
+  description?: string;
+  state: AccessibleState;
+  live: LivePoliteness; // Read out label changes ('status' defaults to polite)
+  order?: number; // Focus order, lowest first; otherwise reading order
+  hidden: boolean; // Leave out of the accessibility tree
+}
+
+export const Accessible = defineComponent<Accessible>('accessible', () => ({
+  role: 'button',
+  label: '',
+  state: {},
+  live: 'off',
+  hidden: false,
+}));
@@ -0,0 +1,29 @@
+/**
+ * Audio Components - Positional sounds attached to entities
+ */
+
+import { defineComponent } from '../core/Component';
+
+export interface AudioEmitter {
+  sound: string; // Sound or sound group id
+  volume: number;
+  loop: boolean;
+  playing: boolean; // Set to start the sound; cleared when a one-shot ends
+  stopFade: number; // Seconds to fade out when stopped or destroyed
+
+  // State maintained by AudioSystem
+  playingId: string | null;
+}
+
+export const AudioEmitter = defineComponent<AudioEmitter>(
+  'audioEmitter',
+  () => ({
+    sound: '',
+    volume: 1,
+    loop: false,
+    playing: true,
+    stopFade: 0.1,
+    playingId: null,
+  }),
+  { transient: ['playingId'] }
+);
@@ -0,0 +1,105 @@
+/**
+ * Core Components - Typed component definitions used by the core systems
+ */
+
+import { defineComponent } from '../core/Component';
+
+export interface Transform {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+  layer: number; // For z-ordering
+}
+
+export interface Sprite {
+  imageUrl: string; // Image or atlas asset id
+  frame?: string; // Frame name when imageUrl is an atlas
+  sourceX?: number;
+  sourceY?: number;
+  sourceWidth?: number;
+  sourceHeight?: number;
+  alpha?: number;
+  tint?: string;
+  flipX?: boolean;
+  flipY?: boolean;
+}
+
+export interface Velocity {
+  x: number;
+  y: number;
+}
+
+export interface SpriteAnimationFrame {
+  name?: string; // Atlas frame name (sets Sprite.frame)
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SpriteAnimation {
+  name: string;
+  frames: SpriteAnimationFrame[];
+  frameTime: number; // Time per frame in seconds
+  currentFrame: number;
+  currentTime: number;
+  loop: boolean;
+}
+
+export interface PhysicsBody {
+  shape: 'box' | 'circle' | 'polygon';
+  radius?: number; // Circle radius (defaults to half the smaller side)
+  points?: { x: number; y: number }[]; // Convex polygon, relative to the transform's top-left
+  sensor?: boolean; // Detects overlaps (trigger events) without colliding
+  mass: number;
+  drag: number;
+  elasticity: number;
+  static: boolean;
+  collisionLayer: number;
+  collisionMask: number;
+  bodyId?: string; // Set by PhysicsSystem once the world body exists
+}
+
+export const Transform = defineComponent<Transform>('transform', () => ({
+  x: 0,
+  y: 0,
+  width: 0,
+  height: 0,
+  rotation: 0,
+  scaleX: 1,
+  scaleY: 1,
+  layer: 0,
+}));
+
+export const Sprite = defineComponent<Sprite>('sprite');
+
+export const Velocity = defineComponent<Velocity>('velocity', () => ({
+  x: 0,
+  y: 0,
+}));
+
+export const SpriteAnimation = defineComponent<SpriteAnimation>(
+  'animation',
+  () => ({
+    name: '',
+    frames: [],
+    frameTime: 0.1,
+    currentFrame: 0,
+    currentTime: 0,
+    loop: true,
+  })
+);
+
+export const PhysicsBody = defineComponent<PhysicsBody>('rigidbody', () => ({
+  shape: 'box',
+  mass: 1,
+  drag: 0,
+  elasticity: 0.5,
+  static: false,
+  collisionLayer: 1,
+  collisionMask: 0xffffffff,
+}));
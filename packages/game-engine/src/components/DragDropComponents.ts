@@ -0,0 +1,65 @@
+/**
+ * Drag & Drop Components - Draggable items and the targets they drop onto
+ */
+
+import { defineComponent } from '../core/Component';
+import type { Entity, EntityId } from '../core/EntityManager';
+
+export interface Draggable {
+  enabled: boolean;
+  group?: string; // Matched against DropTarget.accepts
+  returnToOrigin: boolean; // Animate back when a drop is rejected
+  returnDuration: number; // ms
+  snapDuration: number; // ms
+  label?: string; // Announced when picked with the keyboard
+
+  // State maintained by DragDropSystem
+  dragging: boolean;
+  focused: boolean;
+  originX: number;
+  originY: number;
+  target?: EntityId; // Drop target the entity currently rests on
+}
+
+export interface DropTarget {
+  enabled: boolean;
+  accepts: string[]; // Draggable groups; empty accepts any group
+  capacity: number; // 0 for unlimited
+  snap: boolean; // Centre accepted items on the target
+  snapRadius: number; // Extra distance (world units) that still counts as over
+  label?: string;
+  validate?: (dragged: Entity, target: Entity) => boolean;
+
+  // State maintained by DragDropSystem
+  hovered: boolean;
+  occupants: EntityId[];
+}
+
+export const Draggable = defineComponent<Draggable>(
+  'draggable',
+  () => ({
+    enabled: true,
+    returnToOrigin: true,
+    returnDuration: 250,
+    snapDuration: 150,
+    dragging: false,
+    focused: false,
+    originX: 0,
+    originY: 0,
+  }),
+  { transient: ['dragging', 'focused'] }
+);
+
+export const DropTarget = defineComponent<DropTarget>(
+  'dropTarget',
+  () => ({
+    enabled: true,
+    accepts: [],
+    capacity: 0,
+    snap: true,
+    snapRadius: 0,
+    hovered: false,
+    occupants: [],
+  }),
+  { transient: ['hovered'] }
+);
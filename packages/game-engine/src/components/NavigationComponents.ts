@@ -0,0 +1,39 @@
+/**
+ * Navigation Components - Steering towards targets and along paths
+ */
+
+import { defineComponent } from '../core/Component';
+
+// 'seek' runs at full speed through the target; 'arrive' slows down and
+// stops on it; 'follow-path' visits each waypoint and arrives at the last
+export type SteeringBehavior = 'idle' | 'seek' | 'arrive' | 'follow-path';
+
+export interface Steering {
+  behavior: SteeringBehavior;
+  target: { x: number; y: number } | null; // World position for the entity's centre
+  path: { x: number; y: number }[]; // World waypoints for 'follow-path'
+  maxSpeed: number; // World units per second
+  maxAcceleration: number; // World units per second squared
+  slowingRadius: number; // 'arrive' starts braking this far out
+  arriveRadius: number; // Close enough to count as arrived
+  waypointRadius: number; // Close enough to move on to the next waypoint
+  loop: boolean; // Start the path over after the last waypoint
+
+  // State maintained by SteeringSystem
+  pathIndex: number;
+  arrived: boolean;
+}
+
+export const Steering = defineComponent<Steering>('steering', () => ({
+  behavior: 'idle',
+  target: null,
+  path: [],
+  maxSpeed: 120,
+  maxAcceleration: 600,
+  slowingRadius: 48,
+  arriveRadius: 2,
+  waypointRadius: 8,
+  loop: false,
+  pathIndex: 0,
+  arrived: false,
+}));
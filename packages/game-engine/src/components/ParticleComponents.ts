@@ -0,0 +1,139 @@
+/**
+ * Particle Components - Emitter configuration and named presets
+ */
+
+import { defineComponent } from '../core/Component';
+
+export type EmitterShape =
+  | { type: 'point' }
+  | { type: 'circle'; radius: number; edge?: boolean }
+  | { type: 'rect'; width: number; height: number }
+  | { type: 'line'; length: number; angle?: number };
+
+export type ParticleShape = 'circle' | 'square' | 'rect' | 'star' | 'leaf';
+
+// A constant, or keyframes spread evenly over a particle's lifetime
+export type ParticleCurve<T> = T | T[];
+
+export type Range = [min: number, max: number];
+
+export interface ParticleEmitterConfig {
+  mode: 'burst' | 'continuous';
+  shape: EmitterShape;
+  particleShape: ParticleShape;
+  burstCount: number; // Particles per burst
+  rate: number; // Particles per second (continuous)
+  duration: number; // Seconds to emit continuously (0 = until stopped)
+  maxParticles: number;
+
+  lifetime: Range; // Seconds
+  speed: Range;
+  angle: Range; // Launch direction in radians (0 = right, PI/2 = down)
+  spin: Range; // Radians per second
+  gravity: { x: number; y: number };
+  drag: number; // Velocity lost per second (0-1)
+  wobble: number; // Side-to-side sway amplitude (px/s)
+
+  size: ParticleCurve<number>;
+  alpha: ParticleCurve<number>;
+  color: ParticleCurve<string>; // Hex colours are interpolated
+  palette?: string[]; // Random fixed colour per particle (overrides color)
+}
+
+export interface ParticleEmitter extends ParticleEmitterConfig {
+  emitting: boolean; // Burst emitters fire once and switch this off
+  offsetX: number; // From the transform centre
+  offsetY: number;
+  autoDestroy: boolean; // Destroy the entity once finished and empty
+
+  // State maintained by ParticleSystem
+  elapsed: number;
+  accumulator: number;
+}
+
+const defaults = (): ParticleEmitter => ({
+  mode: 'burst',
+  shape: { type: 'point' },
+  particleShape: 'circle',
+  burstCount: 20,
+  rate: 10,
+  duration: 0,
+  maxParticles: 200,
+  lifetime: [1, 1],
+  speed: [50, 100],
+  angle: [0, Math.PI * 2],
+  spin: [0, 0],
+  gravity: { x: 0, y: 0 },
+  drag: 0,
+  wobble: 0,
+  size: 6,
+  alpha: [1, 0],
+  color: '#FFFFFF',
+  emitting: true,
+  offsetX: 0,
+  offsetY: 0,
+  autoDestroy: false,
+  elapsed: 0,
+  accumulator: 0,
+});
+
+export const ParticleEmitter = defineComponent<ParticleEmitter>(
+  'particleEmitter',
+  defaults
+);
+
+export type ParticlePresetName = 'confetti' | 'sparkle' | 'leaves';
+
+/**
+ * Named emitter presets for common celebrations and ambience
+ */
+export const ParticlePresets: Record<
+  ParticlePresetName,
+  Partial<ParticleEmitterConfig>
+> = {
+  confetti: {
+    mode: 'burst',
+    shape: { type: 'rect', width: 40, height: 10 },
+    particleShape: 'rect',
+    burstCount: 60,
+    lifetime: [1.5, 2.5],
+    speed: [250, 450],
+    angle: [-Math.PI * 0.8, -Math.PI * 0.2],
+    spin: [-8, 8],
+    gravity: { x: 0, y: 500 },
+    drag: 0.6,
+    wobble: 20,
+    size: 8,
+    alpha: [1, 1, 1, 0],
+    palette: ['#4caf50', '#ff9800', '#2196f3', '#9c27b0', '#e91e63', '#ffeb3b'],
+  },
+  sparkle: {
+    mode: 'burst',
+    shape: { type: 'circle', radius: 12 },
+    particleShape: 'star',
+    burstCount: 24,
+    lifetime: [0.4, 0.9],
+    speed: [20, 90],
+    angle: [0, Math.PI * 2],
+    spin: [-3, 3],
+    size: [2, 7, 0],
+    alpha: [0, 1, 0],
+    color: ['#FFFFFF', '#ffeb3b', '#ff9800'],
+  },
+  leaves: {
+    mode: 'continuous',
+    shape: { type: 'line', length: 800 },
+    particleShape: 'leaf',
+    rate: 3,
+    maxParticles: 40,
+    lifetime: [5, 8],
+    speed: [20, 45],
+    angle: [Math.PI / 2 - 0.3, Math.PI / 2 + 0.3],
+    spin: [-1.5, 1.5],
+    gravity: { x: 5, y: 8 },
+    wobble: 30,
+    size: 12,
+    alpha: [0, 1, 1, 0],
+    palette: ['#76c176', '#388e3c', '#ffa726', '#e65100'],
+  },
+};
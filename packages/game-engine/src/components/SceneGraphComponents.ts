@@ -0,0 +1,91 @@
+/**
+ * Scene Graph Components - Parent/child hierarchy and pointer interaction
+ */
+
+import { defineComponent } from '../core/Component';
+import type { EntityId } from '../core/EntityManager';
+
+export interface Hierarchy {
+  // Managed through SceneGraphSystem.setParent; don't edit directly
+  parent?: EntityId;
+  children: EntityId[];
+
+  // Local transform: top-left offset in the parent's unscaled space,
+  // rotation and scale relative to the parent (ignored on roots)
+  x: number;
+  y: number;
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+
+  // Multiplied down the tree
+  alpha: number;
+  visible: boolean;
+
+  // State maintained by SceneGraphSystem
+  worldAlpha: number;
+  worldVisible: boolean;
+  depth: number; // 0 for roots
+  dirty: boolean; // Force recomputation on the next update
+}
+
+export type ScenePointerEventType =
+  | 'down'
+  | 'up'
+  | 'move'
+  | 'click'
+  | 'over'
+  | 'out';
+
+export interface ScenePointerEvent {
+  type: ScenePointerEventType;
+  target: EntityId; // Topmost entity under the pointer
+  currentTarget: EntityId; // Entity whose handler is running
+  pointer: string; // 'mouse' or 'touch:<id>'
+  button: number;
+  x: number; // World space
+  y: number;
+  localX: number; // In currentTarget's unrotated, unscaled bounds
+  localY: number;
+  screenX: number;
+  screenY: number;
+  stopPropagation: () => void;
+}
+
+export interface Interactive {
+  enabled: boolean;
+  hitArea?: { x: number; y: number; width: number; height: number }; // Local bounds (defaults to the transform size)
+  handlers: Partial<
+    Record<ScenePointerEventType, (event: ScenePointerEvent) => void>
+  >;
+
+  // State maintained by SceneGraphSystem
+  hovered: boolean;
+  pressed: boolean;
+}
+
+export const Hierarchy = defineComponent<Hierarchy>('hierarchy', () => ({
+  children: [],
+  x: 0,
+  y: 0,
+  rotation: 0,
+  scaleX: 1,
+  scaleY: 1,
+  alpha: 1,
+  visible: true,
+  worldAlpha: 1,
+  worldVisible: true,
+  depth: 0,
+  dirty: true,
+}));
+
+export const Interactive = defineComponent<Interactive>(
+  'interactive',
+  () => ({
+    enabled: true,
+    handlers: {},
+    hovered: false,
+    pressed: false,
+  }),
+  { transient: ['hovered', 'pressed'] }
+);
@@ -0,0 +1,32 @@
+/**
+ * Text Components - Localized, wrapped text drawn in the world
+ */
+
+import { defineComponent } from '../core/Component';
+import type { MessageParams } from '../core/I18n';
+import type { TextAlign } from '../core/TextLayout';
+
+export interface Text {
+  text: string; // Shown as-is when there is no key
+  key?: string; // Message key translated through engine.i18n
+  params?: MessageParams; // Message arguments, e.g. { count: 3 }
+  font: string; // Canvas font at full size
+  color: string;
+  align: TextAlign; // Within the transform's width; 'start' follows the locale
+  wrap: boolean; // Wrap at the transform's width
+  shrinkToFit: boolean; // Shrink the font to fit the transform's box
+  minFontSize: number; // Smallest size shrinking goes to
+  lineHeight: number; // Multiple of the font size
+  maxLines?: number; // Cut with an ellipsis after this many lines
+}
+
+export const Text = defineComponent<Text>('text', () => ({
+  text: '',
+  font: '16px sans-serif',
+  color: '#000000',
+  align: 'start',
+  wrap: true,
+  shrinkToFit: false,
+  minFontSize: 8,
+  lineHeight: 1.25,
+}));
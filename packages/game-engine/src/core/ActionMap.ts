@@ -0,0 +1,696 @@
+/**
+ * Action Map - Named game actions bound to keys, mouse buttons, touch,
+ * gestures and gamepads, rebindable at runtime
+ */
+
+import { EventEmitter } from './EventEmitter';
+import { GamepadButtons } from './InputManager';
+import type { InputEvent, InputManager } from './InputManager';
+import type { GestureManager } from './GestureManager';
+import type { GestureEvent, SwipeDirection } from './GestureRecognizer';
+
+export const INPUT_BINDINGS_VERSION = 1;
+
+export type ActionBinding =
+  | { device: 'keyboard'; code: string } // KeyboardEvent.code, e.g. 'Space'
+  | { device: 'mouse'; button: number }
+  | { device: 'touch' } // Any finger on the canvas
+  | { device: 'gesture'; gesture: string; direction?: SwipeDirection } // Recognizer name
+  | { device: 'gamepad'; button: number; gamepad?: number } // Any gamepad unless set
+  | {
+      device: 'gamepad-axis';
+      axis: number;
+      direction: 1 | -1;
+      threshold?: number; // Default 0.5
+      gamepad?: number;
+    };
+
+export type ActionDevice = ActionBinding['device'];
+
+export interface ActionEvent {
+  action: string;
+  pressed: boolean;
+  value: number; // 0 to 1; analog for axes and triggers
+  binding: ActionBinding; // Binding that changed the state
+}
+
+// The subset of the Web Storage API used to persist bindings
+export interface BindingStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface ActionMapOptions {
+  storage?: BindingStorage | null; // Defaults to localStorage; null disables persistence
+  storageKey?: string;
+}
+
+export interface InputBindingsData {
+  version: number;
+  bindings: Record<string, ActionBinding[]>; // Actions rebound from their defaults
+}
+
+export interface BindingCaptureOptions {
+  devices?: ActionDevice[]; // Default keyboard, mouse, gamepad and gamepad-axis
+  replace?: boolean; // Replace the action's bindings rather than add (default true)
+  cancelCode?: string; // Key that cancels the capture (default 'Escape')
+}
+
+interface ActionState {
+  defaults: ActionBinding[];
+  bindings: ActionBinding[];
+  sources: Map<string, number>; // Held inputs and their values
+  downFrame: number;
+  upFrame: number;
+}
+
+interface BindingCapture {
+  action: string;
+  devices: ActionDevice[];
+  replace: boolean;
+  cancelCode: string;
+  resolve: (binding: ActionBinding | null) => void;
+}
+
+const DEFAULT_STORAGE_KEY = 'cropschool:input-bindings';
+const DEFAULT_AXIS_THRESHOLD = 0.5;
+
+const GAMEPAD_BUTTON_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(GamepadButtons).map(([name, index]) => [index, name])
+);
+
+function defaultStorage(): BindingStorage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    // Access throws when storage is blocked
+    return null;
+  }
+}
+
+/**
+ * Stable identity of a binding, used to compare and de-duplicate them
+ */
+export function bindingKey(binding: ActionBinding): string {
+  switch (binding.device) {
+    case 'keyboard':
+      return `keyboard:${binding.code}`;
+    case 'mouse':
+      return `mouse:${binding.button}`;
+    case 'touch':
+      return 'touch';
+    case 'gesture':
+      return `gesture:${binding.gesture}:${binding.direction ?? '*'}`;
+    case 'gamepad':
+      return `gamepad:${binding.gamepad ?? '*'}:${binding.button}`;
+    case 'gamepad-axis':
+      return `gamepad-axis:${binding.gamepad ?? '*'}:${binding.axis}:${binding.direction}`;
+  }
+}
+
+/**
+ * Short human-readable name for a binding, for settings screens
+ */
+export function describeBinding(binding: ActionBinding): string {
+  switch (binding.device) {
+    case 'keyboard':
+      return binding.code.replace(/^Key|^Digit/, '');
+    case 'mouse':
+      return (
+        ['Left click', 'Middle click', 'Right click'][binding.button] ??
+        `Mouse ${binding.button + 1}`
+      );
+    case 'touch':
+      return 'Touch';
+    case 'gesture':
+      return binding.direction
+        ? `${binding.gesture} ${binding.direction}`
+        : binding.gesture;
+    case 'gamepad':
+      return `Gamepad ${GAMEPAD_BUTTON_NAMES[binding.button] ?? binding.button}`;
+    case 'gamepad-axis':
+      return `Gamepad axis ${binding.axis}${binding.direction > 0 ? '+' : '-'}`;
+  }
+}
+
+/**
+ * Action Map - Games declare actions such as 'confirm' or 'move-left' with
+ * default bindings and query them instead of raw key codes. An action is
+ * pressed while any of its bindings is held. Bindings changed at runtime are
+ * saved to storage and win over the defaults the next time the action is
+ * defined. Emits 'action' with an ActionEvent on every press and release,
+ * plus 'action-down' or 'action-up'.
+ */
+export class ActionMap extends EventEmitter {
+  private inputManager: InputManager;
+  private gestures: GestureManager | null;
+  private storage: BindingStorage | null;
+  private storageKey: string;
+  private actions: Map<string, ActionState> = new Map();
+  private overrides: Record<string, ActionBinding[]> = {};
+  private capture: BindingCapture | null = null;
+  private frame = 0;
+
+  constructor(
+    inputManager: InputManager,
+    gestures: GestureManager | null = null,
+    options: ActionMapOptions = {}
+  ) {
+    super();
+    this.inputManager = inputManager;
+    this.gestures = gestures;
+    this.storage =
+      options.storage === undefined ? defaultStorage() : options.storage;
+    this.storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+
+    this.loadStoredBindings();
+
+    inputManager.on('input', this.handleInput);
+    inputManager.on('blur', this.handleBlur);
+    gestures?.on('gesture', this.handleGesture);
+  }
+
+  /**
+   * Declare an action with its default bindings. Redefining an action
+   * replaces its defaults; bindings saved by the player still apply.
+   */
+  public define(action: string, bindings: ActionBinding[]): this {
+    const existing = this.actions.get(action);
+    if (existing) this.releaseAction(action, existing);
+
+    const defaults = bindings.map(binding => ({ ...binding }));
+    const stored = this.overrides[action];
+    this.actions.set(action, {
+      defaults,
+      bindings: (stored ?? defaults).map(binding => ({ ...binding })),
+      sources: new Map(),
+      downFrame: -1,
+      upFrame: -1,
+    });
+    return this;
+  }
+
+  public hasAction(action: string): boolean {
+    return this.actions.has(action);
+  }
+
+  public getActions(): string[] {
+    return Array.from(this.actions.keys());
+  }
+
+  public getBindings(action: string): ActionBinding[] {
+    return this.getState(action).bindings.map(binding => ({ ...binding }));
+  }
+
+  public getDefaultBindings(action: string): ActionBinding[] {
+    return this.getState(action).defaults.map(binding => ({ ...binding }));
+  }
+
+  // Rebinding
+
+  /**
+   * Replace an action's bindings and persist the change
+   */
+  public setBindings(action: string, bindings: ActionBinding[]): void {
+    const state = this.getState(action);
+    this.releaseAction(action, state);
+
+    const seen = new Set<string>();
+    state.bindings = bindings
+      .filter(binding => {
+        const key = bindingKey(binding);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .map(binding => ({ ...binding }));
+
+    if (this.sameBindings(state.bindings, state.defaults)) {
+      delete this.overrides[action];
+    } else {
+      this.overrides[action] = state.bindings.map(binding => ({ ...binding }));
+    }
+    this.saveBindings();
+
+    this.emit('bindings-changed', {
+      action,
+      bindings: this.getBindings(action),
+    });
+  }
+
+  public addBinding(action: string, binding: ActionBinding): void {
+    this.setBindings(action, [...this.getState(action).bindings, binding]);
+  }
+
+  public removeBinding(action: string, binding: ActionBinding): void {
+    const key = bindingKey(binding);
+    this.setBindings(
+      action,
+      this.getState(action).bindings.filter(b => bindingKey(b) !== key)
+    );
+  }
+
+  /**
+   * Restore the default bindings of one action, or of every action
+   */
+  public resetBindings(action?: string): void {
+    const actions = action === undefined ? this.getActions() : [action];
+    for (const name of actions) {
+      this.setBindings(name, this.getState(name).defaults);
+    }
+  }
+
+  /**
+   * Actions, other than the one given, already using a binding
+   */
+  public findConflicts(binding: ActionBinding, except?: string): string[] {
+    const key = bindingKey(binding);
+    return this.getActions().filter(
+      action =>
+        action !== except &&
+        this.getState(action).bindings.some(b => bindingKey(b) === key)
+    );
+  }
+
+  /**
+   * Bind the next key, button or stick push to an action, for "press a
+   * key" settings screens. Input is swallowed while capturing. Resolves with
+   * the new binding, or null if the capture was cancelled.
+   */
+  public captureBinding(
+    action: string,
+    options: BindingCaptureOptions = {}
+  ): Promise<ActionBinding | null> {
+    this.getState(action);
+    this.cancelCapture();
+
+    return new Promise(resolve => {
+      this.capture = {
+        action,
+        devices: options.devices ?? [
+          'keyboard',
+          'mouse',
+          'gamepad',
+          'gamepad-axis',
+        ],
+        replace: options.replace ?? true,
+        cancelCode: options.cancelCode ?? 'Escape',
+        resolve,
+      };
+    });
+  }
+
+  public cancelCapture(): void {
+    const capture = this.capture;
+    this.capture = null;
+    capture?.resolve(null);
+  }
+
+  public isCapturing(): boolean {
+    return this.capture !== null;
+  }
+
+  // Queries
+
+  /**
+   * Check whether any of an action's bindings is held
+   */
+  public isPressed(action: string): boolean {
+    return (this.actions.get(action)?.sources.size ?? 0) > 0;
+  }
+
+  /**
+   * Check whether an action was pressed during the current frame
+   */
+  public wasPressed(action: string): boolean {
+    return this.actions.get(action)?.downFrame === this.frame;
+  }
+
+  /**
+   * Check whether an action was released during the current frame
+   */
+  public wasReleased(action: string): boolean {
+    return this.actions.get(action)?.upFrame === this.frame;
+  }
+
+  /**
+   * Strongest value among the held bindings (0 when released)
+   */
+  public getValue(action: string): number {
+    const state = this.actions.get(action);
+    if (!state) return 0;
+
+    let value = 0;
+    for (const sourceValue of state.sources.values()) {
+      value = Math.max(value, sourceValue);
+    }
+    return value;
+  }
+
+  /**
+   * Combine two opposing actions into -1..1, e.g.
+   * getAxis('move-left', 'move-right')
+   */
+  public getAxis(negative: string, positive: string): number {
+    return this.getValue(positive) - this.getValue(negative);
+  }
+
+  /**
+   * Sample stick axes and start the next frame (the engine calls this after
+   * input updates)
+   */
+  public update(): void {
+    this.pollAxes();
+    this.frame++;
+  }
+
+  /**
+   * Release every held action, e.g. when a pause menu opens
+   */
+  public releaseAll(): void {
+    for (const [action, state] of this.actions) {
+      this.releaseAction(action, state);
+    }
+  }
+
+  // Persistence
+
+  /**
+   * Serialize the player's rebound actions
+   */
+  public exportBindings(): InputBindingsData {
+    const bindings: Record<string, ActionBinding[]> = {};
+    for (const [action, list] of Object.entries(this.overrides)) {
+      bindings[action] = list.map(binding => ({ ...binding }));
+    }
+    return { version: INPUT_BINDINGS_VERSION, bindings };
+  }
+
+  /**
+   * Apply bindings previously exported, replacing all current overrides
+   */
+  public importBindings(data: InputBindingsData): void {
+    if (data.version !== INPUT_BINDINGS_VERSION) {
+      throw new Error(`Unsupported input bindings version: ${data.version}`);
+    }
+
+    this.overrides = {};
+    for (const [action, bindings] of Object.entries(data.bindings)) {
+      this.overrides[action] = bindings.map(binding => ({ ...binding }));
+    }
+
+    for (const [action, state] of this.actions) {
+      this.releaseAction(action, state);
+      state.bindings = (this.overrides[action] ?? state.defaults).map(
+        binding => ({ ...binding })
+      );
+    }
+    this.saveBindings();
+    this.emit('bindings-changed', { action: null });
+  }
+
+  private loadStoredBindings(): void {
+    const json = this.storage?.getItem(this.storageKey);
+    if (!json) return;
+
+    try {
+      const data = JSON.parse(json) as InputBindingsData;
+      if (data.version === INPUT_BINDINGS_VERSION) {
+        this.overrides = data.bindings ?? {};
+      }
+    } catch {
+      // Unreadable bindings fall back to the defaults
+    }
+  }
+
+  private saveBindings(): void {
+    if (!this.storage) return;
+
+    try {
+      if (Object.keys(this.overrides).length === 0) {
+        this.storage.removeItem(this.storageKey);
+      } else {
+        this.storage.setItem(
+          this.storageKey,
+          JSON.stringify(this.exportBindings())
+        );
+      }
+    } catch {
+      // Quota and privacy errors only cost persistence
+    }
+  }
+
+  // Input routing
+
+  private handleInput = (event: InputEvent): void => {
+    if (this.capture) {
+      this.captureInput(event);
+      return;
+    }
+
+    // Presses on UI widgets don't reach the game's bindings
+    if (event.handled) return;
+
+    const { data } = event;
+    const pressed = event.action === 'down';
+    if (!pressed && event.action !== 'up' && event.action !== 'cancel') return;
+
+    if (event.type === 'keyboard') {
+      this.route(
+        binding => binding.device === 'keyboard' && binding.code === data.code,
+        '',
+        pressed,
+        1
+      );
+    } else if (event.type === 'mouse') {
+      this.route(
+        binding => binding.device === 'mouse' && binding.button === data.button,
+        '',
+        pressed,
+        1
+      );
+    } else if (event.type === 'touch') {
+      if (data.gesture === 'long-press') return;
+      this.route(
+        binding => binding.device === 'touch',
+        `#${data.id}`,
+        pressed,
+        1
+      );
+    } else if (event.type === 'gamepad') {
+      this.route(
+        binding =>
+          binding.device === 'gamepad' &&
+          binding.button === data.button &&
+          (binding.gamepad === undefined || binding.gamepad === data.gamepad),
+        `#${data.gamepad}`,
+        pressed,
+        data.value ?? 1
+      );
+    }
+  };
+
+  private handleGesture = (event: GestureEvent): void => {
+    if (this.capture || event.phase === 'move') return;
+
+    const matches = (binding: ActionBinding): boolean =>
+      binding.device === 'gesture' &&
+      binding.gesture === event.type &&
+      (binding.direction === undefined ||
+        binding.direction === event.direction);
+
+    if (event.phase === 'start') {
+      this.route(matches, '', true, 1);
+      return;
+    }
+
+    // Discrete gestures only end; treat them as a press and release
+    for (const [action, state] of this.actions) {
+      for (const binding of state.bindings) {
+        if (!matches(binding)) continue;
+
+        const source = bindingKey(binding);
+        if (!state.sources.has(source)) {
+          this.press(action, state, source, binding, 1);
+        }
+        this.release(action, state, source, binding);
+      }
+    }
+  };
+
+  private handleBlur = (): void => {
+    // Releases outside the window never arrive
+    this.releaseAll();
+  };
+
+  private route(
+    matches: (binding: ActionBinding) => boolean,
+    suffix: string,
+    pressed: boolean,
+    value: number
+  ): void {
+    for (const [action, state] of this.actions) {
+      for (const binding of state.bindings) {
+        if (!matches(binding)) continue;
+
+        const source = bindingKey(binding) + suffix;
+        if (pressed) {
+          this.press(action, state, source, binding, value);
+        } else {
+          this.release(action, state, source, binding);
+        }
+      }
+    }
+  }
+
+  private pollAxes(): void {
+    const pads = this.inputManager.getState().gamepad.axes;
+
+    if (this.capture) {
+      for (const axes of pads.values()) {
+        const axis = axes.findIndex(
+          value => Math.abs(value) >= DEFAULT_AXIS_THRESHOLD
+        );
+        if (axis === -1) continue;
+
+        this.finishCapture({
+          device: 'gamepad-axis',
+          axis,
+          direction: axes[axis] > 0 ? 1 : -1,
+        });
+        break;
+      }
+      return;
+    }
+
+    for (const [action, state] of this.actions) {
+      for (const binding of state.bindings) {
+        if (binding.device !== 'gamepad-axis') continue;
+
+        const threshold = binding.threshold ?? DEFAULT_AXIS_THRESHOLD;
+        for (const [pad, axes] of pads) {
+          if (binding.gamepad !== undefined && binding.gamepad !== pad) {
+            continue;
+          }
+
+          const source = `${bindingKey(binding)}#${pad}`;
+          const value = (axes[binding.axis] ?? 0) * binding.direction;
+          if (value >= threshold) {
+            this.press(action, state, source, binding, Math.min(value, 1));
+          } else {
+            this.release(action, state, source, binding);
+          }
+        }
+      }
+    }
+  }
+
+  private press(
+    action: string,
+    state: ActionState,
+    source: string,
+    binding: ActionBinding,
+    value: number
+  ): void {
+    const wasPressed = state.sources.size > 0;
+    state.sources.set(source, value);
+    if (wasPressed) return;
+
+    // Transitions land in the frame that the next update() starts
+    state.downFrame = this.frame + 1;
+    this.emitAction(action, true, value, binding);
+  }
+
+  private release(
+    action: string,
+    state: ActionState,
+    source: string,
+    binding: ActionBinding
+  ): void {
+    if (!state.sources.delete(source) || state.sources.size > 0) return;
+
+    state.upFrame = this.frame + 1;
+    this.emitAction(action, false, 0, binding);
+  }
+
+  private releaseAction(action: string, state: ActionState): void {
+    if (state.sources.size === 0) return;
+
+    state.sources.clear();
+    state.upFrame = this.frame + 1;
+    this.emitAction(action, false, 0, state.bindings[0]);
+  }
+
+  private emitAction(
+    action: string,
+    pressed: boolean,
+    value: number,
+    binding: ActionBinding
+  ): void {
+    const event: ActionEvent = { action, pressed, value, binding };
+    this.emit('action', event);
+    this.emit(pressed ? 'action-down' : 'action-up', event);
+  }
+
+  private captureInput(event: InputEvent): void {
+    const capture = this.capture!;
+    if (event.action !== 'down') return;
+
+    const { data } = event;
+    let binding: ActionBinding | null = null;
+
+    if (event.type === 'keyboard') {
+      if (data.code === capture.cancelCode) {
+        this.cancelCapture();
+        return;
+      }
+      binding = { device: 'keyboard', code: data.code };
+    } else if (event.type === 'mouse') {
+      binding = { device: 'mouse', button: data.button };
+    } else if (event.type === 'touch') {
+      binding = { device: 'touch' };
+    } else if (event.type === 'gamepad') {
+      binding = { device: 'gamepad', button: data.button };
+    }
+
+    if (binding) this.finishCapture(binding);
+  }
+
+  private finishCapture(binding: ActionBinding): void {
+    const capture = this.capture!;
+    if (!capture.devices.includes(binding.device)) return;
+
+    this.capture = null;
+    if (capture.replace) {
+      this.setBindings(capture.action, [binding]);
+    } else {
+      this.addBinding(capture.action, binding);
+    }
+    capture.resolve({ ...binding });
+  }
+
+  private getState(action: string): ActionState {
+    const state = this.actions.get(action);
+    if (!state) {
+      throw new Error(`Input action '${action}' is not defined`);
+    }
+    return state;
+  }
+
+  private sameBindings(a: ActionBinding[], b: ActionBinding[]): boolean {
+    return (
+      a.length === b.length &&
+      a.every((binding, i) => bindingKey(binding) === bindingKey(b[i]))
+    );
+  }
+
+  public destroy(): void {
+    this.cancelCapture();
+    this.inputManager.off('input', this.handleInput);
+    this.inputManager.off('blur', this.handleBlur);
+    this.gestures?.off('gesture', this.handleGesture);
+    this.actions.clear();
+    this.removeAllListeners();
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Animation Clip - Reusable keyframe tracks with labels and timed events,
+ * stored in a versioned JSON format
+ */
+
+import { Easing } from './AnimationManager';
+import type { AssetManager } from './AssetManager';
+
+export const ANIMATION_CLIP_VERSION = 1;
+
+// Easing into a keyframe from the previous one; 'step' holds the previous value
+export type ClipEasing = keyof typeof Easing | 'step';
+
+export interface ClipKeyframe {
+  time: number; // milliseconds
+  value: number;
+  easing?: ClipEasing; // Defaults to linear
+}
+
+export interface ClipTrack {
+  target: string; // Name bound to an object when the clip is played
+  property: string; // Property path, e.g. 'x' or 'scale.x'
+  keyframes: ClipKeyframe[];
+}
+
+export interface ClipEvent {
+  time: number;
+  name: string;
+  data?: unknown;
+}
+
+// Objects bound to a clip's track targets by name
+export type ClipTargets = Record<string, object>;
+
+export interface AnimationClipData {
+  version: number;
+  name: string;
+  duration?: number; // Defaults to the last keyframe or event
+  tracks: ClipTrack[];
+  labels?: Record<string, number>;
+  events?: ClipEvent[];
+}
+
+function isClipEasing(name: string): name is ClipEasing {
+  return name === 'step' || Object.prototype.hasOwnProperty.call(Easing, name);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function setPath(target: object, path: string, value: number): void {
+  const keys = path.split('.');
+  let object: unknown = target;
+  for (let i = 0; i < keys.length - 1; i++) {
+    object = isObject(object) ? object[keys[i]] : undefined;
+  }
+  if (isObject(object)) {
+    object[keys[keys.length - 1]] = value;
+  }
+}
+
+/**
+ * Animation Clip - Keyframe tracks animate named targets, so one clip can
+ * drive several objects and be replayed on different ones. Play clips
+ * through AnimationManager.playClip.
+ */
+export class AnimationClip {
+  public readonly name: string;
+  public readonly tracks: ClipTrack[] = [];
+  public readonly labels: Record<string, number> = {};
+  public readonly events: ClipEvent[] = [];
+
+  private fixedDuration?: number;
+
+  constructor(name: string, duration?: number) {
+    this.name = name;
+    this.fixedDuration = duration;
+  }
+
+  /**
+   * Create a clip from the JSON clip format
+   */
+  public static fromJSON(data: AnimationClipData): AnimationClip {
+    if (data.version !== ANIMATION_CLIP_VERSION) {
+      throw new Error(`Unsupported animation clip version: ${data.version}`);
+    }
+
+    const clip = new AnimationClip(data.name, data.duration);
+    for (const track of data.tracks) {
+      clip.addTrack(track.target, track.property, track.keyframes);
+    }
+    for (const [label, time] of Object.entries(data.labels ?? {})) {
+      clip.addLabel(label, time);
+    }
+    for (const event of data.events ?? []) {
+      clip.addEvent(event.time, event.name, event.data);
+    }
+
+    return clip;
+  }
+
+  /**
+   * Load a JSON clip asset through the AssetManager
+   */
+  public static async load(
+    assetManager: AssetManager,
+    clipId: string
+  ): Promise<AnimationClip> {
+    await assetManager.loadAsset(clipId);
+    const data = assetManager.getJSON<AnimationClipData>(clipId);
+    if (!data) {
+      throw new Error(`Animation clip '${clipId}' is not loaded`);
+    }
+    return AnimationClip.fromJSON(data);
+  }
+
+  /**
+   * Length in milliseconds
+   */
+  public get duration(): number {
+    if (this.fixedDuration !== undefined) return this.fixedDuration;
+
+    let duration = 0;
+    for (const track of this.tracks) {
+      duration = Math.max(
+        duration,
+        track.keyframes[track.keyframes.length - 1].time
+      );
+    }
+    for (const event of this.events) {
+      duration = Math.max(duration, event.time);
+    }
+    return duration;
+  }
+
+  /**
+   * Add a track animating one property of a named target
+   */
+  public addTrack(
+    target: string,
+    property: string,
+    keyframes: ClipKeyframe[]
+  ): this {
+    if (keyframes.length === 0) {
+      throw new Error(`Track '${target}.${property}' has no keyframes`);
+    }
+    for (const keyframe of keyframes) {
+      if (keyframe.easing && !isClipEasing(keyframe.easing)) {
+        throw new Error(
+          `Unknown easing '${keyframe.easing}' in track '${target}.${property}'`
+        );
+      }
+    }
+
+    this.tracks.push({
+      target,
+      property,
+      keyframes: keyframes
+        .map(keyframe => ({ ...keyframe }))
+        .sort((a, b) => a.time - b.time),
+    });
+    return this;
+  }
+
+  /**
+   * Name a time so playback can start or seek there
+   */
+  public addLabel(name: string, time: number): this {
+    this.labels[name] = time;
+    return this;
+  }
+
+  /**
+   * Fire a named event when playback crosses a time
+   */
+  public addEvent(time: number, name: string, data?: unknown): this {
+    this.events.push({ time, name, data });
+    this.events.sort((a, b) => a.time - b.time);
+    return this;
+  }
+
+  /**
+   * Resolve a label or time to milliseconds
+   */
+  public resolveTime(timeOrLabel: number | string): number {
+    if (typeof timeOrLabel === 'number') return timeOrLabel;
+
+    const time = this.labels[timeOrLabel];
+    if (time === undefined) {
+      throw new Error(
+        `Animation clip '${this.name}' has no label '${timeOrLabel}'`
+      );
+    }
+    return time;
+  }
+
+  /**
+   * Value of a track at a time, holding the first and last keyframes
+   */
+  public valueAt(track: ClipTrack, time: number): number {
+    const keyframes = track.keyframes;
+    if (time <= keyframes[0].time) return keyframes[0].value;
+
+    for (let i = 1; i < keyframes.length; i++) {
+      const next = keyframes[i];
+      if (time > next.time) continue;
+
+      const previous = keyframes[i - 1];
+      const easing = next.easing ?? 'linear';
+      if (easing === 'step') {
+        return time < next.time ? previous.value : next.value;
+      }
+
+      const span = next.time - previous.time;
+      const t = span > 0 ? (time - previous.time) / span : 1;
+      return previous.value + (next.value - previous.value) * Easing[easing](t);
+    }
+
+    return keyframes[keyframes.length - 1].value;
+  }
+
+  /**
+   * Write every track's value at a time onto the bound targets. Tracks
+   * whose target isn't bound are skipped.
+   */
+  public sample(time: number, targets: ClipTargets): void {
+    for (const track of this.tracks) {
+      const target = targets[track.target];
+      if (target != null) {
+        setPath(target, track.property, this.valueAt(track, time));
+      }
+    }
+  }
+
+  /**
+   * Serialize to the JSON clip format
+   */
+  public toJSON(): AnimationClipData {
+    const data: AnimationClipData = {
+      version: ANIMATION_CLIP_VERSION,
+      name: this.name,
+      tracks: this.tracks.map(track => ({
+        target: track.target,
+        property: track.property,
+        keyframes: track.keyframes.map(keyframe => ({ ...keyframe })),
+      })),
+      labels: { ...this.labels },
+      events: this.events.map(event => ({ ...event })),
+    };
+    if (this.fixedDuration !== undefined) {
+      data.duration = this.fixedDuration;
+    }
+    return data;
+  }
+}
@@ -3,6 +3,8 @@
  */
 
 import { EventEmitter } from './EventEmitter';
+import { SystemClock, type EngineClock } from './Clock';
+import type { AnimationClip, ClipTargets } from './AnimationClip';
 
 export type EasingFunction = (t: number) => number;
 
@@ -96,10 +98,373 @@ export interface Tween {
   onComplete?: () => void;
 }
 
+export interface TimelineOptions {
+  rate?: number; // Playback speed multiplier
+  reversed?: boolean; // Play from the end towards the start
+  repeat?: number; // Total plays as in AnimationOptions; -1 for infinite
+  yoyo?: boolean; // Alternate direction on each repeat
+  from?: number | string; // Start time or label
+  paused?: boolean; // Create without starting playback
+  onEvent?: (name: string, data?: unknown) => void;
+  onRepeat?: () => void;
+  onComplete?: () => void;
+}
+
+// Playback state for save/restore; the clip and targets are rebound by the caller
+export interface TimelineState {
+  clip: string;
+  time: number;
+  rate: number;
+  reversed: boolean;
+  backward: boolean; // Inside the return half of a yoyo
+  repeat: number;
+  yoyo: boolean;
+  iteration: number;
+  playing: boolean;
+  paused: boolean;
+}
+
+/**
+ * Timeline - Playback of an AnimationClip on a set of targets. Advanced by
+ * AnimationManager from the update delta, so it follows the engine's fixed
+ * timestep rather than wall-clock time. Emits 'play', 'event', 'repeat',
+ * 'stop' and 'complete'.
+ */
+export class Timeline extends EventEmitter {
+  public readonly id: string;
+  public readonly clip: AnimationClip;
+  public targets: ClipTargets;
+  public repeat: number;
+  public yoyo: boolean;
+
+  private options: TimelineOptions;
+  private time = 0;
+  private rate: number;
+  private reversed: boolean;
+  private backward = false;
+  private iteration = 0;
+  private playing = false;
+  private paused = false;
+  private inclusiveStart = true; // Fire events at the exact start position
+  private callbacks: Array<{ time: number; callback: () => void }> = [];
+
+  constructor(
+    id: string,
+    clip: AnimationClip,
+    targets: ClipTargets,
+    options: TimelineOptions = {}
+  ) {
+    super();
+    this.id = id;
+    this.clip = clip;
+    this.targets = targets;
+    this.options = options;
+    this.rate = Math.max(0, options.rate ?? 1);
+    this.reversed = options.reversed ?? false;
+    this.repeat = options.repeat ?? 0;
+    this.yoyo = options.yoyo ?? false;
+    this.time = this.reversed ? clip.duration : 0;
+  }
+
+  /**
+   * Start playback, optionally from a time or label. Stopped and finished
+   * timelines start again from the beginning; paused ones resume.
+   */
+  public play(from?: number | string): this {
+    if (!this.playing) {
+      this.iteration = 0;
+      this.backward = false;
+    }
+
+    if (from !== undefined) {
+      this.seek(from);
+    } else if (!this.playing) {
+      this.time = this.reversed ? this.clip.duration : 0;
+      this.inclusiveStart = true;
+    }
+
+    this.playing = true;
+    this.paused = false;
+    this.apply();
+    this.emit('play', this);
+    return this;
+  }
+
+  public pause(): this {
+    this.paused = true;
+    return this;
+  }
+
+  public resume(): this {
+    this.paused = false;
+    return this;
+  }
+
+  /**
+   * Stop where it is; play() starts over
+   */
+  public stop(): this {
+    if (this.playing) {
+      this.playing = false;
+      this.paused = false;
+      this.emit('stop', this);
+    }
+    return this;
+  }
+
+  /**
+   * Jump to a time or label without firing events in between
+   */
+  public seek(timeOrLabel: number | string): this {
+    const time = this.clip.resolveTime(timeOrLabel);
+    this.time = Math.min(Math.max(time, 0), this.clip.duration);
+    this.inclusiveStart = true;
+    this.apply();
+    return this;
+  }
+
+  /**
+   * Flip the playback direction in place
+   */
+  public reverse(): this {
+    this.reversed = !this.reversed;
+    this.inclusiveStart = false;
+    return this;
+  }
+
+  public setRate(rate: number): this {
+    this.rate = Math.max(0, rate);
+    return this;
+  }
+
+  public getRate(): number {
+    return this.rate;
+  }
+
+  public getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Position within the clip (0-1)
+   */
+  public getProgress(): number {
+    const duration = this.clip.duration;
+    return duration > 0 ? this.time / duration : 1;
+  }
+
+  public isPlaying(): boolean {
+    return this.playing && !this.paused;
+  }
+
+  public isReversed(): boolean {
+    return this.reversed;
+  }
+
+  /**
+   * Call a function when playback crosses a time or label
+   */
+  public addCallback(timeOrLabel: number | string, callback: () => void): this {
+    this.callbacks.push({ time: this.clip.resolveTime(timeOrLabel), callback });
+    return this;
+  }
+
+  public removeCallback(callback: () => void): void {
+    this.callbacks = this.callbacks.filter(c => c.callback !== callback);
+  }
+
+  /**
+   * Advance by elapsed milliseconds (before the playback rate). Returns
+   * true when the timeline finished during this call.
+   */
+  public advance(deltaMs: number): boolean {
+    if (!this.playing || this.paused) return false;
+
+    const duration = this.clip.duration;
+    let remaining = deltaMs * this.rate;
+
+    for (;;) {
+      const direction = this.getDirection();
+      const boundary = direction > 0 ? duration : 0;
+      const distance = Math.abs(boundary - this.time);
+      const previous = this.time;
+
+      if (remaining >= distance) {
+        this.time = boundary;
+        remaining -= distance;
+      } else {
+        this.time += direction * remaining;
+        remaining = 0;
+      }
+
+      this.fireBetween(previous, this.time, direction);
+      this.inclusiveStart = false;
+
+      if (this.time !== boundary) break;
+
+      if (!this.nextIteration()) {
+        this.playing = false;
+        this.apply();
+        this.options.onComplete?.();
+        this.emit('complete', this);
+        return true;
+      }
+
+      // Zero-length clips repeat at most once per update
+      if (remaining <= 0 || duration === 0) break;
+    }
+
+    this.apply();
+    return false;
+  }
+
+  /**
+   * Snapshot playback state
+   */
+  public getState(): TimelineState {
+    return {
+      clip: this.clip.name,
+      time: this.time,
+      rate: this.rate,
+      reversed: this.reversed,
+      backward: this.backward,
+      repeat: this.repeat,
+      yoyo: this.yoyo,
+      iteration: this.iteration,
+      playing: this.playing,
+      paused: this.paused,
+    };
+  }
+
+  /**
+   * Restore playback state from getState (the clip must match)
+   */
+  public setState(state: TimelineState): this {
+    if (state.clip !== this.clip.name) {
+      throw new Error(
+        `Timeline state is for clip '${state.clip}', not '${this.clip.name}'`
+      );
+    }
+
+    this.time = state.time;
+    this.rate = state.rate;
+    this.reversed = state.reversed;
+    this.backward = state.backward;
+    this.repeat = state.repeat;
+    this.yoyo = state.yoyo;
+    this.iteration = state.iteration;
+    this.paused = state.paused;
+    this.inclusiveStart = false;
+    this.apply();
+
+    if (state.playing && !this.playing) {
+      this.playing = true;
+      this.emit('play', this);
+    } else if (!state.playing) {
+      this.stop();
+    }
+    return this;
+  }
+
+  private getDirection(): number {
+    return this.reversed !== this.backward ? -1 : 1;
+  }
+
+  private nextIteration(): boolean {
+    this.iteration++;
+    if (this.repeat !== -1 && this.iteration >= Math.max(1, this.repeat)) {
+      return false;
+    }
+
+    if (this.yoyo) {
+      this.backward = !this.backward;
+    } else {
+      this.time = this.getDirection() > 0 ? 0 : this.clip.duration;
+      this.inclusiveStart = true;
+    }
+
+    this.options.onRepeat?.();
+    this.emit('repeat', this);
+    return true;
+  }
+
+  private fireBetween(from: number, to: number, direction: number): void {
+    const crossed = (time: number): boolean =>
+      direction > 0
+        ? (this.inclusiveStart ? time >= from : time > from) && time <= to
+        : (this.inclusiveStart ? time <= from : time < from) && time >= to;
+
+    const due: Array<{ time: number; fire: () => void }> = [];
+    for (const event of this.clip.events) {
+      if (crossed(event.time)) {
+        due.push({
+          time: event.time,
+          fire: () => {
+            this.options.onEvent?.(event.name, event.data);
+            this.emit('event', {
+              timeline: this,
+              name: event.name,
+              data: event.data,
+            });
+          },
+        });
+      }
+    }
+    for (const { time, callback } of this.callbacks) {
+      if (crossed(time)) due.push({ time, fire: callback });
+    }
+
+    due.sort((a, b) => (a.time - b.time) * direction);
+    for (const { fire } of due) {
+      fire();
+    }
+  }
+
+  private apply(): void {
+    this.clip.sample(this.time, this.targets);
+  }
+}
+
+// A property animation in a save state. Targets are stored as references
+// chosen by the caller; callbacks can't be saved.
+export interface SavedAnimation<R> {
+  id: string;
+  target: R;
+  properties: Record<string, { from: number; to: number }>;
+  duration: number;
+  easing?: string; // Name in Easing; custom easings load as the default
+  repeat: number;
+  yoyo: boolean;
+  elapsed: number; // ms into the current play; negative while delayed
+  repeatCount: number;
+  yoyoReverse: boolean;
+  paused: boolean;
+}
+
+export interface SavedTimeline<R> {
+  id: string;
+  targets: Record<string, R>;
+  state: TimelineState;
+}
+
+// Running animations and timelines for save/restore (tweens are callbacks
+// only and aren't included)
+export interface AnimationManagerState<R> {
+  animations: SavedAnimation<R>[];
+  timelines: SavedTimeline<R>[];
+}
+
 export class AnimationManager extends EventEmitter {
   private animations: Map<string, Animation> = new Map();
   private tweens: Map<string, Tween> = new Map();
+  private timelines: Map<string, Timeline> = new Map();
   private nextId = 1;
+  private clock: EngineClock;
+
+  constructor(clock: EngineClock = new SystemClock()) {
+    super();
+    this.clock = clock;
+  }
 
   /**
    * Create an animation for an object
@@ -137,7 +502,7 @@ export class AnimationManager extends EventEmitter {
         yoyo: false,
         ...options,
       },
-      startTime: performance.now() + (options.delay || 0),
+      startTime: this.clock.now() + (options.delay || 0),
       currentTime: 0,
       isPlaying: true,
       isPaused: false,
@@ -178,7 +543,7 @@ export class AnimationManager extends EventEmitter {
       duration,
       easing: options.easing || Easing.easeOutQuad,
       delay: options.delay || 0,
-      startTime: performance.now() + (options.delay || 0),
+      startTime: this.clock.now() + (options.delay || 0),
       onUpdate,
       onComplete: options.onComplete,
     };
@@ -187,11 +552,58 @@ export class AnimationManager extends EventEmitter {
     return id;
   }
 
+  /**
+   * Play a keyframe clip on named targets, e.g.
+   * playClip(celebrate, { star: starTransform, label: labelSprite })
+   */
+  public playClip(
+    clip: AnimationClip,
+    targets: ClipTargets,
+    options: TimelineOptions = {}
+  ): Timeline {
+    const timeline = new Timeline(
+      `timeline_${this.nextId++}`,
+      clip,
+      targets,
+      options
+    );
+
+    this.trackTimeline(timeline);
+    timeline.play(options.from);
+    if (options.paused) {
+      timeline.pause();
+    }
+
+    this.emit('timeline-started', timeline);
+    return timeline;
+  }
+
+  private trackTimeline(timeline: Timeline): void {
+    // Finished timelines drop out of updates until they're played again
+    timeline.on('play', () => this.timelines.set(timeline.id, timeline));
+    timeline.on('event', event => this.emit('timeline-event', event));
+    timeline.on('stop', () => {
+      this.timelines.delete(timeline.id);
+      this.emit('timeline-stopped', timeline);
+    });
+    timeline.on('complete', () => {
+      this.timelines.delete(timeline.id);
+      this.emit('timeline-complete', timeline);
+    });
+  }
+
+  /**
+   * Get an active timeline by ID
+   */
+  public getTimeline(id: string): Timeline | undefined {
+    return this.timelines.get(id);
+  }
+
   /**
    * Update all animations
    */
   public update(deltaTime: number): void {
-    const currentTime = performance.now();
+    const currentTime = this.clock.now();
 
     // Update animations
     for (const animation of this.animations.values()) {
@@ -204,6 +616,11 @@ export class AnimationManager extends EventEmitter {
     for (const tween of this.tweens.values()) {
       this.updateTween(tween, currentTime);
     }
+
+    // Timelines follow the update delta so rate and seek stay exact
+    for (const timeline of Array.from(this.timelines.values())) {
+      timeline.advance(deltaTime * 1000);
+    }
   }
 
   private updateAnimation(animation: Animation, currentTime: number): void {
@@ -271,7 +688,7 @@ export class AnimationManager extends EventEmitter {
         animation.repeatCount < animation.options.repeat
       ) {
         // Reset animation
-        animation.startTime = performance.now();
+        animation.startTime = this.clock.now();
 
         // Handle yoyo
         if (animation.options.yoyo) {
@@ -309,8 +726,10 @@ export class AnimationManager extends EventEmitter {
     const animation = this.animations.get(id);
     if (animation) {
       animation.isPaused = true;
+      animation.currentTime = this.clock.now() - animation.startTime;
       this.emit('animation-paused', animation);
     }
+    this.timelines.get(id)?.pause();
   }
 
   /**
@@ -321,9 +740,10 @@ export class AnimationManager extends EventEmitter {
     if (animation) {
       animation.isPaused = false;
       // Adjust start time to account for pause duration
-      animation.startTime = performance.now() - animation.currentTime;
+      animation.startTime = this.clock.now() - animation.currentTime;
       this.emit('animation-resumed', animation);
     }
+    this.timelines.get(id)?.resume();
   }
 
   /**
@@ -337,10 +757,11 @@ export class AnimationManager extends EventEmitter {
       this.animations.delete(id);
     }
 
-    // Also check tweens
+    // Also check tweens and timelines
     if (this.tweens.has(id)) {
       this.tweens.delete(id);
     }
+    this.timelines.get(id)?.stop();
   }
 
   /**
@@ -352,6 +773,11 @@ export class AnimationManager extends EventEmitter {
         this.stop(id);
       }
     }
+    for (const [id, timeline] of this.timelines) {
+      if (Object.values(timeline.targets).includes(target)) {
+        this.stop(id);
+      }
+    }
   }
 
   /**
@@ -361,6 +787,9 @@ export class AnimationManager extends EventEmitter {
     for (const id of this.animations.keys()) {
       this.stop(id);
     }
+    for (const id of this.timelines.keys()) {
+      this.stop(id);
+    }
     this.tweens.clear();
   }
 
@@ -369,7 +798,10 @@ export class AnimationManager extends EventEmitter {
    */
   public isPlaying(id: string): boolean {
     const animation = this.animations.get(id);
-    return animation ? animation.isPlaying && !animation.isPaused : false;
+    if (!animation) {
+      return this.timelines.get(id)?.isPlaying() ?? false;
+    }
+    return animation.isPlaying && !animation.isPaused;
   }
 
   /**
@@ -377,9 +809,11 @@ export class AnimationManager extends EventEmitter {
    */
   public getProgress(id: string): number {
     const animation = this.animations.get(id);
-    if (!animation) return 0;
+    if (!animation) {
+      return this.timelines.get(id)?.getProgress() ?? 0;
+    }
 
-    const elapsed = performance.now() - animation.startTime;
+    const elapsed = this.clock.now() - animation.startTime;
     return Math.min(elapsed / animation.options.duration, 1);
   }
 
@@ -450,11 +884,147 @@ export class AnimationManager extends EventEmitter {
     return Promise.all(promises).then(() => {});
   }
 
+  /**
+   * Snapshot running animations and timelines. toRef turns each target
+   * into something JSON-safe; targets it can't reference are skipped.
+   */
+  public getState<R>(
+    toRef: (target: object) => R | undefined
+  ): AnimationManagerState<R> {
+    const now = this.clock.now();
+    const animations: SavedAnimation<R>[] = [];
+    const timelines: SavedTimeline<R>[] = [];
+
+    for (const animation of this.animations.values()) {
+      const target = toRef(animation.target);
+      if (target === undefined) continue;
+
+      const { options } = animation;
+      const properties: SavedAnimation<R>['properties'] = {};
+      for (const [key, { from, to }] of Object.entries(animation.properties)) {
+        properties[key] = { from, to };
+      }
+
+      animations.push({
+        id: animation.id,
+        target,
+        properties,
+        duration: options.duration,
+        easing: (Object.keys(Easing) as Array<keyof typeof Easing>).find(
+          name => Easing[name] === options.easing
+        ),
+        repeat: options.repeat ?? 0,
+        yoyo: options.yoyo ?? false,
+        elapsed: animation.isPaused
+          ? animation.currentTime
+          : now - animation.startTime,
+        repeatCount: animation.repeatCount,
+        yoyoReverse: animation.isYoyoReverse,
+        paused: animation.isPaused,
+      });
+    }
+
+    for (const timeline of this.timelines.values()) {
+      const targets: Record<string, R> = {};
+      const complete = Object.entries(timeline.targets).every(
+        ([name, target]) => {
+          const ref = toRef(target);
+          if (ref !== undefined) targets[name] = ref;
+          return ref !== undefined;
+        }
+      );
+      if (complete) {
+        timelines.push({
+          id: timeline.id,
+          targets,
+          state: timeline.getState(),
+        });
+      }
+    }
+
+    return { animations, timelines };
+  }
+
+  /**
+   * Replace running animations with a snapshot. fromRef resolves saved
+   * targets and getClip finds timeline clips by name; entries that can't be
+   * resolved are skipped.
+   */
+  public setState<R>(
+    state: AnimationManagerState<R>,
+    fromRef: (ref: R) => object | undefined,
+    getClip: (name: string) => AnimationClip | undefined
+  ): void {
+    this.stopAll();
+    const now = this.clock.now();
+
+    for (const saved of state.animations) {
+      const target = fromRef(saved.target);
+      if (target === undefined) continue;
+
+      const properties: Animation['properties'] = {};
+      for (const [key, { from, to }] of Object.entries(saved.properties)) {
+        const current = (target as Record<string, unknown>)[key];
+        properties[key] = {
+          from,
+          to,
+          current: typeof current === 'number' ? current : from,
+        };
+      }
+
+      this.animations.set(saved.id, {
+        id: saved.id,
+        target,
+        properties,
+        options: {
+          duration: saved.duration,
+          easing:
+            (saved.easing && Easing[saved.easing as keyof typeof Easing]) ||
+            Easing.easeOutQuad,
+          delay: 0,
+          repeat: saved.repeat,
+          yoyo: saved.yoyo,
+        },
+        startTime: now - saved.elapsed,
+        currentTime: saved.elapsed,
+        isPlaying: true,
+        isPaused: saved.paused,
+        repeatCount: saved.repeatCount,
+        isYoyoReverse: saved.yoyoReverse,
+      });
+      this.reserveId(saved.id);
+    }
+
+    for (const saved of state.timelines) {
+      const clip = getClip(saved.state.clip);
+      const targets: ClipTargets = {};
+      const complete = Object.entries(saved.targets).every(([name, ref]) => {
+        const target = fromRef(ref);
+        if (target !== undefined) targets[name] = target;
+        return target !== undefined;
+      });
+      if (!clip || !complete) continue;
+
+      const timeline = new Timeline(saved.id, clip, targets);
+      this.trackTimeline(timeline);
+      timeline.setState(saved.state);
+      this.reserveId(saved.id);
+    }
+  }
+
+  // Keep new IDs from colliding with restored ones
+  private reserveId(id: string): void {
+    const number = Number(id.slice(id.lastIndexOf('_') + 1));
+    if (Number.isFinite(number)) {
+      this.nextId = Math.max(this.nextId, number + 1);
+    }
+  }
+
   /**
    * Get active animation count
    */
   public getActiveCount(): number {
-    return this.animations.size + this.tweens.size;
+    return this.animations.size + this.tweens.size + this.timelines.size;
   }
 
   /**
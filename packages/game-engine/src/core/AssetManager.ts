@@ -3,11 +3,12 @@
  */
 
 import { EventEmitter } from './EventEmitter';
+import { TextureAtlas, type AtlasData } from './TextureAtlas';
 
 export interface Asset {
   id: string;
   url: string;
-  type: 'image' | 'audio' | 'json' | 'text';
+  type: 'image' | 'audio' | 'json' | 'text' | 'atlas';
   data?: any;
   loaded: boolean;
   error?: string;
@@ -20,11 +21,36 @@ export interface LoadProgress {
   currentAsset?: string;
 }
 
+export interface AssetDescriptor {
+  id: string;
+  url: string;
+  type: Asset['type'];
+}
+
+export interface AssetManifest {
+  baseUrl?: string; // Prefix for relative asset URLs
+  bundles: Record<string, AssetDescriptor[]>;
+}
+
+export interface BundleLoadOptions {
+  concurrency?: number; // Assets loading at once (default 4)
+  retries?: number; // Extra attempts per asset (default 2)
+  retryDelay?: number; // ms before the first retry, doubled each time (default 250)
+  onProgress?: (progress: LoadProgress) => void;
+}
+
 export class AssetManager extends EventEmitter {
   private assets: Map<string, Asset> = new Map();
   private loadingPromises: Map<string, Promise<void>> = new Map();
   private cache: Map<string, any> = new Map();
 
+  // Bundles and reference counts
+  private bundles: Map<string, string[]> = new Map();
+  private bundleRefs: Map<string, number> = new Map();
+  private assetRefs: Map<string, number> = new Map();
+  // Aborted when a bundle's last reference goes, cancelling its loads in flight
+  private bundleLifetimes: Map<string, AbortController> = new Map();
+
   /**
    * Add an asset to load
    */
@@ -76,6 +102,7 @@ export class AssetManager extends EventEmitter {
     try {
       await loadPromise;
       asset.loaded = true;
+      asset.error = undefined;
       this.emit('asset-loaded', asset);
     } catch (error) {
       asset.error = error instanceof Error ? error.message : 'Unknown error';
@@ -123,6 +150,262 @@ export class AssetManager extends EventEmitter {
     this.emit('all-assets-loaded');
   }
 
+  /**
+   * Register the bundles declared in a manifest
+   */
+  public addManifest(
+    manifest: AssetManifest,
+    baseUrl = manifest.baseUrl
+  ): void {
+    for (const [name, assets] of Object.entries(manifest.bundles)) {
+      this.addBundle(
+        name,
+        assets.map(asset => ({
+          ...asset,
+          url: baseUrl ? this.resolveUrl(asset.url, baseUrl) : asset.url,
+        }))
+      );
+    }
+  }
+
+  /**
+   * Load a manifest JSON file and register its bundles. Relative asset URLs
+   * resolve against the manifest's baseUrl, or else the manifest's location.
+   */
+  public async loadManifest(url: string): Promise<AssetManifest> {
+    const manifest = (await this.loadJSON(url)) as AssetManifest;
+    this.addManifest(manifest, manifest.baseUrl ?? url);
+    this.emit('manifest-loaded', {
+      url,
+      bundles: Object.keys(manifest.bundles),
+    });
+    return manifest;
+  }
+
+  /**
+   * Register a named bundle of assets (assets may be shared between bundles)
+   */
+  public addBundle(name: string, assets: AssetDescriptor[]): void {
+    if (this.bundles.has(name)) {
+      console.warn(`Bundle '${name}' already exists`);
+      return;
+    }
+
+    for (const asset of assets) {
+      if (!this.assets.has(asset.id)) {
+        this.addAsset(asset.id, asset.url, asset.type);
+      }
+    }
+
+    this.bundles.set(
+      name,
+      assets.map(asset => asset.id)
+    );
+  }
+
+  /**
+   * Load a bundle and take a reference to it. Each call must be balanced by
+   * unloadBundle(); assets are unloaded once no loaded bundle uses them.
+   * Unloading the last reference while the bundle is still loading cancels
+   * the load, and the promise rejects.
+   */
+  public async loadBundle(
+    name: string,
+    options: BundleLoadOptions = {}
+  ): Promise<void> {
+    const ids = this.bundles.get(name);
+    if (!ids) {
+      throw new Error(`Bundle '${name}' not found`);
+    }
+
+    this.retainBundle(name, ids);
+    const signal = this.bundleLifetimes.get(name)!.signal;
+
+    let failure: unknown = null;
+    try {
+      await this.loadQueued(
+        ids,
+        options,
+        progress => {
+          options.onProgress?.(progress);
+          this.emit('bundle-progress', { bundle: name, ...progress });
+        },
+        signal
+      );
+    } catch (error) {
+      failure = error;
+    }
+
+    if (signal.aborted) {
+      // Unloaded mid-load: drop what landed since, unless a new load holds it
+      for (const id of ids) {
+        if (!this.assetRefs.has(id)) this.unloadAsset(id);
+      }
+      failure = new Error(`Bundle '${name}' was unloaded while loading`);
+    } else if (failure) {
+      this.releaseBundle(name, ids);
+    }
+
+    if (failure) {
+      this.emit('bundle-error', { bundle: name, error: failure });
+      throw failure;
+    }
+
+    this.emit('bundle-loaded', { bundle: name });
+  }
+
+  /**
+   * Release a reference to a bundle
+   */
+  public unloadBundle(name: string): void {
+    const ids = this.bundles.get(name);
+    if (!ids || !this.bundleRefs.get(name)) {
+      console.warn(`Bundle '${name}' is not loaded`);
+      return;
+    }
+
+    this.releaseBundle(name, ids);
+  }
+
+  /**
+   * Check if every asset in a bundle is loaded
+   */
+  public isBundleLoaded(name: string): boolean {
+    const ids = this.bundles.get(name);
+    return !!ids && ids.every(id => this.isAssetLoaded(id));
+  }
+
+  /**
+   * Get the asset ids in a bundle
+   */
+  public getBundleAssets(name: string): string[] {
+    return [...(this.bundles.get(name) ?? [])];
+  }
+
+  /**
+   * Get all registered bundle names
+   */
+  public getBundleNames(): string[] {
+    return Array.from(this.bundles.keys());
+  }
+
+  /**
+   * Unload an asset's data but keep it registered so it can be reloaded
+   */
+  public unloadAsset(id: string): void {
+    const asset = this.assets.get(id);
+    if (!asset || !asset.loaded) return;
+
+    asset.loaded = false;
+    asset.data = undefined;
+    this.cache.delete(id);
+    this.emit('asset-unloaded', asset);
+  }
+
+  private retainBundle(name: string, ids: string[]): void {
+    const refs = this.bundleRefs.get(name) ?? 0;
+    this.bundleRefs.set(name, refs + 1);
+
+    if (refs === 0) {
+      this.bundleLifetimes.set(name, new AbortController());
+      for (const id of ids) {
+        this.assetRefs.set(id, (this.assetRefs.get(id) ?? 0) + 1);
+      }
+    }
+  }
+
+  private releaseBundle(name: string, ids: string[]): void {
+    const refs = (this.bundleRefs.get(name) ?? 0) - 1;
+    if (refs > 0) {
+      this.bundleRefs.set(name, refs);
+      return;
+    }
+
+    this.bundleRefs.delete(name);
+    this.bundleLifetimes.get(name)?.abort();
+    this.bundleLifetimes.delete(name);
+    for (const id of ids) {
+      const assetRefs = (this.assetRefs.get(id) ?? 0) - 1;
+      if (assetRefs > 0) {
+        this.assetRefs.set(id, assetRefs);
+      } else {
+        this.assetRefs.delete(id);
+        this.unloadAsset(id);
+      }
+    }
+
+    this.emit('bundle-unloaded', { bundle: name });
+  }
+
+  /**
+   * Load assets with a bounded number in flight, retrying failures
+   */
+  private async loadQueued(
+    ids: string[],
+    options: BundleLoadOptions,
+    onProgress: (progress: LoadProgress) => void,
+    signal: AbortSignal
+  ): Promise<void> {
+    const concurrency = Math.max(1, options.concurrency ?? 4);
+    const retries = options.retries ?? 2;
+    const retryDelay = options.retryDelay ?? 250;
+
+    let next = 0;
+    let loaded = 0;
+    const errors: unknown[] = [];
+
+    const report = (currentAsset?: string) =>
+      onProgress({
+        loaded,
+        total: ids.length,
+        percentage: ids.length > 0 ? (loaded / ids.length) * 100 : 100,
+        currentAsset,
+      });
+
+    const worker = async () => {
+      while (next < ids.length && !signal.aborted) {
+        const id = ids[next++];
+        report(id);
+        try {
+          await this.loadWithRetry(id, retries, retryDelay);
+        } catch (error) {
+          errors.push(error);
+        }
+        loaded++;
+        report();
+      }
+    };
+
+    report();
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, ids.length) }, worker)
+    );
+
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  }
+
+  private async loadWithRetry(
+    id: string,
+    retries: number,
+    retryDelay: number
+  ): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.loadAsset(id);
+        return;
+      } catch (error) {
+        if (attempt >= retries) throw error;
+
+        this.emit('asset-retry', { id, attempt: attempt + 1 });
+        await new Promise(resolve =>
+          setTimeout(resolve, retryDelay * Math.pow(2, attempt))
+        );
+      }
+    }
+  }
+
   private async loadAssetData(asset: Asset): Promise<void> {
     switch (asset.type) {
       case 'image':
@@ -137,6 +420,9 @@ export class AssetManager extends EventEmitter {
       case 'text':
         asset.data = await this.loadText(asset.url);
         break;
+      case 'atlas':
+        asset.data = await this.loadAtlas(asset.url);
+        break;
       default:
         throw new Error(`Unsupported asset type: ${asset.type}`);
     }
@@ -181,6 +467,24 @@ export class AssetManager extends EventEmitter {
     }
   }
 
+  private async loadAtlas(url: string): Promise<TextureAtlas> {
+    const data = (await this.loadJSON(url)) as AtlasData;
+    if (!data.meta?.image) {
+      throw new Error(`Atlas has no meta.image: ${url}`);
+    }
+
+    // The atlas image path is relative to the JSON file
+    const image = await this.loadImage(this.resolveUrl(data.meta.image, url));
+    return new TextureAtlas(data, image);
+  }
+
+  private resolveUrl(path: string, baseUrl: string): string {
+    if (/^([a-z][a-z\d+.-]*:|\/)/i.test(path)) {
+      return path;
+    }
+    return baseUrl.slice(0, baseUrl.lastIndexOf('/') + 1) + path;
+  }
+
   private async loadText(url: string): Promise<string> {
     try {
       const response = await fetch(url);
@@ -222,6 +526,13 @@ export class AssetManager extends EventEmitter {
     return this.getAsset<T>(id);
   }
 
+  /**
+   * Get a texture atlas asset
+   */
+  public getAtlas(id: string): TextureAtlas | null {
+    return this.getAsset<TextureAtlas>(id);
+  }
+
   /**
    * Get a text asset
    */
@@ -229,6 +540,13 @@ export class AssetManager extends EventEmitter {
     return this.getAsset<string>(id);
   }
 
+  /**
+   * Check if an asset has been registered
+   */
+  public hasAsset(id: string): boolean {
+    return this.assets.has(id);
+  }
+
   /**
    * Check if an asset is loaded
    */
@@ -281,6 +599,9 @@ export class AssetManager extends EventEmitter {
     this.assets.clear();
     this.cache.clear();
     this.loadingPromises.clear();
+    this.bundles.clear();
+    this.bundleRefs.clear();
+    this.assetRefs.clear();
   }
 
   /**
@@ -1,14 +1,29 @@
 /**
- * Audio Manager - Sound effects and music management
+ * Audio Manager - Sound effects, positional audio, music playlists and
+ * voice-over
  */
 
 import { EventEmitter } from './EventEmitter';
 
+export type AudioCategory = 'music' | 'sfx' | 'voice';
+
+export interface SpatialAudioOptions {
+  refDistance?: number; // World units at which volume starts to fall off
+  maxDistance?: number;
+  rolloffFactor?: number;
+  panningModel?: PanningModelType;
+}
+
 export interface AudioConfig {
   masterVolume?: number;
   musicVolume?: number;
   sfxVolume?: number;
+  voiceVolume?: number;
   maxConcurrentSounds?: number;
+  duckLevel?: number; // Music volume multiplier while voice-over plays
+  spatial?: SpatialAudioOptions;
+  context?: AudioContext; // Use this context (e.g. a fake in tests) instead of creating one
+  random?: () => number; // Source of sound group variation
 }
 
 export interface Sound {
@@ -17,34 +32,115 @@ export interface Sound {
   buffer?: AudioBuffer;
   volume?: number;
   loop?: boolean;
-  category: 'music' | 'sfx';
+  category: AudioCategory;
 }
 
 export interface PlayingSound {
   id: string;
+  soundId: string;
+  category: AudioCategory;
   source: AudioBufferSourceNode;
   gainNode: GainNode;
+  panner?: PannerNode; // Positional sounds only
   startTime: number;
-  duration?: number;
+  duration?: number; // Seconds at the playback rate
   loop: boolean;
 }
 
+export interface PlaySoundOptions {
+  volume?: number;
+  loop?: boolean;
+  fadeIn?: number; // Seconds
+  startTime?: number; // Offset into the sound in seconds
+  playbackRate?: number;
+  position?: { x: number; y: number }; // World position for positional audio
+}
+
+// Random variations of one sound, played through its group name
+export interface SoundGroup {
+  sounds: string[];
+  pitch?: [number, number]; // Playback rate range
+  volume?: [number, number]; // Volume multiplier range
+  avoidRepeat?: boolean; // Don't pick the same sample twice in a row (default true)
+}
+
+export interface MusicOptions {
+  volume?: number;
+  loop?: boolean; // Default true
+  crossfade?: number; // Seconds to fade from the current track (default 1)
+}
+
+export interface PlaylistOptions {
+  volume?: number;
+  shuffle?: boolean;
+  loop?: boolean; // Start over after the last track (default true)
+  crossfade?: number; // Seconds between tracks (default 2)
+}
+
+export interface VoiceOptions {
+  volume?: number;
+  priority?: number; // Higher priorities interrupt lower ones (default 0)
+  queue?: boolean; // Wait for the current line instead of being dropped (default true)
+}
+
+export type VoiceResult = 'played' | 'queued' | 'dropped';
+
+interface GroupState extends SoundGroup {
+  last: number; // Index of the last sample played
+}
+
+interface MusicState {
+  playingId: string;
+  soundId: string;
+}
+
+interface PlaylistState {
+  tracks: string[];
+  index: number;
+  options: Required<Omit<PlaylistOptions, 'volume'>> & { volume?: number };
+}
+
+interface VoiceLine {
+  soundId: string;
+  priority: number;
+  volume?: number;
+}
+
+const VOICE_INTERRUPT_FADE = 0.1;
+const DUCK_FADE = 0.3;
+const UNDUCK_FADE = 0.6;
+
 export class AudioManager extends EventEmitter {
   private audioContext: AudioContext | null = null;
   private masterGainNode: GainNode | null = null;
   private musicGainNode: GainNode | null = null;
+  private duckGainNode: GainNode | null = null;
   private sfxGainNode: GainNode | null = null;
+  private voiceGainNode: GainNode | null = null;
 
   private sounds: Map<string, Sound> = new Map();
+  private groups: Map<string, GroupState> = new Map();
   private playingSounds: Map<string, PlayingSound> = new Map();
   private loadingPromises: Map<string, Promise<void>> = new Map();
+  private nextPlayingId = 0;
+
+  private music: MusicState | null = null;
+  private playlist: PlaylistState | null = null;
+  private voice: (VoiceLine & { playingId: string }) | null = null;
+  private voiceQueue: VoiceLine[] = [];
+  private listener = { x: 0, y: 0 };
+  private musicDucked = false;
 
   private config: AudioConfig = {
     masterVolume: 1.0,
     musicVolume: 0.7,
     sfxVolume: 1.0,
+    voiceVolume: 1.0,
     maxConcurrentSounds: 32,
+    duckLevel: 0.3,
   };
+  private spatial: Required<SpatialAudioOptions>;
+  private random: () => number;
 
   private isInitialized = false;
   private isMuted = false;
@@ -52,6 +148,14 @@ export class AudioManager extends EventEmitter {
   constructor(config: Partial<AudioConfig> = {}) {
     super();
     this.config = { ...this.config, ...config };
+    this.spatial = {
+      refDistance: 200,
+      maxDistance: 2000,
+      rolloffFactor: 1,
+      panningModel: 'equalpower',
+      ...config.spatial,
+    };
+    this.random = config.random ?? Math.random;
   }
 
   /**
@@ -62,23 +166,34 @@ export class AudioManager extends EventEmitter {
 
     try {
       // Create audio context
-      this.audioContext = new (window.AudioContext ||
-        (window as any).webkitAudioContext)();
+      this.audioContext =
+        this.config.context ??
+        new (window.AudioContext || (window as any).webkitAudioContext)();
 
       // Create gain nodes for volume control
       this.masterGainNode = this.audioContext.createGain();
       this.musicGainNode = this.audioContext.createGain();
+      this.duckGainNode = this.audioContext.createGain();
       this.sfxGainNode = this.audioContext.createGain();
+      this.voiceGainNode = this.audioContext.createGain();
 
-      // Connect gain nodes
-      this.musicGainNode.connect(this.masterGainNode);
+      // Connect gain nodes (music passes through the ducking stage)
+      this.musicGainNode.connect(this.duckGainNode);
+      this.duckGainNode.connect(this.masterGainNode);
       this.sfxGainNode.connect(this.masterGainNode);
+      this.voiceGainNode.connect(this.masterGainNode);
       this.masterGainNode.connect(this.audioContext.destination);
 
       // Set initial volumes
-      this.masterGainNode.gain.value = this.config.masterVolume!;
+      this.masterGainNode.gain.value = this.isMuted
+        ? 0
+        : this.config.masterVolume!;
       this.musicGainNode.gain.value = this.config.musicVolume!;
+      this.duckGainNode.gain.value = 1;
       this.sfxGainNode.gain.value = this.config.sfxVolume!;
+      this.voiceGainNode.gain.value = this.config.voiceVolume!;
+
+      this.applyListenerPosition();
 
       // Resume context if needed
       if (this.audioContext.state === 'suspended') {
@@ -143,48 +258,116 @@ export class AudioManager extends EventEmitter {
   }
 
   /**
-   * Play a sound
+   * Register a sound whose buffer is already decoded (e.g. from an audio
+   * asset or generated in code)
+   */
+  public addSound(sound: Sound & { buffer: AudioBuffer }): void {
+    this.sounds.set(sound.id, sound);
+    this.emit('sound-loaded', sound.id);
+  }
+
+  /**
+   * Define a group of variations played through playSound(name). Each play
+   * picks a sample and a pitch and volume within the group's ranges.
+   */
+  public defineSoundGroup(name: string, group: SoundGroup): void {
+    if (group.sounds.length === 0) {
+      throw new Error(`Sound group '${name}' has no sounds`);
+    }
+    this.groups.set(name, { ...group, last: -1 });
+  }
+
+  public removeSoundGroup(name: string): void {
+    this.groups.delete(name);
+  }
+
+  /**
+   * Play a sound or a sound group. Positional sounds are panned and
+   * attenuated relative to the listener (the camera).
    */
   public playSound(
     soundId: string,
-    options: {
-      volume?: number;
-      loop?: boolean;
-      fadeIn?: number;
-      startTime?: number;
-    } = {}
+    options: PlaySoundOptions = {}
   ): string | null {
     if (!this.isInitialized || this.isMuted) return null;
 
+    const group = this.groups.get(soundId);
+    if (group) {
+      const index = this.pickGroupSample(group);
+      const volume = options.volume ?? 1;
+      return this.playSound(group.sounds[index], {
+        ...options,
+        volume: volume * this.randomInRange(group.volume),
+        playbackRate:
+          (options.playbackRate ?? 1) * this.randomInRange(group.pitch),
+      });
+    }
+
     const sound = this.sounds.get(soundId);
     if (!sound || !sound.buffer || !this.audioContext) {
       console.warn(`Sound '${soundId}' not found or not loaded`);
       return null;
     }
 
+    return this.startSound(
+      sound,
+      this.getCategoryGain(sound.category)!,
+      options
+    );
+  }
+
+  /**
+   * Play a sound at a world position
+   */
+  public playSpatialSound(
+    soundId: string,
+    x: number,
+    y: number,
+    options: Omit<PlaySoundOptions, 'position'> = {}
+  ): string | null {
+    return this.playSound(soundId, { ...options, position: { x, y } });
+  }
+
+  private startSound(
+    sound: Sound,
+    destination: AudioNode,
+    options: PlaySoundOptions
+  ): string | null {
+    const context = this.audioContext!;
+
     // Check concurrent sound limit
     if (this.playingSounds.size >= this.config.maxConcurrentSounds!) {
-      // Stop oldest sound
-      const oldestId = this.playingSounds.keys().next().value;
-      if (oldestId) {
-        this.stopSound(oldestId);
+      // Stop the oldest effect; music and voice-over keep playing
+      const oldest =
+        Array.from(this.playingSounds.values()).find(
+          playing => playing.category === 'sfx'
+        ) ?? this.playingSounds.values().next().value;
+      if (oldest) {
+        this.stopSound(oldest.id);
       }
     }
 
     try {
       // Create source and gain nodes
-      const source = this.audioContext.createBufferSource();
-      const gainNode = this.audioContext.createGain();
+      const source = context.createBufferSource();
+      const gainNode = context.createGain();
 
-      source.buffer = sound.buffer;
-      source.loop = options.loop || sound.loop || false;
+      source.buffer = sound.buffer!;
+      source.loop = options.loop ?? sound.loop ?? false;
+      source.playbackRate.value = options.playbackRate ?? 1;
 
       // Connect nodes
       source.connect(gainNode);
 
-      const categoryGain =
-        sound.category === 'music' ? this.musicGainNode : this.sfxGainNode;
-      gainNode.connect(categoryGain!);
+      let panner: PannerNode | undefined;
+      if (options.position) {
+        panner = this.createPanner();
+        this.positionPanner(panner, options.position.x, options.position.y);
+        gainNode.connect(panner);
+        panner.connect(destination);
+      } else {
+        gainNode.connect(destination);
+      }
 
       // Set volume
       const volume = options.volume ?? sound.volume ?? 1.0;
@@ -192,23 +375,25 @@ export class AudioManager extends EventEmitter {
 
       // Fade in if specified
       if (options.fadeIn && options.fadeIn > 0) {
-        gainNode.gain.setValueAtTime(0, this.audioContext.currentTime);
+        gainNode.gain.setValueAtTime(0, context.currentTime);
         gainNode.gain.linearRampToValueAtTime(
           volume,
-          this.audioContext.currentTime + options.fadeIn
+          context.currentTime + options.fadeIn
         );
       }
 
-      // Generate unique playing ID
-      const playingId = `${soundId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const playingId = `${sound.id}_${++this.nextPlayingId}`;
 
       // Store playing sound
       const playingSound: PlayingSound = {
         id: playingId,
+        soundId: sound.id,
+        category: sound.category,
         source,
         gainNode,
-        startTime: this.audioContext.currentTime,
-        duration: sound.buffer.duration,
+        panner,
+        startTime: context.currentTime,
+        duration: sound.buffer!.duration / source.playbackRate.value,
         loop: source.loop,
       };
 
@@ -218,6 +403,7 @@ export class AudioManager extends EventEmitter {
       source.addEventListener('ended', () => {
         this.playingSounds.delete(playingId);
         this.emit('sound-ended', playingId);
+        if (this.voice?.playingId === playingId) this.handleVoiceEnded();
       });
 
       // Start playback
@@ -227,8 +413,8 @@ export class AudioManager extends EventEmitter {
       this.emit('sound-started', playingId);
       return playingId;
     } catch (error) {
-      console.error(`Failed to play sound '${soundId}':`, error);
-      this.emit('sound-error', { id: soundId, error });
+      console.error(`Failed to play sound '${sound.id}':`, error);
+      this.emit('sound-error', { id: sound.id, error });
       return null;
     }
   }
@@ -242,21 +428,15 @@ export class AudioManager extends EventEmitter {
 
     try {
       if (fadeOut > 0 && this.audioContext) {
-        // Fade out
+        const now = this.audioContext.currentTime;
+
+        // Fade out, then let the source end itself
         playingSound.gainNode.gain.setValueAtTime(
           playingSound.gainNode.gain.value,
-          this.audioContext.currentTime
-        );
-        playingSound.gainNode.gain.linearRampToValueAtTime(
-          0,
-          this.audioContext.currentTime + fadeOut
+          now
         );
-
-        // Stop after fade
-        setTimeout(() => {
-          playingSound.source.stop();
-          this.playingSounds.delete(playingId);
-        }, fadeOut * 1000);
+        playingSound.gainNode.gain.linearRampToValueAtTime(0, now + fadeOut);
+        playingSound.source.stop(now + fadeOut);
       } else {
         // Immediate stop
         playingSound.source.stop();
@@ -273,15 +453,342 @@ export class AudioManager extends EventEmitter {
   /**
    * Stop all sounds of a category
    */
-  public stopSounds(category?: 'music' | 'sfx', fadeOut = 0): void {
+  public stopSounds(category?: AudioCategory, fadeOut = 0): void {
     for (const [playingId, playingSound] of this.playingSounds) {
-      const sound = Array.from(this.sounds.values()).find(
-        s => s.buffer === playingSound.source.buffer
-      );
-      if (!category || sound?.category === category) {
+      if (!category || playingSound.category === category) {
         this.stopSound(playingId, fadeOut);
       }
     }
+
+    if (!category || category === 'music') {
+      this.music = null;
+      this.playlist = null;
+    }
+    if (!category || category === 'voice') {
+      this.voiceQueue = [];
+      if (this.voice) {
+        this.voice = null;
+        this.unduckMusic();
+      }
+    }
+  }
+
+  public isPlaying(playingId: string): boolean {
+    return this.playingSounds.has(playingId);
+  }
+
+  // Positional audio
+
+  /**
+   * Move the listener, normally to the camera position each frame
+   */
+  public setListenerPosition(x: number, y: number): void {
+    this.listener = { x, y };
+    this.applyListenerPosition();
+  }
+
+  public getListenerPosition(): { x: number; y: number } {
+    return { ...this.listener };
+  }
+
+  /**
+   * Move a positional sound, e.g. to follow an entity
+   */
+  public setSoundPosition(playingId: string, x: number, y: number): void {
+    const panner = this.playingSounds.get(playingId)?.panner;
+    if (panner) this.positionPanner(panner, x, y);
+  }
+
+  private createPanner(): PannerNode {
+    const panner = this.audioContext!.createPanner();
+    panner.panningModel = this.spatial.panningModel;
+    panner.distanceModel = 'inverse';
+    panner.refDistance = this.spatial.refDistance;
+    panner.maxDistance = this.spatial.maxDistance;
+    panner.rolloffFactor = this.spatial.rolloffFactor;
+    return panner;
+  }
+
+  /**
+   * The world is a plane seen from above: world x is audio x and world y
+   * is audio depth (z), so sounds pan with their horizontal offset from
+   * the listener and fade with distance
+   */
+  private positionPanner(panner: PannerNode, x: number, y: number): void {
+    if (panner.positionX) {
+      panner.positionX.value = x;
+      panner.positionY.value = 0;
+      panner.positionZ.value = y;
+    } else {
+      panner.setPosition(x, 0, y);
+    }
+  }
+
+  private applyListenerPosition(): void {
+    const listener = this.audioContext?.listener;
+    if (!listener) return;
+
+    const { x, y } = this.listener;
+    if (listener.positionX) {
+      listener.positionX.value = x;
+      listener.positionY.value = 0;
+      listener.positionZ.value = y;
+    } else {
+      listener.setPosition(x, 0, y);
+    }
+  }
+
+  // Music
+
+  /**
+   * Play a music track, crossfading from the current one. Replaces any
+   * playlist.
+   */
+  public playMusic(soundId: string, options: MusicOptions = {}): string | null {
+    this.playlist = null;
+    return this.switchMusic(
+      soundId,
+      options.volume,
+      options.loop ?? true,
+      options.crossfade ?? 1
+    );
+  }
+
+  /**
+   * Play tracks in order (or shuffled), crossfading into each next track
+   * before the current one ends
+   */
+  public playPlaylist(
+    tracks: string[],
+    options: PlaylistOptions = {}
+  ): string | null {
+    if (tracks.length === 0) return null;
+
+    const order = [...tracks];
+    if (options.shuffle) this.shuffle(order);
+
+    this.playlist = {
+      tracks: order,
+      index: 0,
+      options: {
+        volume: options.volume,
+        shuffle: options.shuffle ?? false,
+        loop: options.loop ?? true,
+        crossfade: options.crossfade ?? 2,
+      },
+    };
+    return this.switchMusic(
+      order[0],
+      options.volume,
+      false,
+      this.playlist.options.crossfade
+    );
+  }
+
+  /**
+   * Crossfade to the next playlist track
+   */
+  public nextTrack(): string | null {
+    const playlist = this.playlist;
+    if (!playlist) return null;
+
+    let index = playlist.index + 1;
+    if (index >= playlist.tracks.length) {
+      if (!playlist.options.loop) {
+        this.stopMusic(playlist.options.crossfade);
+        this.emit('playlist-ended');
+        return null;
+      }
+
+      index = 0;
+      if (playlist.options.shuffle && playlist.tracks.length > 1) {
+        // Reshuffle without repeating the track that just played
+        const last = playlist.tracks[playlist.tracks.length - 1];
+        do {
+          this.shuffle(playlist.tracks);
+        } while (playlist.tracks[0] === last);
+      }
+    }
+
+    playlist.index = index;
+    return this.switchMusic(
+      playlist.tracks[index],
+      playlist.options.volume,
+      false,
+      playlist.options.crossfade
+    );
+  }
+
+  public stopMusic(fadeOut = 1): void {
+    this.playlist = null;
+    if (this.music) {
+      this.stopSound(this.music.playingId, fadeOut);
+      this.music = null;
+    }
+  }
+
+  public getCurrentTrack(): string | null {
+    return this.music?.soundId ?? null;
+  }
+
+  /**
+   * Lower the music, e.g. under dialogue (voice-over does this itself)
+   */
+  public duckMusic(level = this.config.duckLevel!, fade = DUCK_FADE): void {
+    this.rampGain(this.duckGainNode, level, fade);
+    this.musicDucked = level < 1;
+    this.emit('music-ducked', level);
+  }
+
+  public unduckMusic(fade = UNDUCK_FADE): void {
+    this.rampGain(this.duckGainNode, 1, fade);
+    this.musicDucked = false;
+    this.emit('music-ducked', 1);
+  }
+
+  private switchMusic(
+    soundId: string,
+    volume: number | undefined,
+    loop: boolean,
+    crossfade: number
+  ): string | null {
+    const previous = this.music;
+    this.music = null;
+    if (previous) this.stopSound(previous.playingId, crossfade);
+
+    const sound = this.sounds.get(soundId);
+    if (!this.isInitialized || this.isMuted || !sound?.buffer) {
+      if (this.isInitialized && !this.isMuted) {
+        console.warn(`Sound '${soundId}' not found or not loaded`);
+      }
+      return null;
+    }
+
+    const playingId = this.startSound(sound, this.musicGainNode!, {
+      volume,
+      loop,
+      fadeIn: previous ? crossfade : 0,
+    });
+    if (playingId) {
+      this.music = { playingId, soundId };
+      this.emit('music-changed', soundId);
+    }
+    return playingId;
+  }
+
+  // Voice-over
+
+  /**
+   * Play a voice-over line. A higher priority line interrupts the current
+   * one; otherwise the line waits in a priority queue (or is dropped when
+   * queue is false). Music is ducked while lines play.
+   */
+  public playVoice(soundId: string, options: VoiceOptions = {}): VoiceResult {
+    if (!this.isInitialized || this.isMuted) return 'dropped';
+
+    const line: VoiceLine = {
+      soundId,
+      priority: options.priority ?? 0,
+      volume: options.volume,
+    };
+
+    if (this.voice) {
+      if (line.priority > this.voice.priority) {
+        const interrupted = this.voice;
+        this.voice = null;
+        this.stopSound(interrupted.playingId, VOICE_INTERRUPT_FADE);
+        this.emit('voice-interrupted', interrupted.soundId);
+      } else if (options.queue ?? true) {
+        // Behind every line of the same or higher priority
+        const index = this.voiceQueue.findIndex(
+          queued => queued.priority < line.priority
+        );
+        if (index === -1) {
+          this.voiceQueue.push(line);
+        } else {
+          this.voiceQueue.splice(index, 0, line);
+        }
+        return 'queued';
+      } else {
+        return 'dropped';
+      }
+    }
+
+    return this.startVoice(line) ? 'played' : 'dropped';
+  }
+
+  public stopVoice(fadeOut = VOICE_INTERRUPT_FADE): void {
+    this.voiceQueue = [];
+    if (this.voice) {
+      const current = this.voice;
+      this.voice = null;
+      this.stopSound(current.playingId, fadeOut);
+      this.unduckMusic();
+    }
+  }
+
+  public clearVoiceQueue(): void {
+    this.voiceQueue = [];
+  }
+
+  public isVoicePlaying(): boolean {
+    return this.voice !== null;
+  }
+
+  public getVoiceQueueLength(): number {
+    return this.voiceQueue.length;
+  }
+
+  private startVoice(line: VoiceLine): boolean {
+    const sound = this.sounds.get(line.soundId);
+    if (!sound?.buffer) {
+      console.warn(`Sound '${line.soundId}' not found or not loaded`);
+      return false;
+    }
+
+    const playingId = this.startSound(sound, this.voiceGainNode!, {
+      volume: line.volume,
+    });
+    if (!playingId) return false;
+
+    if (!this.musicDucked) this.duckMusic();
+    this.voice = { ...line, playingId };
+    this.emit('voice-started', line.soundId);
+    return true;
+  }
+
+  private handleVoiceEnded(): void {
+    const finished = this.voice!;
+    this.voice = null;
+    this.emit('voice-ended', finished.soundId);
+
+    while (this.voiceQueue.length > 0) {
+      if (this.startVoice(this.voiceQueue.shift()!)) return;
+    }
+
+    this.unduckMusic();
+    this.emit('voice-queue-empty');
+  }
+
+  /**
+   * Follow the camera and advance playlists (the engine calls this every
+   * frame)
+   */
+  public update(listener?: { x: number; y: number }): void {
+    if (listener) this.setListenerPosition(listener.x, listener.y);
+    if (!this.audioContext || !this.playlist || !this.music) return;
+
+    const playing = this.playingSounds.get(this.music.playingId);
+    const fadeStart = playing
+      ? playing.startTime +
+        (playing.duration ?? 0) -
+        this.playlist.options.crossfade
+      : -Infinity;
+
+    // Start the next track so the crossfade ends as this one does
+    if (this.audioContext.currentTime >= fadeStart) {
+      this.nextTrack();
+    }
   }
 
   /**
@@ -289,7 +796,7 @@ export class AudioManager extends EventEmitter {
    */
   public setMasterVolume(volume: number): void {
     this.config.masterVolume = Math.max(0, Math.min(1, volume));
-    if (this.masterGainNode) {
+    if (this.masterGainNode && !this.isMuted) {
       this.masterGainNode.gain.value = this.config.masterVolume;
     }
     this.emit('volume-changed', {
@@ -323,6 +830,20 @@ export class AudioManager extends EventEmitter {
     this.emit('volume-changed', { type: 'sfx', volume: this.config.sfxVolume });
   }
 
+  /**
+   * Set voice-over volume
+   */
+  public setVoiceVolume(volume: number): void {
+    this.config.voiceVolume = Math.max(0, Math.min(1, volume));
+    if (this.voiceGainNode) {
+      this.voiceGainNode.gain.value = this.config.voiceVolume;
+    }
+    this.emit('volume-changed', {
+      type: 'voice',
+      volume: this.config.voiceVolume,
+    });
+  }
+
   /**
    * Mute/unmute audio
    */
@@ -337,22 +858,38 @@ export class AudioManager extends EventEmitter {
   /**
    * Get current volumes
    */
-  public getVolumes(): { master: number; music: number; sfx: number } {
+  public getVolumes(): {
+    master: number;
+    music: number;
+    sfx: number;
+    voice: number;
+  } {
     return {
       master: this.config.masterVolume!,
       music: this.config.musicVolume!,
       sfx: this.config.sfxVolume!,
+      voice: this.config.voiceVolume!,
     };
   }
 
   /**
-   * Check if a sound is loaded
+   * Check if a sound (or every sound in a group) is loaded
    */
   public isSoundLoaded(soundId: string): boolean {
+    const group = this.groups.get(soundId);
+    if (group) return group.sounds.every(id => this.isSoundLoaded(id));
+
     const sound = this.sounds.get(soundId);
     return sound ? !!sound.buffer : false;
   }
 
+  /**
+   * Decoded audio of a loaded sound, e.g. for a sampler instrument
+   */
+  public getBuffer(soundId: string): AudioBuffer | null {
+    return this.sounds.get(soundId)?.buffer ?? null;
+  }
+
   /**
    * Get active sound count
    */
@@ -360,6 +897,64 @@ export class AudioManager extends EventEmitter {
     return this.playingSounds.size;
   }
 
+  /**
+   * The audio context, once initialized (for transports and instruments)
+   */
+  public getContext(): AudioContext | null {
+    return this.audioContext;
+  }
+
+  /**
+   * The node a category's sounds play into, so external sources such as
+   * instruments follow its volume, muting and ducking
+   */
+  public getOutput(category: AudioCategory = 'music'): AudioNode | null {
+    return this.getCategoryGain(category);
+  }
+
+  private getCategoryGain(category: AudioCategory): GainNode | null {
+    switch (category) {
+      case 'music':
+        return this.musicGainNode;
+      case 'voice':
+        return this.voiceGainNode;
+      default:
+        return this.sfxGainNode;
+    }
+  }
+
+  private rampGain(node: GainNode | null, value: number, fade: number): void {
+    if (!node || !this.audioContext) return;
+
+    const now = this.audioContext.currentTime;
+    node.gain.cancelScheduledValues(now);
+    node.gain.setValueAtTime(node.gain.value, now);
+    node.gain.linearRampToValueAtTime(value, now + fade);
+  }
+
+  private pickGroupSample(group: GroupState): number {
+    const count = group.sounds.length;
+    let index = Math.floor(this.random() * count);
+    if ((group.avoidRepeat ?? true) && count > 1 && index === group.last) {
+      // Shift to one of the other samples
+      index = (index + 1 + Math.floor(this.random() * (count - 1))) % count;
+    }
+    group.last = index;
+    return index;
+  }
+
+  private randomInRange(range?: [number, number]): number {
+    if (!range) return 1;
+    return range[0] + (range[1] - range[0]) * this.random();
+  }
+
+  private shuffle<T>(items: T[]): void {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+  }
+
   /**
    * Check if audio is supported
    */
@@ -381,6 +976,7 @@ export class AudioManager extends EventEmitter {
 
     // Clear data
     this.sounds.clear();
+    this.groups.clear();
     this.playingSounds.clear();
     this.loadingPromises.clear();
 
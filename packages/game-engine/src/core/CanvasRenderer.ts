@@ -1,8 +1,14 @@
 /**
- * Canvas Renderer - 2D rendering with optimizations
+ * Canvas Renderer - 2D or batched WebGL2 rendering behind one draw API
  */
 
 import type { EngineConfig } from './Engine';
+import type { TextDirection } from './I18n';
+import { isContext2D } from './RecordingContext';
+import type { TextureAtlas } from './TextureAtlas';
+import { measureText } from './TextLayout';
+import type { Tilemap } from './Tilemap';
+import { WebGLRenderer, isWebGL2Context } from './WebGLRenderer';
 
 export interface RenderOptions {
   alpha?: number;
@@ -15,6 +21,32 @@ export interface RenderOptions {
   flipY?: boolean;
 }
 
+/**
+ * The subset of CanvasRenderingContext2D shared by both render backends,
+ * for helpers that draw images under a transform (atlases, tilemaps)
+ */
+export interface DrawContext {
+  globalAlpha: number;
+  save(): void;
+  restore(): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+  scale(x: number, y: number): void;
+  drawImage(
+    image: HTMLImageElement | HTMLCanvasElement,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    dx: number,
+    dy: number,
+    dw: number,
+    dh: number
+  ): void;
+}
+
+export type RenderBackend = 'canvas2d' | 'webgl2';
+
 export interface Camera {
   x: number;
   y: number;
@@ -23,22 +55,26 @@ export interface Camera {
 }
 
 export class CanvasRenderer {
-  private ctx: CanvasRenderingContext2D | WebGLRenderingContext;
+  private ctx: CanvasRenderingContext2D | WebGL2RenderingContext;
+  private gl: WebGLRenderer | null = null;
   private config: EngineConfig;
   private camera: Camera;
   private transformStack: number = 0;
+  private drawCalls = 0; // 2D draw operations since the last clear
+  private textDirection: TextDirection = 'ltr';
 
   // Performance optimization
   private imageSmoothing = true;
   private pixelRatio: number;
 
   constructor(
-    ctx: CanvasRenderingContext2D | WebGLRenderingContext,
+    ctx: CanvasRenderingContext2D | WebGL2RenderingContext,
     config: EngineConfig
   ) {
     this.ctx = ctx;
     this.config = config;
-    this.pixelRatio = window.devicePixelRatio || 1;
+    this.pixelRatio =
+      typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
 
     this.camera = {
       x: 0,
@@ -51,7 +87,13 @@ export class CanvasRenderer {
   }
 
   private setupCanvas(): void {
-    if (this.ctx instanceof CanvasRenderingContext2D) {
+    if (isWebGL2Context(this.ctx)) {
+      this.gl = new WebGLRenderer(
+        this.ctx,
+        this.config.width,
+        this.config.height
+      );
+    } else if (isContext2D(this.ctx)) {
       // Set up 2D context
       this.ctx.imageSmoothingEnabled = this.imageSmoothing;
       this.ctx.textBaseline = 'top';
@@ -62,7 +104,10 @@ export class CanvasRenderer {
    * Clear the canvas
    */
   public clear(color?: string): void {
-    if (this.ctx instanceof CanvasRenderingContext2D) {
+    this.drawCalls = 0;
+    if (this.gl) {
+      this.gl.clear(color);
+    } else if (isContext2D(this.ctx)) {
       if (color) {
         this.ctx.fillStyle = color;
         this.ctx.fillRect(0, 0, this.config.width, this.config.height);
@@ -76,8 +121,9 @@ export class CanvasRenderer {
    * Save the current transform state
    */
   public save(): void {
-    if (this.ctx instanceof CanvasRenderingContext2D) {
-      this.ctx.save();
+    const target = this.getTarget();
+    if (target) {
+      target.save();
       this.transformStack++;
     }
   }
@@ -86,11 +132,9 @@ export class CanvasRenderer {
    * Restore the previous transform state
    */
   public restore(): void {
-    if (
-      this.ctx instanceof CanvasRenderingContext2D &&
-      this.transformStack > 0
-    ) {
-      this.ctx.restore();
+    const target = this.getTarget();
+    if (target && this.transformStack > 0) {
+      target.restore();
       this.transformStack--;
     }
   }
@@ -99,17 +143,39 @@ export class CanvasRenderer {
    * Apply camera transform
    */
   public applyCameraTransform(): void {
-    if (this.ctx instanceof CanvasRenderingContext2D) {
+    const target = this.getTarget();
+    if (target) {
       this.save();
 
       // Apply camera zoom and rotation
-      this.ctx.translate(this.config.width / 2, this.config.height / 2);
-      this.ctx.scale(this.camera.zoom, this.camera.zoom);
-      this.ctx.rotate(this.camera.rotation);
-      this.ctx.translate(-this.camera.x, -this.camera.y);
+      target.translate(this.config.width / 2, this.config.height / 2);
+      target.scale(this.camera.zoom, this.camera.zoom);
+      target.rotate(this.camera.rotation);
+      target.translate(-this.camera.x, -this.camera.y);
     }
   }
 
+  /**
+   * Translate subsequent draws (wrap in save/restore)
+   */
+  public translate(x: number, y: number): void {
+    this.getTarget()?.translate(x, y);
+  }
+
+  /**
+   * Rotate subsequent draws (wrap in save/restore)
+   */
+  public rotate(angle: number): void {
+    this.getTarget()?.rotate(angle);
+  }
+
+  /**
+   * Scale subsequent draws (wrap in save/restore)
+   */
+  public scale(x: number, y: number): void {
+    this.getTarget()?.scale(x, y);
+  }
+
   /**
    * Draw an image
    */
@@ -121,33 +187,45 @@ export class CanvasRenderer {
     height?: number,
     options: RenderOptions = {}
   ): void {
-    if (!(this.ctx instanceof CanvasRenderingContext2D)) return;
+    const target = this.getTarget();
+    if (!target) return;
 
+    this.countDraw();
     this.save();
 
     const drawWidth = width || image.width;
     const drawHeight = height || image.height;
 
     // Apply transformations
-    this.ctx.translate(x + (options.offsetX || 0), y + (options.offsetY || 0));
+    target.translate(x + (options.offsetX || 0), y + (options.offsetY || 0));
 
     if (options.rotation) {
-      this.ctx.translate(drawWidth / 2, drawHeight / 2);
-      this.ctx.rotate(options.rotation);
-      this.ctx.translate(-drawWidth / 2, -drawHeight / 2);
+      target.translate(drawWidth / 2, drawHeight / 2);
+      target.rotate(options.rotation);
+      target.translate(-drawWidth / 2, -drawHeight / 2);
     }
 
     if (options.scaleX !== undefined || options.scaleY !== undefined) {
       const scaleX = (options.scaleX ?? 1) * (options.flipX ? -1 : 1);
       const scaleY = (options.scaleY ?? 1) * (options.flipY ? -1 : 1);
-      this.ctx.scale(scaleX, scaleY);
+      target.scale(scaleX, scaleY);
     }
 
     if (options.alpha !== undefined) {
-      this.ctx.globalAlpha = options.alpha;
+      target.globalAlpha = options.alpha;
     }
 
-    this.ctx.drawImage(image, 0, 0, drawWidth, drawHeight);
+    target.drawImage(
+      image,
+      0,
+      0,
+      image.width,
+      image.height,
+      0,
+      0,
+      drawWidth,
+      drawHeight
+    );
 
     this.restore();
   }
@@ -167,36 +245,38 @@ export class CanvasRenderer {
     destHeight?: number,
     options: RenderOptions = {}
   ): void {
-    if (!(this.ctx instanceof CanvasRenderingContext2D)) return;
+    const target = this.getTarget();
+    if (!target) return;
 
+    this.countDraw();
     this.save();
 
     const drawWidth = destWidth || sourceWidth;
     const drawHeight = destHeight || sourceHeight;
 
     // Apply transformations
-    this.ctx.translate(
+    target.translate(
       destX + (options.offsetX || 0),
       destY + (options.offsetY || 0)
     );
 
     if (options.rotation) {
-      this.ctx.translate(drawWidth / 2, drawHeight / 2);
-      this.ctx.rotate(options.rotation);
-      this.ctx.translate(-drawWidth / 2, -drawHeight / 2);
+      target.translate(drawWidth / 2, drawHeight / 2);
+      target.rotate(options.rotation);
+      target.translate(-drawWidth / 2, -drawHeight / 2);
     }
 
     if (options.scaleX !== undefined || options.scaleY !== undefined) {
       const scaleX = (options.scaleX ?? 1) * (options.flipX ? -1 : 1);
       const scaleY = (options.scaleY ?? 1) * (options.flipY ? -1 : 1);
-      this.ctx.scale(scaleX, scaleY);
+      target.scale(scaleX, scaleY);
     }
 
     if (options.alpha !== undefined) {
-      this.ctx.globalAlpha = options.alpha;
+      target.globalAlpha = options.alpha;
     }
 
-    this.ctx.drawImage(
+    target.drawImage(
       spriteSheet,
       sourceX,
       sourceY,
@@ -211,6 +291,34 @@ export class CanvasRenderer {
     this.restore();
   }
 
+  /**
+   * Draw a named atlas frame sized for the untrimmed sprite
+   */
+  public drawAtlasFrame(
+    atlas: TextureAtlas,
+    frame: string,
+    x: number,
+    y: number,
+    width?: number,
+    height?: number
+  ): boolean {
+    const target = this.getTarget();
+    if (!target) return false;
+
+    this.countDraw();
+    return atlas.drawFrame(target, frame, x, y, width, height);
+  }
+
+  /**
+   * Set the opacity for subsequent draws (wrap in save/restore)
+   */
+  public setAlpha(alpha: number): void {
+    const target = this.getTarget();
+    if (target) {
+      target.globalAlpha = alpha;
+    }
+  }
+
   /**
    * Draw a rectangle
    */
@@ -222,7 +330,16 @@ export class CanvasRenderer {
     color: string,
     filled = true
   ): void {
-    if (!(this.ctx instanceof CanvasRenderingContext2D)) return;
+    if (this.gl) {
+      if (filled) {
+        this.gl.fillRect(x, y, width, height, color);
+      } else {
+        this.gl.strokeRect(x, y, width, height, color);
+      }
+      return;
+    }
+    if (!isContext2D(this.ctx)) return;
+    this.drawCalls++;
 
     if (filled) {
       this.ctx.fillStyle = color;
@@ -243,7 +360,16 @@ export class CanvasRenderer {
     color: string,
     filled = true
   ): void {
-    if (!(this.ctx instanceof CanvasRenderingContext2D)) return;
+    if (this.gl) {
+      if (filled) {
+        this.gl.fillCircle(x, y, radius, color);
+      } else {
+        this.gl.strokeCircle(x, y, radius, color);
+      }
+      return;
+    }
+    if (!isContext2D(this.ctx)) return;
+    this.drawCalls++;
 
     this.ctx.beginPath();
     this.ctx.arc(x, y, radius, 0, Math.PI * 2);
@@ -268,14 +394,42 @@ export class CanvasRenderer {
     color: string,
     align: CanvasTextAlign = 'left'
   ): void {
-    if (!(this.ctx instanceof CanvasRenderingContext2D)) return;
+    if (this.gl) {
+      this.gl.drawText(text, x, y, font, color, align, this.textDirection);
+      return;
+    }
+    if (!isContext2D(this.ctx)) return;
+    this.drawCalls++;
 
     this.ctx.font = font;
     this.ctx.fillStyle = color;
     this.ctx.textAlign = align;
+    this.ctx.direction = this.textDirection;
     this.ctx.fillText(text, x, y);
   }
 
+  /**
+   * Width of text in a font, as drawText() would draw it
+   */
+  public measureText(text: string, font: string): number {
+    if (!isContext2D(this.ctx)) return measureText(text, font);
+
+    this.ctx.font = font;
+    return this.ctx.measureText(text).width;
+  }
+
+  /**
+   * Set the direction drawText() lays out characters in. 'start' and 'end'
+   * alignments follow it.
+   */
+  public setTextDirection(direction: TextDirection): void {
+    this.textDirection = direction;
+  }
+
+  public getTextDirection(): TextDirection {
+    return this.textDirection;
+  }
+
   /**
    * Draw a line
    */
@@ -287,7 +441,12 @@ export class CanvasRenderer {
     color: string,
     width = 1
   ): void {
-    if (!(this.ctx instanceof CanvasRenderingContext2D)) return;
+    if (this.gl) {
+      this.gl.drawLine(x1, y1, x2, y2, color, width);
+      return;
+    }
+    if (!isContext2D(this.ctx)) return;
+    this.drawCalls++;
 
     this.ctx.beginPath();
     this.ctx.moveTo(x1, y1);
@@ -305,8 +464,17 @@ export class CanvasRenderer {
     color: string,
     filled = true
   ): void {
-    if (!(this.ctx instanceof CanvasRenderingContext2D) || points.length < 3)
+    if (points.length < 3) return;
+    if (this.gl) {
+      if (filled) {
+        this.gl.fillPolygon(points, color);
+      } else {
+        this.gl.strokePath(points, color);
+      }
       return;
+    }
+    if (!isContext2D(this.ctx)) return;
+    this.drawCalls++;
 
     this.ctx.beginPath();
     this.ctx.moveTo(points[0].x, points[0].y);
@@ -326,6 +494,79 @@ export class CanvasRenderer {
     }
   }
 
+  /**
+   * Draw a tilemap in world space (call inside applyCameraTransform).
+   * Chunks outside the view are culled; with the 2D backend visible chunks
+   * are cached as offscreen canvases when available, while WebGL batches
+   * the tiles directly. Returns the number of chunks drawn.
+   */
+  public drawTilemap(
+    tilemap: Tilemap,
+    options: { layers?: string[]; cache?: boolean } = {}
+  ): number {
+    const target = this.getTarget();
+    if (!target || !tilemap.tileset.image) return 0;
+
+    const cache =
+      !this.gl && options.cache !== false && typeof document !== 'undefined';
+    const { columns, rows } = tilemap.getChunkCount();
+    let drawn = 0;
+
+    for (const layer of tilemap.getLayers()) {
+      if (!layer.visible || layer.opacity <= 0) continue;
+      if (options.layers && !options.layers.includes(layer.name)) continue;
+
+      this.save();
+      target.globalAlpha *= layer.opacity;
+
+      for (let chunkY = 0; chunkY < rows; chunkY++) {
+        for (let chunkX = 0; chunkX < columns; chunkX++) {
+          const bounds = tilemap.getChunkBounds(chunkX, chunkY);
+          if (
+            !this.isVisible(bounds.x, bounds.y, bounds.width, bounds.height)
+          ) {
+            continue;
+          }
+
+          const canvas = cache
+            ? tilemap.getChunkCanvas(layer, chunkX, chunkY, (width, height) =>
+                this.createRenderTarget(width, height)
+              )
+            : null;
+
+          if (canvas) {
+            target.drawImage(
+              canvas,
+              0,
+              0,
+              canvas.width,
+              canvas.height,
+              bounds.x,
+              bounds.y,
+              canvas.width,
+              canvas.height
+            );
+          } else {
+            tilemap.drawChunk(
+              target,
+              layer,
+              chunkX,
+              chunkY,
+              bounds.x,
+              bounds.y
+            );
+          }
+          drawn++;
+        }
+      }
+
+      this.restore();
+    }
+
+    if (!this.gl) this.drawCalls += drawn;
+    return drawn;
+  }
+
   /**
    * Set camera position
    */
@@ -341,6 +582,13 @@ export class CanvasRenderer {
     this.camera.zoom = Math.max(0.1, zoom);
   }
 
+  /**
+   * Get camera zoom
+   */
+  public getCameraZoom(): number {
+    return this.camera.zoom;
+  }
+
   /**
    * Set camera rotation
    */
@@ -370,11 +618,14 @@ export class CanvasRenderer {
     screenX: number,
     screenY: number
   ): { x: number; y: number } {
-    const x =
-      (screenX - this.config.width / 2) / this.camera.zoom + this.camera.x;
-    const y =
-      (screenY - this.config.height / 2) / this.camera.zoom + this.camera.y;
-    return { x, y };
+    const dx = (screenX - this.config.width / 2) / this.camera.zoom;
+    const dy = (screenY - this.config.height / 2) / this.camera.zoom;
+    const cos = Math.cos(this.camera.rotation);
+    const sin = Math.sin(this.camera.rotation);
+    return {
+      x: dx * cos + dy * sin + this.camera.x,
+      y: -dx * sin + dy * cos + this.camera.y,
+    };
   }
 
   /**
@@ -384,22 +635,44 @@ export class CanvasRenderer {
     worldX: number,
     worldY: number
   ): { x: number; y: number } {
-    const x =
-      (worldX - this.camera.x) * this.camera.zoom + this.config.width / 2;
-    const y =
-      (worldY - this.camera.y) * this.camera.zoom + this.config.height / 2;
-    return { x, y };
+    const dx = worldX - this.camera.x;
+    const dy = worldY - this.camera.y;
+    const cos = Math.cos(this.camera.rotation);
+    const sin = Math.sin(this.camera.rotation);
+    return {
+      x: (dx * cos - dy * sin) * this.camera.zoom + this.config.width / 2,
+      y: (dx * sin + dy * cos) * this.camera.zoom + this.config.height / 2,
+    };
   }
 
   /**
-   * Check if a point is visible on screen
+   * Check if a point (or world-space rectangle) is visible on screen
    */
   public isVisible(x: number, y: number, width = 0, height = 0): boolean {
+    if (this.camera.rotation !== 0) {
+      // Screen-space bounds of the rotated rectangle
+      const corners = [
+        this.worldToScreen(x, y),
+        this.worldToScreen(x + width, y),
+        this.worldToScreen(x, y + height),
+        this.worldToScreen(x + width, y + height),
+      ];
+      const xs = corners.map(corner => corner.x);
+      const ys = corners.map(corner => corner.y);
+
+      return (
+        Math.max(...xs) >= 0 &&
+        Math.max(...ys) >= 0 &&
+        Math.min(...xs) <= this.config.width &&
+        Math.min(...ys) <= this.config.height
+      );
+    }
+
     const screenPos = this.worldToScreen(x, y);
 
     return (
-      screenPos.x + width >= 0 &&
-      screenPos.y + height >= 0 &&
+      screenPos.x + width * this.camera.zoom >= 0 &&
+      screenPos.y + height * this.camera.zoom >= 0 &&
       screenPos.x <= this.config.width &&
       screenPos.y <= this.config.height
     );
@@ -409,7 +682,10 @@ export class CanvasRenderer {
    * Set image smoothing
    */
   public setImageSmoothing(enabled: boolean): void {
-    if (this.ctx instanceof CanvasRenderingContext2D) {
+    if (this.gl) {
+      this.imageSmoothing = enabled;
+      this.gl.imageSmoothingEnabled = enabled;
+    } else if (isContext2D(this.ctx)) {
       this.imageSmoothing = enabled;
       this.ctx.imageSmoothingEnabled = enabled;
     }
@@ -421,6 +697,7 @@ export class CanvasRenderer {
   public handleResize(width: number, height: number): void {
     this.config.width = width;
     this.config.height = height;
+    this.gl?.resize(width, height);
   }
 
   /**
@@ -436,18 +713,59 @@ export class CanvasRenderer {
   /**
    * Get canvas context
    */
-  public getContext(): CanvasRenderingContext2D | WebGLRenderingContext {
+  public getContext(): CanvasRenderingContext2D | WebGL2RenderingContext {
     return this.ctx;
   }
 
+  /**
+   * Get the active render backend
+   */
+  public getBackend(): RenderBackend {
+    return this.gl ? 'webgl2' : 'canvas2d';
+  }
+
+  /**
+   * Draw calls since the last clear: batches submitted with WebGL, draw
+   * operations with the 2D backend
+   */
+  public getDrawCallCount(): number {
+    return this.gl ? this.gl.getDrawCallCount() : this.drawCalls;
+  }
+
+  private countDraw(): void {
+    if (!this.gl) this.drawCalls++;
+  }
+
+  /**
+   * Submit batched draws; the engine calls this at the end of every frame
+   */
+  public flush(): void {
+    this.gl?.flush();
+  }
+
+  /**
+   * Re-upload an image or canvas whose pixels changed since it was first
+   * drawn (WebGL caches textures; the 2D backend needs nothing)
+   */
+  public invalidateTexture(source: HTMLImageElement | HTMLCanvasElement): void {
+    this.gl?.invalidateTexture(source);
+  }
+
+  private getTarget(): DrawContext | null {
+    if (this.gl) return this.gl;
+    return isContext2D(this.ctx) ? this.ctx : null;
+  }
+
   /**
    * Reset all transforms
    */
   public resetTransform(): void {
-    if (this.ctx instanceof CanvasRenderingContext2D) {
-      while (this.transformStack > 0) {
-        this.restore();
-      }
+    while (this.transformStack > 0) {
+      this.restore();
+    }
+    if (this.gl) {
+      this.gl.resetTransform();
+    } else if (isContext2D(this.ctx)) {
       this.ctx.resetTransform();
     }
   }
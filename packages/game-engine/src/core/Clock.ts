@@ -0,0 +1,109 @@
+/**
+ * Clock - Pluggable time sources and frame drivers for the game loop
+ */
+
+export interface EngineClock {
+  /**
+   * Current time in milliseconds
+   */
+  now(): number;
+
+  /**
+   * Advance the clock (only implemented by manually driven clocks)
+   */
+  advance?(milliseconds: number): void;
+}
+
+export interface FrameDriver {
+  /**
+   * Schedule a callback for the next frame, returning a cancel handle
+   */
+  request(callback: () => void): number;
+
+  /**
+   * Cancel a previously scheduled frame
+   */
+  cancel(handle: number): void;
+}
+
+/**
+ * Wall-clock time backed by performance.now()
+ */
+export class SystemClock implements EngineClock {
+  public now(): number {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now();
+  }
+}
+
+/**
+ * Deterministic clock that only moves when advanced
+ */
+export class ManualClock implements EngineClock {
+  private time: number;
+
+  constructor(startTime = 0) {
+    this.time = startTime;
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public advance(milliseconds: number): void {
+    this.time += milliseconds;
+  }
+
+  /**
+   * Jump to an absolute time
+   */
+  public set(time: number): void {
+    this.time = time;
+  }
+}
+
+/**
+ * Browser frame driver using requestAnimationFrame
+ */
+export class AnimationFrameDriver implements FrameDriver {
+  public request(callback: () => void): number {
+    return requestAnimationFrame(() => callback());
+  }
+
+  public cancel(handle: number): void {
+    cancelAnimationFrame(handle);
+  }
+}
+
+/**
+ * Frame driver that queues callbacks until tick() is called
+ */
+export class ManualFrameDriver implements FrameDriver {
+  private pending: Map<number, () => void> = new Map();
+  private nextHandle = 1;
+
+  public request(callback: () => void): number {
+    const handle = this.nextHandle++;
+    this.pending.set(handle, callback);
+    return handle;
+  }
+
+  public cancel(handle: number): void {
+    this.pending.delete(handle);
+  }
+
+  /**
+   * Run every callback scheduled before this call
+   */
+  public tick(): void {
+    const callbacks = Array.from(this.pending.values());
+    this.pending.clear();
+    callbacks.forEach(callback => callback());
+  }
+
+  /**
+   * Get the number of scheduled callbacks
+   */
+  public getPendingCount(): number {
+    return this.pending.size;
+  }
+}
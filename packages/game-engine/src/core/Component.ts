@@ -0,0 +1,96 @@
+/**
+ * Component Registry - Typed component definitions for the ECS
+ */
+
+import type { Component } from './EntityManager';
+
+// Upgrades saved component data from one version to the next
+export type ComponentMigration = (
+  data: Record<string, unknown>
+) => Record<string, unknown>;
+
+export interface ComponentOptions<T extends object = object> {
+  serializable?: boolean; // Include in save states (default true)
+  transient?: Array<keyof T & string>; // Runtime fields reset to defaults on load
+  version?: number; // Data version written to saves (default 1)
+  migrations?: Record<number, ComponentMigration>; // Keyed by the version they upgrade from
+}
+
+export interface ComponentType<T extends object = object> {
+  readonly name: string;
+  readonly options: ComponentOptions<Record<string, unknown>>; // Field names unchecked once defined
+
+  /**
+   * Create component data, filling in defaults
+   */
+  create(init?: Partial<T>): T & Component;
+}
+
+export type ComponentKey<T extends object = object> = string | ComponentType<T>;
+
+export type ComponentData<C> = C extends ComponentType<infer T> ? T : never;
+
+const registry: Map<string, ComponentType> = new Map();
+
+/**
+ * Define a typed component token.
+ *
+ * The token is used as both the storage key and the type carrier, so
+ * `entityManager.getComponent(id, Transform)` returns `Transform` without casts.
+ * Options control how the component is written to save states; bump
+ * `version` and add a migration when its fields change.
+ */
+export function defineComponent<T extends object>(
+  name: string,
+  defaults?: () => Partial<T>,
+  options: ComponentOptions<T> = {}
+): ComponentType<T> {
+  const existing = registry.get(name);
+  if (existing) {
+    console.warn(`Component '${name}' is already defined`);
+    return existing as ComponentType<T>;
+  }
+
+  // Copied so the field names widen to strings (see ComponentType.options)
+  const { transient, ...rest } = options;
+  const type: ComponentType<T> = {
+    name,
+    options: { ...rest, transient },
+    create(init: Partial<T> = {}): T & Component {
+      return { ...defaults?.(), ...init, type: name } as T & Component;
+    },
+  };
+
+  registry.set(name, type);
+  return type;
+}
+
+/**
+ * Resolve a component key to its storage name
+ */
+export function getComponentName(key: ComponentKey): string {
+  return typeof key === 'string' ? key : key.name;
+}
+
+export const ComponentRegistry = {
+  /**
+   * Get a component definition by name
+   */
+  get(name: string): ComponentType | undefined {
+    return registry.get(name);
+  },
+
+  /**
+   * Check if a component name has been defined
+   */
+  has(name: string): boolean {
+    return registry.has(name);
+  },
+
+  /**
+   * Get all component definitions
+   */
+  getAll(): ComponentType[] {
+    return Array.from(registry.values());
+  },
+};
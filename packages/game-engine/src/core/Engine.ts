@@ -7,36 +7,81 @@ import { EntityManager } from './EntityManager';
 import { SystemManager } from './SystemManager';
 import { SceneManager } from './SceneManager';
 import { InputManager } from './InputManager';
+import type { InputEvent } from './InputManager';
+import { ActionMap } from './ActionMap';
+import type { ActionEvent } from './ActionMap';
+import { GestureManager } from './GestureManager';
+import { createDefaultRecognizers } from './GestureRecognizer';
+import type { GestureEvent } from './GestureRecognizer';
 import { AudioManager } from './AudioManager';
 import { AssetManager } from './AssetManager';
 import { CanvasRenderer } from './CanvasRenderer';
 import { PhysicsWorld } from './PhysicsWorld';
+import type { TriggerEvent } from './PhysicsWorld';
 import { AnimationManager } from './AnimationManager';
+import { Profiler } from './Profiler';
+import type { ProfilerOptions } from './Profiler';
+import { I18n } from './I18n';
+import type { LocaleChangeEvent } from './I18n';
+import {
+  AnimationFrameDriver,
+  ManualClock,
+  ManualFrameDriver,
+  SystemClock,
+  type EngineClock,
+  type FrameDriver,
+} from './Clock';
+import { RecordingContext2D } from './RecordingContext';
+import { WebGLRenderer } from './WebGLRenderer';
+import { SeededRandom } from './Random';
+import { createDefaultSystems } from '../systems/CoreSystems';
 
 export interface EngineConfig {
-  canvas: HTMLCanvasElement;
+  canvas?: HTMLCanvasElement; // Required unless running headless
   width: number;
   height: number;
   targetFPS?: number;
   enableWebGL?: boolean;
   debug?: boolean;
+  profile?: boolean | ProfilerOptions; // Collect frame timings from the start
+  locale?: string; // Initial language for engine.i18n (default 'en')
+  seed?: number; // Seed for engine.random (recorded with input sessions)
+  bindingsKey?: string; // Storage key for rebound input actions
+  defaultSystems?: boolean; // Install movement/physics/animation/render systems
+
+  // Headless mode (no DOM, deterministic time)
+  headless?: boolean;
+  clock?: EngineClock; // Defaults to ManualClock when headless
+  frameDriver?: FrameDriver; // Defaults to ManualFrameDriver when headless
+  context?:
+    | CanvasRenderingContext2D
+    | RecordingContext2D
+    | WebGL2RenderingContext; // Render backend override
 }
 
 export class GameEngine extends EventEmitter {
   private config: EngineConfig;
-  private canvas: HTMLCanvasElement;
-  private ctx!: CanvasRenderingContext2D | WebGLRenderingContext;
+  private canvas: HTMLCanvasElement | null;
+  private ctx!: CanvasRenderingContext2D | WebGL2RenderingContext;
+  private clock: EngineClock;
+  private frameDriver: FrameDriver;
+  private frameHandle: number | null = null;
 
   // Core managers
   public entityManager!: EntityManager;
   public systemManager!: SystemManager;
   public sceneManager!: SceneManager;
   public inputManager!: InputManager;
+  public gestures!: GestureManager;
+  public actions!: ActionMap;
   public audioManager!: AudioManager;
   public assetManager!: AssetManager;
   public renderer!: CanvasRenderer;
   public physics!: PhysicsWorld;
   public animations!: AnimationManager;
+  public profiler!: Profiler;
+  public i18n!: I18n;
+  public random: SeededRandom;
 
   // Game loop properties
   private isRunning = false;
@@ -52,17 +97,36 @@ export class GameEngine extends EventEmitter {
   private frameTimeHistory: number[] = [];
   private maxFrameTimeHistory = 60;
 
+  // Bound DOM handlers so they can be removed on destroy
+  private boundResize = () => this.handleResize();
+  private boundVisibilityChange = () => this.handleVisibilityChange();
+
   constructor(config: EngineConfig) {
     super();
 
     this.config = config;
-    this.canvas = config.canvas;
+    this.canvas = config.canvas ?? null;
     this.targetFPS = config.targetFPS || 60;
     this.frameTime = 1000 / this.targetFPS;
+    this.random = new SeededRandom(config.seed);
+
+    const headless = config.headless ?? false;
+    this.clock =
+      config.clock ?? (headless ? new ManualClock() : new SystemClock());
+    this.frameDriver =
+      config.frameDriver ??
+      (headless ? new ManualFrameDriver() : new AnimationFrameDriver());
 
     this.initializeCanvas();
     this.initializeManagers();
-    this.setupEventListeners();
+
+    if (!headless) {
+      this.setupEventListeners();
+    }
+
+    if (config.defaultSystems) {
+      this.installDefaultSystems();
+    }
 
     if (config.debug) {
       this.enableDebugMode();
@@ -70,19 +134,37 @@ export class GameEngine extends EventEmitter {
   }
 
   private initializeCanvas(): void {
-    this.canvas.width = this.config.width;
-    this.canvas.height = this.config.height;
+    if (this.canvas) {
+      this.canvas.width = this.config.width;
+      this.canvas.height = this.config.height;
+    }
+
+    // Explicit backend (e.g. a RecordingContext2D in tests)
+    const { context } = this.config;
+    if (context) {
+      this.ctx =
+        context instanceof RecordingContext2D ? context.asContext2D() : context;
+      return;
+    }
 
-    // Try WebGL first, fallback to 2D
+    if (!this.canvas) {
+      if (this.config.headless) {
+        this.ctx = new RecordingContext2D().asContext2D();
+        return;
+      }
+      throw new Error('A canvas is required unless the engine is headless');
+    }
+
+    // Try the batched WebGL2 backend first, fallback to 2D
     if (this.config.enableWebGL) {
-      const webglCtx =
-        this.canvas.getContext('webgl') ||
-        this.canvas.getContext('experimental-webgl');
+      const webglCtx = WebGLRenderer.isSupported()
+        ? this.canvas.getContext('webgl2')
+        : null;
       if (webglCtx) {
-        this.ctx = webglCtx as WebGLRenderingContext;
+        this.ctx = webglCtx;
         this.emit('webgl-initialized');
       } else {
-        console.warn('WebGL not supported, falling back to 2D context');
+        console.warn('WebGL2 not supported, falling back to 2D context');
         this.ctx = this.canvas.getContext('2d')!;
       }
     } else {
@@ -99,39 +181,76 @@ export class GameEngine extends EventEmitter {
     this.entityManager = new EntityManager();
     this.systemManager = new SystemManager(this);
     this.sceneManager = new SceneManager(this);
-    this.inputManager = new InputManager(this.canvas);
+    this.inputManager = new InputManager(this.canvas, this.clock);
+    this.gestures = new GestureManager(this.inputManager, this.clock);
+    for (const recognizer of createDefaultRecognizers()) {
+      this.gestures.addRecognizer(recognizer);
+    }
+    this.actions = new ActionMap(this.inputManager, this.gestures, {
+      // Headless runs must not read or overwrite the player's bindings
+      storage: this.config.headless ? null : undefined,
+      storageKey: this.config.bindingsKey,
+    });
     this.audioManager = new AudioManager();
     this.assetManager = new AssetManager();
     this.renderer = new CanvasRenderer(this.ctx, this.config);
     this.physics = new PhysicsWorld();
-    this.animations = new AnimationManager();
+    this.animations = new AnimationManager(this.clock);
+    const profile = this.config.profile;
+    this.profiler = new Profiler(typeof profile === 'object' ? profile : {});
+    if (profile) {
+      this.profiler.enable();
+    }
+    this.i18n = new I18n({
+      locale: this.config.locale,
+      assetManager: this.assetManager,
+    });
+    this.renderer.setTextDirection(this.i18n.getDirection());
 
     // Connect managers
-    this.inputManager.on('input', (input: any) => this.emit('input', input));
+    this.inputManager.on('input', (input: InputEvent) => {
+      this.sceneManager.handleInput(input);
+      this.emit('input', input);
+    });
+    this.gestures.on('gesture', (gesture: GestureEvent) =>
+      this.emit('gesture', gesture)
+    );
+    this.actions.on('action', (action: ActionEvent) =>
+      this.emit('action', action)
+    );
     this.physics.on('collision', (collision: any) =>
       this.emit('collision', collision)
     );
+    this.physics.on('trigger-enter', (trigger: TriggerEvent) =>
+      this.emit('trigger-enter', trigger)
+    );
+    this.physics.on('trigger-exit', (trigger: TriggerEvent) =>
+      this.emit('trigger-exit', trigger)
+    );
     this.animations.on('animation-complete', (animation: any) =>
       this.emit('animation-complete', animation)
     );
+    this.i18n.on('locale-changed', (change: LocaleChangeEvent) => {
+      this.renderer.setTextDirection(change.direction);
+      this.emit('locale-changed', change);
+    });
   }
 
   private setupEventListeners(): void {
     // Handle window resize
-    window.addEventListener('resize', this.handleResize.bind(this));
+    window.addEventListener('resize', this.boundResize);
 
     // Handle visibility change (pause when tab not active)
-    document.addEventListener(
-      'visibilitychange',
-      this.handleVisibilityChange.bind(this)
-    );
+    document.addEventListener('visibilitychange', this.boundVisibilityChange);
 
     // Handle canvas focus/blur
-    this.canvas.addEventListener('focus', () => this.emit('focus'));
-    this.canvas.addEventListener('blur', () => this.emit('blur'));
+    this.canvas?.addEventListener('focus', () => this.emit('focus'));
+    this.canvas?.addEventListener('blur', () => this.emit('blur'));
   }
 
   private handleResize(): void {
+    if (!this.canvas) return;
+
     const rect = this.canvas.getBoundingClientRect();
     this.canvas.width = rect.width * window.devicePixelRatio;
     this.canvas.height = rect.height * window.devicePixelRatio;
@@ -160,7 +279,7 @@ export class GameEngine extends EventEmitter {
     }
 
     this.isRunning = true;
-    this.lastFrameTime = performance.now();
+    this.lastFrameTime = this.clock.now();
     this.currentTime = this.lastFrameTime;
 
     this.emit('start');
@@ -172,6 +291,7 @@ export class GameEngine extends EventEmitter {
    */
   public stop(): void {
     this.isRunning = false;
+    this.cancelFrame();
     this.emit('stop');
   }
 
@@ -181,6 +301,7 @@ export class GameEngine extends EventEmitter {
   public pause(): void {
     if (!this.isRunning) return;
     this.isRunning = false;
+    this.cancelFrame();
     this.emit('pause');
   }
 
@@ -190,7 +311,7 @@ export class GameEngine extends EventEmitter {
   public resume(): void {
     if (this.isRunning) return;
     this.isRunning = true;
-    this.lastFrameTime = performance.now();
+    this.lastFrameTime = this.clock.now();
     this.emit('resume');
     this.gameLoop();
   }
@@ -201,11 +322,12 @@ export class GameEngine extends EventEmitter {
   private gameLoop(): void {
     if (!this.isRunning) return;
 
-    const now = performance.now();
+    const now = this.clock.now();
     const frameTime = Math.min(now - this.lastFrameTime, 250); // Cap at 250ms to prevent spiral of death
     this.lastFrameTime = now;
 
     this.accumulator += frameTime;
+    this.profiler.beginFrame(this.frameCount + 1);
 
     // Update at fixed timestep
     while (this.accumulator >= this.frameTime) {
@@ -219,9 +341,34 @@ export class GameEngine extends EventEmitter {
 
     // Update performance metrics
     this.updatePerformanceMetrics(frameTime);
+    this.endProfilerFrame();
 
     // Continue loop
-    requestAnimationFrame(() => this.gameLoop());
+    this.frameHandle = this.frameDriver.request(() => this.gameLoop());
+  }
+
+  private cancelFrame(): void {
+    if (this.frameHandle !== null) {
+      this.frameDriver.cancel(this.frameHandle);
+      this.frameHandle = null;
+    }
+  }
+
+  /**
+   * Advance the simulation by a number of fixed timesteps and render once.
+   * Intended for headless use; manual clocks are advanced in lockstep.
+   */
+  public step(frames = 1): void {
+    this.profiler.beginFrame(this.frameCount + 1);
+
+    for (let i = 0; i < frames; i++) {
+      this.clock.advance?.(this.frameTime);
+      this.update(this.frameTime / 1000);
+      this.updatePerformanceMetrics(this.frameTime);
+    }
+
+    this.render(0);
+    this.endProfilerFrame();
   }
 
   /**
@@ -229,21 +376,48 @@ export class GameEngine extends EventEmitter {
    */
   private update(deltaTime: number): void {
     this.frameCount++;
+    this.emit('frame-start', this.frameCount);
+
+    const profiler = this.profiler;
 
     // Update input
+    profiler.begin('input');
     this.inputManager.update(deltaTime);
-
-    // Update physics
-    this.physics.update(deltaTime);
+    this.gestures.update();
+    this.actions.update();
+    profiler.end();
+
+    // The world stops under a pausing overlay and follows the current
+    // scene's time scale; animations keep running for overlays
+    const worldDeltaTime = deltaTime * this.sceneManager.getWorldTimeScale();
+
+    // Update physics (a registered physics system steps the world itself,
+    // so it can sync transforms around the step)
+    if (!this.systemManager.getSystem('physics')) {
+      profiler.begin('physics');
+      this.physics.update(worldDeltaTime);
+      profiler.end();
+    }
 
     // Update animations
+    profiler.begin('animation');
     this.animations.update(deltaTime);
+    profiler.end();
 
     // Update current scene
+    profiler.begin('scene');
     this.sceneManager.update(deltaTime);
+    profiler.end();
+
+    // Update all systems (timed individually by the system manager)
+    profiler.begin('systems');
+    this.systemManager.update(worldDeltaTime);
+    profiler.end();
 
-    // Update all systems
-    this.systemManager.update(deltaTime);
+    // Keep the audio listener on the camera and advance music playlists
+    profiler.begin('audio');
+    this.audioManager.update(this.renderer.getCameraPosition());
+    profiler.end();
 
     // Emit update event
     this.emit('update', deltaTime);
@@ -253,19 +427,38 @@ export class GameEngine extends EventEmitter {
    * Render game
    */
   private render(interpolation: number): void {
+    this.profiler.begin('render');
+
     // Clear canvas
     this.renderer.clear();
 
-    // Render current scene
-    this.sceneManager.render(this.renderer, interpolation);
+    // Render current scene, with the systems' world pass above it
+    this.sceneManager.render(this.renderer, interpolation, () =>
+      this.systemManager.render(this.renderer, interpolation)
+    );
 
     // Render debug info if enabled
     if (this.config.debug) {
       this.renderDebugInfo();
     }
 
+    if (this.profiler.isOverlayVisible()) {
+      this.profiler.renderOverlay(this.renderer, this.config.width - 270, 10);
+    }
+
     // Emit render event
     this.emit('render', interpolation);
+
+    // Submit anything still batched (WebGL)
+    this.renderer.flush();
+    this.profiler.end();
+  }
+
+  private endProfilerFrame(): void {
+    this.profiler.endFrame({
+      entities: this.entityManager.getEntityCount(),
+      drawCalls: this.renderer.getDrawCallCount(),
+    });
   }
 
   private updatePerformanceMetrics(frameTime: number): void {
@@ -286,29 +479,46 @@ export class GameEngine extends EventEmitter {
   }
 
   private renderDebugInfo(): void {
-    if (this.ctx instanceof CanvasRenderingContext2D) {
-      const ctx = this.ctx;
-      ctx.save();
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-      ctx.fillRect(10, 10, 200, 100);
-
-      ctx.fillStyle = 'white';
-      ctx.font = '12px monospace';
-      ctx.fillText(`FPS: ${this.fps}`, 20, 30);
-      ctx.fillText(`Entities: ${this.entityManager.getEntityCount()}`, 20, 45);
-      ctx.fillText(`Systems: ${this.systemManager.getSystemCount()}`, 20, 60);
-      ctx.fillText(
-        `Scene: ${this.sceneManager.getCurrentScene()?.name || 'None'}`,
-        20,
-        75
-      );
-      ctx.fillText(
-        `Audio: ${this.audioManager.getActiveSourceCount()} playing`,
-        20,
-        90
-      );
-      ctx.restore();
-    }
+    const font = '12px monospace';
+    const renderer = this.renderer;
+
+    renderer.drawRect(10, 10, 200, 115, 'rgba(0, 0, 0, 0.7)');
+    renderer.drawText(`FPS: ${this.fps}`, 20, 30, font, 'white');
+    renderer.drawText(
+      `Entities: ${this.entityManager.getEntityCount()}`,
+      20,
+      45,
+      font,
+      'white'
+    );
+    renderer.drawText(
+      `Systems: ${this.systemManager.getSystemCount()}`,
+      20,
+      60,
+      font,
+      'white'
+    );
+    renderer.drawText(
+      `Scene: ${this.sceneManager.getCurrentScene()?.name || 'None'}`,
+      20,
+      75,
+      font,
+      'white'
+    );
+    renderer.drawText(
+      `Audio: ${this.audioManager.getActiveSourceCount()} playing`,
+      20,
+      90,
+      font,
+      'white'
+    );
+    renderer.drawText(
+      `Draw calls: ${this.renderer.getDrawCallCount()}`,
+      20,
+      105,
+      font,
+      'white'
+    );
   }
 
   private enableDebugMode(): void {
@@ -323,31 +533,53 @@ export class GameEngine extends EventEmitter {
           audioSources: this.audioManager.getActiveSourceCount(),
         });
       }
+
+      // Frame timing overlay
+      if (event.key === 'F2') {
+        this.profiler.toggleOverlay();
+      }
     });
   }
 
+  /**
+   * Install the default system bundle (skips systems that already exist)
+   */
+  public installDefaultSystems(): void {
+    for (const system of createDefaultSystems(this)) {
+      if (!this.systemManager.getSystem(system.name)) {
+        this.systemManager.addSystem(system);
+      }
+    }
+  }
+
   /**
    * Destroy the engine and clean up resources
    */
   public destroy(): void {
     this.stop();
 
-    // Clean up managers
+    // Clean up managers (scenes first, so exits can release their bundles)
+    this.sceneManager.destroy();
+    this.actions.destroy();
+    this.gestures.destroy();
     this.inputManager.destroy();
     this.audioManager.destroy();
     this.assetManager.destroy();
     this.physics.destroy();
     this.animations.destroy();
-    this.sceneManager.destroy();
+    this.profiler.destroy();
+    this.i18n.destroy();
     this.systemManager.destroy();
     this.entityManager.destroy();
 
     // Remove event listeners
-    window.removeEventListener('resize', this.handleResize);
-    document.removeEventListener(
-      'visibilitychange',
-      this.handleVisibilityChange
-    );
+    if (!this.config.headless) {
+      window.removeEventListener('resize', this.boundResize);
+      document.removeEventListener(
+        'visibilitychange',
+        this.boundVisibilityChange
+      );
+    }
 
     this.emit('destroy');
     this.removeAllListeners();
@@ -360,12 +592,23 @@ export class GameEngine extends EventEmitter {
   public get currentFPS(): number {
     return this.fps;
   }
-  public get canvasContext(): CanvasRenderingContext2D | WebGLRenderingContext {
+  public get canvasContext():
+    | CanvasRenderingContext2D
+    | WebGL2RenderingContext {
     return this.ctx;
   }
-  public get canvasElement(): HTMLCanvasElement {
+  public get canvasElement(): HTMLCanvasElement | null {
     return this.canvas;
   }
+  public get engineClock(): EngineClock {
+    return this.clock;
+  }
+  public get isHeadless(): boolean {
+    return this.config.headless ?? false;
+  }
+  public get currentFrame(): number {
+    return this.frameCount;
+  }
   public get engineConfig(): EngineConfig {
     return this.config;
   }
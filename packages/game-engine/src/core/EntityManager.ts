@@ -2,6 +2,14 @@
  * Entity-Component-System (ECS) - Entity Manager
  */
 
+import { EventEmitter } from './EventEmitter';
+import {
+  getComponentName,
+  type ComponentKey,
+  type ComponentType,
+} from './Component';
+import { Query, type QueryComponents, type QueryIndex } from './Query';
+
 export type EntityId = number;
 
 export interface Component {
@@ -15,10 +23,12 @@ export interface Entity {
   tags: Set<string>;
 }
 
-export class EntityManager {
+export class EntityManager extends EventEmitter {
   private entities: Map<EntityId, Entity> = new Map();
   private nextEntityId: EntityId = 1;
   private componentQueries: Map<string, Set<EntityId>> = new Map();
+  private queries: Map<string, QueryIndex> = new Map();
+  private queriesByComponent: Map<string, QueryIndex[]> = new Map();
 
   /**
    * Create a new entity
@@ -32,6 +42,33 @@ export class EntityManager {
     };
 
     this.entities.set(entity.id, entity);
+    this.emit('entity-created', entity);
+    return entity;
+  }
+
+  /**
+   * Recreate an entity with a known ID, e.g. when loading a save. Later
+   * entities are numbered after it.
+   */
+  public restoreEntity(
+    entityId: EntityId,
+    tags: string[] = [],
+    active = true
+  ): Entity {
+    if (this.entities.has(entityId)) {
+      throw new Error(`Entity ${entityId} already exists`);
+    }
+
+    const entity: Entity = {
+      id: entityId,
+      components: new Map(),
+      active,
+      tags: new Set(tags),
+    };
+
+    this.entities.set(entity.id, entity);
+    this.nextEntityId = Math.max(this.nextEntityId, entityId + 1);
+    this.emit('entity-created', entity);
     return entity;
   }
 
@@ -45,8 +82,12 @@ export class EntityManager {
       for (const componentType of entity.components.keys()) {
         this.removeFromQuery(componentType, entityId);
       }
+      for (const query of this.queries.values()) {
+        query.remove(entityId);
+      }
 
       this.entities.delete(entityId);
+      this.emit('entity-destroyed', entity);
     }
   }
 
@@ -63,55 +104,91 @@ export class EntityManager {
   public addComponent<T extends Component>(
     entityId: EntityId,
     component: T
-  ): void {
+  ): void;
+  public addComponent<T extends object>(
+    entityId: EntityId,
+    type: ComponentType<T>,
+    data?: Partial<T>
+  ): T;
+  public addComponent(
+    entityId: EntityId,
+    componentOrType: Component | ComponentType,
+    data?: object
+  ): Component | undefined {
     const entity = this.entities.get(entityId);
-    if (entity) {
-      entity.components.set(component.type, component);
-      this.addToQuery(component.type, entityId);
-    }
+    if (!entity) return undefined;
+
+    const component =
+      'create' in componentOrType
+        ? componentOrType.create(data)
+        : componentOrType;
+
+    entity.components.set(component.type, component);
+    this.addToQuery(component.type, entityId);
+    this.refreshQueries(entity, component.type);
+    this.emit('component-added', { entity, component });
+    return component;
   }
 
   /**
    * Remove a component from an entity
    */
-  public removeComponent(entityId: EntityId, componentType: string): void {
+  public removeComponent(
+    entityId: EntityId,
+    componentType: ComponentKey
+  ): void {
+    const name = getComponentName(componentType);
     const entity = this.entities.get(entityId);
-    if (entity && entity.components.has(componentType)) {
-      entity.components.delete(componentType);
-      this.removeFromQuery(componentType, entityId);
+    const component = entity?.components.get(name);
+    if (entity && component) {
+      entity.components.delete(name);
+      this.removeFromQuery(name, entityId);
+      this.refreshQueries(entity, name);
+      this.emit('component-removed', { entity, component });
     }
   }
 
   /**
    * Get a component from an entity
    */
+  public getComponent<T extends object>(
+    entityId: EntityId,
+    componentType: ComponentType<T>
+  ): T | undefined;
   public getComponent<T extends Component>(
     entityId: EntityId,
     componentType: string
-  ): T | undefined {
+  ): T | undefined;
+  public getComponent(
+    entityId: EntityId,
+    componentType: ComponentKey
+  ): object | undefined {
     const entity = this.entities.get(entityId);
-    return entity?.components.get(componentType) as T | undefined;
+    return entity?.components.get(getComponentName(componentType));
   }
 
   /**
    * Check if an entity has a component
    */
-  public hasComponent(entityId: EntityId, componentType: string): boolean {
+  public hasComponent(
+    entityId: EntityId,
+    componentType: ComponentKey
+  ): boolean {
     const entity = this.entities.get(entityId);
-    return entity ? entity.components.has(componentType) : false;
+    return entity
+      ? entity.components.has(getComponentName(componentType))
+      : false;
   }
 
   /**
    * Get all entities with specific components
    */
-  public getEntitiesWithComponents(componentTypes: string[]): Entity[] {
+  public getEntitiesWithComponents(componentTypes: ComponentKey[]): Entity[] {
+    const names = componentTypes.map(getComponentName);
     const entities: Entity[] = [];
 
     for (const entity of this.entities.values()) {
-      if (
-        entity.active &&
-        componentTypes.every(type => entity.components.has(type))
-      ) {
+      if (entity.active && names.every(name => entity.components.has(name))) {
         entities.push(entity);
       }
     }
@@ -119,6 +196,50 @@ export class EntityManager {
     return entities;
   }
 
+  /**
+   * Get a cached query of entities with all of the given components.
+   * Queries are updated incrementally as components are added or removed.
+   */
+  public query<C extends ComponentType[]>(
+    ...types: C
+  ): Query<QueryComponents<C>> {
+    const key = Query.keyFor(types);
+    const cached = this.queries.get(key);
+    if (cached) return cached as Query<QueryComponents<C>>;
+
+    const query = new Query<QueryComponents<C>>(types);
+    this.queries.set(key, query);
+
+    for (const type of types) {
+      if (!this.queriesByComponent.has(type.name)) {
+        this.queriesByComponent.set(type.name, []);
+      }
+      this.queriesByComponent.get(type.name)!.push(query);
+    }
+
+    // Seed from the smallest component set
+    let candidates: Iterable<EntityId> = [];
+    let smallest = Infinity;
+    for (const type of types) {
+      const ids = this.componentQueries.get(type.name);
+      if (!ids || ids.size === 0) {
+        candidates = [];
+        break;
+      }
+      if (ids.size < smallest) {
+        smallest = ids.size;
+        candidates = ids;
+      }
+    }
+
+    for (const id of candidates) {
+      const entity = this.entities.get(id);
+      if (entity) query.refresh(entity);
+    }
+
+    return query;
+  }
+
   /**
    * Get entities by tag
    */
@@ -159,8 +280,12 @@ export class EntityManager {
    */
   public setEntityActive(entityId: EntityId, active: boolean): void {
     const entity = this.entities.get(entityId);
-    if (entity) {
+    if (entity && entity.active !== active) {
       entity.active = active;
+      for (const componentType of entity.components.keys()) {
+        this.refreshQueries(entity, componentType);
+      }
+      this.emit(active ? 'entity-activated' : 'entity-deactivated', entity);
     }
   }
 
@@ -171,6 +296,13 @@ export class EntityManager {
     return Array.from(this.entities.values()).filter(entity => entity.active);
   }
 
+  /**
+   * Get all entities, including inactive ones
+   */
+  public getAllEntities(): Entity[] {
+    return Array.from(this.entities.values());
+  }
+
   /**
    * Get entity count
    */
@@ -184,7 +316,11 @@ export class EntityManager {
   public clear(): void {
     this.entities.clear();
     this.componentQueries.clear();
+    for (const query of this.queries.values()) {
+      query.clear();
+    }
     this.nextEntityId = 1;
+    this.emit('entities-cleared');
   }
 
   /**
@@ -192,6 +328,7 @@ export class EntityManager {
    */
   public destroy(): void {
     this.clear();
+    this.removeAllListeners();
   }
 
   private addToQuery(componentType: string, entityId: EntityId): void {
@@ -207,4 +344,13 @@ export class EntityManager {
       query.delete(entityId);
     }
   }
+
+  private refreshQueries(entity: Entity, componentType: string): void {
+    const queries = this.queriesByComponent.get(componentType);
+    if (queries) {
+      for (const query of queries) {
+        query.refresh(entity);
+      }
+    }
+  }
 }
@@ -0,0 +1,333 @@
+/**
+ * Gesture Manager - Feeds pointer input to gesture recognizers and emits
+ * the gestures they recognise
+ */
+
+import { EventEmitter } from './EventEmitter';
+import { SystemClock, type EngineClock } from './Clock';
+import type { InputEvent, InputManager } from './InputManager';
+import type { CanvasRenderer } from './CanvasRenderer';
+import type {
+  GestureEvent,
+  GesturePointer,
+  GestureRecognizer,
+  GestureState,
+} from './GestureRecognizer';
+
+export interface GestureManagerOptions {
+  mouse?: boolean; // Treat the primary mouse button as a pointer
+}
+
+export interface CameraGestureOptions {
+  pinchZoom?: string | false; // Recognizer that zooms (default 'pinch')
+  pan?: string | false; // Recognizer that pans (default 'two-finger-pan')
+  minZoom?: number;
+  maxZoom?: number;
+}
+
+const HISTORY_LENGTH = 10;
+
+/**
+ * Gesture Manager - Tracks touches (and optionally the mouse) from the
+ * InputManager. Recognizers that require another's failure hold their
+ * events until it fails and drop them if it succeeds. Emits 'gesture' and
+ * the recognizer name (e.g. 'pinch') for every event.
+ */
+export class GestureManager extends EventEmitter {
+  private inputManager: InputManager;
+  private clock: EngineClock;
+  private options: Required<GestureManagerOptions>;
+  private recognizers: GestureRecognizer[] = [];
+  private pointers: Map<string, GesturePointer> = new Map();
+  private enabled = true;
+
+  constructor(
+    inputManager: InputManager,
+    clock: EngineClock = new SystemClock(),
+    options: GestureManagerOptions = {}
+  ) {
+    super();
+    this.inputManager = inputManager;
+    this.clock = clock;
+    this.options = { mouse: options.mouse ?? true };
+
+    inputManager.on('input', this.handleInput);
+    inputManager.on('blur', this.handleBlur);
+  }
+
+  public addRecognizer<T extends GestureRecognizer>(recognizer: T): T {
+    if (this.getRecognizer(recognizer.name)) {
+      throw new Error(`Gesture recognizer '${recognizer.name}' already exists`);
+    }
+    this.recognizers.push(recognizer);
+    return recognizer;
+  }
+
+  public removeRecognizer(recognizerOrName: GestureRecognizer | string): void {
+    const recognizer =
+      typeof recognizerOrName === 'string'
+        ? this.getRecognizer(recognizerOrName)
+        : recognizerOrName;
+    if (!recognizer) return;
+
+    this.recognizers = this.recognizers.filter(r => r !== recognizer);
+
+    // Nothing can wait on a recognizer that no longer runs
+    for (const other of this.recognizers) {
+      const index = other.requirements.indexOf(recognizer);
+      if (index !== -1) {
+        other.requirements.splice(index, 1);
+        this.resolveRequirements(other);
+      }
+    }
+  }
+
+  public getRecognizer<T extends GestureRecognizer = GestureRecognizer>(
+    name: string
+  ): T | undefined {
+    return this.recognizers.find(r => r.name === name) as T | undefined;
+  }
+
+  public getRecognizers(): GestureRecognizer[] {
+    return [...this.recognizers];
+  }
+
+  /**
+   * Get the pointers currently down
+   */
+  public getPointers(): GesturePointer[] {
+    return Array.from(this.pointers.values());
+  }
+
+  /**
+   * Run recognizer timeouts (the engine calls this after input updates)
+   */
+  public update(): void {
+    const now = this.clock.now();
+    this.runRecognizers(recognizer => recognizer.onTick(now));
+  }
+
+  public setEnabled(enabled: boolean): void {
+    if (!enabled) this.cancelAll();
+    this.enabled = enabled;
+  }
+
+  /**
+   * Drive a renderer's camera from gestures: pinch zooms around the pinch
+   * centre and two-finger pan moves the view. Returns a function that
+   * detaches the controls.
+   */
+  public attachCamera(
+    renderer: CanvasRenderer,
+    options: CameraGestureOptions = {}
+  ): () => void {
+    const pinch = options.pinchZoom ?? 'pinch';
+    const pan = options.pan ?? 'two-finger-pan';
+    const minZoom = options.minZoom ?? 0.5;
+    const maxZoom = options.maxZoom ?? 4;
+
+    const handlePinch = (event: GestureEvent): void => {
+      if (event.phase === 'end' || event.phase === 'cancel') return;
+
+      // Keep the world point under the pinch centre in place
+      const before = renderer.screenToWorld(event.x, event.y);
+      const zoom = renderer.getCameraZoom() * (event.deltaScale ?? 1);
+      renderer.setCameraZoom(Math.min(Math.max(zoom, minZoom), maxZoom));
+      const after = renderer.screenToWorld(event.x, event.y);
+      renderer.moveCamera(before.x - after.x, before.y - after.y);
+    };
+
+    const handlePan = (event: GestureEvent): void => {
+      if (event.phase === 'cancel') return;
+
+      const from = renderer.screenToWorld(
+        event.x - (event.deltaX ?? 0),
+        event.y - (event.deltaY ?? 0)
+      );
+      const to = renderer.screenToWorld(event.x, event.y);
+      renderer.moveCamera(from.x - to.x, from.y - to.y);
+    };
+
+    if (pinch) this.on(pinch, handlePinch);
+    if (pan) this.on(pan, handlePan);
+
+    return () => {
+      if (pinch) this.off(pinch, handlePinch);
+      if (pan) this.off(pan, handlePan);
+    };
+  }
+
+  private handleInput = (event: InputEvent): void => {
+    if (!this.enabled || event.handled) return;
+
+    let id: string;
+    if (event.type === 'touch') {
+      if (event.data.gesture === 'long-press') return;
+      id = `touch:${event.data.id}`;
+    } else if (event.type === 'mouse' && this.options.mouse) {
+      if (event.action === 'wheel') return;
+      if (event.action !== 'move' && event.data.button !== 0) return;
+      id = 'mouse';
+    } else {
+      return;
+    }
+
+    const now = this.clock.now();
+    const x: number = event.data.x;
+    const y: number = event.data.y;
+
+    if (event.action === 'down') {
+      if (this.pointers.has(id)) return;
+
+      // A new gesture starts when the first pointer lands
+      if (this.pointers.size === 0) {
+        for (const recognizer of this.recognizers) {
+          if (this.isFinished(recognizer.state)) recognizer.reset();
+        }
+      }
+
+      const pointer: GesturePointer = {
+        id,
+        x,
+        y,
+        startX: x,
+        startY: y,
+        startTime: now,
+        history: [{ x, y, time: now }],
+      };
+      this.pointers.set(id, pointer);
+
+      const pointers = this.getPointers();
+      this.runRecognizers(r => r.onPointerDown(pointer, pointers, now));
+    } else if (event.action === 'move') {
+      const pointer = this.pointers.get(id);
+      if (!pointer) return;
+
+      pointer.x = x;
+      pointer.y = y;
+      pointer.history.push({ x, y, time: now });
+      if (pointer.history.length > HISTORY_LENGTH) pointer.history.shift();
+
+      const pointers = this.getPointers();
+      this.runRecognizers(r => r.onPointerMove(pointers, now));
+    } else if (event.action === 'up') {
+      const pointer = this.pointers.get(id);
+      if (!pointer) return;
+
+      pointer.x = x;
+      pointer.y = y;
+      pointer.history.push({ x, y, time: now });
+      this.pointers.delete(id);
+
+      const pointers = this.getPointers();
+      this.runRecognizers(r => r.onPointerUp(pointer, pointers, now));
+    } else if (event.action === 'cancel') {
+      if (!this.pointers.delete(id)) return;
+
+      // Whatever the pointer was part of can't finish
+      this.runRecognizers(recognizer => {
+        if (!this.isFinished(recognizer.state)) recognizer.cancel(now);
+      });
+    }
+  };
+
+  private handleBlur = (): void => {
+    // Releases outside the window never arrive
+    this.cancelAll();
+  };
+
+  private cancelAll(): void {
+    const now = this.clock.now();
+    this.pointers.clear();
+    this.runRecognizers(recognizer => {
+      if (!this.isFinished(recognizer.state)) recognizer.cancel(now);
+    });
+  }
+
+  private runRecognizers(hook: (recognizer: GestureRecognizer) => void): void {
+    for (const recognizer of this.recognizers) {
+      if (!recognizer.enabled) continue;
+
+      const previous = recognizer.state;
+      hook(recognizer);
+      this.dispatch(recognizer, recognizer.takeEvents());
+
+      if (recognizer.state !== previous) {
+        this.handleStateChange(recognizer);
+      }
+    }
+  }
+
+  private dispatch(
+    recognizer: GestureRecognizer,
+    events: GestureEvent[]
+  ): void {
+    if (events.length === 0) return;
+
+    const status = this.getRequirementStatus(recognizer);
+    if (status === 'blocked') {
+      recognizer.fail();
+    } else if (status === 'waiting' || recognizer.pending.length > 0) {
+      recognizer.pending.push(...events);
+    } else {
+      for (const event of events) this.emitGesture(event);
+    }
+  }
+
+  private handleStateChange(changed: GestureRecognizer): void {
+    for (const recognizer of this.recognizers) {
+      if (recognizer.requirements.includes(changed)) {
+        this.resolveRequirements(recognizer);
+      }
+    }
+  }
+
+  /**
+   * Release or drop events held for requirements that have now settled
+   */
+  private resolveRequirements(recognizer: GestureRecognizer): void {
+    if (recognizer.pending.length === 0) return;
+
+    const status = this.getRequirementStatus(recognizer);
+    if (status === 'blocked') {
+      recognizer.fail();
+      this.handleStateChange(recognizer);
+    } else if (status === 'clear') {
+      const events = recognizer.pending;
+      recognizer.pending = [];
+      for (const event of events) this.emitGesture(event);
+    }
+  }
+
+  private getRequirementStatus(
+    recognizer: GestureRecognizer
+  ): 'clear' | 'waiting' | 'blocked' {
+    let status: 'clear' | 'waiting' = 'clear';
+    for (const required of recognizer.requirements) {
+      if (!required.enabled) continue;
+      if (required.state === 'active' || required.state === 'recognized') {
+        return 'blocked';
+      }
+      if (required.state === 'possible') status = 'waiting';
+    }
+    return status;
+  }
+
+  private isFinished(state: GestureState): boolean {
+    return (
+      state === 'recognized' || state === 'failed' || state === 'cancelled'
+    );
+  }
+
+  private emitGesture(event: GestureEvent): void {
+    this.emit('gesture', event);
+    this.emit(event.type, event);
+  }
+
+  public destroy(): void {
+    this.inputManager.off('input', this.handleInput);
+    this.inputManager.off('blur', this.handleBlur);
+    this.pointers.clear();
+    this.removeAllListeners();
+  }
+}
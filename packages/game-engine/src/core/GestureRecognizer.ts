@@ -0,0 +1,713 @@
+/**
+ * Gesture Recognizers - Turn raw pointer tracks into swipe, pinch, rotate,
+ * tap and drag gestures
+ */
+
+export type GestureState =
+  | 'idle'
+  | 'possible' // Tracking pointers, not yet recognised
+  | 'active' // Continuous gesture in progress
+  | 'recognized'
+  | 'failed'
+  | 'cancelled';
+
+export type GesturePhase = 'start' | 'move' | 'end' | 'cancel';
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+export interface GesturePointer {
+  id: string; // 'mouse' or 'touch:<id>'
+  x: number; // Screen space
+  y: number;
+  startX: number;
+  startY: number;
+  startTime: number;
+  history: Array<{ x: number; y: number; time: number }>; // Recent samples
+}
+
+export interface GestureEvent {
+  type: string; // Recognizer name
+  phase: GesturePhase; // Discrete gestures only emit 'end'
+  x: number; // Centre of the gesture's pointers (screen space)
+  y: number;
+  pointers: number;
+  timestamp: number;
+
+  // Drag and swipe
+  deltaX?: number; // Since the previous event
+  deltaY?: number;
+  totalX?: number; // Since the gesture started
+  totalY?: number;
+  velocityX?: number; // px/s
+  velocityY?: number;
+  direction?: SwipeDirection;
+
+  // Pinch
+  scale?: number; // Relative to the starting distance
+  deltaScale?: number; // Relative to the previous event
+
+  // Rotate (radians, clockwise on screen)
+  rotation?: number;
+  deltaRotation?: number;
+
+  // Tap
+  taps?: number;
+}
+
+const VELOCITY_WINDOW = 100; // ms of history used for release velocity
+
+function centroid(pointers: GesturePointer[]): { x: number; y: number } {
+  let x = 0;
+  let y = 0;
+  for (const pointer of pointers) {
+    x += pointer.x;
+    y += pointer.y;
+  }
+  return { x: x / pointers.length, y: y / pointers.length };
+}
+
+function velocity(
+  pointer: GesturePointer,
+  now: number
+): { x: number; y: number } {
+  const recent = pointer.history.filter(s => now - s.time <= VELOCITY_WINDOW);
+  if (recent.length < 2) return { x: 0, y: 0 };
+
+  const first = recent[0];
+  const last = recent[recent.length - 1];
+  const dt = (last.time - first.time) / 1000;
+  if (dt <= 0) return { x: 0, y: 0 };
+
+  return { x: (last.x - first.x) / dt, y: (last.y - first.y) / dt };
+}
+
+/**
+ * Gesture Recognizer - Base class driven by GestureManager. Subclasses
+ * move between states and queue events; the manager gates them on
+ * requireFailureOf relationships before emitting.
+ */
+export abstract class GestureRecognizer {
+  public readonly name: string;
+  public enabled = true;
+  public state: GestureState = 'idle';
+
+  // Recognizers that must fail before this one may emit
+  public readonly requirements: GestureRecognizer[] = [];
+
+  // Events waiting on requirements (managed by GestureManager)
+  public pending: GestureEvent[] = [];
+
+  protected lastEvent: GestureEvent | null = null;
+  private queued: GestureEvent[] = [];
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  /**
+   * Only recognise this gesture once another has failed (e.g. a single tap
+   * that waits for a double tap to time out)
+   */
+  public requireFailureOf(other: GestureRecognizer): this {
+    if (other !== this && !this.requirements.includes(other)) {
+      this.requirements.push(other);
+    }
+    return this;
+  }
+
+  public abstract onPointerDown(
+    pointer: GesturePointer,
+    pointers: GesturePointer[],
+    now: number
+  ): void;
+
+  public abstract onPointerMove(pointers: GesturePointer[], now: number): void;
+
+  public abstract onPointerUp(
+    pointer: GesturePointer,
+    pointers: GesturePointer[],
+    now: number
+  ): void;
+
+  /**
+   * Check timeouts (called every update)
+   */
+  public onTick(_now: number): void {}
+
+  /**
+   * Return to idle before a new gesture
+   */
+  public reset(): void {
+    this.state = 'idle';
+    this.pending = [];
+    this.queued = [];
+    this.lastEvent = null;
+  }
+
+  public fail(): void {
+    this.state = 'failed';
+    this.pending = [];
+    this.queued = [];
+  }
+
+  /**
+   * Abort an active gesture (e.g. on blur)
+   */
+  public cancel(now: number): void {
+    if (this.state === 'active' && this.lastEvent) {
+      this.queue({ ...this.lastEvent, phase: 'cancel', timestamp: now });
+    }
+    this.state = 'cancelled';
+  }
+
+  /**
+   * Drain events queued since the last call
+   */
+  public takeEvents(): GestureEvent[] {
+    const events = this.queued;
+    this.queued = [];
+    return events;
+  }
+
+  protected queue(event: GestureEvent): void {
+    this.lastEvent = event;
+    this.queued.push(event);
+  }
+}
+
+export interface TapOptions {
+  name?: string;
+  taps?: number; // 2 for double tap
+  pointers?: number;
+  maxDistance?: number; // px a pointer may move and still tap
+  maxDuration?: number; // ms each press may last
+  interval?: number; // ms allowed between taps
+}
+
+/**
+ * Tap Recognizer - One or more quick taps in the same place
+ */
+export class TapRecognizer extends GestureRecognizer {
+  public taps: number;
+  public pointers: number;
+  public maxDistance: number;
+  public maxDuration: number;
+  public interval: number;
+
+  private count = 0;
+  private downTime = 0;
+  private upTime = 0;
+  private firstX = 0;
+  private firstY = 0;
+  private maxPointers = 0;
+
+  constructor(options: TapOptions = {}) {
+    super(options.name ?? (options.taps === 2 ? 'double-tap' : 'tap'));
+    this.taps = options.taps ?? 1;
+    this.pointers = options.pointers ?? 1;
+    this.maxDistance = options.maxDistance ?? 10;
+    this.maxDuration = options.maxDuration ?? 300;
+    this.interval = options.interval ?? 300;
+  }
+
+  public onPointerDown(
+    _pointer: GesturePointer,
+    pointers: GesturePointer[],
+    now: number
+  ): void {
+    if (this.state !== 'idle' && this.state !== 'possible') return;
+
+    if (pointers.length > this.pointers) {
+      this.fail();
+      return;
+    }
+
+    const center = centroid(pointers);
+    if (pointers.length === 1) {
+      if (this.count === 0) {
+        this.firstX = center.x;
+        this.firstY = center.y;
+      } else if (
+        now - this.upTime > this.interval ||
+        Math.hypot(center.x - this.firstX, center.y - this.firstY) >
+          this.maxDistance * 3
+      ) {
+        this.fail();
+        return;
+      }
+      this.downTime = now;
+      this.maxPointers = 0;
+    }
+
+    this.maxPointers = Math.max(this.maxPointers, pointers.length);
+    this.state = 'possible';
+  }
+
+  public onPointerMove(pointers: GesturePointer[]): void {
+    if (this.state !== 'possible') return;
+
+    for (const pointer of pointers) {
+      if (
+        Math.hypot(pointer.x - pointer.startX, pointer.y - pointer.startY) >
+        this.maxDistance
+      ) {
+        this.fail();
+        return;
+      }
+    }
+  }
+
+  public onPointerUp(
+    _pointer: GesturePointer,
+    pointers: GesturePointer[],
+    now: number
+  ): void {
+    if (this.state !== 'possible' || pointers.length > 0) return;
+
+    if (
+      now - this.downTime > this.maxDuration ||
+      this.maxPointers !== this.pointers
+    ) {
+      this.fail();
+      return;
+    }
+
+    this.count++;
+    this.upTime = now;
+
+    if (this.count >= this.taps) {
+      this.state = 'recognized';
+      this.queue({
+        type: this.name,
+        phase: 'end',
+        x: this.firstX,
+        y: this.firstY,
+        pointers: this.pointers,
+        timestamp: now,
+        taps: this.count,
+      });
+    }
+  }
+
+  public override onTick(now: number): void {
+    if (
+      this.state === 'possible' &&
+      this.count > 0 &&
+      now - this.upTime > this.interval
+    ) {
+      this.fail();
+    }
+  }
+
+  public override reset(): void {
+    super.reset();
+    this.count = 0;
+  }
+
+  public override fail(): void {
+    super.fail();
+    this.count = 0;
+  }
+}
+
+export interface SwipeOptions {
+  name?: string;
+  minDistance?: number; // px
+  minVelocity?: number; // px/s at release
+  maxDuration?: number; // ms from press to release
+  directions?: SwipeDirection[];
+}
+
+/**
+ * Swipe Recognizer - A fast one-finger flick, recognised on release
+ */
+export class SwipeRecognizer extends GestureRecognizer {
+  public minDistance: number;
+  public minVelocity: number;
+  public maxDuration: number;
+  public directions: SwipeDirection[];
+
+  constructor(options: SwipeOptions = {}) {
+    super(options.name ?? 'swipe');
+    this.minDistance = options.minDistance ?? 50;
+    this.minVelocity = options.minVelocity ?? 300;
+    this.maxDuration = options.maxDuration ?? 500;
+    this.directions = options.directions ?? ['left', 'right', 'up', 'down'];
+  }
+
+  public onPointerDown(
+    _pointer: GesturePointer,
+    pointers: GesturePointer[]
+  ): void {
+    if (this.state === 'idle' && pointers.length === 1) {
+      this.state = 'possible';
+    } else if (this.state === 'possible') {
+      this.fail();
+    }
+  }
+
+  public onPointerMove(): void {}
+
+  public onPointerUp(
+    pointer: GesturePointer,
+    _pointers: GesturePointer[],
+    now: number
+  ): void {
+    if (this.state !== 'possible') return;
+
+    const totalX = pointer.x - pointer.startX;
+    const totalY = pointer.y - pointer.startY;
+    const speed = velocity(pointer, now);
+    const horizontal = Math.abs(totalX) >= Math.abs(totalY);
+    const direction: SwipeDirection = horizontal
+      ? totalX < 0
+        ? 'left'
+        : 'right'
+      : totalY < 0
+        ? 'up'
+        : 'down';
+
+    if (
+      now - pointer.startTime > this.maxDuration ||
+      Math.hypot(totalX, totalY) < this.minDistance ||
+      Math.hypot(speed.x, speed.y) < this.minVelocity ||
+      !this.directions.includes(direction)
+    ) {
+      this.fail();
+      return;
+    }
+
+    this.state = 'recognized';
+    this.queue({
+      type: this.name,
+      phase: 'end',
+      x: pointer.x,
+      y: pointer.y,
+      pointers: 1,
+      timestamp: now,
+      totalX,
+      totalY,
+      velocityX: speed.x,
+      velocityY: speed.y,
+      direction,
+    });
+  }
+}
+
+export interface DragOptions {
+  name?: string;
+  pointers?: number; // 2 for two-finger pan
+  threshold?: number; // px the centre must move before the drag starts
+}
+
+/**
+ * Drag Recognizer - Continuous movement of a fixed number of pointers,
+ * reported at their centre
+ */
+export class DragRecognizer extends GestureRecognizer {
+  public pointers: number;
+  public threshold: number;
+
+  private startX = 0;
+  private startY = 0;
+  private lastX = 0;
+  private lastY = 0;
+
+  constructor(options: DragOptions = {}) {
+    super(options.name ?? 'drag');
+    this.pointers = options.pointers ?? 1;
+    this.threshold = options.threshold ?? 10;
+  }
+
+  public onPointerDown(
+    pointer: GesturePointer,
+    pointers: GesturePointer[],
+    now: number
+  ): void {
+    // An extra pointer ends the drag where the original pointers are
+    if (this.state === 'active') {
+      this.finish(
+        pointers.filter(p => p !== pointer),
+        now
+      );
+    } else if (
+      (this.state === 'idle' || this.state === 'possible') &&
+      pointers.length === this.pointers
+    ) {
+      const center = centroid(pointers);
+      this.startX = this.lastX = center.x;
+      this.startY = this.lastY = center.y;
+      this.state = 'possible';
+    } else if (this.state === 'possible') {
+      this.fail();
+    }
+  }
+
+  public onPointerMove(pointers: GesturePointer[], now: number): void {
+    if (this.state !== 'possible' && this.state !== 'active') return;
+    if (pointers.length !== this.pointers) return;
+
+    const center = centroid(pointers);
+    const totalX = center.x - this.startX;
+    const totalY = center.y - this.startY;
+
+    let phase: GesturePhase = 'move';
+    if (this.state === 'possible') {
+      if (Math.hypot(totalX, totalY) < this.threshold) return;
+
+      // The first event carries the movement that crossed the threshold
+      this.state = 'active';
+      this.lastX = this.startX;
+      this.lastY = this.startY;
+      phase = 'start';
+    }
+
+    const speed = this.getVelocity(pointers, now);
+    this.queue({
+      type: this.name,
+      phase,
+      x: center.x,
+      y: center.y,
+      pointers: pointers.length,
+      timestamp: now,
+      deltaX: center.x - this.lastX,
+      deltaY: center.y - this.lastY,
+      totalX,
+      totalY,
+      velocityX: speed.x,
+      velocityY: speed.y,
+    });
+    this.lastX = center.x;
+    this.lastY = center.y;
+  }
+
+  public onPointerUp(
+    pointer: GesturePointer,
+    pointers: GesturePointer[],
+    now: number
+  ): void {
+    if (this.state === 'active') {
+      this.finish([pointer, ...pointers], now);
+    } else if (this.state === 'possible') {
+      this.fail();
+    }
+  }
+
+  /**
+   * End at the centre of the dragging pointers' final positions
+   */
+  private finish(pointers: GesturePointer[], now: number): void {
+    const center = centroid(pointers);
+    const speed = this.getVelocity(pointers, now);
+    this.state = 'recognized';
+    this.queue({
+      type: this.name,
+      phase: 'end',
+      x: center.x,
+      y: center.y,
+      pointers: this.pointers,
+      timestamp: now,
+      deltaX: center.x - this.lastX,
+      deltaY: center.y - this.lastY,
+      totalX: center.x - this.startX,
+      totalY: center.y - this.startY,
+      velocityX: speed.x,
+      velocityY: speed.y,
+    });
+  }
+
+  private getVelocity(
+    pointers: GesturePointer[],
+    now: number
+  ): { x: number; y: number } {
+    const speeds = pointers.map(pointer => velocity(pointer, now));
+    return {
+      x: speeds.reduce((sum, s) => sum + s.x, 0) / speeds.length,
+      y: speeds.reduce((sum, s) => sum + s.y, 0) / speeds.length,
+    };
+  }
+}
+
+/**
+ * Two-pointer gestures measured from the first two pointers down
+ */
+abstract class TwoPointerRecognizer extends GestureRecognizer {
+  public threshold: number;
+
+  protected initial = 0;
+  protected previous = 0;
+
+  constructor(name: string, threshold: number) {
+    super(name);
+    this.threshold = threshold;
+  }
+
+  public onPointerDown(
+    _pointer: GesturePointer,
+    pointers: GesturePointer[],
+    now: number
+  ): void {
+    if (pointers.length === 2 && this.state === 'idle') {
+      this.initial = this.previous = this.measure(pointers[0], pointers[1]);
+      this.state = 'possible';
+    } else if (pointers.length > 2) {
+      this.stop(pointers, now);
+    }
+  }
+
+  public onPointerMove(pointers: GesturePointer[], now: number): void {
+    if (pointers.length !== 2) return;
+    if (this.state !== 'possible' && this.state !== 'active') return;
+
+    const value = this.measure(pointers[0], pointers[1]);
+    if (this.state === 'possible') {
+      if (!this.exceedsThreshold(value)) return;
+      this.state = 'active';
+      this.queue(this.createEvent('start', pointers, value, now));
+    } else {
+      this.queue(this.createEvent('move', pointers, value, now));
+    }
+    this.previous = value;
+  }
+
+  public onPointerUp(
+    pointer: GesturePointer,
+    pointers: GesturePointer[],
+    now: number
+  ): void {
+    this.stop([pointer, ...pointers], now);
+  }
+
+  protected abstract measure(a: GesturePointer, b: GesturePointer): number;
+
+  protected abstract exceedsThreshold(value: number): boolean;
+
+  protected abstract createEvent(
+    phase: GesturePhase,
+    pointers: GesturePointer[],
+    value: number,
+    now: number
+  ): GestureEvent;
+
+  private stop(pointers: GesturePointer[], now: number): void {
+    if (this.state === 'active') {
+      this.state = 'recognized';
+      this.queue(
+        this.createEvent('end', pointers.slice(0, 2), this.previous, now)
+      );
+    } else if (this.state === 'possible') {
+      this.fail();
+    }
+  }
+}
+
+export interface PinchOptions {
+  name?: string;
+  threshold?: number; // Scale change before the pinch starts (0.05 = 5%)
+}
+
+/**
+ * Pinch Recognizer - Two pointers moving apart or together
+ */
+export class PinchRecognizer extends TwoPointerRecognizer {
+  constructor(options: PinchOptions = {}) {
+    super(options.name ?? 'pinch', options.threshold ?? 0.05);
+  }
+
+  protected measure(a: GesturePointer, b: GesturePointer): number {
+    return Math.hypot(b.x - a.x, b.y - a.y);
+  }
+
+  protected exceedsThreshold(distance: number): boolean {
+    return (
+      this.initial > 0 && Math.abs(distance / this.initial - 1) > this.threshold
+    );
+  }
+
+  protected createEvent(
+    phase: GesturePhase,
+    pointers: GesturePointer[],
+    distance: number,
+    now: number
+  ): GestureEvent {
+    const center = centroid(pointers);
+    return {
+      type: this.name,
+      phase,
+      x: center.x,
+      y: center.y,
+      pointers: 2,
+      timestamp: now,
+      scale: this.initial > 0 ? distance / this.initial : 1,
+      deltaScale:
+        phase === 'end' || this.previous <= 0 ? 1 : distance / this.previous,
+    };
+  }
+}
+
+export interface RotateOptions {
+  name?: string;
+  threshold?: number; // Radians before the rotation starts
+}
+
+/**
+ * Rotate Recognizer - Two pointers turning around their centre
+ */
+export class RotateRecognizer extends TwoPointerRecognizer {
+  private turns = 0; // Unwrapped rotation so far
+
+  constructor(options: RotateOptions = {}) {
+    super(options.name ?? 'rotate', options.threshold ?? 0.1);
+  }
+
+  protected measure(a: GesturePointer, b: GesturePointer): number {
+    // Accumulate the smallest angle change so crossing ±π doesn't jump
+    const angle = Math.atan2(b.y - a.y, b.x - a.x);
+    if (this.state === 'idle') {
+      this.turns = angle;
+      return angle;
+    }
+
+    let delta = angle - this.turns;
+    delta = Math.atan2(Math.sin(delta), Math.cos(delta));
+    this.turns += delta;
+    return this.turns;
+  }
+
+  protected exceedsThreshold(angle: number): boolean {
+    return Math.abs(angle - this.initial) > this.threshold;
+  }
+
+  protected createEvent(
+    phase: GesturePhase,
+    pointers: GesturePointer[],
+    angle: number,
+    now: number
+  ): GestureEvent {
+    const center = centroid(pointers);
+    return {
+      type: this.name,
+      phase,
+      x: center.x,
+      y: center.y,
+      pointers: 2,
+      timestamp: now,
+      rotation: angle - this.initial,
+      deltaRotation: phase === 'end' ? 0 : angle - this.previous,
+    };
+  }
+}
+
+/**
+ * Recognizers every engine starts with
+ */
+export function createDefaultRecognizers(): GestureRecognizer[] {
+  return [
+    new TapRecognizer({ taps: 2 }),
+    new SwipeRecognizer(),
+    new DragRecognizer(),
+    new DragRecognizer({ name: 'two-finger-pan', pointers: 2 }),
+    new PinchRecognizer(),
+    new RotateRecognizer(),
+  ];
+}
@@ -0,0 +1,434 @@
+/**
+ * I18n - Message catalogs, ICU-style formatting and text direction
+ */
+
+import { EventEmitter } from './EventEmitter';
+import type { AssetManager } from './AssetManager';
+
+// Nested catalogs flatten to dotted keys: { menu: { play: 'Play' } } → 'menu.play'
+export interface MessageCatalog {
+  [key: string]: string | MessageCatalog;
+}
+
+export type MessageParams = Record<string, unknown>;
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface I18nOptions {
+  locale?: string; // BCP 47 tag (default 'en')
+  fallbackLocale?: string; // Used for keys the locale lacks (default 'en')
+  assetManager?: AssetManager; // Loads catalogs registered as JSON assets
+  catalogs?: Record<string, string>; // Locale → JSON asset id
+}
+
+export interface LocaleChangeEvent {
+  locale: string;
+  previous: string;
+  direction: TextDirection;
+}
+
+// Parsed message: literal text, arguments and plural/select branches
+type MessageNode =
+  | string
+  | { kind: 'pound' }
+  | { kind: 'argument'; name: string; format?: string }
+  | {
+      kind: 'plural' | 'selectordinal' | 'select';
+      name: string;
+      offset: number;
+      options: Record<string, MessageNode[]>;
+    };
+
+const RTL_LANGUAGES = new Set([
+  'ar',
+  'ckb',
+  'dv',
+  'fa',
+  'he',
+  'ku',
+  'ps',
+  'sd',
+  'ug',
+  'ur',
+  'yi',
+]);
+
+function getLanguage(locale: string): string {
+  return locale.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Parse the ICU MessageFormat subset: {name}, {n, number},
+ * {n, plural, offset:1 =0 {…} one {# item} other {# items}},
+ * {n, selectordinal, …} and {key, select, a {…} other {…}}
+ */
+function parseMessage(source: string): MessageNode[] {
+  let pos = 0;
+
+  const skipSpace = (): void => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+
+  const readToken = (): string => {
+    skipSpace();
+    const start = pos;
+    while (pos < source.length && !/[\s,{}]/.test(source[pos])) pos++;
+    return source.slice(start, pos);
+  };
+
+  const expect = (char: string): void => {
+    skipSpace();
+    if (source[pos] !== char) {
+      throw new Error(`Expected '${char}' at ${pos} in message: ${source}`);
+    }
+    pos++;
+  };
+
+  const parseNodes = (inPlural: boolean, nested: boolean): MessageNode[] => {
+    const nodes: MessageNode[] = [];
+    let text = '';
+    const flush = (): void => {
+      if (text) nodes.push(text);
+      text = '';
+    };
+
+    while (pos < source.length) {
+      const char = source[pos];
+      if (char === '}' && nested) break;
+
+      if (char === '{') {
+        flush();
+        pos++;
+        nodes.push(parseArgument(inPlural));
+      } else if (char === '#' && inPlural) {
+        flush();
+        nodes.push({ kind: 'pound' });
+        pos++;
+      } else {
+        text += char;
+        pos++;
+      }
+    }
+    flush();
+    return nodes;
+  };
+
+  const parseArgument = (inPlural: boolean): MessageNode => {
+    const name = readToken();
+    skipSpace();
+    if (source[pos] === '}') {
+      pos++;
+      return { kind: 'argument', name };
+    }
+
+    expect(',');
+    const format = readToken();
+    skipSpace();
+    if (source[pos] === '}') {
+      pos++;
+      return { kind: 'argument', name, format };
+    }
+    expect(',');
+
+    if (
+      format !== 'plural' &&
+      format !== 'selectordinal' &&
+      format !== 'select'
+    ) {
+      throw new Error(`Unsupported message format '${format}': ${source}`);
+    }
+
+    const options: Record<string, MessageNode[]> = {};
+    let offset = 0;
+    for (;;) {
+      skipSpace();
+      if (source[pos] === '}') {
+        pos++;
+        break;
+      }
+      if (pos >= source.length) {
+        throw new Error(`Unterminated '{${name}}' in message: ${source}`);
+      }
+
+      const selector = readToken();
+      if (selector.startsWith('offset:')) {
+        offset = Number(selector.slice(7));
+        continue;
+      }
+      expect('{');
+      options[selector] = parseNodes(format !== 'select' || inPlural, true);
+      expect('}');
+    }
+
+    return { kind: format, name, offset, options };
+  };
+
+  return parseNodes(false, false);
+}
+
+/**
+ * I18n - Translates keys through per-locale catalogs, falling back from
+ * 'pt-BR' to 'pt' to the fallback locale, and formats the result with ICU
+ * plural and select rules for the active locale. Missing keys render as the
+ * key itself. Emits 'locale-changed' and 'missing-key'.
+ */
+export class I18n extends EventEmitter {
+  private locale: string;
+  private fallbackLocale: string;
+  private assetManager: AssetManager | null;
+  private messages: Map<string, Map<string, string>> = new Map();
+  private catalogAssets: Map<string, string> = new Map();
+  private parsed: Map<string, MessageNode[]> = new Map();
+  private pluralRules: Map<string, Intl.PluralRules> = new Map();
+  private numberFormats: Map<string, Intl.NumberFormat> = new Map();
+
+  constructor(options: I18nOptions = {}) {
+    super();
+    this.locale = options.locale ?? 'en';
+    this.fallbackLocale = options.fallbackLocale ?? 'en';
+    this.assetManager = options.assetManager ?? null;
+    for (const [locale, assetId] of Object.entries(options.catalogs ?? {})) {
+      this.registerCatalog(locale, assetId);
+    }
+  }
+
+  /**
+   * The browser's preferred locale, if there is one
+   */
+  public static detectLocale(fallback = 'en'): string {
+    return typeof navigator !== 'undefined' && navigator.language
+      ? navigator.language
+      : fallback;
+  }
+
+  // Catalogs
+
+  /**
+   * Add messages for a locale, replacing existing keys
+   */
+  public addMessages(locale: string, catalog: MessageCatalog): void {
+    let messages = this.messages.get(locale);
+    if (!messages) {
+      messages = new Map();
+      this.messages.set(locale, messages);
+    }
+
+    const flatten = (entries: MessageCatalog, prefix: string): void => {
+      for (const [key, value] of Object.entries(entries)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (typeof value === 'string') {
+          messages!.set(path, value);
+        } else {
+          flatten(value, path);
+        }
+      }
+    };
+    flatten(catalog, '');
+  }
+
+  /**
+   * Load a locale's catalog from a JSON asset when the locale is first used
+   */
+  public registerCatalog(locale: string, assetId: string): void {
+    this.catalogAssets.set(locale, assetId);
+  }
+
+  /**
+   * Load a registered catalog now (no-op if loaded or unregistered)
+   */
+  public async loadCatalog(locale: string): Promise<void> {
+    const assetId = this.catalogAssets.get(locale);
+    if (!assetId || this.messages.has(locale)) return;
+    if (!this.assetManager) {
+      throw new Error(`No asset manager to load catalog '${assetId}'`);
+    }
+
+    await this.assetManager.loadAsset(assetId);
+    const catalog = this.assetManager.getJSON<MessageCatalog>(assetId);
+    if (!catalog) {
+      throw new Error(`Message catalog '${assetId}' is not loaded`);
+    }
+    this.addMessages(locale, catalog);
+  }
+
+  /**
+   * Locales with messages or a registered catalog
+   */
+  public getAvailableLocales(): string[] {
+    return Array.from(
+      new Set([...this.messages.keys(), ...this.catalogAssets.keys()])
+    );
+  }
+
+  // Locale
+
+  public getLocale(): string {
+    return this.locale;
+  }
+
+  /**
+   * Switch language, loading its catalogs first. Listeners re-render text.
+   */
+  public async setLocale(locale: string): Promise<void> {
+    await Promise.all(
+      this.getLocaleChain(locale).map(candidate => this.loadCatalog(candidate))
+    );
+
+    const previous = this.locale;
+    this.locale = locale;
+    if (previous === locale) return;
+
+    const event: LocaleChangeEvent = {
+      locale,
+      previous,
+      direction: this.getDirection(),
+    };
+    this.emit('locale-changed', event);
+  }
+
+  /**
+   * Writing direction of a locale (default: the active one)
+   */
+  public getDirection(locale = this.locale): TextDirection {
+    return RTL_LANGUAGES.has(getLanguage(locale)) ? 'rtl' : 'ltr';
+  }
+
+  public isRTL(locale = this.locale): boolean {
+    return this.getDirection(locale) === 'rtl';
+  }
+
+  // Translation
+
+  /**
+   * Check a key exists in the active locale or its fallbacks
+   */
+  public has(key: string): boolean {
+    return this.lookup(key) !== undefined;
+  }
+
+  /**
+   * Translate a key and format it with parameters
+   */
+  public t(key: string, params: MessageParams = {}): string {
+    const message = this.lookup(key);
+    if (message === undefined) {
+      this.emit('missing-key', { key, locale: this.locale });
+      return key;
+    }
+    return this.format(message, params);
+  }
+
+  /**
+   * Format an ICU-style message for the active locale
+   */
+  public format(message: string, params: MessageParams = {}): string {
+    let nodes = this.parsed.get(message);
+    if (!nodes) {
+      nodes = parseMessage(message);
+      this.parsed.set(message, nodes);
+    }
+    return this.formatNodes(nodes, params, null);
+  }
+
+  /**
+   * Format a number with the active locale's separators
+   */
+  public formatNumber(value: number): string {
+    let format = this.numberFormats.get(this.locale);
+    if (!format) {
+      format = new Intl.NumberFormat(this.locale);
+      this.numberFormats.set(this.locale, format);
+    }
+    return format.format(value);
+  }
+
+  private getLocaleChain(locale: string): string[] {
+    return Array.from(
+      new Set([locale, getLanguage(locale), this.fallbackLocale])
+    );
+  }
+
+  private lookup(key: string): string | undefined {
+    for (const locale of this.getLocaleChain(this.locale)) {
+      const message = this.messages.get(locale)?.get(key);
+      if (message !== undefined) return message;
+    }
+    return undefined;
+  }
+
+  private formatNodes(
+    nodes: MessageNode[],
+    params: MessageParams,
+    pluralValue: number | null
+  ): string {
+    let result = '';
+
+    for (const node of nodes) {
+      if (typeof node === 'string') {
+        result += node;
+        continue;
+      }
+
+      switch (node.kind) {
+        case 'pound':
+          result += pluralValue === null ? '#' : this.formatNumber(pluralValue);
+          break;
+
+        case 'argument': {
+          const value = params[node.name];
+          if (value === undefined) {
+            result += `{${node.name}}`;
+          } else if (node.format === 'number' || typeof value === 'number') {
+            result += this.formatNumber(Number(value));
+          } else {
+            result += String(value);
+          }
+          break;
+        }
+
+        case 'plural':
+        case 'selectordinal': {
+          const value = Number(params[node.name] ?? 0) - node.offset;
+          const exact = node.options[`=${value + node.offset}`];
+          const branch =
+            exact ??
+            node.options[this.getPluralCategory(value, node.kind)] ??
+            node.options['other'] ??
+            [];
+          result += this.formatNodes(branch, params, value);
+          break;
+        }
+
+        case 'select': {
+          const branch =
+            node.options[String(params[node.name])] ??
+            node.options['other'] ??
+            [];
+          result += this.formatNodes(branch, params, pluralValue);
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private getPluralCategory(
+    value: number,
+    kind: 'plural' | 'selectordinal'
+  ): string {
+    const key = `${this.locale}|${kind}`;
+    let rules = this.pluralRules.get(key);
+    if (!rules) {
+      rules = new Intl.PluralRules(this.locale, {
+        type: kind === 'plural' ? 'cardinal' : 'ordinal',
+      });
+      this.pluralRules.set(key, rules);
+    }
+    return rules.select(value);
+  }
+
+  public destroy(): void {
+    this.removeAllListeners();
+  }
+}
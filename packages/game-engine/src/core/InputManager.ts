@@ -3,6 +3,7 @@
  */
 
 import { EventEmitter } from './EventEmitter';
+import { SystemClock, type EngineClock } from './Clock';
 
 export interface InputState {
   mouse: {
@@ -27,20 +28,47 @@ export interface InputState {
       meta: boolean;
     };
   };
+  gamepad: {
+    buttons: Map<number, Set<number>>; // Pressed buttons per gamepad index
+    axes: Map<number, number[]>;
+  };
 }
 
+// Button indices in the W3C standard gamepad mapping
+export const GamepadButtons = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  LeftBumper: 4,
+  RightBumper: 5,
+  LeftTrigger: 6,
+  RightTrigger: 7,
+  Back: 8,
+  Start: 9,
+  LeftStick: 10,
+  RightStick: 11,
+  Up: 12,
+  Down: 13,
+  Left: 14,
+  Right: 15,
+} as const;
+
 export interface InputEvent {
-  type: 'mouse' | 'touch' | 'keyboard';
-  action: 'down' | 'up' | 'move' | 'wheel';
+  type: 'mouse' | 'touch' | 'keyboard' | 'gamepad';
+  action: 'down' | 'up' | 'move' | 'wheel' | 'cancel';
   data: any;
   timestamp: number;
   preventDefault?: () => void;
+  handled?: boolean; // Set by the UI layer when a widget took the pointer
 }
 
 export class InputManager extends EventEmitter {
-  private canvas: HTMLCanvasElement;
+  private canvas: HTMLCanvasElement | null;
+  private clock: EngineClock;
   private state: InputState;
   private enabled = true;
+  private replaying = false; // Live input stays off while a replay runs
   private eventQueue: InputEvent[] = [];
 
   // Touch gesture detection
@@ -48,9 +76,13 @@ export class InputManager extends EventEmitter {
   private longPressDelay = 500; // ms
   private longPressTimers: Map<number, number> = new Map();
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(
+    canvas: HTMLCanvasElement | null,
+    clock: EngineClock = new SystemClock()
+  ) {
     super();
     this.canvas = canvas;
+    this.clock = clock;
 
     this.state = {
       mouse: {
@@ -67,47 +99,50 @@ export class InputManager extends EventEmitter {
         keys: new Set(),
         modifiers: { shift: false, ctrl: false, alt: false, meta: false },
       },
+      gamepad: {
+        buttons: new Map(),
+        axes: new Map(),
+      },
     };
 
-    this.setupEventListeners();
+    // Headless engines have no canvas and receive events programmatically
+    if (this.canvas) {
+      this.setupEventListeners(this.canvas);
+    }
   }
 
-  private setupEventListeners(): void {
+  private setupEventListeners(canvas: HTMLCanvasElement): void {
     // Mouse events
-    this.canvas.addEventListener('mousedown', this.handleMouseDown.bind(this));
-    this.canvas.addEventListener('mouseup', this.handleMouseUp.bind(this));
-    this.canvas.addEventListener('mousemove', this.handleMouseMove.bind(this));
-    this.canvas.addEventListener('wheel', this.handleWheel.bind(this));
-    this.canvas.addEventListener('contextmenu', e => e.preventDefault());
+    canvas.addEventListener('mousedown', this.handleMouseDown.bind(this));
+    canvas.addEventListener('mouseup', this.handleMouseUp.bind(this));
+    canvas.addEventListener('mousemove', this.handleMouseMove.bind(this));
+    canvas.addEventListener('wheel', this.handleWheel.bind(this));
+    canvas.addEventListener('contextmenu', e => e.preventDefault());
 
     // Touch events
-    this.canvas.addEventListener(
-      'touchstart',
-      this.handleTouchStart.bind(this)
-    );
-    this.canvas.addEventListener('touchend', this.handleTouchEnd.bind(this));
-    this.canvas.addEventListener('touchmove', this.handleTouchMove.bind(this));
-    this.canvas.addEventListener(
-      'touchcancel',
-      this.handleTouchCancel.bind(this)
-    );
+    canvas.addEventListener('touchstart', this.handleTouchStart.bind(this));
+    canvas.addEventListener('touchend', this.handleTouchEnd.bind(this));
+    canvas.addEventListener('touchmove', this.handleTouchMove.bind(this));
+    canvas.addEventListener('touchcancel', this.handleTouchCancel.bind(this));
 
     // Keyboard events (on window to capture when canvas doesn't have focus)
     window.addEventListener('keydown', this.handleKeyDown.bind(this));
     window.addEventListener('keyup', this.handleKeyUp.bind(this));
 
     // Focus events
-    this.canvas.addEventListener('focus', this.handleFocus.bind(this));
-    this.canvas.addEventListener('blur', this.handleBlur.bind(this));
+    canvas.addEventListener('focus', this.handleFocus.bind(this));
+    canvas.addEventListener('blur', this.handleBlur.bind(this));
 
     // Make canvas focusable
-    this.canvas.tabIndex = 0;
+    canvas.tabIndex = 0;
   }
 
   private getCanvasCoordinates(
     clientX: number,
     clientY: number
   ): { x: number; y: number } {
+    if (!this.canvas) return { x: clientX, y: clientY };
+
     const rect = this.canvas.getBoundingClientRect();
     const scaleX = this.canvas.width / rect.width;
     const scaleY = this.canvas.height / rect.height;
@@ -131,7 +166,7 @@ export class InputManager extends EventEmitter {
       type: 'mouse',
       action: 'down',
       data: { button: event.button, x: coords.x, y: coords.y },
-      timestamp: performance.now(),
+      timestamp: this.clock.now(),
       preventDefault: () => event.preventDefault(),
     });
   }
@@ -148,7 +183,7 @@ export class InputManager extends EventEmitter {
       type: 'mouse',
       action: 'up',
       data: { button: event.button, x: coords.x, y: coords.y },
-      timestamp: performance.now(),
+      timestamp: this.clock.now(),
       preventDefault: () => event.preventDefault(),
     });
   }
@@ -167,7 +202,7 @@ export class InputManager extends EventEmitter {
       type: 'mouse',
       action: 'move',
       data: { x: coords.x, y: coords.y, deltaX, deltaY },
-      timestamp: performance.now(),
+      timestamp: this.clock.now(),
       preventDefault: () => event.preventDefault(),
     });
   }
@@ -182,7 +217,7 @@ export class InputManager extends EventEmitter {
       type: 'mouse',
       action: 'wheel',
       data: { deltaX: event.deltaX, deltaY: event.deltaY },
-      timestamp: performance.now(),
+      timestamp: this.clock.now(),
       preventDefault: () => event.preventDefault(),
     });
 
@@ -217,7 +252,7 @@ export class InputManager extends EventEmitter {
             y: coords.y,
             gesture: 'long-press',
           },
-          timestamp: performance.now(),
+          timestamp: this.clock.now(),
         });
       }, this.longPressDelay);
 
@@ -227,7 +262,7 @@ export class InputManager extends EventEmitter {
         type: 'touch',
         action: 'down',
         data: { id: touch.identifier, x: coords.x, y: coords.y },
-        timestamp: performance.now(),
+        timestamp: this.clock.now(),
         preventDefault: () => event.preventDefault(),
       });
     }
@@ -274,7 +309,7 @@ export class InputManager extends EventEmitter {
             startX: touchData.startX,
             startY: touchData.startY,
           },
-          timestamp: performance.now(),
+          timestamp: this.clock.now(),
           preventDefault: () => event.preventDefault(),
         });
 
@@ -331,7 +366,7 @@ export class InputManager extends EventEmitter {
             startX: touchData.startX,
             startY: touchData.startY,
           },
-          timestamp: performance.now(),
+          timestamp: this.clock.now(),
           preventDefault: () => event.preventDefault(),
         });
       }
@@ -345,6 +380,7 @@ export class InputManager extends EventEmitter {
 
     for (let i = 0; i < event.changedTouches.length; i++) {
       const touch = event.changedTouches[i];
+      const touchData = this.state.touch.touches.get(touch.identifier);
 
       // Clear long press timer
       const timer = this.longPressTimers.get(touch.identifier);
@@ -353,6 +389,16 @@ export class InputManager extends EventEmitter {
         this.longPressTimers.delete(touch.identifier);
       }
 
+      // The OS took the touch; listeners drop it without treating it as a tap
+      if (touchData) {
+        this.queueEvent({
+          type: 'touch',
+          action: 'cancel',
+          data: { id: touch.identifier, x: touchData.x, y: touchData.y },
+          timestamp: this.clock.now(),
+        });
+      }
+
       this.state.touch.touches.delete(touch.identifier);
     }
 
@@ -376,7 +422,7 @@ export class InputManager extends EventEmitter {
         code: event.code,
         modifiers: { ...this.state.keyboard.modifiers },
       },
-      timestamp: performance.now(),
+      timestamp: this.clock.now(),
       preventDefault: () => event.preventDefault(),
     });
   }
@@ -395,7 +441,7 @@ export class InputManager extends EventEmitter {
         code: event.code,
         modifiers: { ...this.state.keyboard.modifiers },
       },
-      timestamp: performance.now(),
+      timestamp: this.clock.now(),
       preventDefault: () => event.preventDefault(),
     });
   }
@@ -408,7 +454,7 @@ export class InputManager extends EventEmitter {
   }
 
   private handleFocus(): void {
-    this.enabled = true;
+    if (!this.replaying) this.enabled = true;
     this.emit('focus');
   }
 
@@ -428,17 +474,71 @@ export class InputManager extends EventEmitter {
     this.emit('blur');
   }
 
-  private queueEvent(event: InputEvent): void {
+  /**
+   * Queue an input event for the next update
+   */
+  public queueEvent(event: InputEvent): void {
     this.eventQueue.push(event);
   }
 
+  /**
+   * Inject a synthetic event, updating input state as the DOM handlers would
+   */
+  public injectEvent(event: InputEvent): void {
+    const { data } = event;
+
+    if (event.type === 'mouse') {
+      if (data?.x !== undefined) {
+        this.state.mouse.x = data.x;
+        this.state.mouse.y = data.y;
+      }
+      if (event.action === 'down') this.state.mouse.buttons.add(data.button);
+      if (event.action === 'up') this.state.mouse.buttons.delete(data.button);
+    } else if (event.type === 'touch') {
+      if (event.action === 'down' && data.gesture !== 'long-press') {
+        this.state.touch.touches.set(data.id, {
+          x: data.x,
+          y: data.y,
+          startX: data.x,
+          startY: data.y,
+        });
+      } else if (event.action === 'move') {
+        const touch = this.state.touch.touches.get(data.id);
+        if (touch) {
+          touch.x = data.x;
+          touch.y = data.y;
+        }
+      } else if (event.action === 'up' || event.action === 'cancel') {
+        this.state.touch.touches.delete(data.id);
+      }
+      this.state.touch.active = this.state.touch.touches.size > 0;
+    } else if (event.type === 'keyboard') {
+      if (event.action === 'down') this.state.keyboard.keys.add(data.code);
+      if (event.action === 'up') this.state.keyboard.keys.delete(data.code);
+      if (data?.modifiers) {
+        this.state.keyboard.modifiers = { ...data.modifiers };
+      }
+    } else if (event.type === 'gamepad') {
+      const { buttons } = this.state.gamepad;
+      if (!buttons.has(data.gamepad)) buttons.set(data.gamepad, new Set());
+      if (event.action === 'down') buttons.get(data.gamepad)!.add(data.button);
+      if (event.action === 'up') buttons.get(data.gamepad)!.delete(data.button);
+    }
+
+    this.queueEvent(event);
+  }
+
   /**
    * Update input manager and process events
    */
   public update(deltaTime: number): void {
-    // Process queued events
+    this.pollGamepads();
+
+    // Process queued events; 'input-capture' listeners (the UI layer) see
+    // each event first and may mark it handled for the world underneath
     while (this.eventQueue.length > 0) {
       const event = this.eventQueue.shift()!;
+      this.emit('input-capture', event);
       this.emit('input', event);
       this.emit(event.type, event);
     }
@@ -448,6 +548,38 @@ export class InputManager extends EventEmitter {
     this.state.mouse.wheel.deltaY = 0;
   }
 
+  /**
+   * Gamepads have no events; compare button states once per update and
+   * queue 'gamepad' down/up events for the changes
+   */
+  private pollGamepads(): void {
+    if (
+      !this.enabled ||
+      typeof navigator === 'undefined' ||
+      typeof navigator.getGamepads !== 'function'
+    ) {
+      return;
+    }
+
+    for (const pad of navigator.getGamepads()) {
+      if (!pad) continue;
+
+      const pressed = this.state.gamepad.buttons.get(pad.index);
+      pad.buttons.forEach((button, index) => {
+        if (button.pressed === (pressed?.has(index) ?? false)) return;
+
+        this.injectEvent({
+          type: 'gamepad',
+          action: button.pressed ? 'down' : 'up',
+          data: { gamepad: pad.index, button: index, value: button.value },
+          timestamp: this.clock.now(),
+        });
+      });
+
+      this.state.gamepad.axes.set(pad.index, Array.from(pad.axes));
+    }
+  }
+
   /**
    * Get current input state
    */
@@ -469,6 +601,20 @@ export class InputManager extends EventEmitter {
     return this.state.mouse.buttons.has(button);
   }
 
+  /**
+   * Check if a gamepad button is pressed (see GamepadButtons)
+   */
+  public isGamepadButtonPressed(button: number, gamepad = 0): boolean {
+    return this.state.gamepad.buttons.get(gamepad)?.has(button) ?? false;
+  }
+
+  /**
+   * Get a gamepad's stick axes (-1 to 1) as of the last update
+   */
+  public getGamepadAxes(gamepad = 0): number[] {
+    return this.state.gamepad.axes.get(gamepad) ?? [];
+  }
+
   /**
    * Get mouse position
    */
@@ -496,22 +642,37 @@ export class InputManager extends EventEmitter {
     this.enabled = enabled;
   }
 
+  /**
+   * Turn live input off for an input replay, and back on when it ends.
+   * Focusing the canvas doesn't re-enable it in between.
+   */
+  public setReplaying(replaying: boolean): void {
+    this.replaying = replaying;
+    this.enabled = !replaying;
+  }
+
+  public get isReplaying(): boolean {
+    return this.replaying;
+  }
+
   /**
    * Destroy the input manager
    */
   public destroy(): void {
     // Remove event listeners
-    this.canvas.removeEventListener('mousedown', this.handleMouseDown);
-    this.canvas.removeEventListener('mouseup', this.handleMouseUp);
-    this.canvas.removeEventListener('mousemove', this.handleMouseMove);
-    this.canvas.removeEventListener('wheel', this.handleWheel);
-    this.canvas.removeEventListener('touchstart', this.handleTouchStart);
-    this.canvas.removeEventListener('touchend', this.handleTouchEnd);
-    this.canvas.removeEventListener('touchmove', this.handleTouchMove);
-    this.canvas.removeEventListener('touchcancel', this.handleTouchCancel);
-
-    window.removeEventListener('keydown', this.handleKeyDown);
-    window.removeEventListener('keyup', this.handleKeyUp);
+    if (this.canvas) {
+      this.canvas.removeEventListener('mousedown', this.handleMouseDown);
+      this.canvas.removeEventListener('mouseup', this.handleMouseUp);
+      this.canvas.removeEventListener('mousemove', this.handleMouseMove);
+      this.canvas.removeEventListener('wheel', this.handleWheel);
+      this.canvas.removeEventListener('touchstart', this.handleTouchStart);
+      this.canvas.removeEventListener('touchend', this.handleTouchEnd);
+      this.canvas.removeEventListener('touchmove', this.handleTouchMove);
+      this.canvas.removeEventListener('touchcancel', this.handleTouchCancel);
+
+      window.removeEventListener('keydown', this.handleKeyDown);
+      window.removeEventListener('keyup', this.handleKeyUp);
+    }
 
     // Clear timers
     for (const timer of this.longPressTimers.values()) {
@@ -0,0 +1,219 @@
+/**
+ * Input Recorder - Capture and replay input sessions for bug reproduction
+ */
+
+import { EventEmitter } from './EventEmitter';
+import type { GameEngine } from './Engine';
+import type { InputEvent } from './InputManager';
+
+export interface RecordedInputEvent {
+  frame: number; // Engine frame the event was processed in (relative to start)
+  time: number; // Milliseconds since recording started
+  type: InputEvent['type'];
+  action: InputEvent['action'];
+  data: unknown; // JSON copy of the event data
+}
+
+export interface InputRecording {
+  version: number;
+  seed: number;
+  scene: string | null;
+  targetFPS: number;
+  frameCount: number;
+  events: RecordedInputEvent[];
+}
+
+export const INPUT_RECORDING_VERSION = 1;
+
+export class InputRecorder extends EventEmitter {
+  private engine: GameEngine;
+  private recording: InputRecording | null = null;
+  private startFrame = 0;
+  private startTime = 0;
+
+  constructor(engine: GameEngine) {
+    super();
+    this.engine = engine;
+  }
+
+  /**
+   * Start recording input
+   */
+  public start(): void {
+    if (this.recording) {
+      console.warn('Input recording already in progress');
+      return;
+    }
+
+    this.startFrame = this.engine.currentFrame;
+    this.startTime = this.engine.engineClock.now();
+    this.recording = {
+      version: INPUT_RECORDING_VERSION,
+      seed: this.engine.random.getSeed(),
+      scene: this.engine.sceneManager.getCurrentScene()?.name ?? null,
+      targetFPS: this.engine.engineConfig.targetFPS || 60,
+      frameCount: 0,
+      events: [],
+    };
+
+    this.engine.inputManager.on('input', this.handleInput);
+    this.emit('recording-started', this.recording);
+  }
+
+  /**
+   * Stop recording and return the captured session
+   */
+  public stop(): InputRecording | null {
+    const recording = this.recording;
+    if (!recording) return null;
+
+    this.engine.inputManager.off('input', this.handleInput);
+    recording.frameCount = this.engine.currentFrame - this.startFrame;
+    this.recording = null;
+
+    this.emit('recording-stopped', recording);
+    return recording;
+  }
+
+  /**
+   * Check if a recording is in progress
+   */
+  public get isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  private handleInput = (event: InputEvent): void => {
+    if (!this.recording) return;
+
+    this.recording.events.push({
+      frame: this.engine.currentFrame - this.startFrame,
+      time: this.engine.engineClock.now() - this.startTime,
+      type: event.type,
+      action: event.action,
+      data: JSON.parse(JSON.stringify(event.data ?? null)),
+    });
+  };
+
+  /**
+   * Serialize a recording to JSON
+   */
+  public static toJSON(recording: InputRecording): string {
+    return JSON.stringify(recording);
+  }
+
+  /**
+   * Parse a recording from JSON
+   */
+  public static fromJSON(json: string): InputRecording {
+    const recording = JSON.parse(json) as InputRecording;
+    if (recording.version !== INPUT_RECORDING_VERSION) {
+      throw new Error(
+        `Unsupported input recording version: ${recording.version}`
+      );
+    }
+    return recording;
+  }
+
+  /**
+   * Save a recording as a JSON file download (browser only)
+   */
+  public static download(
+    recording: InputRecording,
+    filename = 'input-recording.json'
+  ): void {
+    const blob = new Blob([InputRecorder.toJSON(recording)], {
+      type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+
+    // Give the browser time to start the download before freeing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
+
+export class InputReplayer extends EventEmitter {
+  private engine: GameEngine;
+  private recording: InputRecording;
+  private cursor = 0;
+  private startFrame = 0;
+  private startTime = 0;
+  private playing = false;
+
+  constructor(engine: GameEngine, recording: InputRecording) {
+    super();
+    this.engine = engine;
+    this.recording = recording;
+  }
+
+  /**
+   * Restore the recorded seed and scene, then start feeding events.
+   * Live input is disabled until the replay completes or is stopped.
+   */
+  public async start(): Promise<void> {
+    if (this.playing) return;
+
+    const { scene, seed } = this.recording;
+    if (scene && this.engine.sceneManager.getCurrentScene()?.name !== scene) {
+      await this.engine.sceneManager.switchToScene(scene);
+    }
+
+    this.engine.random.setSeed(seed);
+    this.engine.inputManager.setReplaying(true);
+
+    this.cursor = 0;
+    this.startFrame = this.engine.currentFrame;
+    this.startTime = this.engine.engineClock.now();
+    this.playing = true;
+
+    this.engine.on('frame-start', this.handleFrame);
+    this.emit('replay-started', this.recording);
+  }
+
+  /**
+   * Stop replaying and re-enable live input
+   */
+  public stop(): void {
+    if (!this.playing) return;
+
+    this.playing = false;
+    this.engine.off('frame-start', this.handleFrame);
+    this.engine.inputManager.setReplaying(false);
+    this.emit('replay-stopped');
+  }
+
+  /**
+   * Check if the replay is running
+   */
+  public get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  private handleFrame = (frame: number): void => {
+    // Events were recorded during the frame's input update, which runs
+    // after frame-start, so replaying them here keeps them on the same frame
+    const relativeFrame = frame - this.startFrame;
+    const { events } = this.recording;
+
+    while (
+      this.cursor < events.length &&
+      events[this.cursor].frame <= relativeFrame
+    ) {
+      const recorded = events[this.cursor++];
+      this.engine.inputManager.injectEvent({
+        type: recorded.type,
+        action: recorded.action,
+        data: recorded.data,
+        timestamp: this.startTime + recorded.time,
+      });
+    }
+
+    if (relativeFrame >= this.recording.frameCount) {
+      this.stop();
+      this.emit('replay-complete', this.recording);
+    }
+  };
+}
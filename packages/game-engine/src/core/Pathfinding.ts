@@ -0,0 +1,456 @@
+/**
+ * Pathfinding - Walkability grids and A* search
+ */
+
+import type { Tilemap } from './Tilemap';
+
+export interface GridPoint {
+  col: number;
+  row: number;
+}
+
+// 'no-corner-cutting' only moves diagonally when both adjacent sides are open
+export type DiagonalMode = 'never' | 'always' | 'no-corner-cutting';
+
+export interface PathOptions {
+  diagonals?: DiagonalMode; // Default 'never'
+  smooth?: boolean; // Drop waypoints that have a clear line of sight between them
+  maxIterations?: number; // Nodes expanded before giving up (default: cell count)
+  closest?: boolean; // Path to the nearest reachable cell when the goal can't be reached
+}
+
+export interface NavGridFromTilemapOptions {
+  layers?: string[]; // Layers checked (default: all)
+  // Blocks a tile (default: tileset property `solid: true`)
+  isBlocked?: (
+    tileId: number,
+    properties: Record<string, unknown> | undefined
+  ) => boolean;
+  costProperty?: string; // Tileset property holding a movement cost (default 'cost')
+}
+
+const SQRT2 = Math.SQRT2;
+
+const ORTHOGONAL: ReadonlyArray<readonly [number, number]> = [
+  [0, -1],
+  [1, 0],
+  [0, 1],
+  [-1, 0],
+];
+
+const DIAGONAL: ReadonlyArray<readonly [number, number]> = [
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+  [-1, -1],
+];
+
+/**
+ * Nav Grid - Per-cell movement costs for pathfinding. A cost of 0 blocks the
+ * cell; higher costs make it slower to cross (mud, water). Cells can be
+ * placed in the world like a tilemap so paths convert to world positions.
+ */
+export class NavGrid {
+  public readonly width: number;
+  public readonly height: number;
+  public readonly cellWidth: number;
+  public readonly cellHeight: number;
+
+  // World position of the grid's top-left corner
+  public x = 0;
+  public y = 0;
+
+  private costs: Float32Array;
+
+  constructor(
+    width: number,
+    height: number,
+    cellWidth = 1,
+    cellHeight = cellWidth
+  ) {
+    this.width = width;
+    this.height = height;
+    this.cellWidth = cellWidth;
+    this.cellHeight = cellHeight;
+    this.costs = new Float32Array(width * height).fill(1);
+  }
+
+  /**
+   * Build a grid over a tilemap. A cell is blocked when a tile on any checked
+   * layer is blocked, and costs the highest cost among its tiles.
+   */
+  public static fromTilemap(
+    tilemap: Tilemap,
+    options: NavGridFromTilemapOptions = {}
+  ): NavGrid {
+    const grid = new NavGrid(
+      tilemap.width,
+      tilemap.height,
+      tilemap.tileWidth,
+      tilemap.tileHeight
+    );
+    grid.x = tilemap.x;
+    grid.y = tilemap.y;
+
+    const layers = options.layers
+      ? options.layers.map(name => {
+          const layer = tilemap.getLayer(name);
+          if (!layer) throw new Error(`Tilemap layer '${name}' not found`);
+          return layer;
+        })
+      : tilemap.getLayers();
+    const isBlocked =
+      options.isBlocked ??
+      ((_tileId: number, properties?: Record<string, unknown>) =>
+        properties?.['solid'] === true);
+    const costProperty = options.costProperty ?? 'cost';
+
+    for (let row = 0; row < tilemap.height; row++) {
+      for (let col = 0; col < tilemap.width; col++) {
+        let cost = 1;
+        for (const layer of layers) {
+          const tileId = tilemap.getTile(layer.name, col, row);
+          const properties = tilemap.tileset.getProperties(tileId);
+          if (isBlocked(tileId, properties)) {
+            cost = 0;
+            break;
+          }
+          const tileCost = properties?.[costProperty];
+          if (typeof tileCost === 'number') cost = Math.max(cost, tileCost);
+        }
+        grid.setCost(col, row, cost);
+      }
+    }
+
+    return grid;
+  }
+
+  /**
+   * Build a grid from rows of walkability (truthy is walkable) or costs
+   */
+  public static fromArray(rows: ArrayLike<number | boolean>[]): NavGrid {
+    const grid = new NavGrid(rows[0]?.length ?? 0, rows.length);
+    for (let row = 0; row < grid.height; row++) {
+      for (let col = 0; col < grid.width; col++) {
+        const value = rows[row][col];
+        grid.setCost(col, row, typeof value === 'number' ? value : +value);
+      }
+    }
+    return grid;
+  }
+
+  public isInBounds(col: number, row: number): boolean {
+    return col >= 0 && row >= 0 && col < this.width && row < this.height;
+  }
+
+  /**
+   * Check a cell can be entered (out-of-bounds cells can't)
+   */
+  public isWalkable(col: number, row: number): boolean {
+    return this.getCost(col, row) > 0;
+  }
+
+  public setWalkable(col: number, row: number, walkable: boolean): void {
+    this.setCost(col, row, walkable ? 1 : 0);
+  }
+
+  /**
+   * Get the cost of entering a cell (0 when blocked or out of bounds)
+   */
+  public getCost(col: number, row: number): number {
+    return this.isInBounds(col, row) ? this.costs[row * this.width + col] : 0;
+  }
+
+  public setCost(col: number, row: number, cost: number): void {
+    if (!this.isInBounds(col, row)) return;
+    this.costs[row * this.width + col] = Math.max(0, cost);
+  }
+
+  /**
+   * Convert a cell to the world position of its centre
+   */
+  public cellToWorld(col: number, row: number): { x: number; y: number } {
+    return {
+      x: this.x + (col + 0.5) * this.cellWidth,
+      y: this.y + (row + 0.5) * this.cellHeight,
+    };
+  }
+
+  /**
+   * Convert a world position to the cell containing it (may be out of bounds)
+   */
+  public worldToCell(x: number, y: number): GridPoint {
+    return {
+      col: Math.floor((x - this.x) / this.cellWidth),
+      row: Math.floor((y - this.y) / this.cellHeight),
+    };
+  }
+
+  /**
+   * Check a straight line between two cell centres only crosses walkable
+   * cells. Lines through a corner need both cells beside it open.
+   */
+  public hasLineOfSight(from: GridPoint, to: GridPoint): boolean {
+    const dx = to.col - from.col;
+    const dy = to.row - from.row;
+    const stepX = Math.sign(dx);
+    const stepY = Math.sign(dy);
+    const nx = Math.abs(dx);
+    const ny = Math.abs(dy);
+
+    let col = from.col;
+    let row = from.row;
+    if (!this.isWalkable(col, row)) return false;
+
+    // Walk every cell the line touches, deciding each step by which cell
+    // boundary the line crosses first
+    for (let ix = 0, iy = 0; ix < nx || iy < ny; ) {
+      const decision = (1 + 2 * ix) * ny - (1 + 2 * iy) * nx;
+      if (decision === 0) {
+        if (
+          !this.isWalkable(col + stepX, row) ||
+          !this.isWalkable(col, row + stepY)
+        ) {
+          return false;
+        }
+        col += stepX;
+        row += stepY;
+        ix++;
+        iy++;
+      } else if (decision < 0) {
+        col += stepX;
+        ix++;
+      } else {
+        row += stepY;
+        iy++;
+      }
+      if (!this.isWalkable(col, row)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Copy the grid (e.g. to block cells for one search only)
+   */
+  public clone(): NavGrid {
+    const grid = new NavGrid(
+      this.width,
+      this.height,
+      this.cellWidth,
+      this.cellHeight
+    );
+    grid.x = this.x;
+    grid.y = this.y;
+    grid.costs.set(this.costs);
+    return grid;
+  }
+}
+
+/**
+ * Binary min-heap of cell indices. Ties on f fall back to the lower
+ * heuristic, then to insertion order, so searches are fully deterministic.
+ */
+class OpenList {
+  private items: { index: number; f: number; h: number; order: number }[] = [];
+  private counter = 0;
+
+  public get size(): number {
+    return this.items.length;
+  }
+
+  public push(index: number, f: number, h: number): void {
+    this.items.push({ index, f, h, order: this.counter++ });
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(i, parent)) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  public pop(): number {
+    const top = this.items[0];
+    const last = this.items.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.less(left, smallest)) {
+          smallest = left;
+        }
+        if (right < this.items.length && this.less(right, smallest)) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top.index;
+  }
+
+  private less(a: number, b: number): boolean {
+    const x = this.items[a];
+    const y = this.items[b];
+    return x.f !== y.f
+      ? x.f < y.f
+      : x.h !== y.h
+        ? x.h < y.h
+        : x.order < y.order;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+  }
+}
+
+function heuristic(
+  dx: number,
+  dy: number,
+  diagonals: DiagonalMode,
+  minCost: number
+): number {
+  dx = Math.abs(dx);
+  dy = Math.abs(dy);
+  const distance =
+    diagonals === 'never'
+      ? dx + dy
+      : Math.max(dx, dy) + (SQRT2 - 1) * Math.min(dx, dy); // Octile
+  return distance * minCost;
+}
+
+/**
+ * Find the cheapest path between two cells with A*. The result runs from
+ * start to goal inclusive, or is null when there is no path. Moving into a
+ * cell costs its grid cost (times √2 diagonally).
+ */
+export function findPath(
+  grid: NavGrid,
+  start: GridPoint,
+  goal: GridPoint,
+  options: PathOptions = {}
+): GridPoint[] | null {
+  const diagonals = options.diagonals ?? 'never';
+  const maxIterations = options.maxIterations ?? grid.width * grid.height;
+
+  if (!grid.isWalkable(start.col, start.row)) return null;
+  if (!options.closest && !grid.isWalkable(goal.col, goal.row)) return null;
+
+  // The cheapest cell keeps the heuristic admissible with weighted grids
+  let minCost = Infinity;
+  for (let row = 0; row < grid.height; row++) {
+    for (let col = 0; col < grid.width; col++) {
+      const cost = grid.getCost(col, row);
+      if (cost > 0 && cost < minCost) minCost = cost;
+    }
+  }
+
+  const size = grid.width * grid.height;
+  const g = new Float64Array(size).fill(Infinity);
+  const parent = new Int32Array(size).fill(-1);
+  const closed = new Uint8Array(size);
+  const open = new OpenList();
+  const toIndex = (col: number, row: number): number => row * grid.width + col;
+  const estimate = (col: number, row: number): number =>
+    heuristic(goal.col - col, goal.row - row, diagonals, minCost);
+
+  const startIndex = toIndex(start.col, start.row);
+  const goalIndex = grid.isInBounds(goal.col, goal.row)
+    ? toIndex(goal.col, goal.row)
+    : -1;
+  g[startIndex] = 0;
+  open.push(startIndex, estimate(start.col, start.row), 0);
+
+  const directions =
+    diagonals === 'never' ? ORTHOGONAL : [...ORTHOGONAL, ...DIAGONAL];
+  let best = startIndex;
+  let bestH = estimate(start.col, start.row);
+  let iterations = 0;
+
+  while (open.size > 0 && iterations < maxIterations) {
+    const current = open.pop();
+    if (closed[current]) continue;
+    closed[current] = 1;
+    iterations++;
+
+    if (current === goalIndex) {
+      return buildPath(grid, parent, current, options.smooth);
+    }
+
+    const col = current % grid.width;
+    const row = Math.floor(current / grid.width);
+
+    const h = estimate(col, row);
+    if (h < bestH) {
+      best = current;
+      bestH = h;
+    }
+
+    for (const [dx, dy] of directions) {
+      const nextCol = col + dx;
+      const nextRow = row + dy;
+      const cost = grid.getCost(nextCol, nextRow);
+      if (cost <= 0) continue;
+
+      const diagonal = dx !== 0 && dy !== 0;
+      if (diagonal && diagonals === 'no-corner-cutting') {
+        if (
+          !grid.isWalkable(col + dx, row) ||
+          !grid.isWalkable(col, row + dy)
+        ) {
+          continue;
+        }
+      }
+
+      const next = toIndex(nextCol, nextRow);
+      if (closed[next]) continue;
+
+      const score = g[current] + cost * (diagonal ? SQRT2 : 1);
+      if (score < g[next]) {
+        g[next] = score;
+        parent[next] = current;
+        const nextH = estimate(nextCol, nextRow);
+        open.push(next, score + nextH, nextH);
+      }
+    }
+  }
+
+  return options.closest ? buildPath(grid, parent, best, options.smooth) : null;
+}
+
+function buildPath(
+  grid: NavGrid,
+  parent: Int32Array,
+  end: number,
+  smooth = false
+): GridPoint[] {
+  const path: GridPoint[] = [];
+  for (let index = end; index !== -1; index = parent[index]) {
+    path.push({ col: index % grid.width, row: Math.floor(index / grid.width) });
+  }
+  path.reverse();
+  return smooth ? smoothPath(grid, path) : path;
+}
+
+/**
+ * Remove waypoints the path can skip by walking straight (string pulling).
+ * Only walkability is checked, so smoothing may cut across costly cells.
+ */
+export function smoothPath(grid: NavGrid, path: GridPoint[]): GridPoint[] {
+  if (path.length <= 2) return [...path];
+
+  const smoothed = [path[0]];
+  let anchor = path[0];
+  for (let i = 2; i < path.length; i++) {
+    if (!grid.hasLineOfSight(anchor, path[i])) {
+      anchor = path[i - 1];
+      smoothed.push(anchor);
+    }
+  }
+  smoothed.push(path[path.length - 1]);
+  return smoothed;
+}
@@ -22,6 +22,15 @@ export interface Circle {
   radius: number;
 }
 
+// Convex polygon; points are relative to the body position, in either winding
+export interface Polygon {
+  x: number;
+  y: number;
+  points: Vector2[];
+}
+
+export type Shape = AABB | Circle | Polygon;
+
 export interface RigidBody {
   id: string;
   position: Vector2;
@@ -31,7 +40,8 @@ export interface RigidBody {
   drag: number;
   elasticity: number;
   static: boolean;
-  shape: AABB | Circle;
+  sensor?: boolean; // Reports trigger-enter/exit instead of colliding
+  shape: Shape;
   collisionLayer: number;
   collisionMask: number;
   userData?: any;
@@ -45,12 +55,109 @@ export interface Collision {
   point: Vector2;
 }
 
+// Emitted as 'trigger-enter' and 'trigger-exit'
+export interface TriggerEvent {
+  sensor: RigidBody;
+  body: RigidBody;
+}
+
+export interface RaycastHit {
+  body: RigidBody;
+  point: Vector2;
+  normal: Vector2; // Surface normal at the hit, facing the ray
+  distance: number; // 0 when the ray starts inside the body
+}
+
+export interface PhysicsQueryOptions {
+  mask?: number; // Collision layers to include (default: all)
+  includeSensors?: boolean; // Default false
+  ignore?: string[]; // Body ids to skip
+}
+
+// World settings and bodies for save/restore
+export interface PhysicsWorldState {
+  gravity: Vector2;
+  worldBounds?: AABB;
+  bodies: RigidBody[];
+}
+
+function copyBody(body: RigidBody): RigidBody {
+  return {
+    ...body,
+    position: { ...body.position },
+    velocity: { ...body.velocity },
+    acceleration: { ...body.acceleration },
+    shape:
+      'points' in body.shape
+        ? {
+            ...body.shape,
+            points: body.shape.points.map(point => ({ ...point })),
+          }
+        : { ...body.shape },
+  };
+}
+
+function dot(a: Vector2, b: Vector2): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function normalize(v: Vector2): Vector2 {
+  const length = Math.hypot(v.x, v.y);
+  return length > 0 ? { x: v.x / length, y: v.y / length } : { x: 0, y: 0 };
+}
+
+function project(vertices: Vector2[], axis: Vector2): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const vertex of vertices) {
+    const value = dot(vertex, axis);
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return [min, max];
+}
+
+function edgeNormals(vertices: Vector2[]): Vector2[] {
+  return vertices.map((vertex, i) => {
+    const next = vertices[(i + 1) % vertices.length];
+    return normalize({ x: next.y - vertex.y, y: vertex.x - next.x });
+  });
+}
+
+function centroid(vertices: Vector2[]): Vector2 {
+  let x = 0;
+  let y = 0;
+  for (const vertex of vertices) {
+    x += vertex.x;
+    y += vertex.y;
+  }
+  return { x: x / vertices.length, y: y / vertices.length };
+}
+
+// The vertex furthest along a direction
+function support(vertices: Vector2[], direction: Vector2): Vector2 {
+  let best = vertices[0];
+  for (const vertex of vertices) {
+    if (dot(vertex, direction) > dot(best, direction)) best = vertex;
+  }
+  return best;
+}
+
+/**
+ * Physics World - Rigid bodies with box, circle and convex polygon shapes
+ * (polygons collide by the separating axis test). Sensor bodies never push
+ * anything; they emit 'trigger-enter' and 'trigger-exit' as bodies start and
+ * stop overlapping them. Spatial queries and raycasts go through a uniform
+ * grid. Emits 'collision' for solid contacts.
+ */
 export class PhysicsWorld extends EventEmitter {
   private bodies: Map<string, RigidBody> = new Map();
   private gravity: Vector2 = { x: 0, y: 0 };
   private worldBounds?: AABB;
   private spatialGrid: Map<string, Set<string>> = new Map();
+  private bodyCells: Map<string, string[]> = new Map(); // Grid keys per body
   private gridSize = 64; // Grid cell size for spatial partitioning
+  private triggers: Map<string, TriggerEvent> = new Map(); // Current sensor overlaps
 
   /**
    * Set world gravity
@@ -88,6 +195,13 @@ export class PhysicsWorld extends EventEmitter {
     if (body) {
       this.removeFromSpatialGrid(body);
       this.bodies.delete(id);
+
+      for (const [key, trigger] of this.triggers) {
+        if (trigger.sensor === body || trigger.body === body) {
+          this.triggers.delete(key);
+          this.emit('trigger-exit', trigger);
+        }
+      }
     }
   }
 
@@ -102,14 +216,19 @@ export class PhysicsWorld extends EventEmitter {
    * Update physics simulation
    */
   public update(deltaTime: number): void {
+    // Paused (e.g. under a modal overlay): nothing moves or collides
+    if (deltaTime <= 0) return;
+
     // Apply forces and integrate
     for (const body of this.bodies.values()) {
       if (!body.static) {
         this.integrateBody(body, deltaTime);
-        this.updateSpatialGrid(body);
       }
     }
 
+    // Static bodies can be moved by hand, so every body is re-indexed
+    this.syncSpatialGrid();
+
     // Detect and resolve collisions
     this.detectCollisions();
 
@@ -145,6 +264,7 @@ export class PhysicsWorld extends EventEmitter {
 
   private detectCollisions(): void {
     const collisions: Collision[] = [];
+    const triggers: Map<string, TriggerEvent> = new Map();
 
     // Use spatial grid for broad phase
     const potentialPairs = this.getBroadPhasePairs();
@@ -159,12 +279,20 @@ export class PhysicsWorld extends EventEmitter {
       }
 
       const collision = this.checkCollision(bodyA, bodyB);
-      if (collision) {
+      if (!collision) continue;
+
+      if (bodyA.sensor || bodyB.sensor) {
+        const sensor = bodyA.sensor ? bodyA : bodyB;
+        const body = sensor === bodyA ? bodyB : bodyA;
+        triggers.set(`${sensor.id}|${body.id}`, { sensor, body });
+      } else {
         collisions.push(collision);
         this.emit('collision', collision);
       }
     }
 
+    this.updateTriggers(triggers);
+
     // Resolve collisions
     for (const collision of collisions) {
       this.resolveCollision(collision);
@@ -180,8 +308,12 @@ export class PhysicsWorld extends EventEmitter {
         const bodyA = bodiesArray[i];
         const bodyB = bodiesArray[j];
 
-        // Skip if both are static
-        if (bodyA.static && bodyB.static) continue;
+        // Skip if both are static, unless one is watching the other
+        if (bodyA.static && bodyB.static && !bodyA.sensor && !bodyB.sensor) {
+          continue;
+        }
+        // Sensors don't sense each other
+        if (bodyA.sensor && bodyB.sensor) continue;
 
         // Simple AABB broad phase check
         if (this.aabbOverlap(this.getAABB(bodyA), this.getAABB(bodyB))) {
@@ -215,7 +347,111 @@ export class PhysicsWorld extends EventEmitter {
       return this.aabbVsCircle(bodyA, bodyB);
     }
 
-    return null;
+    // Polygons (boxes are treated as polygons against them)
+    if (this.isCircle(shapeA)) {
+      return this.circleVsPolygon(bodyA, bodyB, shapeA);
+    }
+    if (this.isCircle(shapeB)) {
+      return this.circleVsPolygon(bodyB, bodyA, shapeB);
+    }
+    return this.polygonVsPolygon(bodyA, bodyB);
+  }
+
+  /**
+   * Separating axis test between two convex shapes. The contact point is
+   * the vertex of B deepest inside A.
+   */
+  private polygonVsPolygon(
+    bodyA: RigidBody,
+    bodyB: RigidBody
+  ): Collision | null {
+    const verticesA = this.getVertices(bodyA);
+    const verticesB = this.getVertices(bodyB);
+
+    let penetration = Infinity;
+    let normal: Vector2 = { x: 0, y: 0 };
+    for (const axis of [...edgeNormals(verticesA), ...edgeNormals(verticesB)]) {
+      const [minA, maxA] = project(verticesA, axis);
+      const [minB, maxB] = project(verticesB, axis);
+      const overlap = Math.min(maxA, maxB) - Math.max(minA, minB);
+      if (overlap <= 0) return null;
+
+      if (overlap < penetration) {
+        penetration = overlap;
+        normal = axis;
+      }
+    }
+
+    // Point the normal from A to B
+    const centreA = centroid(verticesA);
+    const centreB = centroid(verticesB);
+    const offset = { x: centreB.x - centreA.x, y: centreB.y - centreA.y };
+    if (dot(offset, normal) < 0) {
+      normal = { x: -normal.x, y: -normal.y };
+    }
+
+    const point = { ...support(verticesB, { x: -normal.x, y: -normal.y }) };
+    return { bodyA, bodyB, normal, penetration, point };
+  }
+
+  /**
+   * Separating axis test between a circle and a convex shape. The normal
+   * points from the circle to the shape, matching the argument order.
+   */
+  private circleVsPolygon(
+    circleBody: RigidBody,
+    polygonBody: RigidBody,
+    circle: Circle
+  ): Collision | null {
+    const vertices = this.getVertices(polygonBody);
+    const centre = circleBody.position;
+
+    // The polygon's edge normals plus the axis towards its closest vertex
+    const closest = vertices.reduce((best, vertex) =>
+      Math.hypot(vertex.x - centre.x, vertex.y - centre.y) <
+      Math.hypot(best.x - centre.x, best.y - centre.y)
+        ? vertex
+        : best
+    );
+    const axes = [
+      ...edgeNormals(vertices),
+      normalize({ x: closest.x - centre.x, y: closest.y - centre.y }),
+    ];
+
+    let penetration = Infinity;
+    let normal: Vector2 = { x: 0, y: 0 };
+    for (const axis of axes) {
+      if (axis.x === 0 && axis.y === 0) continue;
+      const [minP, maxP] = project(vertices, axis);
+      const projected = dot(centre, axis);
+      const overlap =
+        Math.min(maxP, projected + circle.radius) -
+        Math.max(minP, projected - circle.radius);
+      if (overlap <= 0) return null;
+
+      if (overlap < penetration) {
+        penetration = overlap;
+        normal = axis;
+      }
+    }
+
+    const centreP = centroid(vertices);
+    const offset = { x: centreP.x - centre.x, y: centreP.y - centre.y };
+    if (dot(offset, normal) < 0) {
+      normal = { x: -normal.x, y: -normal.y };
+    }
+
+    const point = {
+      x: centre.x + normal.x * circle.radius,
+      y: centre.y + normal.y * circle.radius,
+    };
+    return {
+      bodyA: circleBody,
+      bodyB: polygonBody,
+      normal,
+      penetration,
+      point,
+    };
   }
 
   private aabbVsAABB(
@@ -224,8 +460,14 @@ export class PhysicsWorld extends EventEmitter {
     aabbA: AABB,
     aabbB: AABB
   ): Collision | null {
-    const posA = bodyA.position;
-    const posB = bodyB.position;
+    const posA = {
+      x: bodyA.position.x + aabbA.x,
+      y: bodyA.position.y + aabbA.y,
+    };
+    const posB = {
+      x: bodyB.position.x + aabbB.x,
+      y: bodyB.position.y + aabbB.y,
+    };
 
     const overlapX =
       Math.min(posA.x + aabbA.width, posB.x + aabbB.width) -
@@ -235,16 +477,16 @@ export class PhysicsWorld extends EventEmitter {
       Math.max(posA.y, posB.y);
 
     if (overlapX > 0 && overlapY > 0) {
-      // Determine collision normal and penetration
+      // Determine collision normal (pointing from A to B) and penetration
       let normal: Vector2;
       let penetration: number;
 
       if (overlapX < overlapY) {
         penetration = overlapX;
-        normal = posA.x < posB.x ? { x: -1, y: 0 } : { x: 1, y: 0 };
+        normal = posA.x < posB.x ? { x: 1, y: 0 } : { x: -1, y: 0 };
       } else {
         penetration = overlapY;
-        normal = posA.y < posB.y ? { x: 0, y: -1 } : { x: 0, y: 1 };
+        normal = posA.y < posB.y ? { x: 0, y: 1 } : { x: 0, y: -1 };
       }
 
       const point = {
@@ -357,7 +599,10 @@ export class PhysicsWorld extends EventEmitter {
 
       const e = Math.min(bodyA.elasticity, bodyB.elasticity);
       const j = -(1 + e) * velAlongNormal;
-      const impulse = j / (1 / bodyA.mass + 1 / bodyB.mass);
+      // Static bodies behave as infinitely heavy
+      const inverseMassA = bodyA.static ? 0 : 1 / bodyA.mass;
+      const inverseMassB = bodyB.static ? 0 : 1 / bodyB.mass;
+      const impulse = j / (inverseMassA + inverseMassB);
 
       if (!bodyA.static) {
         bodyA.velocity.x -= (impulse * normal.x) / bodyA.mass;
@@ -414,14 +659,39 @@ export class PhysicsWorld extends EventEmitter {
   }
 
   // Utility methods
-  private isAABB(shape: AABB | Circle): shape is AABB {
+  private isAABB(shape: Shape): shape is AABB {
     return 'width' in shape && 'height' in shape;
   }
 
-  private isCircle(shape: AABB | Circle): shape is Circle {
+  private isCircle(shape: Shape): shape is Circle {
     return 'radius' in shape;
   }
 
+  private isPolygon(shape: Shape): shape is Polygon {
+    return 'points' in shape;
+  }
+
+  /**
+   * World-space corners of a box or polygon
+   */
+  private getVertices(body: RigidBody): Vector2[] {
+    const { position, shape } = body;
+    if (this.isPolygon(shape)) {
+      return shape.points.map(point => ({
+        x: position.x + shape.x + point.x,
+        y: position.y + shape.y + point.y,
+      }));
+    }
+
+    const box = this.getAABB(body);
+    return [
+      { x: box.x, y: box.y },
+      { x: box.x + box.width, y: box.y },
+      { x: box.x + box.width, y: box.y + box.height },
+      { x: box.x, y: box.y + box.height },
+    ];
+  }
+
   private getAABB(body: RigidBody): AABB {
     if (this.isAABB(body.shape)) {
       return {
@@ -430,6 +700,18 @@ export class PhysicsWorld extends EventEmitter {
         width: body.shape.width,
         height: body.shape.height,
       };
+    } else if (this.isPolygon(body.shape)) {
+      const { shape } = body;
+      const xs = shape.points.map(point => point.x);
+      const ys = shape.points.map(point => point.y);
+      const x = body.position.x + shape.x + Math.min(...xs);
+      const y = body.position.y + shape.y + Math.min(...ys);
+      return {
+        x,
+        y,
+        width: body.position.x + shape.x + Math.max(...xs) - x,
+        height: body.position.y + shape.y + Math.max(...ys) - y,
+      };
     } else {
       const circle = body.shape as Circle;
       return {
@@ -450,24 +732,392 @@ export class PhysicsWorld extends EventEmitter {
     );
   }
 
+  /**
+   * Grid keys for every cell an area covers
+   */
+  private getCellKeys(area: AABB): string[] {
+    const minX = Math.floor(area.x / this.gridSize);
+    const minY = Math.floor(area.y / this.gridSize);
+    const maxX = Math.floor((area.x + area.width) / this.gridSize);
+    const maxY = Math.floor((area.y + area.height) / this.gridSize);
+
+    const keys: string[] = [];
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        keys.push(`${x},${y}`);
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Index a body in every cell its bounds cover, leaving the cells it
+   * no longer touches
+   */
   private updateSpatialGrid(body: RigidBody): void {
-    // Simple spatial grid implementation
-    const bounds = this.getAABB(body);
-    const gridKey = `${Math.floor(bounds.x / this.gridSize)},${Math.floor(bounds.y / this.gridSize)}`;
+    const keys = this.getCellKeys(this.getAABB(body));
+    const previous = this.bodyCells.get(body.id);
+    if (
+      previous &&
+      previous.length === keys.length &&
+      previous.every((key, i) => key === keys[i])
+    ) {
+      return;
+    }
 
-    if (!this.spatialGrid.has(gridKey)) {
-      this.spatialGrid.set(gridKey, new Set());
+    this.removeFromSpatialGrid(body);
+    for (const key of keys) {
+      let cell = this.spatialGrid.get(key);
+      if (!cell) {
+        cell = new Set();
+        this.spatialGrid.set(key, cell);
+      }
+      cell.add(body.id);
     }
-    this.spatialGrid.get(gridKey)!.add(body.id);
+    this.bodyCells.set(body.id, keys);
   }
 
   private removeFromSpatialGrid(body: RigidBody): void {
-    for (const [key, bodies] of this.spatialGrid) {
-      bodies.delete(body.id);
-      if (bodies.size === 0) {
+    for (const key of this.bodyCells.get(body.id) ?? []) {
+      const cell = this.spatialGrid.get(key);
+      cell?.delete(body.id);
+      if (cell?.size === 0) {
         this.spatialGrid.delete(key);
       }
     }
+    this.bodyCells.delete(body.id);
+  }
+
+  private syncSpatialGrid(): void {
+    for (const body of this.bodies.values()) {
+      this.updateSpatialGrid(body);
+    }
+  }
+
+  /**
+   * Emit enter/exit for sensor overlaps that started or ended this step
+   */
+  private updateTriggers(current: Map<string, TriggerEvent>): void {
+    const previous = this.triggers;
+    this.triggers = current;
+
+    for (const [key, trigger] of previous) {
+      if (!current.has(key)) this.emit('trigger-exit', trigger);
+    }
+    for (const [key, trigger] of current) {
+      if (!previous.has(key)) this.emit('trigger-enter', trigger);
+    }
+  }
+
+  // Queries
+
+  /**
+   * Bodies whose shape contains a point
+   */
+  public queryPoint(
+    x: number,
+    y: number,
+    options: PhysicsQueryOptions = {}
+  ): RigidBody[] {
+    return this.queryShape({ x: 0, y: 0, width: 0, height: 0 }, x, y, options);
+  }
+
+  /**
+   * Bodies overlapping a rectangle
+   */
+  public queryArea(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    options: PhysicsQueryOptions = {}
+  ): RigidBody[] {
+    return this.queryShape({ x: 0, y: 0, width, height }, x, y, options);
+  }
+
+  /**
+   * Bodies overlapping a circle
+   */
+  public queryCircle(
+    x: number,
+    y: number,
+    radius: number,
+    options: PhysicsQueryOptions = {}
+  ): RigidBody[] {
+    return this.queryShape({ x: 0, y: 0, radius }, x, y, options);
+  }
+
+  /**
+   * Bodies overlapping any shape placed at a position
+   */
+  public queryShape(
+    shape: Shape,
+    x: number,
+    y: number,
+    options: PhysicsQueryOptions = {}
+  ): RigidBody[] {
+    this.syncSpatialGrid();
+
+    const probe = this.createProbe(shape, x, y);
+    const bounds = this.getAABB(probe);
+    const results: RigidBody[] = [];
+
+    for (const body of this.getCandidates(this.getCellKeys(bounds))) {
+      if (!this.matchesQuery(body, options)) continue;
+      if (!this.aabbOverlapInclusive(bounds, this.getAABB(body))) continue;
+      if (this.overlapsProbe(probe, body)) results.push(body);
+    }
+    return results;
+  }
+
+  /**
+   * The nearest body a ray hits within a distance
+   */
+  public raycast(
+    origin: Vector2,
+    direction: Vector2,
+    maxDistance = Infinity,
+    options: PhysicsQueryOptions = {}
+  ): RaycastHit | null {
+    return this.raycastAll(origin, direction, maxDistance, options)[0] ?? null;
+  }
+
+  /**
+   * Every body a ray hits within a distance, nearest first
+   */
+  public raycastAll(
+    origin: Vector2,
+    direction: Vector2,
+    maxDistance = Infinity,
+    options: PhysicsQueryOptions = {}
+  ): RaycastHit[] {
+    const dir = normalize(direction);
+    if (dir.x === 0 && dir.y === 0) return [];
+    this.syncSpatialGrid();
+
+    const candidates = Number.isFinite(maxDistance)
+      ? this.getCandidates(this.getRayCells(origin, dir, maxDistance))
+      : this.getBodies();
+
+    const hits: RaycastHit[] = [];
+    for (const body of candidates) {
+      if (!this.matchesQuery(body, options)) continue;
+      const hit = this.raycastBody(body, origin, dir);
+      if (hit && hit.distance <= maxDistance) hits.push(hit);
+    }
+    return hits.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Grid cells a ray passes through (grid traversal)
+   */
+  private getRayCells(
+    origin: Vector2,
+    dir: Vector2,
+    maxDistance: number
+  ): string[] {
+    const size = this.gridSize;
+    let cellX = Math.floor(origin.x / size);
+    let cellY = Math.floor(origin.y / size);
+    const stepX = Math.sign(dir.x);
+    const stepY = Math.sign(dir.y);
+
+    // Ray distance to the next vertical/horizontal cell border, and per cell
+    const deltaX = stepX !== 0 ? size / Math.abs(dir.x) : Infinity;
+    const deltaY = stepY !== 0 ? size / Math.abs(dir.y) : Infinity;
+    let nextX =
+      stepX > 0
+        ? ((cellX + 1) * size - origin.x) / dir.x
+        : stepX < 0
+          ? (cellX * size - origin.x) / dir.x
+          : Infinity;
+    let nextY =
+      stepY > 0
+        ? ((cellY + 1) * size - origin.y) / dir.y
+        : stepY < 0
+          ? (cellY * size - origin.y) / dir.y
+          : Infinity;
+
+    // Walk until the next border is past the ray's end. Comparing distances
+    // rather than landing on the end cell exactly survives round-off.
+    const keys = [`${cellX},${cellY}`];
+    while (Math.min(nextX, nextY) <= maxDistance) {
+      if (nextX < nextY) {
+        cellX += stepX;
+        nextX += deltaX;
+      } else {
+        cellY += stepY;
+        nextY += deltaY;
+      }
+      keys.push(`${cellX},${cellY}`);
+    }
+    return keys;
+  }
+
+  private raycastBody(
+    body: RigidBody,
+    origin: Vector2,
+    dir: Vector2
+  ): RaycastHit | null {
+    const shape = body.shape;
+
+    if (this.isCircle(shape)) {
+      const dx = origin.x - body.position.x;
+      const dy = origin.y - body.position.y;
+      const c = dx * dx + dy * dy - shape.radius * shape.radius;
+      if (c <= 0) return this.insideHit(body, origin, dir);
+
+      const b = dx * dir.x + dy * dir.y;
+      const discriminant = b * b - c;
+      if (b > 0 || discriminant < 0) return null;
+
+      const distance = -b - Math.sqrt(discriminant);
+      const point = {
+        x: origin.x + dir.x * distance,
+        y: origin.y + dir.y * distance,
+      };
+      const normal = normalize({
+        x: point.x - body.position.x,
+        y: point.y - body.position.y,
+      });
+      return { body, point, normal, distance };
+    }
+
+    // Boxes and polygons: the nearest edge crossed from outside
+    const vertices = this.getVertices(body);
+    if (this.containsPoint(vertices, origin)) {
+      return this.insideHit(body, origin, dir);
+    }
+
+    let best: RaycastHit | null = null;
+    const normals = edgeNormals(vertices);
+    const centre = centroid(vertices);
+    vertices.forEach((a, i) => {
+      const b = vertices[(i + 1) % vertices.length];
+      const edge = { x: b.x - a.x, y: b.y - a.y };
+      const denominator = dir.x * edge.y - dir.y * edge.x;
+      if (denominator === 0) return;
+
+      const toA = { x: a.x - origin.x, y: a.y - origin.y };
+      const distance = (toA.x * edge.y - toA.y * edge.x) / denominator;
+      const along = (toA.x * dir.y - toA.y * dir.x) / denominator;
+      if (distance < 0 || along < 0 || along > 1) return;
+      if (best && best.distance <= distance) return;
+
+      // Outward normal, whatever the winding
+      let normal = normals[i];
+      if (dot(normal, { x: a.x - centre.x, y: a.y - centre.y }) < 0) {
+        normal = { x: -normal.x, y: -normal.y };
+      }
+      best = {
+        body,
+        point: {
+          x: origin.x + dir.x * distance,
+          y: origin.y + dir.y * distance,
+        },
+        normal,
+        distance,
+      };
+    });
+    return best;
+  }
+
+  private insideHit(
+    body: RigidBody,
+    origin: Vector2,
+    dir: Vector2
+  ): RaycastHit {
+    return {
+      body,
+      point: { ...origin },
+      normal: { x: -dir.x, y: -dir.y },
+      distance: 0,
+    };
+  }
+
+  /**
+   * Convex containment: the point is on the same side of every edge
+   */
+  private containsPoint(vertices: Vector2[], point: Vector2): boolean {
+    let sign = 0;
+    for (let i = 0; i < vertices.length; i++) {
+      const a = vertices[i];
+      const b = vertices[(i + 1) % vertices.length];
+      const cross =
+        (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x);
+      if (cross === 0) continue;
+      if (sign === 0) sign = Math.sign(cross);
+      else if (Math.sign(cross) !== sign) return false;
+    }
+    return true;
+  }
+
+  private createProbe(shape: Shape, x: number, y: number): RigidBody {
+    return {
+      id: '__query',
+      position: { x, y },
+      velocity: { x: 0, y: 0 },
+      acceleration: { x: 0, y: 0 },
+      mass: 0,
+      drag: 0,
+      elasticity: 0,
+      static: true,
+      shape,
+      collisionLayer: 0,
+      collisionMask: 0,
+    };
+  }
+
+  /**
+   * Exact overlap test for queries, where touching counts
+   */
+  private overlapsProbe(probe: RigidBody, body: RigidBody): boolean {
+    const probeBounds = this.getAABB(probe);
+    if (
+      this.isAABB(probe.shape) &&
+      probeBounds.width === 0 &&
+      probeBounds.height === 0
+    ) {
+      // Point query
+      const point = { x: probeBounds.x, y: probeBounds.y };
+      if (this.isCircle(body.shape)) {
+        return (
+          Math.hypot(point.x - body.position.x, point.y - body.position.y) <=
+          body.shape.radius
+        );
+      }
+      return this.containsPoint(this.getVertices(body), point);
+    }
+
+    if (this.isAABB(probe.shape) && this.isAABB(body.shape)) {
+      return this.aabbOverlapInclusive(probeBounds, this.getAABB(body));
+    }
+    return this.checkCollision(probe, body) !== null;
+  }
+
+  private aabbOverlapInclusive(a: AABB, b: AABB): boolean {
+    return (
+      a.x <= b.x + b.width &&
+      a.x + a.width >= b.x &&
+      a.y <= b.y + b.height &&
+      a.y + a.height >= b.y
+    );
+  }
+
+  private getCandidates(keys: string[]): RigidBody[] {
+    const ids: Set<string> = new Set();
+    for (const key of keys) {
+      for (const id of this.spatialGrid.get(key) ?? []) {
+        ids.add(id);
+      }
+    }
+    return Array.from(ids, id => this.bodies.get(id)!);
+  }
+
+  private matchesQuery(body: RigidBody, options: PhysicsQueryOptions): boolean {
+    if (body.sensor && !options.includeSensors) return false;
+    if (options.ignore?.includes(body.id)) return false;
+    return ((options.mask ?? 0xffffffff) & body.collisionLayer) !== 0;
   }
 
   /**
@@ -503,12 +1153,37 @@ export class PhysicsWorld extends EventEmitter {
     return Array.from(this.bodies.values());
   }
 
+  /**
+   * Snapshot gravity, bounds and copies of every body
+   */
+  public getState(): PhysicsWorldState {
+    return {
+      gravity: { ...this.gravity },
+      worldBounds: this.worldBounds ? { ...this.worldBounds } : undefined,
+      bodies: this.getBodies().map(copyBody),
+    };
+  }
+
+  /**
+   * Replace the world's settings and bodies with a snapshot
+   */
+  public setState(state: PhysicsWorldState): void {
+    this.clear();
+    this.gravity = { ...state.gravity };
+    this.worldBounds = state.worldBounds ? { ...state.worldBounds } : undefined;
+    for (const body of state.bodies) {
+      this.addBody(copyBody(body));
+    }
+  }
+
   /**
    * Clear all bodies
    */
   public clear(): void {
     this.bodies.clear();
     this.spatialGrid.clear();
+    this.bodyCells.clear();
+    this.triggers.clear();
   }
 
   /**
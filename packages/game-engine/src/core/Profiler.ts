@@ -0,0 +1,562 @@
+/**
+ * Profiler - Frame timing, counters, overlay and trace export
+ */
+
+import { EventEmitter } from './EventEmitter';
+import type { CanvasRenderer } from './CanvasRenderer';
+
+export type ProfilerCategory = 'phase' | 'system';
+
+export interface ProfilerOptions {
+  historySize?: number; // Frames kept for stats and the histogram (default 300)
+  histogramBuckets?: number[]; // Upper bounds in ms (default 4, 8, 16.7, 33.3, 50, 100)
+  budget?: number; // Frame budget in ms the overlay measures against (default 16.7)
+  gcSpikeFactor?: number; // Frame gaps this many times the median count as pauses (default 3)
+  gcHeapDrop?: number; // Heap shrink in bytes between frames that counts as a GC (default 1 MB)
+  maxTraceEvents?: number; // Trace recording stops at this many events (default 200000)
+  now?: () => number; // High-resolution ms timer (default performance.now)
+}
+
+export interface FrameSample {
+  frame: number;
+  start: number; // ms on the profiler's timer
+  time: number; // ms spent inside the frame
+  interval: number; // ms since the previous frame started (0 for the first)
+  phases: Record<string, number>; // ms per engine phase
+  systems: Record<string, number>; // ms per system ('name.render' for render passes)
+  entities: number;
+  drawCalls: number;
+  heap?: number; // Bytes, where the browser reports it
+  gcSuspected: boolean;
+}
+
+export interface ProfilerSummary {
+  frames: number;
+  fps: number; // From frame intervals
+  avgTime: number;
+  p95Time: number;
+  maxTime: number;
+  phases: Record<string, number>; // Average ms
+  systems: Record<string, number>; // Average ms
+  entities: number; // Latest counts
+  drawCalls: number;
+  gcPauses: number;
+}
+
+export interface HistogramBucket {
+  upTo: number; // ms; Infinity for the last bucket
+  count: number;
+}
+
+// Chrome trace-event format, loadable in chrome://tracing and Perfetto
+export interface TraceEvent {
+  name: string;
+  cat: string;
+  ph: 'X' | 'C' | 'i' | 'M';
+  ts: number; // Microseconds
+  dur?: number;
+  pid: number;
+  tid: number;
+  s?: 'g' | 'p' | 't';
+  args?: Record<string, unknown>;
+}
+
+export interface TraceData {
+  traceEvents: TraceEvent[];
+  displayTimeUnit: 'ms' | 'ns';
+  otherData?: Record<string, unknown>;
+}
+
+interface OpenSpan {
+  name: string;
+  category: ProfilerCategory;
+  start: number;
+}
+
+type PerformanceWithMemory = Performance & {
+  memory?: { usedJSHeapSize: number };
+};
+
+const DEFAULT_BUCKETS = [4, 8, 16.7, 33.3, 50, 100];
+const OVERLAY_WIDTH = 260;
+const OVERLAY_FONT = '11px monospace';
+const LINE_HEIGHT = 14;
+
+function defaultNow(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+function readHeap(): number | undefined {
+  if (typeof performance === 'undefined') return undefined;
+  return (performance as PerformanceWithMemory).memory?.usedJSHeapSize;
+}
+
+function average(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+/**
+ * Profiler - Times engine phases and systems per frame while enabled, and
+ * keeps a rolling history for stats, a frame-time histogram and an overlay.
+ * Trace recording captures every span as Chrome trace events. GC pauses
+ * are guessed from heap drops (Chromium only) or from frame gaps far longer
+ * than usual that the engine's own work doesn't explain. Emits 'frame' and
+ * 'gc-suspected'.
+ */
+export class Profiler extends EventEmitter {
+  private enabled = false;
+  private overlayVisible = false;
+  private tracing = false;
+
+  private historySize: number;
+  private buckets: number[];
+  private budget: number;
+  private gcSpikeFactor: number;
+  private gcHeapDrop: number;
+  private maxTraceEvents: number;
+  private now: () => number;
+
+  private frames: FrameSample[] = [];
+  private current: FrameSample | null = null;
+  private stack: OpenSpan[] = [];
+  private previous: FrameSample | null = null;
+  private gcPauses = 0;
+  private traceEvents: TraceEvent[] = [];
+  private traceStart = 0;
+
+  constructor(options: ProfilerOptions = {}) {
+    super();
+    this.historySize = options.historySize ?? 300;
+    this.buckets = options.histogramBuckets ?? DEFAULT_BUCKETS;
+    this.budget = options.budget ?? 1000 / 60;
+    this.gcSpikeFactor = options.gcSpikeFactor ?? 3;
+    this.gcHeapDrop = options.gcHeapDrop ?? 1024 * 1024;
+    this.maxTraceEvents = options.maxTraceEvents ?? 200000;
+    this.now = options.now ?? defaultNow;
+  }
+
+  /**
+   * Start collecting (takes effect from the next frame)
+   */
+  public enable(): void {
+    this.enabled = true;
+  }
+
+  /**
+   * Stop collecting; the overlay and any trace recording stop too
+   */
+  public disable(): void {
+    this.enabled = false;
+    this.overlayVisible = false;
+    this.tracing = false;
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Show or hide the overlay, enabling collection when shown
+   */
+  public toggleOverlay(visible = !this.overlayVisible): void {
+    this.overlayVisible = visible;
+    if (visible) this.enable();
+  }
+
+  public isOverlayVisible(): boolean {
+    return this.overlayVisible;
+  }
+
+  // Frame and span markers (called by the engine)
+
+  public beginFrame(frame: number): void {
+    this.stack = [];
+    if (!this.enabled) {
+      this.current = null;
+      return;
+    }
+
+    const start = this.now();
+    this.current = {
+      frame,
+      start,
+      time: 0,
+      interval: this.previous ? start - this.previous.start : 0,
+      phases: {},
+      systems: {},
+      entities: 0,
+      drawCalls: 0,
+      gcSuspected: false,
+    };
+  }
+
+  public endFrame(counts: { entities: number; drawCalls: number }): void {
+    const sample = this.current;
+    if (!sample) return;
+
+    sample.time = this.now() - sample.start;
+    sample.entities = counts.entities;
+    sample.drawCalls = counts.drawCalls;
+    sample.heap = readHeap();
+    sample.gcSuspected = this.detectGc(sample);
+
+    if (sample.gcSuspected) {
+      this.gcPauses++;
+      this.addTraceEvent({
+        name: 'Suspected GC',
+        cat: 'gc',
+        ph: 'i',
+        ts: this.toTraceTime(sample.start),
+        pid: 1,
+        tid: 1,
+        s: 'g',
+      });
+      this.emit('gc-suspected', sample);
+    }
+
+    this.addTraceEvent({
+      name: 'Frame',
+      cat: 'frame',
+      ph: 'X',
+      ts: this.toTraceTime(sample.start),
+      dur: sample.time * 1000,
+      pid: 1,
+      tid: 1,
+      args: { frame: sample.frame },
+    });
+    this.addTraceEvent({
+      name: 'Counters',
+      cat: 'counters',
+      ph: 'C',
+      ts: this.toTraceTime(sample.start + sample.time),
+      pid: 1,
+      tid: 1,
+      args: {
+        entities: sample.entities,
+        drawCalls: sample.drawCalls,
+        ...(sample.heap !== undefined ? { heap: sample.heap } : {}),
+      },
+    });
+
+    this.frames.push(sample);
+    if (this.frames.length > this.historySize) {
+      this.frames.shift();
+    }
+    this.previous = sample;
+    this.current = null;
+    this.emit('frame', sample);
+  }
+
+  /**
+   * Open a timed span; spans nest and are closed by end()
+   */
+  public begin(name: string, category: ProfilerCategory = 'phase'): void {
+    if (!this.current) return;
+    this.stack.push({ name, category, start: this.now() });
+  }
+
+  /**
+   * Close the innermost span, adding its time to the current frame
+   */
+  public end(): void {
+    const span = this.stack.pop();
+    if (!span || !this.current) return;
+
+    const duration = this.now() - span.start;
+    const totals =
+      span.category === 'system' ? this.current.systems : this.current.phases;
+    totals[span.name] = (totals[span.name] ?? 0) + duration;
+
+    this.addTraceEvent({
+      name: span.name,
+      cat: span.category,
+      ph: 'X',
+      ts: this.toTraceTime(span.start),
+      dur: duration * 1000,
+      pid: 1,
+      tid: 1,
+    });
+  }
+
+  // Results
+
+  public getFrames(): FrameSample[] {
+    return [...this.frames];
+  }
+
+  public getLastFrame(): FrameSample | null {
+    return this.frames[this.frames.length - 1] ?? null;
+  }
+
+  /**
+   * Averages over the kept history
+   */
+  public getSummary(): ProfilerSummary {
+    const times = this.frames.map(frame => frame.time);
+    const intervals = this.frames
+      .map(frame => frame.interval)
+      .filter(interval => interval > 0);
+    const last = this.getLastFrame();
+
+    return {
+      frames: this.frames.length,
+      fps: intervals.length > 0 ? Math.round(1000 / average(intervals)) : 0,
+      avgTime: average(times),
+      p95Time: percentile(times, 0.95),
+      maxTime: times.length > 0 ? Math.max(...times) : 0,
+      phases: this.averageTotals(frame => frame.phases),
+      systems: this.averageTotals(frame => frame.systems),
+      entities: last?.entities ?? 0,
+      drawCalls: last?.drawCalls ?? 0,
+      gcPauses: this.gcPauses,
+    };
+  }
+
+  /**
+   * Frame times over the kept history, bucketed by upper bound
+   */
+  public getHistogram(): HistogramBucket[] {
+    const bounds = [...this.buckets, Infinity];
+    const counts = bounds.map(upTo => ({ upTo, count: 0 }));
+
+    for (const frame of this.frames) {
+      const index = bounds.findIndex(upTo => frame.time <= upTo);
+      counts[index].count++;
+    }
+    return counts;
+  }
+
+  public getGcPauseCount(): number {
+    return this.gcPauses;
+  }
+
+  /**
+   * Drop the history and counters
+   */
+  public reset(): void {
+    this.frames = [];
+    this.previous = null;
+    this.gcPauses = 0;
+  }
+
+  // Trace recording
+
+  /**
+   * Record spans and counters as trace events until stopTrace()
+   */
+  public startTrace(): void {
+    this.enable();
+    this.tracing = true;
+    this.traceEvents = [];
+    this.traceStart = this.now();
+  }
+
+  /**
+   * Stop recording and return the trace
+   */
+  public stopTrace(): TraceData {
+    this.tracing = false;
+    return this.exportTrace();
+  }
+
+  public isTracing(): boolean {
+    return this.tracing;
+  }
+
+  /**
+   * The recorded trace in Chrome trace-event format
+   */
+  public exportTrace(): TraceData {
+    return {
+      traceEvents: [
+        {
+          name: 'thread_name',
+          cat: '__metadata',
+          ph: 'M',
+          ts: 0,
+          pid: 1,
+          tid: 1,
+          args: { name: 'Game loop' },
+        },
+        ...this.traceEvents,
+      ],
+      displayTimeUnit: 'ms',
+      otherData: { summary: this.getSummary() },
+    };
+  }
+
+  /**
+   * Save the recorded trace as a JSON file download (browser only)
+   */
+  public downloadTrace(filename = 'engine-trace.json'): void {
+    const blob = new Blob([JSON.stringify(this.exportTrace())], {
+      type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+
+    // Keep the blob URL alive until the download has started
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  // Overlay
+
+  /**
+   * Draw the overlay in screen space (the engine calls this while it's
+   * visible)
+   */
+  public renderOverlay(renderer: CanvasRenderer, x: number, y: number): void {
+    const summary = this.getSummary();
+    const phases = Object.entries(summary.phases);
+    const systems = Object.entries(summary.systems)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5);
+    const histogram = this.getHistogram();
+    const height =
+      LINE_HEIGHT * (4 + phases.length + systems.length) + 8 + 40 + 10;
+
+    renderer.drawRect(x, y, OVERLAY_WIDTH, height, 'rgba(0, 0, 0, 0.75)');
+
+    let line = y + 6;
+    const text = (value: string, color = 'white'): void => {
+      renderer.drawText(value, x + 8, line, OVERLAY_FONT, color);
+      line += LINE_HEIGHT;
+    };
+
+    text(
+      `FPS ${summary.fps}  avg ${summary.avgTime.toFixed(1)}ms  p95 ${summary.p95Time.toFixed(1)}ms`
+    );
+    text(
+      `Entities ${summary.entities}  Draws ${summary.drawCalls}  GC? ${summary.gcPauses}`,
+      summary.gcPauses > 0 ? '#ffcc80' : 'white'
+    );
+
+    text('Phases', '#90caf9');
+    for (const [name, ms] of phases) {
+      this.drawBar(renderer, x, line, name, ms);
+      line += LINE_HEIGHT;
+    }
+
+    text('Systems', '#90caf9');
+    for (const [name, ms] of systems) {
+      this.drawBar(renderer, x, line, name, ms);
+      line += LINE_HEIGHT;
+    }
+
+    // Histogram: one column per bucket, over-budget buckets in red
+    const maxCount = Math.max(1, ...histogram.map(bucket => bucket.count));
+    const columnWidth = (OVERLAY_WIDTH - 16) / histogram.length;
+    const base = line + 40;
+    histogram.forEach((bucket, index) => {
+      const barHeight = (bucket.count / maxCount) * 36;
+      renderer.drawRect(
+        x + 8 + index * columnWidth,
+        base - barHeight,
+        columnWidth - 2,
+        barHeight,
+        bucket.upTo <= this.budget ? '#81c784' : '#e57373'
+      );
+    });
+  }
+
+  private drawBar(
+    renderer: CanvasRenderer,
+    x: number,
+    y: number,
+    name: string,
+    ms: number
+  ): void {
+    const width = Math.min(1, ms / this.budget) * 90;
+    renderer.drawRect(x + 160, y + 2, 90, 8, 'rgba(255, 255, 255, 0.15)');
+    renderer.drawRect(
+      x + 160,
+      y + 2,
+      width,
+      8,
+      ms > this.budget / 2 ? '#e57373' : '#81c784'
+    );
+    renderer.drawText(
+      `${name.slice(0, 16).padEnd(16)} ${ms.toFixed(2)}`,
+      x + 8,
+      y,
+      OVERLAY_FONT,
+      'white'
+    );
+  }
+
+  private averageTotals(
+    select: (frame: FrameSample) => Record<string, number>
+  ): Record<string, number> {
+    const totals: Record<string, number> = {};
+    for (const frame of this.frames) {
+      for (const [name, ms] of Object.entries(select(frame))) {
+        totals[name] = (totals[name] ?? 0) + ms;
+      }
+    }
+    for (const name of Object.keys(totals)) {
+      totals[name] /= this.frames.length;
+    }
+    return totals;
+  }
+
+  /**
+   * A frame gap much longer than usual that the previous frame's work
+   * doesn't account for, or a heap that shrank, suggests the collector ran
+   */
+  private detectGc(sample: FrameSample): boolean {
+    const previous = this.previous;
+    if (!previous) return false;
+
+    if (
+      sample.heap !== undefined &&
+      previous.heap !== undefined &&
+      previous.heap - sample.heap > this.gcHeapDrop
+    ) {
+      return true;
+    }
+
+    if (this.frames.length < 10) return false;
+    const typical = percentile(
+      this.frames.map(frame => frame.interval).filter(interval => interval > 0),
+      0.5
+    );
+    const unexplained = sample.interval - previous.time;
+    return (
+      typical > 0 &&
+      sample.interval > typical * this.gcSpikeFactor &&
+      unexplained > typical * (this.gcSpikeFactor - 1)
+    );
+  }
+
+  private toTraceTime(ms: number): number {
+    return (ms - this.traceStart) * 1000;
+  }
+
+  private addTraceEvent(event: TraceEvent): void {
+    if (!this.tracing) return;
+    if (this.traceEvents.length >= this.maxTraceEvents) {
+      this.tracing = false;
+      this.emit('trace-full', this.traceEvents.length);
+      return;
+    }
+    this.traceEvents.push(event);
+  }
+
+  public destroy(): void {
+    this.disable();
+    this.frames = [];
+    this.traceEvents = [];
+    this.removeAllListeners();
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Query - Cached, incrementally maintained entity/component views
+ */
+
+import type { Entity, EntityId } from './EntityManager';
+import type { ComponentData, ComponentType } from './Component';
+
+export type QueryComponents<C extends ComponentType[]> = {
+  [K in keyof C]: ComponentData<C[K]>;
+};
+
+export type QueryRow<T extends unknown[]> = [Entity, ...T];
+
+// Membership upkeep for queries of any component types (used by EntityManager)
+export interface QueryIndex {
+  readonly key: string;
+  refresh(entity: Entity): void;
+  remove(entityId: EntityId): void;
+  clear(): void;
+}
+
+export class Query<T extends unknown[] = unknown[]> implements QueryIndex {
+  public readonly key: string;
+  public readonly types: ComponentType[];
+
+  private rows: Map<EntityId, QueryRow<T>> = new Map();
+  private cachedRows: QueryRow<T>[] = [];
+  private dirty = false;
+  private compare?: (a: QueryRow<T>, b: QueryRow<T>) => number;
+
+  constructor(types: ComponentType[]) {
+    this.types = types;
+    this.key = Query.keyFor(types);
+  }
+
+  /**
+   * Build the cache key for a set of component types
+   */
+  public static keyFor(types: ComponentType[]): string {
+    return types
+      .map(type => type.name)
+      .sort()
+      .join('|');
+  }
+
+  /**
+   * Check whether an entity belongs in this query
+   */
+  public matches(entity: Entity): boolean {
+    return (
+      entity.active &&
+      this.types.every(type => entity.components.has(type.name))
+    );
+  }
+
+  /**
+   * Re-evaluate membership after an entity's components changed
+   * (called by EntityManager)
+   */
+  public refresh(entity: Entity): void {
+    if (this.matches(entity)) {
+      const row = [
+        entity,
+        ...this.types.map(type => entity.components.get(type.name)),
+      ] as QueryRow<T>;
+      this.rows.set(entity.id, row);
+      this.dirty = true;
+    } else if (this.rows.delete(entity.id)) {
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Remove an entity from the query (called by EntityManager)
+   */
+  public remove(entityId: EntityId): void {
+    if (this.rows.delete(entityId)) {
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Remove all entities (called by EntityManager)
+   */
+  public clear(): void {
+    this.rows.clear();
+    this.cachedRows = [];
+    this.dirty = false;
+  }
+
+  /**
+   * Keep results ordered. Sorting only happens when membership changes;
+   * call invalidate() after mutating a sort key in place.
+   */
+  public sortBy(compare: (a: QueryRow<T>, b: QueryRow<T>) => number): this {
+    this.compare = compare;
+    this.dirty = true;
+    return this;
+  }
+
+  /**
+   * Force results to be rebuilt (and re-sorted) on next access
+   */
+  public invalidate(): void {
+    this.dirty = true;
+  }
+
+  /**
+   * Get matching rows as [entity, ...components] tuples
+   */
+  public getRows(): readonly QueryRow<T>[] {
+    if (this.dirty) {
+      this.cachedRows = Array.from(this.rows.values());
+      if (this.compare) {
+        this.cachedRows.sort(this.compare);
+      }
+      this.dirty = false;
+    }
+    return this.cachedRows;
+  }
+
+  /**
+   * Get matching entities
+   */
+  public get entities(): Entity[] {
+    return this.getRows().map(row => row[0]);
+  }
+
+  /**
+   * Get the number of matching entities
+   */
+  public get size(): number {
+    return this.rows.size;
+  }
+
+  /**
+   * Check if an entity is in the query
+   */
+  public has(entityId: EntityId): boolean {
+    return this.rows.has(entityId);
+  }
+
+  /**
+   * Call a function for each matching entity with its typed components
+   */
+  public forEach(callback: (entity: Entity, ...components: T) => void): void {
+    // Iterate a snapshot so callbacks may add/remove components safely
+    for (const row of this.getRows().slice()) {
+      const [entity, ...components] = row;
+      callback(entity, ...(components as unknown as T));
+    }
+  }
+
+  public [Symbol.iterator](): Iterator<QueryRow<T>> {
+    return this.getRows().slice()[Symbol.iterator]();
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Random - Seeded pseudo-random number generator (mulberry32)
+ */
+
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number = Date.now()) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Get a float in [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Get a float in [min, max)
+   */
+  public range(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  /**
+   * Get an integer in [min, max]
+   */
+  public int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  /**
+   * Pick a random element from an array
+   */
+  public pick<T>(items: T[]): T | undefined {
+    return items.length > 0 ? items[this.int(0, items.length - 1)] : undefined;
+  }
+
+  /**
+   * Get the current generator state (can be passed to setSeed to resume)
+   */
+  public getSeed(): number {
+    return this.state;
+  }
+
+  /**
+   * Reset the generator to a seed
+   */
+  public setSeed(seed: number): void {
+    this.state = seed >>> 0;
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Recording Context - Canvas 2D stand-in for headless rendering
+ */
+
+export interface DrawCall {
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * Implements the subset of CanvasRenderingContext2D the engine draws with.
+ * Calls are recorded in order so tests can assert on what was rendered;
+ * pass `record: false` for a pure no-op backend.
+ */
+export class RecordingContext2D {
+  public calls: DrawCall[] = [];
+  public record: boolean;
+
+  // Drawing state
+  public fillStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  public strokeStyle: string | CanvasGradient | CanvasPattern = '#000000';
+  public globalAlpha = 1;
+  public globalCompositeOperation: GlobalCompositeOperation = 'source-over';
+  public lineWidth = 1;
+  public font = '10px sans-serif';
+  public textAlign: CanvasTextAlign = 'start';
+  public textBaseline: CanvasTextBaseline = 'alphabetic';
+  public direction: CanvasDirection = 'inherit';
+  public imageSmoothingEnabled = true;
+
+  private stateStack: number = 0;
+
+  constructor(options: { record?: boolean } = {}) {
+    this.record = options.record ?? true;
+  }
+
+  private push(method: string, args: unknown[]): void {
+    if (this.record) {
+      this.calls.push({ method, args });
+    }
+  }
+
+  public save(): void {
+    this.stateStack++;
+    this.push('save', []);
+  }
+
+  public restore(): void {
+    if (this.stateStack > 0) this.stateStack--;
+    this.push('restore', []);
+  }
+
+  public translate(x: number, y: number): void {
+    this.push('translate', [x, y]);
+  }
+
+  public rotate(angle: number): void {
+    this.push('rotate', [angle]);
+  }
+
+  public scale(x: number, y: number): void {
+    this.push('scale', [x, y]);
+  }
+
+  public setTransform(
+    ...args:
+      | [number, number, number, number, number, number]
+      | [DOMMatrix2DInit?]
+  ): void {
+    this.push('setTransform', args);
+  }
+
+  public resetTransform(): void {
+    this.push('resetTransform', []);
+  }
+
+  public clearRect(x: number, y: number, width: number, height: number): void {
+    this.push('clearRect', [x, y, width, height]);
+  }
+
+  public fillRect(x: number, y: number, width: number, height: number): void {
+    this.push('fillRect', [x, y, width, height, this.fillStyle]);
+  }
+
+  public strokeRect(x: number, y: number, width: number, height: number): void {
+    this.push('strokeRect', [x, y, width, height, this.strokeStyle]);
+  }
+
+  public drawImage(image: CanvasImageSource, ...coords: number[]): void {
+    this.push('drawImage', [image, ...coords]);
+  }
+
+  public beginPath(): void {
+    this.push('beginPath', []);
+  }
+
+  public closePath(): void {
+    this.push('closePath', []);
+  }
+
+  public moveTo(x: number, y: number): void {
+    this.push('moveTo', [x, y]);
+  }
+
+  public lineTo(x: number, y: number): void {
+    this.push('lineTo', [x, y]);
+  }
+
+  public arc(
+    x: number,
+    y: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise?: boolean
+  ): void {
+    const args = [x, y, radius, startAngle, endAngle];
+    this.push(
+      'arc',
+      counterclockwise === undefined ? args : [...args, counterclockwise]
+    );
+  }
+
+  public rect(x: number, y: number, width: number, height: number): void {
+    this.push('rect', [x, y, width, height]);
+  }
+
+  public fill(): void {
+    this.push('fill', [this.fillStyle]);
+  }
+
+  public stroke(): void {
+    this.push('stroke', [this.strokeStyle]);
+  }
+
+  public clip(): void {
+    this.push('clip', []);
+  }
+
+  public fillText(text: string, x: number, y: number): void {
+    this.push('fillText', [text, x, y, this.font, this.fillStyle]);
+  }
+
+  public strokeText(text: string, x: number, y: number): void {
+    this.push('strokeText', [text, x, y, this.font, this.strokeStyle]);
+  }
+
+  /**
+   * Approximate text metrics (0.6em per character)
+   */
+  public measureText(text: string): TextMetrics {
+    const size = parseFloat(/(\d+(\.\d+)?)px/.exec(this.font)?.[1] ?? '10');
+    return { width: text.length * size * 0.6 } as TextMetrics;
+  }
+
+  /**
+   * This context typed as the Canvas 2D API it stands in for, to hand to
+   * the renderer. Only the members above exist.
+   */
+  public asContext2D(): CanvasRenderingContext2D {
+    return this as unknown as CanvasRenderingContext2D;
+  }
+
+  /**
+   * Get recorded calls, optionally filtered by method name
+   */
+  public getCalls(method?: string): DrawCall[] {
+    return method ? this.calls.filter(c => c.method === method) : this.calls;
+  }
+
+  /**
+   * Clear recorded calls
+   */
+  public clearCalls(): void {
+    this.calls = [];
+  }
+}
+
+/**
+ * Check whether a context can be drawn to with the Canvas 2D API
+ */
+export function isContext2D(ctx: unknown): ctx is CanvasRenderingContext2D {
+  if (ctx instanceof RecordingContext2D) return true;
+  return (
+    typeof CanvasRenderingContext2D !== 'undefined' &&
+    ctx instanceof CanvasRenderingContext2D
+  );
+}
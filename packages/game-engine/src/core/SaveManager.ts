@@ -0,0 +1,377 @@
+/**
+ * Save Manager - Versioned snapshots of a running game
+ */
+
+import { EventEmitter } from './EventEmitter';
+import { ComponentRegistry } from './Component';
+import type { AnimationClip } from './AnimationClip';
+import type { AnimationManagerState } from './AnimationManager';
+import type { BindingStorage } from './ActionMap';
+import type { GameEngine } from './Engine';
+import type { Component, EntityId } from './EntityManager';
+import type { PhysicsWorldState } from './PhysicsWorld';
+import type { SceneStackState } from './SceneManager';
+
+export const SAVE_STATE_VERSION = 1;
+
+// Animation targets are saved as the entity component they animate
+export interface ComponentRef {
+  entity: EntityId;
+  component: string;
+}
+
+export interface SavedEntity {
+  id: EntityId;
+  active: boolean;
+  tags: string[];
+  components: Record<string, Record<string, unknown>>;
+}
+
+export interface SaveData {
+  version: number; // Save format version
+  gameVersion: number; // Schema version of the game's own data
+  savedAt: number; // Unix ms
+  frame: number;
+  seed: number; // engine.random state
+  componentVersions: Record<string, number>;
+  entities: SavedEntity[];
+  scenes: SceneStackState & { data: Record<string, unknown> };
+  physics: PhysicsWorldState;
+  animations: AnimationManagerState<ComponentRef>;
+}
+
+// Upgrades a save from one game version to the next
+export type SaveMigration = (data: SaveData) => SaveData;
+
+export interface SaveManagerOptions {
+  gameVersion?: number; // Written to new saves (default 1)
+  migrations?: Record<number, SaveMigration>; // Keyed by the version they upgrade from
+  clips?: AnimationClip[]; // Clips saved timelines may be playing
+  exclude?: string[]; // Component names never saved
+  storage?: BindingStorage | null; // Defaults to localStorage; null disables slots
+  storageKey?: string; // Prefix for save slots
+}
+
+const DEFAULT_STORAGE_KEY = 'cropschool:save';
+
+function defaultStorage(): BindingStorage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    // Access throws when storage is blocked
+    return null;
+  }
+}
+
+/**
+ * Copy the JSON-safe part of a value. Functions and class instances (images,
+ * maps, DOM nodes) are dropped, so they must be rebuilt after loading.
+ */
+function toSaveable(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' ||
+      typeof value === 'symbol' ||
+      typeof value === 'bigint'
+      ? undefined
+      : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => toSaveable(item) ?? null);
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) return undefined;
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const saved = toSaveable(item);
+    if (saved !== undefined) copy[key] = saved;
+  }
+  return copy;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Save Manager - Captures entities (with their tags and serialisable
+ * components), the scene stack, physics bodies and running animations, and
+ * restores them into an engine with the same scenes and systems set up.
+ * Old saves are upgraded by game-level migrations and by the migrations on
+ * each component definition. Emits 'saved' and 'loaded'.
+ */
+export class SaveManager extends EventEmitter {
+  private engine: GameEngine;
+  private gameVersion: number;
+  private migrations: Record<number, SaveMigration>;
+  private clips: Map<string, AnimationClip>;
+  private exclude: Set<string>;
+  private storage: BindingStorage | null;
+  private storageKey: string;
+
+  constructor(engine: GameEngine, options: SaveManagerOptions = {}) {
+    super();
+    this.engine = engine;
+    this.gameVersion = options.gameVersion ?? 1;
+    this.migrations = options.migrations ?? {};
+    this.clips = new Map((options.clips ?? []).map(clip => [clip.name, clip]));
+    this.exclude = new Set(options.exclude);
+    this.storage =
+      options.storage === undefined ? defaultStorage() : options.storage;
+    this.storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+  }
+
+  /**
+   * Register a clip so timelines playing it can be restored
+   */
+  public addClip(clip: AnimationClip): void {
+    this.clips.set(clip.name, clip);
+  }
+
+  /**
+   * Snapshot the engine
+   */
+  public save(): SaveData {
+    const { entityManager, sceneManager, physics, animations } = this.engine;
+    const componentVersions: Record<string, number> = {};
+    const refs: Map<object, ComponentRef> = new Map();
+    const entities: SavedEntity[] = [];
+
+    for (const entity of entityManager.getAllEntities()) {
+      const components: SavedEntity['components'] = {};
+
+      for (const [name, component] of entity.components) {
+        refs.set(component, { entity: entity.id, component: name });
+
+        const options = ComponentRegistry.get(name)?.options ?? {};
+        if (this.exclude.has(name) || options.serializable === false) continue;
+
+        // Class instances have no plain data to save
+        const data = toSaveable(component);
+        if (!isRecord(data)) {
+          throw new Error(
+            `Component '${name}' on entity ${entity.id} is not a plain object; ` +
+              'exclude it or define it with serializable: false'
+          );
+        }
+        delete data['type'];
+        for (const field of options.transient ?? []) {
+          delete data[field];
+        }
+
+        components[name] = data;
+        componentVersions[name] = options.version ?? 1;
+      }
+
+      entities.push({
+        id: entity.id,
+        active: entity.active,
+        tags: Array.from(entity.tags),
+        components,
+      });
+    }
+
+    const scenes = sceneManager.getState();
+    const sceneData: Record<string, unknown> = {};
+    for (const name of [scenes.current, ...scenes.stack]) {
+      const scene = name !== null ? sceneManager.getScene(name) : undefined;
+      if (name !== null && scene?.saveState) {
+        sceneData[name] = toSaveable(scene.saveState());
+      }
+    }
+
+    const physicsState = physics.getState();
+    const data: SaveData = {
+      version: SAVE_STATE_VERSION,
+      gameVersion: this.gameVersion,
+      savedAt: Date.now(),
+      frame: this.engine.currentFrame,
+      seed: this.engine.random.getSeed(),
+      componentVersions,
+      entities,
+      scenes: { ...scenes, data: sceneData },
+      physics: {
+        ...physicsState,
+        bodies: physicsState.bodies.map(body => ({
+          ...body,
+          userData: toSaveable(body.userData),
+        })),
+      },
+      animations: animations.getState(target => refs.get(target)),
+    };
+
+    this.emit('saved', data);
+    return data;
+  }
+
+  /**
+   * Restore a snapshot, upgrading it first if it's from an older version.
+   * Scenes are entered before entities are replaced, so entities a scene
+   * creates on enter give way to the saved ones; scenes' restoreState hooks
+   * run last.
+   */
+  public async load(save: SaveData): Promise<void> {
+    const data = this.migrate(save);
+    const { entityManager, sceneManager, physics, animations } = this.engine;
+
+    await sceneManager.setState(data.scenes);
+
+    entityManager.clear();
+    physics.setState(data.physics);
+
+    for (const saved of data.entities) {
+      entityManager.restoreEntity(saved.id, saved.tags, saved.active);
+
+      for (const [name, fields] of Object.entries(saved.components)) {
+        const type = ComponentRegistry.get(name);
+        const component: Component = type
+          ? type.create(fields)
+          : { ...fields, type: name };
+        entityManager.addComponent(saved.id, component);
+      }
+    }
+
+    this.engine.random.setSeed(data.seed);
+
+    animations.setState(
+      data.animations,
+      ref => entityManager.getComponent(ref.entity, ref.component),
+      name => this.clips.get(name)
+    );
+
+    for (const name of [data.scenes.current, ...data.scenes.stack]) {
+      const scene = name !== null ? sceneManager.getScene(name) : undefined;
+      if (name !== null && scene?.restoreState) {
+        scene.restoreState(data.scenes.data[name], this.engine);
+      }
+    }
+
+    this.emit('loaded', data);
+  }
+
+  /**
+   * Upgrade a save to the current game and component versions
+   */
+  public migrate(save: SaveData): SaveData {
+    if (save.version !== SAVE_STATE_VERSION) {
+      throw new Error(`Unsupported save state version: ${save.version}`);
+    }
+    if (save.gameVersion > this.gameVersion) {
+      throw new Error(`Save is from a newer game version: ${save.gameVersion}`);
+    }
+
+    let data = save;
+    while (data.gameVersion < this.gameVersion) {
+      const migration = this.migrations[data.gameVersion];
+      if (!migration) {
+        throw new Error(`No save migration from version ${data.gameVersion}`);
+      }
+      data = { ...migration(data), gameVersion: data.gameVersion + 1 };
+    }
+
+    const componentVersions = { ...data.componentVersions };
+    const entities = data.entities.map(entity => {
+      const components: SavedEntity['components'] = {};
+      for (const [name, fields] of Object.entries(entity.components)) {
+        components[name] = this.migrateComponent(
+          name,
+          fields,
+          data.componentVersions[name] ?? 1
+        );
+        componentVersions[name] =
+          ComponentRegistry.get(name)?.options.version ?? 1;
+      }
+      return { ...entity, components };
+    });
+
+    return { ...data, componentVersions, entities };
+  }
+
+  private migrateComponent(
+    name: string,
+    fields: Record<string, unknown>,
+    version: number
+  ): Record<string, unknown> {
+    const options = ComponentRegistry.get(name)?.options;
+    const target = options?.version ?? 1;
+    if (version > target) {
+      throw new Error(
+        `Component '${name}' was saved by a newer version: ${version}`
+      );
+    }
+
+    let data = fields;
+    for (let from = version; from < target; from++) {
+      const migration = options?.migrations?.[from];
+      if (!migration) {
+        throw new Error(
+          `No migration for component '${name}' from version ${from}`
+        );
+      }
+      data = migration(data);
+    }
+    return data;
+  }
+
+  // Save slots
+
+  /**
+   * Save to a storage slot and return the snapshot
+   */
+  public saveToStorage(slot = 'autosave'): SaveData {
+    const data = this.save();
+    try {
+      this.storage?.setItem(this.getSlotKey(slot), SaveManager.toJSON(data));
+    } catch (error) {
+      console.error(`Failed to write save slot '${slot}':`, error);
+    }
+    return data;
+  }
+
+  /**
+   * Load a storage slot. Resolves false when the slot is empty.
+   */
+  public async loadFromStorage(slot = 'autosave'): Promise<boolean> {
+    const json = this.storage?.getItem(this.getSlotKey(slot));
+    if (!json) return false;
+
+    await this.load(SaveManager.fromJSON(json));
+    return true;
+  }
+
+  public hasSave(slot = 'autosave'): boolean {
+    return !!this.storage?.getItem(this.getSlotKey(slot));
+  }
+
+  public deleteSave(slot = 'autosave'): void {
+    this.storage?.removeItem(this.getSlotKey(slot));
+  }
+
+  private getSlotKey(slot: string): string {
+    return `${this.storageKey}:${slot}`;
+  }
+
+  /**
+   * Serialize a save to JSON
+   */
+  public static toJSON(data: SaveData): string {
+    return JSON.stringify(data);
+  }
+
+  /**
+   * Parse a save from JSON
+   */
+  public static fromJSON(json: string): SaveData {
+    const data = JSON.parse(json) as SaveData;
+    if (data.version !== SAVE_STATE_VERSION) {
+      throw new Error(`Unsupported save state version: ${data.version}`);
+    }
+    return data;
+  }
+
+  public destroy(): void {
+    this.removeAllListeners();
+  }
+}
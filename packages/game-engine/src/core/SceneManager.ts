@@ -9,6 +9,7 @@ import type { CanvasRenderer } from './CanvasRenderer';
 export interface Scene {
   name: string;
   active: boolean;
+  bundles?: string[]; // Asset bundles held while the scene is entered
 
   // Lifecycle methods
   init?(engine: GameEngine): void | Promise<void>;
@@ -24,6 +25,11 @@ export interface Scene {
   // Pause/Resume
   pause?(): void;
   resume?(): void;
+
+  // Save states: return JSON-safe data, then get it back after a load once
+  // entities are restored (to rebind entity IDs and handlers)
+  saveState?(): unknown;
+  restoreState?(state: unknown, engine: GameEngine): void;
 }
 
 export interface SceneTransition {
@@ -33,12 +39,48 @@ export interface SceneTransition {
   color?: string;
 }
 
+// How a pushed scene treats the scenes and world underneath it
+export interface OverlayPolicy {
+  pauseBelow: boolean; // Stop updating them (world systems get a zero deltaTime)
+  blockInput: boolean; // Keep input from them, including world systems and the HUD
+  backdrop: string | null; // Colour drawn over them
+  backdropAlpha: number;
+}
+
+export interface OverlayOptions extends Partial<OverlayPolicy> {
+  timeScale?: number; // Multiplies the overlay's deltaTime (default 1)
+  transition?: SceneTransition; // Animates the overlay in, and out when popped
+}
+
+// The current scene and overlay stack, by name
+export interface SceneStackState {
+  current: string | null;
+  stack: string[];
+  policies?: OverlayPolicy[]; // Per stack entry (default policy if missing)
+  timeScales?: Record<string, number>; // Scenes not running at 1
+}
+
+interface OverlayTransition {
+  transition: SceneTransition;
+  startTime: number;
+  closing: boolean;
+}
+
+// Modal by default: pause menus, hint dialogs and celebration screens
+const DEFAULT_OVERLAY_POLICY: OverlayPolicy = {
+  pauseBelow: true,
+  blockInput: true,
+  backdrop: null,
+  backdropAlpha: 0.5,
+};
+
 export class SceneManager extends EventEmitter {
   private engine: GameEngine;
   private scenes: Map<string, Scene> = new Map();
   private currentScene: Scene | null = null;
   private previousScene: Scene | null = null;
   private nextScene: Scene | null = null;
+  private heldBundles: Map<Scene, Set<string>> = new Map(); // Referenced per scene
 
   // Transition state
   private isTransitioning = false;
@@ -48,9 +90,16 @@ export class SceneManager extends EventEmitter {
   private transitionType: SceneTransition['type'] = 'instant';
   private transitionColor = '#000000';
   private transitionDirection: SceneTransition['direction'] = 'right';
+  private transitionWaiter: { progress: number; resolve: () => void } | null =
+    null;
 
   // Scene stack for overlay scenes
   private sceneStack: Scene[] = [];
+  private policies: Map<Scene, OverlayPolicy> = new Map();
+  private timeScales: Map<Scene, number> = new Map();
+  private pausedScenes: Set<Scene> = new Set();
+  private overlayTransitions: Map<Scene, OverlayTransition> = new Map();
+  private closingScenes: Scene[] = []; // Popped, still transitioning out
 
   constructor(engine: GameEngine) {
     super();
@@ -135,10 +184,23 @@ export class SceneManager extends EventEmitter {
   }
 
   private async performInstantTransition(): Promise<void> {
+    await this.swapScenes();
+  }
+
+  /**
+   * Exit the current scene and enter the next one. The next scene's bundles
+   * are retained before the current scene's are released, so shared assets
+   * stay loaded.
+   */
+  private async swapScenes(): Promise<void> {
+    await this.retainBundles(this.nextScene);
+
     if (this.currentScene && this.currentScene.exit) {
       await this.currentScene.exit(this.engine);
     }
+    this.releaseBundles(this.currentScene);
 
+    if (this.currentScene) this.pausedScenes.delete(this.currentScene);
     this.previousScene = this.currentScene;
     this.currentScene = this.nextScene;
     this.nextScene = null;
@@ -146,6 +208,7 @@ export class SceneManager extends EventEmitter {
     if (this.currentScene && this.currentScene.enter) {
       await this.currentScene.enter(this.engine);
     }
+    this.refreshPausedScenes(); // Overlays still on the stack pause it too
 
     this.emit('scene-changed', {
       from: this.previousScene?.name,
@@ -153,69 +216,125 @@ export class SceneManager extends EventEmitter {
     });
   }
 
+  /**
+   * Load a scene's bundles. If one fails, the ones that loaded are released
+   * again so a scene that can't load holds nothing.
+   */
+  private async retainBundles(scene: Scene | null): Promise<void> {
+    if (!scene?.bundles) return;
+
+    const held = new Set(scene.bundles);
+    this.heldBundles.set(scene, held);
+    const results = await Promise.allSettled(
+      Array.from(held, bundle =>
+        this.engine.assetManager.loadBundle(bundle).catch(error => {
+          held.delete(bundle); // A failed load holds no reference
+          throw error;
+        })
+      )
+    );
+
+    const failed = results.find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    if (failed) {
+      // The scene may already have been released while loading
+      if (this.heldBundles.get(scene) === held) this.releaseBundles(scene);
+      throw failed.reason;
+    }
+  }
+
+  private releaseBundles(scene: Scene | null): void {
+    const held = scene && this.heldBundles.get(scene);
+    if (!held) return;
+
+    this.heldBundles.delete(scene);
+    for (const bundle of held) {
+      this.engine.assetManager.unloadBundle(bundle);
+    }
+  }
+
+  /**
+   * Play a transition on the engine clock: scenes swap halfway through and
+   * the promise resolves once it has finished. Progress is advanced by
+   * update(), so a headless engine drives it with step().
+   */
   private async performAnimatedTransition(
     transition: SceneTransition
   ): Promise<void> {
-    return new Promise(async resolve => {
-      this.isTransitioning = true;
-      this.transitionStartTime = performance.now();
-      this.transitionDuration = transition.duration;
-      this.transitionType = transition.type;
-      this.transitionColor = transition.color || '#000000';
-      this.transitionDirection = transition.direction || 'right';
-
-      // Start transition out
-      this.emit('transition-start', {
-        from: this.currentScene?.name,
-        to: this.nextScene?.name,
-      });
-
-      // Wait for half transition to switch scenes
-      setTimeout(async () => {
-        if (this.currentScene && this.currentScene.exit) {
-          await this.currentScene.exit(this.engine);
-        }
+    this.isTransitioning = true;
+    this.transitionStartTime = this.engine.engineClock.now();
+    this.transitionDuration = transition.duration;
+    this.transitionProgress = 0;
+    this.transitionType = transition.type;
+    this.transitionColor = transition.color || '#000000';
+    this.transitionDirection = transition.direction || 'right';
+
+    // Start transition out
+    this.emit('transition-start', {
+      from: this.currentScene?.name,
+      to: this.nextScene?.name,
+    });
 
-        this.previousScene = this.currentScene;
-        this.currentScene = this.nextScene;
-        this.nextScene = null;
+    // Switch scenes at the halfway point
+    await this.waitForTransition(0.5);
+    await this.swapScenes();
 
-        if (this.currentScene && this.currentScene.enter) {
-          await this.currentScene.enter(this.engine);
-        }
-
-        this.emit('scene-changed', {
-          from: this.previousScene?.name,
-          to: this.currentScene?.name,
-        });
-      }, transition.duration / 2);
+    // Complete transition
+    await this.waitForTransition(1);
+    this.isTransitioning = false;
+    this.transitionProgress = 0;
+    this.emit('transition-complete', { scene: this.currentScene?.name });
+  }
 
-      // Complete transition
-      setTimeout(() => {
-        this.isTransitioning = false;
-        this.transitionProgress = 0;
-        this.emit('transition-complete', { scene: this.currentScene?.name });
+  /**
+   * Resolve once update() has advanced the transition to a progress
+   */
+  private waitForTransition(progress: number): Promise<void> {
+    return new Promise(resolve => {
+      if (this.transitionProgress >= progress) {
         resolve();
-      }, transition.duration);
+      } else {
+        this.transitionWaiter = { progress, resolve };
+      }
     });
   }
 
   /**
-   * Push a scene onto the stack (overlay)
+   * Push a scene onto the stack (overlay). By default it pauses and blocks
+   * input to everything underneath.
    */
-  public pushScene(sceneName: string): void {
+  public pushScene(sceneName: string, options: OverlayOptions = {}): void {
     const scene = this.scenes.get(sceneName);
     if (!scene) {
       throw new Error(`Scene '${sceneName}' not found`);
     }
 
-    // Pause current scene
-    if (this.currentScene && this.currentScene.pause) {
-      this.currentScene.pause();
+    if (this.sceneStack.includes(scene)) {
+      console.warn(`Scene '${sceneName}' is already on the stack`);
+      return;
+    }
+    if (this.closingScenes.includes(scene)) {
+      this.finishPop(scene);
+    }
+
+    const { timeScale, transition, ...policy } = options;
+    this.policies.set(scene, { ...DEFAULT_OVERLAY_POLICY, ...policy });
+    if (timeScale !== undefined) this.timeScales.set(scene, timeScale);
+    if (transition && transition.type !== 'instant') {
+      this.overlayTransitions.set(scene, {
+        transition,
+        startTime: this.engine.engineClock.now(),
+        closing: false,
+      });
     }
 
     this.sceneStack.push(scene);
     scene.active = true;
+    this.refreshPausedScenes();
+    this.retainBundles(scene).catch(error => {
+      console.error(`Error loading bundles for '${sceneName}':`, error);
+    });
 
     if (scene.enter) {
       const result = scene.enter(this.engine);
@@ -230,13 +349,41 @@ export class SceneManager extends EventEmitter {
   }
 
   /**
-   * Pop the top scene from the stack
+   * Pop the top scene from the stack. Scenes underneath resume and get input
+   * straight away; with a transition (default: the one it was pushed with)
+   * the overlay animates out before it exits.
    */
-  public popScene(): Scene | null {
+  public popScene(transition?: SceneTransition): Scene | null {
     const scene = this.sceneStack.pop();
     if (!scene) return null;
 
     scene.active = false;
+    this.refreshPausedScenes();
+
+    const outro = transition ?? this.overlayTransitions.get(scene)?.transition;
+    if (outro && outro.type !== 'instant') {
+      this.overlayTransitions.set(scene, {
+        transition: outro,
+        startTime: this.engine.engineClock.now(),
+        closing: true,
+      });
+      this.closingScenes.push(scene);
+    } else {
+      this.finishPop(scene);
+    }
+    return scene;
+  }
+
+  /**
+   * Exit a popped scene once it has transitioned out
+   */
+  private finishPop(scene: Scene): void {
+    this.closingScenes = this.closingScenes.filter(
+      closing => closing !== scene
+    );
+    this.overlayTransitions.delete(scene);
+    this.policies.delete(scene);
+    this.timeScales.delete(scene);
 
     if (scene.exit) {
       const result = scene.exit(this.engine);
@@ -246,19 +393,101 @@ export class SceneManager extends EventEmitter {
         });
       }
     }
+    this.releaseBundles(scene);
+
+    this.emit('scene-popped', scene);
+  }
+
+  /**
+   * Call pause() on scenes that an overlay has just paused, and resume() on
+   * those no longer paused
+   */
+  private refreshPausedScenes(): void {
+    const paused = new Set<Scene>();
+    const top = this.getTopPausingIndex();
+    if (top >= 0) {
+      if (this.currentScene) paused.add(this.currentScene);
+      for (const scene of this.sceneStack.slice(0, top)) {
+        paused.add(scene);
+      }
+    }
 
-    // Resume previous scene
-    const topScene =
-      this.sceneStack.length > 0
-        ? this.sceneStack[this.sceneStack.length - 1]
-        : this.currentScene;
+    for (const scene of paused) {
+      if (!this.pausedScenes.has(scene)) scene.pause?.();
+    }
+    for (const scene of this.pausedScenes) {
+      if (!paused.has(scene)) scene.resume?.();
+    }
+    this.pausedScenes = paused;
+  }
 
-    if (topScene && topScene.resume) {
-      topScene.resume();
+  private getTopPausingIndex(): number {
+    for (let i = this.sceneStack.length - 1; i >= 0; i--) {
+      if (this.policies.get(this.sceneStack[i])?.pauseBelow) return i;
     }
+    return -1;
+  }
 
-    this.emit('scene-popped', scene);
-    return scene;
+  /**
+   * Check if an overlay has paused a scene
+   */
+  public isScenePaused(sceneName: string): boolean {
+    const scene = this.scenes.get(sceneName);
+    return scene !== undefined && this.pausedScenes.has(scene);
+  }
+
+  /**
+   * Check if an overlay keeps input from the world (systems such as the
+   * scene graph, drag and drop and the HUD check this)
+   */
+  public isInputBlocked(): boolean {
+    return this.sceneStack.some(scene => this.policies.get(scene)?.blockInput);
+  }
+
+  /**
+   * Get the policy an overlay was pushed with
+   */
+  public getOverlayPolicy(sceneName: string): OverlayPolicy | undefined {
+    const scene = this.scenes.get(sceneName);
+    const policy = scene ? this.policies.get(scene) : undefined;
+    return policy ? { ...policy } : undefined;
+  }
+
+  /**
+   * Speed up or slow down a scene's deltaTime (0 freezes it). The current
+   * scene's time scale also applies to world systems.
+   */
+  public setTimeScale(sceneName: string, timeScale: number): void {
+    const scene = this.scenes.get(sceneName);
+    if (!scene) {
+      throw new Error(`Scene '${sceneName}' not found`);
+    }
+    if (timeScale === 1) {
+      this.timeScales.delete(scene);
+    } else {
+      this.timeScales.set(scene, timeScale);
+    }
+  }
+
+  public getTimeScale(sceneName: string): number {
+    const scene = this.scenes.get(sceneName);
+    return (scene && this.timeScales.get(scene)) ?? 1;
+  }
+
+  /**
+   * Time scale for world systems and physics: 0 under a pausing overlay,
+   * otherwise the current scene's
+   */
+  public getWorldTimeScale(): number {
+    if (this.getTopPausingIndex() >= 0) return 0;
+    return (this.currentScene && this.timeScales.get(this.currentScene)) ?? 1;
+  }
+
+  /**
+   * Check if a scene transition is in progress
+   */
+  public isInTransition(): boolean {
+    return this.isTransitioning;
   }
 
   /**
@@ -282,48 +511,135 @@ export class SceneManager extends EventEmitter {
     return this.scenes.has(sceneName);
   }
 
+  /**
+   * Get the overlay scenes, bottom first
+   */
+  public getSceneStack(): Scene[] {
+    return [...this.sceneStack];
+  }
+
+  /**
+   * Snapshot which scenes are current and overlaid
+   */
+  public getState(): SceneStackState {
+    const timeScales: Record<string, number> = {};
+    for (const [scene, timeScale] of this.timeScales) {
+      timeScales[scene.name] = timeScale;
+    }
+
+    return {
+      current: this.currentScene?.name ?? null,
+      stack: this.sceneStack.map(scene => scene.name),
+      policies: this.sceneStack.map(scene => ({
+        ...DEFAULT_OVERLAY_POLICY,
+        ...this.policies.get(scene),
+      })),
+      timeScales,
+    };
+  }
+
+  /**
+   * Switch to the saved scene and rebuild its overlay stack. The scenes
+   * must already be added.
+   */
+  public async setState(state: SceneStackState): Promise<void> {
+    for (const name of [state.current, ...state.stack]) {
+      if (name !== null && !this.scenes.has(name)) {
+        throw new Error(`Scene '${name}' not found`);
+      }
+    }
+
+    while (this.sceneStack.length > 0) {
+      this.popScene({ type: 'instant', duration: 0 });
+    }
+
+    if (state.current !== null && state.current !== this.currentScene?.name) {
+      await this.switchToScene(state.current);
+    }
+    state.stack.forEach((name, index) =>
+      this.pushScene(name, state.policies?.[index])
+    );
+    for (const [name, timeScale] of Object.entries(state.timeScales ?? {})) {
+      this.setTimeScale(name, timeScale);
+    }
+  }
+
   /**
    * Update current scene and overlay scenes
    */
   public update(deltaTime: number): void {
     // Update transition
     if (this.isTransitioning) {
-      const elapsed = performance.now() - this.transitionStartTime;
-      this.transitionProgress = Math.min(elapsed / this.transitionDuration, 1);
+      const elapsed = this.engine.engineClock.now() - this.transitionStartTime;
+      this.transitionProgress =
+        this.transitionDuration > 0
+          ? Math.min(elapsed / this.transitionDuration, 1)
+          : 1;
+
+      const waiter = this.transitionWaiter;
+      if (waiter && this.transitionProgress >= waiter.progress) {
+        this.transitionWaiter = null;
+        waiter.resolve();
+      }
     }
 
-    // Update current scene
-    if (
-      this.currentScene &&
-      this.currentScene.active &&
-      this.currentScene.update
-    ) {
-      this.currentScene.update(deltaTime, this.engine);
+    // Exit overlays that have transitioned out (push transitions are kept
+    // to play in reverse on pop)
+    const now = this.engine.engineClock.now();
+    for (const [scene, overlay] of this.overlayTransitions) {
+      if (
+        overlay.closing &&
+        now - overlay.startTime >= overlay.transition.duration
+      ) {
+        this.finishPop(scene);
+      }
     }
 
-    // Update overlay scenes
-    for (const scene of this.sceneStack) {
-      if (scene.active && scene.update) {
-        scene.update(deltaTime, this.engine);
+    // Update current scene and overlays, skipping those paused from above
+    for (const scene of [this.currentScene, ...this.sceneStack]) {
+      if (
+        scene &&
+        scene.active &&
+        scene.update &&
+        !this.pausedScenes.has(scene)
+      ) {
+        scene.update(
+          deltaTime * (this.timeScales.get(scene) ?? 1),
+          this.engine
+        );
       }
     }
   }
 
   /**
-   * Render current scene and overlay scenes
+   * Render current scene and overlay scenes.
+   * The world pass (system rendering) is drawn above the current scene
+   * and below overlays and transitions.
    */
-  public render(renderer: CanvasRenderer, interpolation: number): void {
+  public render(
+    renderer: CanvasRenderer,
+    interpolation: number,
+    renderWorld?: () => void
+  ): void {
     // Render current scene
     if (this.currentScene && this.currentScene.render) {
       this.currentScene.render(renderer, interpolation);
     }
 
-    // Render overlay scenes
+    // Render world pass
+    if (renderWorld) {
+      renderWorld();
+    }
+
+    // Render overlay scenes, then those transitioning out
     for (const scene of this.sceneStack) {
-      if (scene.active && scene.render) {
-        scene.render(renderer, interpolation);
+      if (scene.active) {
+        this.renderOverlay(scene, renderer, interpolation);
       }
     }
+    for (const scene of this.closingScenes) {
+      this.renderOverlay(scene, renderer, interpolation);
+    }
 
     // Render transition effect
     if (this.isTransitioning) {
@@ -331,22 +647,82 @@ export class SceneManager extends EventEmitter {
     }
   }
 
-  private renderTransition(renderer: CanvasRenderer): void {
-    const ctx = renderer.getContext();
-    if (!(ctx instanceof CanvasRenderingContext2D)) return;
+  /**
+   * Draw an overlay's backdrop and the overlay itself, faded or slid by its
+   * push/pop transition
+   */
+  private renderOverlay(
+    scene: Scene,
+    renderer: CanvasRenderer,
+    interpolation: number
+  ): void {
+    const { width, height } = this.engine.engineConfig;
+    const overlay = this.overlayTransitions.get(scene);
+    let visibility = 1;
+    if (overlay) {
+      const elapsed = this.engine.engineClock.now() - overlay.startTime;
+      const progress = Math.min(
+        elapsed / Math.max(overlay.transition.duration, 1),
+        1
+      );
+      visibility = overlay.closing ? 1 - progress : progress;
+    }
+
+    const policy = this.policies.get(scene);
+    if (policy?.backdrop) {
+      renderer.save();
+      renderer.setAlpha(policy.backdropAlpha * visibility);
+      renderer.drawRect(0, 0, width, height, policy.backdrop);
+      renderer.restore();
+    }
+
+    if (!scene.render) return;
 
     renderer.save();
+    if (overlay && visibility < 1) {
+      const hidden = 1 - visibility;
+      switch (overlay.transition.type) {
+        case 'fade':
+        case 'dissolve':
+          renderer.setAlpha(visibility);
+          break;
+
+        case 'slide': {
+          // Slides in travelling in the direction, and back out the way it came
+          const direction = overlay.transition.direction ?? 'right';
+          const dx =
+            direction === 'left'
+              ? hidden * width
+              : direction === 'right'
+                ? -hidden * width
+                : 0;
+          const dy =
+            direction === 'up'
+              ? hidden * height
+              : direction === 'down'
+                ? -hidden * height
+                : 0;
+          renderer.translate(dx, dy);
+          break;
+        }
+      }
+    }
+    scene.render(renderer, interpolation);
+    renderer.restore();
+  }
 
-    const canvas = this.engine.canvasElement;
-    const width = canvas.width;
-    const height = canvas.height;
+  private renderTransition(renderer: CanvasRenderer): void {
+    renderer.save();
+
+    const { width, height } = this.engine.engineConfig;
 
     switch (this.transitionType) {
       case 'fade':
-        ctx.globalAlpha =
+        renderer.setAlpha(
           this.transitionProgress < 0.5
             ? this.transitionProgress * 2
-            : (1 - this.transitionProgress) * 2;
+            : (1 - this.transitionProgress) * 2
+        );
         renderer.drawRect(0, 0, width, height, this.transitionColor);
         break;
 
@@ -400,10 +776,11 @@ export class SceneManager extends EventEmitter {
 
       case 'dissolve':
         // Simple dissolve effect using noise pattern
-        ctx.globalAlpha =
+        renderer.setAlpha(
           this.transitionProgress < 0.5
             ? this.transitionProgress * 2
-            : (1 - this.transitionProgress) * 2;
+            : (1 - this.transitionProgress) * 2
+        );
         renderer.drawRect(0, 0, width, height, this.transitionColor);
         break;
     }
@@ -412,10 +789,10 @@ export class SceneManager extends EventEmitter {
   }
 
   /**
-   * Handle input events
+   * Handle input events, offering them to overlays top to bottom, then the
+   * current scene. An overlay that blocks input stops them going further.
    */
   public handleInput(event: any): boolean {
-    // Check overlay scenes first (top to bottom)
     for (let i = this.sceneStack.length - 1; i >= 0; i--) {
       const scene = this.sceneStack[i];
       if (scene.active && scene.handleInput) {
@@ -423,6 +800,7 @@ export class SceneManager extends EventEmitter {
           return true; // Input was handled
         }
       }
+      if (this.policies.get(scene)?.blockInput) return false;
     }
 
     // Check current scene
@@ -476,13 +854,17 @@ export class SceneManager extends EventEmitter {
   public clear(): void {
     // Clear stack
     while (this.sceneStack.length > 0) {
-      this.popScene();
+      this.popScene({ type: 'instant', duration: 0 });
+    }
+    for (const scene of [...this.closingScenes]) {
+      this.finishPop(scene);
     }
 
     // Exit current scene
     if (this.currentScene && this.currentScene.exit) {
       this.currentScene.exit(this.engine);
     }
+    this.releaseBundles(this.currentScene);
 
     // Destroy all scenes
     for (const scene of this.scenes.values()) {
@@ -492,6 +874,8 @@ export class SceneManager extends EventEmitter {
     }
 
     this.scenes.clear();
+    this.pausedScenes.clear();
+    this.timeScales.clear();
     this.currentScene = null;
     this.previousScene = null;
     this.nextScene = null;
@@ -4,13 +4,27 @@
 
 import { EventEmitter } from './EventEmitter';
 import type { GameEngine } from './Engine';
+import type { CanvasRenderer } from './CanvasRenderer';
 
 export interface System {
   name: string;
-  priority: number;
+  priority: number; // Tie-breaker when dependencies don't decide the order
   enabled: boolean;
 
-  update(deltaTime: number, engine: GameEngine): void;
+  // Ordering constraints by system name (missing systems are ignored)
+  before?: string[];
+  after?: string[];
+
+  // Update phase (fixed timestep)
+  update?(deltaTime: number, engine: GameEngine): void;
+
+  // Render phase (world pass, once per frame)
+  render?(
+    renderer: CanvasRenderer,
+    interpolation: number,
+    engine: GameEngine
+  ): void;
+
   destroy?(): void;
 }
 
@@ -78,14 +92,36 @@ export class SystemManager extends EventEmitter {
    * Update all systems
    */
   public update(deltaTime: number): void {
+    const profiler = this.engine.profiler;
     for (const system of this.sortedSystems) {
-      if (system.enabled) {
+      if (system.enabled && system.update) {
+        profiler.begin(system.name, 'system');
         try {
           system.update(deltaTime, this.engine);
         } catch (error) {
           console.error(`Error updating system '${system.name}':`, error);
           this.emit('system-error', { system, error });
         }
+        profiler.end();
+      }
+    }
+  }
+
+  /**
+   * Render all systems
+   */
+  public render(renderer: CanvasRenderer, interpolation: number): void {
+    const profiler = this.engine.profiler;
+    for (const system of this.sortedSystems) {
+      if (system.enabled && system.render) {
+        profiler.begin(`${system.name}.render`, 'system');
+        try {
+          system.render(renderer, interpolation, this.engine);
+        } catch (error) {
+          console.error(`Error rendering system '${system.name}':`, error);
+          this.emit('system-error', { system, error });
+        }
+        profiler.end();
       }
     }
   }
@@ -104,6 +140,13 @@ export class SystemManager extends EventEmitter {
     return Array.from(this.systems.values());
   }
 
+  /**
+   * Get systems in execution order
+   */
+  public getExecutionOrder(): string[] {
+    return this.sortedSystems.map(system => system.name);
+  }
+
   /**
    * Clear all systems
    */
@@ -126,9 +169,60 @@ export class SystemManager extends EventEmitter {
     this.removeAllListeners();
   }
 
+  /**
+   * Order systems so before/after constraints hold, using priority to
+   * break ties. Falls back to priority order if the constraints form a cycle.
+   */
   private updateSystemOrder(): void {
-    this.sortedSystems = Array.from(this.systems.values()).sort(
+    const byPriority = Array.from(this.systems.values()).sort(
       (a, b) => a.priority - b.priority
     );
+
+    // Names each system must wait for
+    const dependencies: Map<string, Set<string>> = new Map(
+      byPriority.map(system => [system.name, new Set<string>()])
+    );
+
+    for (const system of byPriority) {
+      for (const name of system.after ?? []) {
+        if (this.systems.has(name)) {
+          dependencies.get(system.name)!.add(name);
+        }
+      }
+      for (const name of system.before ?? []) {
+        if (this.systems.has(name)) {
+          dependencies.get(name)!.add(system.name);
+        }
+      }
+    }
+
+    const ordered: System[] = [];
+    const placed: Set<string> = new Set();
+
+    while (ordered.length < byPriority.length) {
+      const next = byPriority.find(
+        system =>
+          !placed.has(system.name) &&
+          Array.from(dependencies.get(system.name)!).every(name =>
+            placed.has(name)
+          )
+      );
+
+      if (!next) {
+        const remaining = byPriority.filter(system => !placed.has(system.name));
+        console.error(
+          'Circular system dependencies:',
+          remaining.map(system => system.name)
+        );
+        this.emit('system-order-error', { systems: remaining });
+        ordered.push(...remaining);
+        break;
+      }
+
+      ordered.push(next);
+      placed.add(next.name);
+    }
+
+    this.sortedSystems = ordered;
   }
 }
@@ -0,0 +1,254 @@
+/**
+ * Text Layout - Measure, wrap and shrink text for CanvasRenderer.drawText
+ */
+
+import type { CanvasRenderer } from './CanvasRenderer';
+import type { TextDirection } from './I18n';
+
+export type TextMeasure = (text: string, font: string) => number;
+
+// 'start' and 'end' follow the text direction
+export type TextAlign = 'start' | 'center' | 'end' | 'left' | 'right';
+
+export interface TextLayoutOptions {
+  maxWidth?: number; // Wrap lines at this width (0: no limit)
+  wrap?: boolean; // Otherwise only shrink to maxWidth (default true)
+  maxHeight?: number; // Shrink the font until the lines fit (0: never shrink)
+  maxLines?: number; // Further lines are cut and the last gets an ellipsis
+  minFontSize?: number; // Shrinking stops here (default 8)
+  lineHeight?: number; // Multiple of the font size (default 1.25)
+  measure?: TextMeasure; // Default measureText()
+}
+
+export interface TextLine {
+  text: string;
+  width: number;
+}
+
+export interface TextLayout {
+  lines: TextLine[];
+  font: string; // Font the lines were measured with (after shrinking)
+  fontSize: number;
+  lineHeight: number; // px
+  width: number; // Widest line
+  height: number;
+  overflow: boolean; // Still too big at the minimum size, or lines were cut
+}
+
+export interface DrawTextLayoutOptions {
+  align?: TextAlign; // Default 'start'
+  width?: number; // Box the lines are aligned in (default: the layout width)
+  direction?: TextDirection; // Default 'ltr'
+}
+
+const FONT_SIZE_PATTERN = /(\d+(?:\.\d+)?)px/;
+const ELLIPSIS = '…';
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+/**
+ * Width of a string in a canvas font. Without a DOM (headless) this is an
+ * estimate of 0.55em per character.
+ */
+export function measureText(text: string, font: string): number {
+  if (measureContext === undefined) {
+    measureContext =
+      typeof document !== 'undefined'
+        ? document.createElement('canvas').getContext('2d')
+        : null;
+  }
+
+  if (measureContext) {
+    measureContext.font = font;
+    return measureContext.measureText(text).width;
+  }
+  return text.length * getFontSize(font) * 0.55;
+}
+
+/**
+ * The pixel size in a canvas font string (16 if it has none)
+ */
+export function getFontSize(font: string): number {
+  return parseFloat(FONT_SIZE_PATTERN.exec(font)?.[1] ?? '16');
+}
+
+/**
+ * A canvas font string at another pixel size
+ */
+export function withFontSize(font: string, size: number): string {
+  return FONT_SIZE_PATTERN.test(font)
+    ? font.replace(FONT_SIZE_PATTERN, `${size}px`)
+    : `${size}px ${font}`;
+}
+
+/**
+ * Break text into lines no wider than maxWidth. Explicit newlines are kept;
+ * words wider than a line (or unspaced scripts) break between characters.
+ */
+function wrapLines(
+  text: string,
+  font: string,
+  maxWidth: number,
+  measure: TextMeasure
+): TextLine[] {
+  const lines: TextLine[] = [];
+  const push = (line: string): void => {
+    const trimmed = line.trimEnd();
+    lines.push({ text: trimmed, width: measure(trimmed, font) });
+  };
+
+  for (const paragraph of text.split('\n')) {
+    if (maxWidth <= 0) {
+      push(paragraph);
+      continue;
+    }
+
+    let line = '';
+    for (const word of paragraph.split(/(\s+)/)) {
+      if (word === '') continue;
+      const candidate = line + word;
+      if (measure(candidate.trimEnd(), font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (/^\s+$/.test(word)) continue; // Spaces never start a line
+
+      if (line.trim() !== '') push(line);
+      line = '';
+
+      // Split words that don't fit on a line of their own
+      for (const char of Array.from(word)) {
+        if (line !== '' && measure(line + char, font) > maxWidth) {
+          push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Cut lines to a maximum, ending the last kept line with an ellipsis
+ */
+function truncateLines(
+  lines: TextLine[],
+  maxLines: number,
+  font: string,
+  maxWidth: number,
+  measure: TextMeasure
+): TextLine[] {
+  const kept = lines.slice(0, maxLines);
+  const last = kept[kept.length - 1];
+  if (!last) return kept;
+
+  let text = last.text;
+  while (
+    text !== '' &&
+    maxWidth > 0 &&
+    measure(text + ELLIPSIS, font) > maxWidth
+  ) {
+    text = Array.from(text).slice(0, -1).join('').trimEnd();
+  }
+  kept[kept.length - 1] = {
+    text: text + ELLIPSIS,
+    width: measure(text + ELLIPSIS, font),
+  };
+  return kept;
+}
+
+/**
+ * Lay out text in a font: wrap it to maxWidth, then shrink the font a pixel
+ * at a time until it fits maxHeight and maxWidth. Without limits the text is
+ * measured at its own size.
+ */
+export function layoutText(
+  text: string,
+  font: string,
+  options: TextLayoutOptions = {}
+): TextLayout {
+  const measure = options.measure ?? measureText;
+  const maxWidth = options.maxWidth ?? 0;
+  const maxHeight = options.maxHeight ?? 0;
+  const wrap = options.wrap ?? true;
+  const minFontSize = options.minFontSize ?? 8;
+  const lineHeightScale = options.lineHeight ?? 1.25;
+
+  let fontSize = getFontSize(font);
+  for (;;) {
+    const sizedFont = withFontSize(font, fontSize);
+    let lines = wrapLines(text, sizedFont, wrap ? maxWidth : 0, measure);
+    const lineHeight = fontSize * lineHeightScale;
+    const width = Math.max(0, ...lines.map(line => line.width));
+
+    const fits =
+      (maxHeight <= 0 || lines.length * lineHeight <= maxHeight) &&
+      (maxWidth <= 0 || width <= maxWidth);
+    const canShrink = (maxHeight > 0 || maxWidth > 0) && fontSize > minFontSize;
+
+    if (fits || !canShrink) {
+      let overflow = !fits;
+      if (options.maxLines !== undefined && lines.length > options.maxLines) {
+        lines = truncateLines(
+          lines,
+          options.maxLines,
+          sizedFont,
+          maxWidth,
+          measure
+        );
+        overflow = true;
+      }
+
+      return {
+        lines,
+        font: sizedFont,
+        fontSize,
+        lineHeight,
+        width: Math.max(0, ...lines.map(line => line.width)),
+        height: lines.length * lineHeight,
+        overflow,
+      };
+    }
+
+    fontSize = Math.max(minFontSize, fontSize - 1);
+  }
+}
+
+/**
+ * Draw laid-out lines from the top-left of their box
+ */
+export function drawTextLayout(
+  renderer: CanvasRenderer,
+  layout: TextLayout,
+  x: number,
+  y: number,
+  color: string,
+  options: DrawTextLayoutOptions = {}
+): void {
+  const rtl = options.direction === 'rtl';
+  const boxWidth = options.width ?? layout.width;
+  const align = options.align ?? 'start';
+  const side =
+    align === 'start'
+      ? rtl
+        ? 'right'
+        : 'left'
+      : align === 'end'
+        ? rtl
+          ? 'left'
+          : 'right'
+        : align;
+
+  const anchorX =
+    side === 'left' ? x : side === 'right' ? x + boxWidth : x + boxWidth / 2;
+
+  layout.lines.forEach((line, index) => {
+    // Centre each line's glyphs within its line box
+    const lineY =
+      y + index * layout.lineHeight + (layout.lineHeight - layout.fontSize) / 2;
+    renderer.drawText(line.text, anchorX, lineY, layout.font, color, side);
+  });
+}
@@ -0,0 +1,236 @@
+/**
+ * Texture Atlas - Named sprite frames packed into a single image
+ * (TexturePacker-style JSON in hash or array format)
+ */
+
+import type {
+  SpriteAnimation,
+  SpriteAnimationFrame,
+} from '../components/CoreComponents';
+import type { DrawContext } from './CanvasRenderer';
+
+interface AtlasRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface AtlasFrameData {
+  frame: AtlasRect;
+  rotated?: boolean;
+  trimmed?: boolean;
+  spriteSourceSize?: AtlasRect;
+  sourceSize?: { w: number; h: number };
+  pivot?: { x: number; y: number };
+}
+
+export interface AtlasData {
+  frames:
+    | Record<string, AtlasFrameData>
+    | Array<AtlasFrameData & { filename: string }>;
+  animations?: Record<string, string[]>;
+  meta?: {
+    image?: string;
+    size?: { w: number; h: number };
+    scale?: string | number;
+  };
+}
+
+export interface AtlasFrame {
+  name: string;
+  x: number; // Rectangle in the atlas image (as packed)
+  y: number;
+  width: number; // Unrotated size of the trimmed sprite
+  height: number;
+  rotated: boolean; // Packed rotated 90° clockwise
+  offsetX: number; // Trim offset inside the original sprite
+  offsetY: number;
+  sourceWidth: number; // Original (untrimmed) size
+  sourceHeight: number;
+  pivotX: number;
+  pivotY: number;
+}
+
+/**
+ * Texture Atlas - Resolves frame names to source rectangles
+ */
+export class TextureAtlas {
+  public readonly image: HTMLImageElement | HTMLCanvasElement;
+
+  private frames: Map<string, AtlasFrame> = new Map();
+  private animations: Map<string, string[]> = new Map();
+
+  constructor(data: AtlasData, image: HTMLImageElement | HTMLCanvasElement) {
+    this.image = image;
+
+    const entries: Array<[string, AtlasFrameData]> = Array.isArray(data.frames)
+      ? data.frames.map(frame => [frame.filename, frame])
+      : Object.entries(data.frames);
+
+    for (const [name, frame] of entries) {
+      this.frames.set(name, this.parseFrame(name, frame));
+    }
+
+    for (const [name, frameNames] of Object.entries(data.animations ?? {})) {
+      this.animations.set(name, frameNames);
+    }
+  }
+
+  /**
+   * Get a frame by name
+   */
+  public getFrame(name: string): AtlasFrame | undefined {
+    return this.frames.get(name);
+  }
+
+  /**
+   * Check if a frame exists
+   */
+  public hasFrame(name: string): boolean {
+    return this.frames.has(name);
+  }
+
+  /**
+   * Get all frame names in atlas order
+   */
+  public getFrameNames(): string[] {
+    return Array.from(this.frames.keys());
+  }
+
+  /**
+   * Get frame names starting with a prefix, in natural order
+   * (walk_2 before walk_10)
+   */
+  public getFrameNamesWithPrefix(prefix: string): string[] {
+    return this.getFrameNames()
+      .filter(name => name.startsWith(prefix))
+      .sort((a, b) =>
+        a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' })
+      );
+  }
+
+  /**
+   * Get the frame names of an animation declared in the atlas JSON
+   */
+  public getAnimationFrames(name: string): string[] | undefined {
+    return this.animations.get(name);
+  }
+
+  /**
+   * Build SpriteAnimation data from a declared animation name or a
+   * frame-name prefix
+   */
+  public createAnimation(
+    nameOrPrefix: string,
+    options: { name?: string; frameTime?: number; loop?: boolean } = {}
+  ): SpriteAnimation {
+    const frameNames =
+      this.animations.get(nameOrPrefix) ??
+      this.getFrameNamesWithPrefix(nameOrPrefix);
+
+    if (frameNames.length === 0) {
+      throw new Error(`No atlas frames match '${nameOrPrefix}'`);
+    }
+
+    const frames: SpriteAnimationFrame[] = frameNames.map(frameName => {
+      const frame = this.frames.get(frameName);
+      if (!frame) {
+        throw new Error(`Atlas frame '${frameName}' not found`);
+      }
+      return {
+        name: frameName,
+        x: frame.x,
+        y: frame.y,
+        width: frame.width,
+        height: frame.height,
+      };
+    });
+
+    return {
+      name: options.name ?? nameOrPrefix,
+      frames,
+      frameTime: options.frameTime ?? 0.1,
+      currentFrame: 0,
+      currentTime: 0,
+      loop: options.loop ?? true,
+    };
+  }
+
+  /**
+   * Draw a frame into a destination rectangle sized for the untrimmed sprite,
+   * restoring trim offsets and rotation
+   */
+  public drawFrame(
+    ctx: DrawContext,
+    name: string,
+    x: number,
+    y: number,
+    width?: number,
+    height?: number
+  ): boolean {
+    const frame = this.frames.get(name);
+    if (!frame) return false;
+
+    const scaleX = (width ?? frame.sourceWidth) / frame.sourceWidth;
+    const scaleY = (height ?? frame.sourceHeight) / frame.sourceHeight;
+    const destX = x + frame.offsetX * scaleX;
+    const destY = y + frame.offsetY * scaleY;
+    const destWidth = frame.width * scaleX;
+    const destHeight = frame.height * scaleY;
+
+    if (!frame.rotated) {
+      ctx.drawImage(
+        this.image,
+        frame.x,
+        frame.y,
+        frame.width,
+        frame.height,
+        destX,
+        destY,
+        destWidth,
+        destHeight
+      );
+      return true;
+    }
+
+    // Rotated frames are packed 90° clockwise; rotate back while drawing
+    ctx.save();
+    ctx.translate(destX, destY + destHeight);
+    ctx.rotate(-Math.PI / 2);
+    ctx.drawImage(
+      this.image,
+      frame.x,
+      frame.y,
+      frame.height,
+      frame.width,
+      0,
+      0,
+      destHeight,
+      destWidth
+    );
+    ctx.restore();
+    return true;
+  }
+
+  private parseFrame(name: string, data: AtlasFrameData): AtlasFrame {
+    const rect = data.frame;
+    const trim = data.spriteSourceSize;
+    const source = data.sourceSize;
+
+    return {
+      name,
+      x: rect.x,
+      y: rect.y,
+      width: rect.w,
+      height: rect.h,
+      rotated: data.rotated ?? false,
+      offsetX: trim?.x ?? 0,
+      offsetY: trim?.y ?? 0,
+      sourceWidth: source?.w ?? rect.w,
+      sourceHeight: source?.h ?? rect.h,
+      pivotX: data.pivot?.x ?? 0.5,
+      pivotY: data.pivot?.y ?? 0.5,
+    };
+  }
+}
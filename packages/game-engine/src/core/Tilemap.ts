@@ -0,0 +1,572 @@
+/**
+ * Tilemap - Tile grids, tileset atlases and a JSON map format
+ */
+
+import type { AssetManager } from './AssetManager';
+import type { CanvasRenderer, DrawContext } from './CanvasRenderer';
+
+export const TILEMAP_FORMAT_VERSION = 1;
+export const EMPTY_TILE = 0;
+
+export interface TilesetData {
+  name: string;
+  image: string; // Asset id of the atlas image (registered by URL if missing)
+  tileWidth: number;
+  tileHeight: number;
+  columns?: number; // Defaults to what fits in the image width
+  margin?: number;
+  spacing?: number;
+  tiles?: Record<string, Record<string, unknown>>; // Properties by tile id
+}
+
+export interface TilemapLayerData {
+  name: string;
+  data: number[] | number[][]; // Row-major, or one array per row; 0 is empty
+  visible?: boolean;
+  opacity?: number;
+}
+
+export interface TilemapData {
+  version: number;
+  width: number; // In tiles
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  tileset: TilesetData;
+  layers: TilemapLayerData[];
+  properties?: Record<string, unknown>;
+}
+
+export interface TilemapLayer {
+  name: string;
+  tiles: Uint16Array;
+  visible: boolean;
+  opacity: number;
+}
+
+export interface TileRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface TileChunk {
+  canvas: HTMLCanvasElement | null;
+  dirty: boolean;
+}
+
+/**
+ * Tileset - Maps tile ids to source rectangles in an atlas image.
+ * Tile id 0 is empty; id 1 is the first tile in the atlas.
+ */
+export class Tileset {
+  public readonly name: string;
+  public readonly imageId: string;
+  public readonly tileWidth: number;
+  public readonly tileHeight: number;
+  public readonly margin: number;
+  public readonly spacing: number;
+  public image: HTMLImageElement | HTMLCanvasElement | null;
+
+  private columns?: number;
+  private properties: Map<number, Record<string, unknown>> = new Map();
+
+  constructor(
+    data: TilesetData,
+    image: HTMLImageElement | HTMLCanvasElement | null = null
+  ) {
+    this.name = data.name;
+    this.imageId = data.image;
+    this.tileWidth = data.tileWidth;
+    this.tileHeight = data.tileHeight;
+    this.margin = data.margin ?? 0;
+    this.spacing = data.spacing ?? 0;
+    this.columns = data.columns;
+    this.image = image;
+
+    for (const [id, properties] of Object.entries(data.tiles ?? {})) {
+      this.properties.set(Number(id), properties);
+    }
+  }
+
+  /**
+   * Get the number of tile columns in the atlas
+   */
+  public getColumns(): number {
+    if (this.columns !== undefined) return this.columns;
+    if (!this.image) return 1;
+
+    const usable = this.image.width - this.margin * 2 + this.spacing;
+    return Math.max(1, Math.floor(usable / (this.tileWidth + this.spacing)));
+  }
+
+  /**
+   * Get the atlas source rectangle for a tile id
+   */
+  public getTileRect(tileId: number): TileRect | null {
+    if (tileId === EMPTY_TILE) return null;
+
+    const index = tileId - 1;
+    const columns = this.getColumns();
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+
+    return {
+      x: this.margin + column * (this.tileWidth + this.spacing),
+      y: this.margin + row * (this.tileHeight + this.spacing),
+      width: this.tileWidth,
+      height: this.tileHeight,
+    };
+  }
+
+  /**
+   * Get custom properties for a tile id (e.g. { solid: true })
+   */
+  public getProperties(tileId: number): Record<string, unknown> | undefined {
+    return this.properties.get(tileId);
+  }
+
+  /**
+   * Get a single custom property for a tile id
+   */
+  public getProperty<T = unknown>(tileId: number, key: string): T | undefined {
+    return this.properties.get(tileId)?.[key] as T | undefined;
+  }
+
+  /**
+   * Serialize to the JSON map format
+   */
+  public toJSON(): TilesetData {
+    const data: TilesetData = {
+      name: this.name,
+      image: this.imageId,
+      tileWidth: this.tileWidth,
+      tileHeight: this.tileHeight,
+    };
+    if (this.columns !== undefined) data.columns = this.columns;
+    if (this.margin) data.margin = this.margin;
+    if (this.spacing) data.spacing = this.spacing;
+    if (this.properties.size > 0) {
+      data.tiles = Object.fromEntries(this.properties);
+    }
+    return data;
+  }
+}
+
+/**
+ * Tilemap - Layered tile grids positioned in world space. Layers are split
+ * into chunks so renderers can cull and cache them independently.
+ */
+export class Tilemap {
+  public readonly width: number;
+  public readonly height: number;
+  public readonly tileWidth: number;
+  public readonly tileHeight: number;
+  public readonly tileset: Tileset;
+  public readonly chunkSize: number;
+  public properties: Record<string, unknown> = {};
+
+  // World position of the map's top-left corner
+  public x = 0;
+  public y = 0;
+
+  private layers: TilemapLayer[] = [];
+  private chunks: Map<string, TileChunk> = new Map();
+
+  constructor(options: {
+    width: number;
+    height: number;
+    tileWidth: number;
+    tileHeight: number;
+    tileset: Tileset;
+    chunkSize?: number; // In tiles (default 16)
+  }) {
+    this.width = options.width;
+    this.height = options.height;
+    this.tileWidth = options.tileWidth;
+    this.tileHeight = options.tileHeight;
+    this.tileset = options.tileset;
+    this.chunkSize = options.chunkSize ?? 16;
+  }
+
+  /**
+   * Create a tilemap from the JSON map format
+   */
+  public static fromJSON(
+    data: TilemapData,
+    image: HTMLImageElement | HTMLCanvasElement | null = null
+  ): Tilemap {
+    if (data.version !== TILEMAP_FORMAT_VERSION) {
+      throw new Error(`Unsupported tilemap version: ${data.version}`);
+    }
+
+    const tilemap = new Tilemap({
+      width: data.width,
+      height: data.height,
+      tileWidth: data.tileWidth,
+      tileHeight: data.tileHeight,
+      tileset: new Tileset(data.tileset, image),
+    });
+    tilemap.properties = { ...data.properties };
+
+    for (const layerData of data.layers) {
+      const tiles = layerData.data.flat();
+      if (tiles.length !== data.width * data.height) {
+        throw new Error(
+          `Tilemap layer '${layerData.name}' has ${tiles.length} tiles, expected ${data.width * data.height}`
+        );
+      }
+
+      const layer = tilemap.addLayer(layerData.name, tiles);
+      layer.visible = layerData.visible ?? true;
+      layer.opacity = layerData.opacity ?? 1;
+    }
+
+    return tilemap;
+  }
+
+  /**
+   * Load a JSON map asset and its tileset image through the AssetManager
+   */
+  public static async load(
+    assetManager: AssetManager,
+    mapId: string
+  ): Promise<Tilemap> {
+    await assetManager.loadAsset(mapId);
+    const data = assetManager.getJSON<TilemapData>(mapId);
+    if (!data) {
+      throw new Error(`Tilemap '${mapId}' is not loaded`);
+    }
+
+    const imageId = data.tileset.image;
+    if (!assetManager.hasAsset(imageId)) {
+      assetManager.addAsset(imageId, imageId, 'image');
+    }
+    await assetManager.loadAsset(imageId);
+
+    return Tilemap.fromJSON(data, assetManager.getImage(imageId));
+  }
+
+  /**
+   * Serialize to the JSON map format (one array per row)
+   */
+  public toJSON(): TilemapData {
+    return {
+      version: TILEMAP_FORMAT_VERSION,
+      width: this.width,
+      height: this.height,
+      tileWidth: this.tileWidth,
+      tileHeight: this.tileHeight,
+      tileset: this.tileset.toJSON(),
+      layers: this.layers.map(layer => {
+        const data: number[][] = [];
+        for (let row = 0; row < this.height; row++) {
+          const start = row * this.width;
+          data.push(
+            Array.from(layer.tiles.subarray(start, start + this.width))
+          );
+        }
+        return {
+          name: layer.name,
+          data,
+          visible: layer.visible,
+          opacity: layer.opacity,
+        };
+      }),
+      properties: { ...this.properties },
+    };
+  }
+
+  /**
+   * Add a layer on top of existing layers
+   */
+  public addLayer(name: string, tiles?: ArrayLike<number>): TilemapLayer {
+    if (this.getLayer(name)) {
+      throw new Error(`Tilemap layer '${name}' already exists`);
+    }
+
+    const layer: TilemapLayer = {
+      name,
+      tiles: new Uint16Array(this.width * this.height),
+      visible: true,
+      opacity: 1,
+    };
+    if (tiles) {
+      layer.tiles.set(tiles);
+    }
+
+    this.layers.push(layer);
+    return layer;
+  }
+
+  /**
+   * Get a layer by name
+   */
+  public getLayer(name: string): TilemapLayer | undefined {
+    return this.layers.find(layer => layer.name === name);
+  }
+
+  /**
+   * Get all layers, bottom first
+   */
+  public getLayers(): readonly TilemapLayer[] {
+    return this.layers;
+  }
+
+  /**
+   * Get the tile id at a tile coordinate (0 when empty or out of bounds)
+   */
+  public getTile(layerName: string, col: number, row: number): number {
+    const layer = this.getLayer(layerName);
+    if (!layer || !this.isInBounds(col, row)) return EMPTY_TILE;
+    return layer.tiles[row * this.width + col];
+  }
+
+  /**
+   * Set the tile id at a tile coordinate
+   */
+  public setTile(
+    layerName: string,
+    col: number,
+    row: number,
+    tileId: number
+  ): void {
+    const layer = this.getLayer(layerName);
+    if (!layer || !this.isInBounds(col, row)) return;
+
+    layer.tiles[row * this.width + col] = tileId;
+    this.markDirty(layer, col, row);
+  }
+
+  /**
+   * Fill a rectangular area of a layer with one tile id
+   */
+  public fill(
+    layerName: string,
+    tileId: number,
+    col = 0,
+    row = 0,
+    width = this.width,
+    height = this.height
+  ): void {
+    for (let r = row; r < row + height; r++) {
+      for (let c = col; c < col + width; c++) {
+        this.setTile(layerName, c, r, tileId);
+      }
+    }
+  }
+
+  /**
+   * Get custom tileset properties for the tile at a coordinate
+   */
+  public getTileProperties(
+    layerName: string,
+    col: number,
+    row: number
+  ): Record<string, unknown> | undefined {
+    return this.tileset.getProperties(this.getTile(layerName, col, row));
+  }
+
+  /**
+   * Check if a tile coordinate is inside the map
+   */
+  public isInBounds(col: number, row: number): boolean {
+    return col >= 0 && row >= 0 && col < this.width && row < this.height;
+  }
+
+  /**
+   * Get the map size in world units
+   */
+  public get pixelWidth(): number {
+    return this.width * this.tileWidth;
+  }
+
+  public get pixelHeight(): number {
+    return this.height * this.tileHeight;
+  }
+
+  // Coordinate helpers
+
+  /**
+   * Convert a tile coordinate to the world position of its top-left corner
+   */
+  public tileToWorld(col: number, row: number): { x: number; y: number } {
+    return {
+      x: this.x + col * this.tileWidth,
+      y: this.y + row * this.tileHeight,
+    };
+  }
+
+  /**
+   * Convert a tile coordinate to the world position of its centre
+   */
+  public tileCenterToWorld(col: number, row: number): { x: number; y: number } {
+    return {
+      x: this.x + (col + 0.5) * this.tileWidth,
+      y: this.y + (row + 0.5) * this.tileHeight,
+    };
+  }
+
+  /**
+   * Convert a world position to the tile coordinate containing it
+   * (may be out of bounds)
+   */
+  public worldToTile(x: number, y: number): { col: number; row: number } {
+    return {
+      col: Math.floor((x - this.x) / this.tileWidth),
+      row: Math.floor((y - this.y) / this.tileHeight),
+    };
+  }
+
+  /**
+   * Convert a screen position to a tile coordinate through the camera
+   */
+  public screenToTile(
+    renderer: CanvasRenderer,
+    screenX: number,
+    screenY: number
+  ): { col: number; row: number } {
+    const world = renderer.screenToWorld(screenX, screenY);
+    return this.worldToTile(world.x, world.y);
+  }
+
+  /**
+   * Convert a tile coordinate to the screen position of its top-left corner
+   */
+  public tileToScreen(
+    renderer: CanvasRenderer,
+    col: number,
+    row: number
+  ): { x: number; y: number } {
+    const world = this.tileToWorld(col, row);
+    return renderer.worldToScreen(world.x, world.y);
+  }
+
+  // Chunks (used by CanvasRenderer.drawTilemap)
+
+  /**
+   * Get the number of chunks across and down
+   */
+  public getChunkCount(): { columns: number; rows: number } {
+    return {
+      columns: Math.ceil(this.width / this.chunkSize),
+      rows: Math.ceil(this.height / this.chunkSize),
+    };
+  }
+
+  /**
+   * Get the world-space bounds of a chunk
+   */
+  public getChunkBounds(chunkX: number, chunkY: number): TileRect {
+    const col = chunkX * this.chunkSize;
+    const row = chunkY * this.chunkSize;
+    return {
+      x: this.x + col * this.tileWidth,
+      y: this.y + row * this.tileHeight,
+      width: Math.min(this.chunkSize, this.width - col) * this.tileWidth,
+      height: Math.min(this.chunkSize, this.height - row) * this.tileHeight,
+    };
+  }
+
+  /**
+   * Draw a chunk's tiles with its top-left corner at (x, y)
+   */
+  public drawChunk(
+    ctx: DrawContext,
+    layer: TilemapLayer,
+    chunkX: number,
+    chunkY: number,
+    x: number,
+    y: number
+  ): void {
+    const image = this.tileset.image;
+    if (!image) return;
+
+    const startCol = chunkX * this.chunkSize;
+    const startRow = chunkY * this.chunkSize;
+    const endCol = Math.min(startCol + this.chunkSize, this.width);
+    const endRow = Math.min(startRow + this.chunkSize, this.height);
+
+    for (let row = startRow; row < endRow; row++) {
+      for (let col = startCol; col < endCol; col++) {
+        const rect = this.tileset.getTileRect(
+          layer.tiles[row * this.width + col]
+        );
+        if (!rect) continue;
+
+        ctx.drawImage(
+          image,
+          rect.x,
+          rect.y,
+          rect.width,
+          rect.height,
+          x + (col - startCol) * this.tileWidth,
+          y + (row - startRow) * this.tileHeight,
+          this.tileWidth,
+          this.tileHeight
+        );
+      }
+    }
+  }
+
+  /**
+   * Get a pre-rendered canvas for a chunk, redrawing it if tiles changed.
+   * Returns null when no offscreen canvas can be created.
+   */
+  public getChunkCanvas(
+    layer: TilemapLayer,
+    chunkX: number,
+    chunkY: number,
+    createCanvas: (width: number, height: number) => HTMLCanvasElement
+  ): HTMLCanvasElement | null {
+    const key = this.getChunkKey(layer, chunkX, chunkY);
+    let chunk = this.chunks.get(key);
+
+    if (!chunk) {
+      const bounds = this.getChunkBounds(chunkX, chunkY);
+      chunk = {
+        canvas: createCanvas(bounds.width, bounds.height),
+        dirty: true,
+      };
+      this.chunks.set(key, chunk);
+    }
+
+    const ctx = chunk.canvas?.getContext('2d');
+    if (!chunk.canvas || !ctx) return null;
+
+    if (chunk.dirty) {
+      ctx.clearRect(0, 0, chunk.canvas.width, chunk.canvas.height);
+      this.drawChunk(ctx, layer, chunkX, chunkY, 0, 0);
+      chunk.dirty = false;
+    }
+
+    return chunk.canvas;
+  }
+
+  /**
+   * Drop cached chunk canvases (e.g. after replacing the tileset image)
+   */
+  public invalidate(): void {
+    this.chunks.clear();
+  }
+
+  private markDirty(layer: TilemapLayer, col: number, row: number): void {
+    const chunk = this.chunks.get(
+      this.getChunkKey(
+        layer,
+        Math.floor(col / this.chunkSize),
+        Math.floor(row / this.chunkSize)
+      )
+    );
+    if (chunk) chunk.dirty = true;
+  }
+
+  private getChunkKey(
+    layer: TilemapLayer,
+    chunkX: number,
+    chunkY: number
+  ): string {
+    return `${layer.name}:${chunkX},${chunkY}`;
+  }
+}
@@ -0,0 +1,771 @@
+/**
+ * WebGL Renderer - Batched WebGL2 backend behind CanvasRenderer
+ */
+
+import type { DrawContext } from './CanvasRenderer';
+
+type TextureSource = HTMLImageElement | HTMLCanvasElement;
+
+// Affine transform [a, b, c, d, e, f], as in CanvasRenderingContext2D
+type Matrix = [number, number, number, number, number, number];
+
+type RGBA = [r: number, g: number, b: number, a: number];
+
+const FLOATS_PER_VERTEX = 5; // x, y, u, v, packed RGBA
+const BYTES_PER_VERTEX = FLOATS_PER_VERTEX * 4;
+const MAX_VERTICES = 6 * 4096; // 4096 quads per draw call
+const TEXT_CACHE_SIZE = 256;
+const CIRCLE_SEGMENTS = { min: 12, max: 64 };
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+in vec2 a_texCoord;
+in vec4 a_color;
+uniform mat3 u_projection;
+out vec2 v_texCoord;
+out vec4 v_color;
+
+void main() {
+  vec3 position = u_projection * vec3(a_position, 1.0);
+  gl_Position = vec4(position.xy, 0.0, 1.0);
+  v_texCoord = a_texCoord;
+  v_color = a_color;
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec2 v_texCoord;
+in vec4 v_color;
+uniform sampler2D u_texture;
+out vec4 outColor;
+
+void main() {
+  outColor = texture(u_texture, v_texCoord) * v_color;
+}`;
+
+/**
+ * Check for a WebGL2 context (or a test double exposing its API)
+ */
+export function isWebGL2Context(ctx: unknown): ctx is WebGL2RenderingContext {
+  if (
+    typeof WebGL2RenderingContext !== 'undefined' &&
+    ctx instanceof WebGL2RenderingContext
+  ) {
+    return true;
+  }
+  return (
+    typeof ctx === 'object' &&
+    ctx !== null &&
+    typeof (ctx as WebGL2RenderingContext).createVertexArray === 'function'
+  );
+}
+
+/**
+ * WebGL Renderer - Draws textured quads and flat shapes into one vertex
+ * buffer, flushing only when the texture changes or the buffer fills.
+ * Sprites sharing an image or atlas cost a single draw call. Text is
+ * rasterised once per string/font/colour and cached as a texture.
+ */
+export class WebGLRenderer implements DrawContext {
+  public globalAlpha = 1;
+  public imageSmoothingEnabled = true; // Applies to textures uploaded afterwards
+
+  private gl: WebGL2RenderingContext;
+  private program: WebGLProgram;
+  private vertexArray: WebGLVertexArrayObject | null;
+  private buffer: WebGLBuffer | null;
+  private projection: WebGLUniformLocation | null;
+
+  private vertexData = new ArrayBuffer(MAX_VERTICES * BYTES_PER_VERTEX);
+  private floats = new Float32Array(this.vertexData);
+  private colors = new Uint32Array(this.vertexData);
+  private vertexCount = 0;
+
+  private matrix: Matrix = [1, 0, 0, 1, 0, 0];
+  private stack: Array<{ matrix: Matrix; alpha: number }> = [];
+
+  private textures: WeakMap<TextureSource, WebGLTexture> = new WeakMap();
+  private whiteTexture: WebGLTexture | null;
+  private currentTexture: WebGLTexture | null = null;
+  private textCache: Map<string, HTMLCanvasElement> = new Map();
+  private colorCache: Map<string, RGBA> = new Map();
+  private colorProbe: CanvasRenderingContext2D | null = null;
+  private drawCalls = 0;
+
+  constructor(gl: WebGL2RenderingContext, width: number, height: number) {
+    this.gl = gl;
+    this.program = this.createProgram();
+
+    gl.useProgram(this.program);
+    this.projection = gl.getUniformLocation(this.program, 'u_projection');
+    gl.uniform1i(gl.getUniformLocation(this.program, 'u_texture'), 0);
+
+    this.vertexArray = gl.createVertexArray();
+    gl.bindVertexArray(this.vertexArray);
+
+    this.buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this.vertexData.byteLength, gl.DYNAMIC_DRAW);
+
+    this.bindAttribute('a_position', 2, gl.FLOAT, false, 0);
+    this.bindAttribute('a_texCoord', 2, gl.FLOAT, false, 8);
+    this.bindAttribute('a_color', 4, gl.UNSIGNED_BYTE, true, 16);
+
+    // 1x1 white texture so flat shapes batch through the same shader
+    this.whiteTexture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, this.whiteTexture);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.RGBA,
+      1,
+      1,
+      0,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
+      new Uint8Array([255, 255, 255, 255])
+    );
+
+    // Premultiplied alpha throughout
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+    this.resize(width, height);
+  }
+
+  /**
+   * Check whether WebGL2 is usable in this browser, without touching the
+   * game canvas (a canvas cannot switch to 2D once it has a WebGL context)
+   */
+  public static isSupported(): boolean {
+    if (typeof document === 'undefined') return false;
+
+    const gl = document.createElement('canvas').getContext('webgl2');
+    if (!gl) return false;
+
+    try {
+      new WebGLRenderer(gl, 1, 1).destroy();
+      return true;
+    } catch {
+      return false;
+    } finally {
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
+    }
+  }
+
+  /**
+   * Update the projection for a new canvas size
+   */
+  public resize(width: number, height: number): void {
+    const gl = this.gl;
+    this.flush();
+    gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+    // Pixel coordinates, origin top-left, y down
+    gl.uniformMatrix3fv(
+      this.projection,
+      false,
+      new Float32Array([2 / width, 0, 0, 0, -2 / height, 0, -1, 1, 1])
+    );
+  }
+
+  /**
+   * Flush pending draws and clear the drawing buffer
+   */
+  public clear(color?: string): void {
+    const gl = this.gl;
+    this.flush();
+    this.drawCalls = 0;
+
+    const [r, g, b, a] = color ? this.parseColor(color) : [0, 0, 0, 0];
+    gl.clearColor((r / 255) * a, (g / 255) * a, (b / 255) * a, a);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+  }
+
+  /**
+   * Submit the pending batch. Call once at the end of every frame.
+   */
+  public flush(): void {
+    if (this.vertexCount === 0 || !this.currentTexture) return;
+
+    const gl = this.gl;
+    gl.bindTexture(gl.TEXTURE_2D, this.currentTexture);
+    gl.bufferSubData(
+      gl.ARRAY_BUFFER,
+      0,
+      this.floats,
+      0,
+      this.vertexCount * FLOATS_PER_VERTEX
+    );
+    gl.drawArrays(gl.TRIANGLES, 0, this.vertexCount);
+
+    this.vertexCount = 0;
+    this.drawCalls++;
+  }
+
+  /**
+   * Draw calls issued since the last clear
+   */
+  public getDrawCallCount(): number {
+    return this.drawCalls;
+  }
+
+  public save(): void {
+    this.stack.push({ matrix: [...this.matrix], alpha: this.globalAlpha });
+  }
+
+  public restore(): void {
+    const state = this.stack.pop();
+    if (state) {
+      this.matrix = state.matrix;
+      this.globalAlpha = state.alpha;
+    }
+  }
+
+  public translate(x: number, y: number): void {
+    const m = this.matrix;
+    m[4] += m[0] * x + m[2] * y;
+    m[5] += m[1] * x + m[3] * y;
+  }
+
+  public rotate(angle: number): void {
+    const [a, b, c, d, e, f] = this.matrix;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.matrix = [
+      a * cos + c * sin,
+      b * cos + d * sin,
+      c * cos - a * sin,
+      d * cos - b * sin,
+      e,
+      f,
+    ];
+  }
+
+  public scale(x: number, y: number): void {
+    const m = this.matrix;
+    m[0] *= x;
+    m[1] *= x;
+    m[2] *= y;
+    m[3] *= y;
+  }
+
+  public resetTransform(): void {
+    this.stack = [];
+    this.matrix = [1, 0, 0, 1, 0, 0];
+    this.globalAlpha = 1;
+  }
+
+  public drawImage(
+    image: TextureSource,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    dx: number,
+    dy: number,
+    dw: number,
+    dh: number
+  ): void {
+    const texture = this.getTexture(image);
+    if (!texture || !image.width || !image.height) return;
+
+    const alpha = Math.round(255 * this.globalAlpha);
+    const tint = ((alpha << 24) | (alpha << 16) | (alpha << 8) | alpha) >>> 0;
+
+    this.pushQuad(
+      texture,
+      dx,
+      dy,
+      dw,
+      dh,
+      sx / image.width,
+      sy / image.height,
+      (sx + sw) / image.width,
+      (sy + sh) / image.height,
+      tint
+    );
+  }
+
+  public fillRect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: string
+  ): void {
+    this.pushQuad(
+      this.whiteTexture!,
+      x,
+      y,
+      width,
+      height,
+      0,
+      0,
+      1,
+      1,
+      this.packColor(color)
+    );
+  }
+
+  public strokeRect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: string,
+    lineWidth = 1
+  ): void {
+    this.strokePath(
+      [
+        { x, y },
+        { x: x + width, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height },
+      ],
+      color,
+      lineWidth
+    );
+  }
+
+  public fillCircle(x: number, y: number, radius: number, color: string): void {
+    this.fillPolygon(this.circlePoints(x, y, radius), color);
+  }
+
+  public strokeCircle(
+    x: number,
+    y: number,
+    radius: number,
+    color: string,
+    lineWidth = 1
+  ): void {
+    this.strokePath(this.circlePoints(x, y, radius), color, lineWidth);
+  }
+
+  /**
+   * Fill a convex (or centre-star-shaped) polygon as a fan around its centroid
+   */
+  public fillPolygon(
+    points: Array<{ x: number; y: number }>,
+    color: string
+  ): void {
+    if (points.length < 3) return;
+
+    const packed = this.packColor(color);
+    let cx = 0;
+    let cy = 0;
+    for (const point of points) {
+      cx += point.x;
+      cy += point.y;
+    }
+    cx /= points.length;
+    cy /= points.length;
+
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      this.useTexture(this.whiteTexture!, 3);
+      this.pushVertex(cx, cy, 0, 0, packed);
+      this.pushVertex(a.x, a.y, 0, 0, packed);
+      this.pushVertex(b.x, b.y, 0, 0, packed);
+    }
+  }
+
+  /**
+   * Stroke a closed outline
+   */
+  public strokePath(
+    points: Array<{ x: number; y: number }>,
+    color: string,
+    lineWidth = 1
+  ): void {
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      this.drawLine(a.x, a.y, b.x, b.y, color, lineWidth);
+    }
+  }
+
+  public drawLine(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    color: string,
+    lineWidth = 1
+  ): void {
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    if (length === 0) return;
+
+    // Quad extruded half the width either side of the line
+    const nx = (-(y2 - y1) / length) * (lineWidth / 2);
+    const ny = ((x2 - x1) / length) * (lineWidth / 2);
+    const packed = this.packColor(color);
+
+    this.useTexture(this.whiteTexture!, 6);
+    this.pushVertex(x1 + nx, y1 + ny, 0, 0, packed);
+    this.pushVertex(x2 + nx, y2 + ny, 0, 0, packed);
+    this.pushVertex(x1 - nx, y1 - ny, 0, 0, packed);
+    this.pushVertex(x1 - nx, y1 - ny, 0, 0, packed);
+    this.pushVertex(x2 + nx, y2 + ny, 0, 0, packed);
+    this.pushVertex(x2 - nx, y2 - ny, 0, 0, packed);
+  }
+
+  /**
+   * Draw text with a top baseline, matching the 2D backend
+   */
+  public drawText(
+    text: string,
+    x: number,
+    y: number,
+    font: string,
+    color: string,
+    align: CanvasTextAlign = 'left',
+    direction: CanvasDirection = 'ltr'
+  ): void {
+    const canvas = this.getTextCanvas(text, font, color, direction);
+    if (!canvas) return;
+
+    // 'start' and 'end' swap sides in right-to-left text
+    const rtl = direction === 'rtl';
+    let offsetX = 0;
+    if (align === 'center') {
+      offsetX = -canvas.width / 2;
+    } else if (
+      align === 'right' ||
+      (align === 'end' && !rtl) ||
+      (align === 'start' && rtl)
+    ) {
+      offsetX = -canvas.width;
+    }
+
+    this.drawImage(
+      canvas,
+      0,
+      0,
+      canvas.width,
+      canvas.height,
+      x + offsetX,
+      y,
+      canvas.width,
+      canvas.height
+    );
+  }
+
+  /**
+   * Re-upload a source on its next draw (e.g. a canvas that was redrawn)
+   */
+  public invalidateTexture(source: TextureSource): void {
+    const texture = this.textures.get(source);
+    if (!texture) return;
+
+    if (texture === this.currentTexture) {
+      this.flush();
+      this.currentTexture = null;
+    }
+    this.gl.deleteTexture(texture);
+    this.textures.delete(source);
+  }
+
+  /**
+   * Release GPU resources
+   */
+  public destroy(): void {
+    const gl = this.gl;
+    for (const canvas of this.textCache.values()) {
+      this.invalidateTexture(canvas);
+    }
+    this.textCache.clear();
+    gl.deleteTexture(this.whiteTexture);
+    gl.deleteBuffer(this.buffer);
+    gl.deleteVertexArray(this.vertexArray);
+    gl.deleteProgram(this.program);
+    this.vertexCount = 0;
+    this.currentTexture = null;
+  }
+
+  private createProgram(): WebGLProgram {
+    const gl = this.gl;
+    const vertex = this.compileShader(gl.VERTEX_SHADER, VERTEX_SHADER);
+    const fragment = this.compileShader(gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+    const program = gl.createProgram();
+
+    if (!program) {
+      throw new Error('Unable to create WebGL program');
+    }
+
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, fragment);
+    gl.linkProgram(program);
+    gl.deleteShader(vertex);
+    gl.deleteShader(fragment);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(`Failed to link WebGL program: ${log}`);
+    }
+
+    return program;
+  }
+
+  private compileShader(type: number, source: string): WebGLShader {
+    const gl = this.gl;
+    const shader = gl.createShader(type);
+
+    if (!shader) {
+      throw new Error('Unable to create WebGL shader');
+    }
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader);
+      gl.deleteShader(shader);
+      throw new Error(`Failed to compile WebGL shader: ${log}`);
+    }
+
+    return shader;
+  }
+
+  private bindAttribute(
+    name: string,
+    size: number,
+    type: number,
+    normalized: boolean,
+    offset: number
+  ): void {
+    const location = this.gl.getAttribLocation(this.program, name);
+    if (location < 0) return;
+
+    this.gl.enableVertexAttribArray(location);
+    this.gl.vertexAttribPointer(
+      location,
+      size,
+      type,
+      normalized,
+      BYTES_PER_VERTEX,
+      offset
+    );
+  }
+
+  private getTexture(source: TextureSource): WebGLTexture | null {
+    const cached = this.textures.get(source);
+    if (cached) return cached;
+
+    // Not decoded yet; RenderSystem only draws loaded assets, but be safe
+    if ('complete' in source && !source.complete) return null;
+
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    if (!texture) return null;
+
+    const filter = this.imageSmoothingEnabled ? gl.LINEAR : gl.NEAREST;
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter);
+
+    // flush() rebinds the batch texture before drawing
+    this.textures.set(source, texture);
+    return texture;
+  }
+
+  private getTextCanvas(
+    text: string,
+    font: string,
+    color: string,
+    direction: CanvasDirection
+  ): HTMLCanvasElement | null {
+    if (typeof document === 'undefined' || text === '') return null;
+
+    const key = `${font}|${color}|${direction}|${text}`;
+    const cached = this.textCache.get(key);
+    if (cached) {
+      // Keep recently used strings at the end for eviction order
+      this.textCache.delete(key);
+      this.textCache.set(key, cached);
+      return cached;
+    }
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.font = font;
+    const fontSize = parseFloat(/(\d+(?:\.\d+)?)px/.exec(font)?.[1] ?? '16');
+    canvas.width = Math.max(1, Math.ceil(ctx.measureText(text).width));
+    canvas.height = Math.max(1, Math.ceil(fontSize * 1.3));
+
+    // Resizing resets the context state
+    ctx.font = font;
+    ctx.fillStyle = color;
+    ctx.textBaseline = 'top';
+    ctx.direction = direction;
+    ctx.textAlign = 'left';
+    ctx.fillText(text, 0, 0);
+
+    this.textCache.set(key, canvas);
+    if (this.textCache.size > TEXT_CACHE_SIZE) {
+      const [oldestKey, oldest] = this.textCache.entries().next().value!;
+      this.textCache.delete(oldestKey);
+      this.invalidateTexture(oldest);
+    }
+
+    return canvas;
+  }
+
+  private circlePoints(
+    x: number,
+    y: number,
+    radius: number
+  ): Array<{ x: number; y: number }> {
+    const segments = Math.min(
+      CIRCLE_SEGMENTS.max,
+      Math.max(CIRCLE_SEGMENTS.min, Math.ceil(radius / 2))
+    );
+    const points: Array<{ x: number; y: number }> = [];
+
+    for (let i = 0; i < segments; i++) {
+      const angle = (i / segments) * Math.PI * 2;
+      points.push({
+        x: x + Math.cos(angle) * radius,
+        y: y + Math.sin(angle) * radius,
+      });
+    }
+
+    return points;
+  }
+
+  private useTexture(texture: WebGLTexture, vertices: number): void {
+    if (
+      texture !== this.currentTexture ||
+      this.vertexCount + vertices > MAX_VERTICES
+    ) {
+      this.flush();
+      this.currentTexture = texture;
+    }
+  }
+
+  private pushQuad(
+    texture: WebGLTexture,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    u0: number,
+    v0: number,
+    u1: number,
+    v1: number,
+    color: number
+  ): void {
+    this.useTexture(texture, 6);
+    this.pushVertex(x, y, u0, v0, color);
+    this.pushVertex(x + width, y, u1, v0, color);
+    this.pushVertex(x, y + height, u0, v1, color);
+    this.pushVertex(x, y + height, u0, v1, color);
+    this.pushVertex(x + width, y, u1, v0, color);
+    this.pushVertex(x + width, y + height, u1, v1, color);
+  }
+
+  private pushVertex(
+    x: number,
+    y: number,
+    u: number,
+    v: number,
+    color: number
+  ): void {
+    const m = this.matrix;
+    const i = this.vertexCount * FLOATS_PER_VERTEX;
+
+    this.floats[i] = m[0] * x + m[2] * y + m[4];
+    this.floats[i + 1] = m[1] * x + m[3] * y + m[5];
+    this.floats[i + 2] = u;
+    this.floats[i + 3] = v;
+    this.colors[i + 4] = color;
+    this.vertexCount++;
+  }
+
+  /**
+   * Pack a CSS colour with the current alpha as premultiplied RGBA bytes
+   */
+  private packColor(color: string): number {
+    const [r, g, b, a] = this.parseColor(color);
+    const alpha = a * this.globalAlpha;
+    const red = Math.round(r * alpha);
+    const green = Math.round(g * alpha);
+    const blue = Math.round(b * alpha);
+
+    return (
+      ((Math.round(alpha * 255) << 24) | (blue << 16) | (green << 8) | red) >>>
+      0
+    );
+  }
+
+  /**
+   * Parse a CSS colour into 0-255 channels and 0-1 alpha
+   */
+  private parseColor(color: string): RGBA {
+    const cached = this.colorCache.get(color);
+    if (cached) return cached;
+
+    let rgba = this.parseColorString(color);
+
+    // Named and other CSS colours: let a 2D context normalise them
+    if (!rgba && typeof document !== 'undefined') {
+      this.colorProbe ??= document.createElement('canvas').getContext('2d');
+      if (this.colorProbe) {
+        this.colorProbe.fillStyle = '#000000';
+        this.colorProbe.fillStyle = color;
+        rgba = this.parseColorString(String(this.colorProbe.fillStyle));
+      }
+    }
+
+    const result: RGBA = rgba ?? [0, 0, 0, 1];
+    this.colorCache.set(color, result);
+    return result;
+  }
+
+  private parseColorString(color: string): RGBA | null {
+    const value = color.trim().toLowerCase();
+
+    if (value === 'transparent') return [0, 0, 0, 0];
+
+    if (value.startsWith('#')) {
+      let hex = value.slice(1);
+      if (hex.length === 3 || hex.length === 4) {
+        hex = hex
+          .split('')
+          .map(digit => digit + digit)
+          .join('');
+      }
+      if (hex.length !== 6 && hex.length !== 8) return null;
+
+      const int = parseInt(hex, 16);
+      if (Number.isNaN(int)) return null;
+
+      return hex.length === 6
+        ? [(int >> 16) & 255, (int >> 8) & 255, int & 255, 1]
+        : [
+            (int >>> 24) & 255,
+            (int >> 16) & 255,
+            (int >> 8) & 255,
+            (int & 255) / 255,
+          ];
+    }
+
+    const match = /^rgba?\(([^)]+)\)$/.exec(value);
+    if (!match) return null;
+
+    const parts = match[1]
+      .split(/[\s,/]+/)
+      .filter(Boolean)
+      .map(parseFloat);
+    if (parts.length < 3 || parts.some(Number.isNaN)) return null;
+
+    return [parts[0], parts[1], parts[2], parts[3] ?? 1];
+  }
+}
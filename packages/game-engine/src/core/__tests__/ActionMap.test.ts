@@ -0,0 +1,172 @@
+import { ActionMap } from '../ActionMap';
+import type { ActionBinding, BindingStorage } from '../ActionMap';
+import { GameEngine } from '../Engine';
+import { GamepadButtons } from '../InputManager';
+import type { InputEvent } from '../InputManager';
+
+class MemoryStorage implements BindingStorage {
+  public items: Map<string, string> = new Map();
+
+  public getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  public setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  public removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+const confirmBindings: ActionBinding[] = [
+  { device: 'keyboard', code: 'Space' },
+  { device: 'gamepad', button: GamepadButtons.A },
+  { device: 'touch' },
+];
+
+describe('ActionMap', () => {
+  let engine: GameEngine;
+
+  beforeEach(() => {
+    engine = new GameEngine({ width: 320, height: 240, headless: true });
+    engine.actions.define('confirm', confirmBindings);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  function input(
+    type: InputEvent['type'],
+    action: InputEvent['action'],
+    data: InputEvent['data']
+  ): void {
+    engine.inputManager.queueEvent({
+      type,
+      action,
+      data,
+      timestamp: engine.engineClock.now(),
+    });
+    engine.step();
+  }
+
+  function key(action: 'down' | 'up', code: string): void {
+    input('keyboard', action, { key: code, code });
+  }
+
+  it('stays pressed while any binding is held', () => {
+    const events: unknown[] = [];
+    engine.actions.on('action', event => events.push(event));
+
+    key('down', 'Space');
+    expect(engine.actions.isPressed('confirm')).toBe(true);
+    expect(engine.actions.wasPressed('confirm')).toBe(true);
+
+    input('gamepad', 'down', { gamepad: 0, button: GamepadButtons.A });
+    key('up', 'Space');
+    expect(engine.actions.isPressed('confirm')).toBe(true);
+    expect(engine.actions.wasPressed('confirm')).toBe(false);
+
+    input('gamepad', 'up', { gamepad: 0, button: GamepadButtons.A });
+    expect(engine.actions.wasReleased('confirm')).toBe(true);
+    expect(events).toEqual([
+      {
+        action: 'confirm',
+        pressed: true,
+        value: 1,
+        binding: confirmBindings[0],
+      },
+      {
+        action: 'confirm',
+        pressed: false,
+        value: 0,
+        binding: confirmBindings[1],
+      },
+    ]);
+  });
+
+  it('reads gamepad buttons and sticks from the Gamepad API', () => {
+    const globals = globalThis as { navigator?: unknown };
+    const realNavigator = globals.navigator;
+    const pad = {
+      index: 0,
+      buttons: [{ pressed: false, value: 0 }],
+      axes: [0, 0],
+    };
+    Object.defineProperty(globalThis, 'navigator', {
+      value: { getGamepads: () => [pad] },
+      configurable: true,
+    });
+    engine.actions.define('move-left', [
+      { device: 'gamepad-axis', axis: 0, direction: -1 },
+    ]);
+    engine.actions.define('move-right', [
+      { device: 'gamepad-axis', axis: 0, direction: 1 },
+    ]);
+
+    pad.buttons[0] = { pressed: true, value: 1 };
+    pad.axes[0] = -0.8;
+    engine.step();
+    expect(engine.actions.isPressed('confirm')).toBe(true);
+    expect(engine.actions.getAxis('move-left', 'move-right')).toBeCloseTo(-0.8);
+
+    pad.axes[0] = 0.3; // Under the threshold
+    engine.step();
+    expect(engine.actions.getAxis('move-left', 'move-right')).toBe(0);
+
+    Object.defineProperty(globalThis, 'navigator', {
+      value: realNavigator,
+      configurable: true,
+    });
+  });
+
+  it('saves rebound actions and restores them when redefined', () => {
+    const storage = new MemoryStorage();
+    const actions = new ActionMap(engine.inputManager, null, { storage });
+    actions.define('jump', [{ device: 'keyboard', code: 'Space' }]);
+
+    actions.setBindings('jump', [{ device: 'keyboard', code: 'KeyW' }]);
+    expect(actions.findConflicts({ device: 'keyboard', code: 'KeyW' })).toEqual(
+      ['jump']
+    );
+    actions.destroy();
+
+    const restored = new ActionMap(engine.inputManager, null, { storage });
+    restored.define('jump', [{ device: 'keyboard', code: 'Space' }]);
+    expect(restored.getBindings('jump')).toEqual([
+      { device: 'keyboard', code: 'KeyW' },
+    ]);
+
+    restored.resetBindings();
+    expect(restored.getBindings('jump')).toEqual([
+      { device: 'keyboard', code: 'Space' },
+    ]);
+    expect(storage.items.size).toBe(0);
+    restored.destroy();
+  });
+
+  it('binds the next key pressed while capturing', async () => {
+    const captured = engine.actions.captureBinding('confirm');
+    key('down', 'KeyE');
+
+    expect(await captured).toEqual({ device: 'keyboard', code: 'KeyE' });
+    expect(engine.actions.isPressed('confirm')).toBe(false); // Swallowed
+    expect(engine.actions.getBindings('confirm')).toEqual([
+      { device: 'keyboard', code: 'KeyE' },
+    ]);
+
+    const cancelled = engine.actions.captureBinding('confirm');
+    key('down', 'Escape');
+    expect(await cancelled).toBeNull();
+  });
+
+  it('releases touch bindings when the touch is cancelled', () => {
+    input('touch', 'down', { id: 1, x: 10, y: 10 });
+    expect(engine.actions.isPressed('confirm')).toBe(true);
+
+    input('touch', 'cancel', { id: 1, x: 10, y: 10 });
+    expect(engine.actions.isPressed('confirm')).toBe(false);
+  });
+});
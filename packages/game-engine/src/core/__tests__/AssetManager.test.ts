@@ -0,0 +1,198 @@
+import { AssetManager } from '../AssetManager';
+import { GameEngine } from '../Engine';
+import type { Scene } from '../SceneManager';
+
+interface PendingFetch {
+  url: string;
+  resolve: () => void;
+  reject: () => void;
+}
+
+describe('AssetManager bundles', () => {
+  const realFetch = global.fetch;
+  let pending: PendingFetch[];
+  let failures: Map<string, number>; // Fetches left to fail per URL
+  let fetched: string[];
+
+  beforeEach(() => {
+    pending = [];
+    failures = new Map();
+    fetched = [];
+    // Text assets answer with their URL once the test settles them
+    global.fetch = jest.fn((url: string) => {
+      fetched.push(url);
+      return new Promise<Response>((resolve, reject) => {
+        const response = {
+          ok: true,
+          status: 200,
+          statusText: 'OK',
+          text: async () => url,
+        } as Response;
+        pending.push({
+          url,
+          resolve: () => resolve(response),
+          reject: () => reject(new Error('offline')),
+        });
+        const failuresLeft = failures.get(url) ?? 0;
+        if (failuresLeft > 0) {
+          failures.set(url, failuresLeft - 1);
+          reject(new Error('offline'));
+        }
+      });
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  // Let loads that are waiting on settled fetches run on
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  function settle(): void {
+    for (const request of pending.splice(0)) request.resolve();
+  }
+
+  function createAssets(): AssetManager {
+    const assets = new AssetManager();
+    assets.addManifest({
+      baseUrl: '/assets/',
+      bundles: {
+        farm: [
+          { id: 'ui', url: 'ui.txt', type: 'text' },
+          { id: 'farm', url: 'farm.txt', type: 'text' },
+        ],
+        shop: [
+          { id: 'ui', url: 'ui.txt', type: 'text' },
+          { id: 'shop', url: 'shop.txt', type: 'text' },
+        ],
+      },
+    });
+    return assets;
+  }
+
+  it('keeps shared assets until no loaded bundle uses them', async () => {
+    const assets = createAssets();
+    const loads = [assets.loadBundle('farm'), assets.loadBundle('shop')];
+    await flush();
+    settle();
+    await Promise.all(loads);
+
+    expect(assets.getText('ui')).toBe('/assets/ui.txt');
+    expect(fetched.filter(url => url === '/assets/ui.txt')).toHaveLength(1);
+
+    assets.unloadBundle('farm');
+    expect(assets.isAssetLoaded('farm')).toBe(false);
+    expect(assets.isAssetLoaded('ui')).toBe(true);
+
+    assets.unloadBundle('shop');
+    expect(assets.isAssetLoaded('ui')).toBe(false);
+    expect(assets.isAssetLoaded('shop')).toBe(false);
+  });
+
+  it('retries assets that fail to load', async () => {
+    const assets = createAssets();
+    const retries: unknown[] = [];
+    assets.on('asset-retry', event => retries.push(event));
+    failures.set('/assets/farm.txt', 1);
+
+    const load = assets.loadBundle('farm', { retryDelay: 0 });
+    await flush();
+    settle();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    settle();
+    await load;
+
+    expect(retries).toEqual([{ id: 'farm', attempt: 1 }]);
+    expect(assets.isBundleLoaded('farm')).toBe(true);
+  });
+
+  it('cancels a load when the bundle is unloaded before it finishes', async () => {
+    const assets = createAssets();
+    const load = assets.loadBundle('farm', { concurrency: 1 });
+    const result = load.catch((error: Error) => error.message);
+    await flush();
+
+    assets.unloadBundle('farm');
+    settle();
+
+    expect(await result).toBe("Bundle 'farm' was unloaded while loading");
+    expect(fetched).toEqual(['/assets/ui.txt']); // The rest never started
+    expect(assets.isAssetLoaded('ui')).toBe(false);
+
+    // Loading again afterwards works as normal
+    const reload = assets.loadBundle('farm');
+    await flush();
+    settle();
+    await flush();
+    settle();
+    await reload;
+    expect(assets.isBundleLoaded('farm')).toBe(true);
+  });
+
+  describe('scene bundles', () => {
+    let engine: GameEngine;
+
+    beforeEach(() => {
+      engine = new GameEngine({ width: 100, height: 100, headless: true });
+      engine.assetManager.addManifest({
+        bundles: {
+          art: [{ id: 'art', url: 'art.txt', type: 'text' }],
+          music: [{ id: 'music', url: 'music.txt', type: 'text' }],
+        },
+      });
+    });
+
+    afterEach(() => {
+      engine.destroy();
+    });
+
+    function addScene(name: string, bundles: string[]): Scene {
+      const scene: Scene = { name, active: false, bundles };
+      engine.sceneManager.addScene(scene);
+      return scene;
+    }
+
+    it('releases the bundles that loaded when a sibling fails', async () => {
+      addScene('level', ['art', 'music']);
+      failures.set('music.txt', Infinity);
+
+      const switched = engine.sceneManager.switchToScene('level');
+      const result = switched.catch((error: Error) => error.message);
+      await flush();
+      settle();
+
+      // music retries twice before giving up
+      expect(await result).toBe('Failed to load text: music.txt');
+      expect(engine.assetManager.isAssetLoaded('art')).toBe(false);
+
+      // art is free again, so another scene owns it outright
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      addScene('gallery', ['art']);
+      const gallery = engine.sceneManager.switchToScene('gallery');
+      await flush();
+      settle();
+      await gallery;
+      expect(engine.assetManager.isAssetLoaded('art')).toBe(true);
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('lets go of an overlay popped before its bundles load', async () => {
+      addScene('hint', ['art']);
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      engine.sceneManager.pushScene('hint');
+      engine.sceneManager.popScene();
+      settle();
+      await flush();
+      await flush();
+
+      expect(engine.assetManager.isAssetLoaded('art')).toBe(false);
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+      error.mockRestore();
+    });
+  });
+});
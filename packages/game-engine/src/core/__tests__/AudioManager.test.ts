@@ -0,0 +1,271 @@
+import { AudioManager } from '../AudioManager';
+import { GameEngine } from '../Engine';
+import { AudioSystem } from '../../systems/AudioSystem';
+import { AudioEmitter } from '../../components/AudioComponents';
+import { Transform } from '../../components/CoreComponents';
+
+// Minimal Web Audio graph: nodes record their connections and parameters
+// their automation, so tests can follow a sound to the destination
+
+class FakeParam {
+  public ramps: Array<[number, number]> = [];
+
+  constructor(public value: number) {}
+
+  setValueAtTime(value: number): void {
+    this.value = value;
+  }
+
+  linearRampToValueAtTime(value: number, time: number): void {
+    this.ramps.push([value, time]);
+  }
+
+  cancelScheduledValues(): void {}
+}
+
+class FakeNode {
+  public outputs: FakeNode[] = [];
+
+  connect(node: FakeNode): void {
+    this.outputs.push(node);
+  }
+
+  disconnect(): void {
+    this.outputs = [];
+  }
+}
+
+class FakeGain extends FakeNode {
+  public gain = new FakeParam(1);
+}
+
+class FakePanner extends FakeNode {
+  public positionX = new FakeParam(0);
+  public positionY = new FakeParam(0);
+  public positionZ = new FakeParam(0);
+}
+
+class FakeSource extends FakeNode {
+  public buffer: { duration: number } | null = null;
+  public loop = false;
+  public playbackRate = new FakeParam(1);
+  public started: [number, number] | null = null;
+  public stoppedAt: number | null = null;
+  private listeners: Array<() => void> = [];
+
+  start(when: number, offset: number): void {
+    this.started = [when, offset];
+  }
+
+  stop(when = 0): void {
+    this.stoppedAt = when;
+  }
+
+  addEventListener(_type: 'ended', listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  end(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+class FakeAudioContext {
+  public currentTime = 0;
+  public state = 'running';
+  public destination = new FakeNode();
+  public listener = new FakePanner();
+  public sources: FakeSource[] = [];
+
+  createGain(): FakeGain {
+    return new FakeGain();
+  }
+
+  createPanner(): FakePanner {
+    return new FakePanner();
+  }
+
+  createBufferSource(): FakeSource {
+    const source = new FakeSource();
+    this.sources.push(source);
+    return source;
+  }
+
+  async resume(): Promise<void> {}
+
+  async close(): Promise<void> {
+    this.state = 'closed';
+  }
+}
+
+// Product of the gains from a node to the destination
+function outputLevel(node: FakeNode, context: FakeAudioContext): number {
+  if (node === context.destination) return 1;
+  const [next] = node.outputs;
+  if (!next) return 0;
+  const gain = node instanceof FakeGain ? node.gain.value : 1;
+  return gain * outputLevel(next, context);
+}
+
+function buffer(duration: number): AudioBuffer {
+  return { duration } as AudioBuffer;
+}
+
+async function createAudio(): Promise<{
+  audio: AudioManager;
+  context: FakeAudioContext;
+}> {
+  const context = new FakeAudioContext();
+  const audio = new AudioManager({
+    context: context as unknown as AudioContext,
+    masterVolume: 0.8,
+    sfxVolume: 0.5,
+  });
+  await audio.initialize();
+  audio.addSound({ id: 'pop', url: '', category: 'sfx', buffer: buffer(1) });
+  audio.addSound({
+    id: 'theme',
+    url: '',
+    category: 'music',
+    buffer: buffer(60),
+  });
+  audio.addSound({ id: 'hint', url: '', category: 'voice', buffer: buffer(2) });
+  return { audio, context };
+}
+
+describe('AudioManager', () => {
+  it('starts sounds through their category and master gain', async () => {
+    const { audio, context } = await createAudio();
+
+    const playingId = audio.playSound('pop', { volume: 0.5, startTime: 0.25 });
+
+    const [source] = context.sources;
+    expect(playingId).not.toBeNull();
+    expect(audio.isPlaying(playingId!)).toBe(true);
+    expect(source.started).toEqual([0, 0.25]);
+    expect(outputLevel(source, context)).toBeCloseTo(0.5 * 0.5 * 0.8);
+
+    audio.setSFXVolume(1);
+    expect(outputLevel(source, context)).toBeCloseTo(0.5 * 0.8);
+
+    audio.setMuted(true);
+    expect(outputLevel(source, context)).toBe(0);
+    expect(audio.playSound('pop')).toBeNull();
+  });
+
+  it('stops sounds at once or after a fade', async () => {
+    const { audio, context } = await createAudio();
+    const first = audio.playSound('pop')!;
+    const second = audio.playSound('pop')!;
+    const [firstSource, secondSource] = context.sources;
+
+    audio.stopSound(first);
+    expect(firstSource.stoppedAt).toBe(0);
+    expect(audio.isPlaying(first)).toBe(false);
+
+    context.currentTime = 3;
+    audio.stopSound(second, 0.5);
+    expect(secondSource.stoppedAt).toBe(3.5);
+    expect(audio.isPlaying(second)).toBe(true); // Until the fade ends
+
+    secondSource.end();
+    expect(audio.isPlaying(second)).toBe(false);
+    expect(audio.getActiveSourceCount()).toBe(0);
+  });
+
+  it('ducks music under voice-over and restores it afterwards', async () => {
+    const { audio, context } = await createAudio();
+    audio.playMusic('theme');
+    const music = context.sources[0];
+    expect(outputLevel(music, context)).toBeCloseTo(0.7 * 0.8);
+
+    expect(audio.playVoice('hint')).toBe('played');
+    expect(audio.playVoice('hint')).toBe('queued');
+
+    // Music passes through the ducking stage on its way to the master gain
+    const duck = music.outputs[0].outputs[0].outputs[0] as FakeGain;
+    expect(duck.gain.ramps).toEqual([[0.3, 0.3]]);
+
+    context.sources[1].end();
+    expect(audio.isVoicePlaying()).toBe(true); // The queued line
+    context.sources[2].end();
+    expect(audio.isVoicePlaying()).toBe(false);
+    expect(duck.gain.ramps[duck.gain.ramps.length - 1]).toEqual([1, 0.6]);
+  });
+});
+
+describe('AudioSystem', () => {
+  it('plays, moves and stops emitter sounds with their entities', async () => {
+    const engine = new GameEngine({ width: 320, height: 240, headless: true });
+    const { audio, context } = await createAudio();
+    engine.audioManager.destroy();
+    engine.audioManager = audio;
+    engine.systemManager.addSystem(new AudioSystem(engine));
+
+    const cart = engine.entityManager.createEntity();
+    const transform = engine.entityManager.addComponent(cart.id, Transform, {
+      x: 100,
+      y: 50,
+      width: 20,
+      height: 10,
+    });
+    const emitter = engine.entityManager.addComponent(cart.id, AudioEmitter, {
+      sound: 'pop',
+      loop: true,
+      stopFade: 0.2,
+    });
+    engine.step(1);
+
+    const [source] = context.sources;
+    const panner = source.outputs[0].outputs[0] as FakePanner;
+    expect(emitter.playingId).not.toBeNull();
+    expect([panner.positionX.value, panner.positionZ.value]).toEqual([110, 55]);
+
+    transform.x = 200;
+    engine.step(1);
+    expect(panner.positionX.value).toBe(210);
+
+    emitter.playing = false;
+    engine.step(1);
+    expect(emitter.playingId).toBeNull();
+    expect(source.stoppedAt).toBe(0.2);
+    expect(context.sources).toHaveLength(1);
+
+    emitter.playing = true;
+    engine.step(1);
+    engine.entityManager.destroyEntity(cart.id);
+    expect(context.sources[1].stoppedAt).toBe(0.2);
+    engine.destroy();
+  });
+
+  it('stops emitters that are removed or whose entity is deactivated', async () => {
+    const engine = new GameEngine({ width: 320, height: 240, headless: true });
+    const { audio, context } = await createAudio();
+    engine.audioManager.destroy();
+    engine.audioManager = audio;
+    engine.systemManager.addSystem(new AudioSystem(engine));
+
+    const fountain = engine.entityManager.createEntity();
+    engine.entityManager.addComponent(fountain.id, Transform);
+    const emitter = engine.entityManager.addComponent(
+      fountain.id,
+      AudioEmitter,
+      { sound: 'pop', loop: true }
+    );
+    engine.step(1);
+
+    engine.entityManager.setEntityActive(fountain.id, false);
+    expect(context.sources[0].stoppedAt).not.toBeNull();
+    expect(emitter.playingId).toBeNull();
+
+    // Back on, the loop starts again
+    engine.entityManager.setEntityActive(fountain.id, true);
+    engine.step(1);
+    expect(context.sources).toHaveLength(2);
+
+    engine.entityManager.removeComponent(fountain.id, AudioEmitter);
+    expect(context.sources[1].stoppedAt).not.toBeNull();
+    expect(emitter.playingId).toBeNull();
+    engine.destroy();
+  });
+});
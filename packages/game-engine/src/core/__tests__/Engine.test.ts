@@ -0,0 +1,61 @@
+import { GameEngine } from '../Engine';
+import { RecordingContext2D } from '../RecordingContext';
+import { Transform, Velocity } from '../../components/CoreComponents';
+
+function createEngine(context = new RecordingContext2D()): GameEngine {
+  return new GameEngine({
+    width: 320,
+    height: 240,
+    headless: true,
+    context,
+    defaultSystems: true,
+  });
+}
+
+describe('GameEngine.step', () => {
+  it('advances the manual clock by whole frames', () => {
+    const engine = createEngine();
+
+    engine.step(3);
+
+    expect(engine.currentFrame).toBe(3);
+    expect(engine.engineClock.now()).toBeCloseTo(3 * (1000 / 60));
+    engine.destroy();
+  });
+
+  it('moves entities with velocity at a fixed timestep', () => {
+    const engine = createEngine();
+    const entity = engine.entityManager.createEntity();
+    const transform = engine.entityManager.addComponent(entity.id, Transform);
+    engine.entityManager.addComponent(entity.id, Velocity, { x: 60, y: -30 });
+
+    engine.step(60);
+
+    expect(transform.x).toBeCloseTo(60);
+    expect(transform.y).toBeCloseTo(-30);
+    engine.destroy();
+  });
+
+  it('renders once per step into the recording context', async () => {
+    const context = new RecordingContext2D();
+    const engine = createEngine(context);
+    const frames: number[] = [];
+    engine.on('render', () => frames.push(engine.currentFrame));
+    engine.sceneManager.addScene({
+      name: 'board',
+      active: false,
+      render: renderer => renderer.drawRect(10, 20, 30, 40, '#ff0000'),
+    });
+
+    await engine.sceneManager.switchToScene('board');
+    context.calls = [];
+    engine.step(2);
+
+    expect(frames).toEqual([2]);
+    expect(context.calls).toContainEqual({
+      method: 'fillRect',
+      args: [10, 20, 30, 40, '#ff0000'],
+    });
+    engine.destroy();
+  });
+});
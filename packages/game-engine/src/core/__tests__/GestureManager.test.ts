@@ -0,0 +1,152 @@
+/**
+ * @jest-environment jsdom
+ */
+import { GameEngine } from '../Engine';
+import { RecordingContext2D } from '../RecordingContext';
+import type { GestureEvent } from '../GestureRecognizer';
+import { UILayer } from '../../ui/UILayer';
+import { UIButton } from '../../ui/Widgets';
+
+describe('GestureManager', () => {
+  let engine: GameEngine;
+  let gestures: Array<[string, string]>;
+
+  function createEngine(canvas?: HTMLCanvasElement): void {
+    engine = new GameEngine({
+      canvas,
+      width: 320,
+      height: 240,
+      headless: true,
+      context: new RecordingContext2D({ record: false }),
+    });
+    gestures = [];
+    engine.gestures.on('gesture', (event: GestureEvent) =>
+      gestures.push([event.type, event.phase])
+    );
+  }
+
+  function touch(
+    action: 'down' | 'move' | 'up' | 'cancel',
+    id: number,
+    x: number,
+    y: number
+  ): void {
+    engine.inputManager.injectEvent({
+      type: 'touch',
+      action,
+      data: { id, x, y },
+      timestamp: engine.engineClock.now(),
+    });
+    engine.step();
+  }
+
+  function pinch(): void {
+    touch('down', 1, 100, 100);
+    touch('down', 2, 140, 100);
+    touch('move', 2, 180, 100);
+    touch('move', 2, 200, 100);
+    touch('up', 1, 100, 100);
+    touch('up', 2, 200, 100);
+  }
+
+  function doubleTap(x: number, y: number): void {
+    for (let i = 0; i < 2; i++) {
+      touch('down', 1, x, y);
+      touch('up', 1, x, y);
+    }
+  }
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it('recognises a pinch and reports how far it scaled', () => {
+    createEngine();
+    const scales: number[] = [];
+    engine.gestures.on('pinch', (event: GestureEvent) => {
+      if (event.phase !== 'end') scales.push(event.scale!);
+    });
+
+    pinch();
+
+    expect(gestures.filter(([type]) => type === 'pinch')).toEqual([
+      ['pinch', 'start'],
+      ['pinch', 'move'],
+      ['pinch', 'end'],
+    ]);
+    expect(scales).toEqual([2, 2.5]);
+  });
+
+  it('recognises a double tap only when the taps are close in time', () => {
+    createEngine();
+
+    doubleTap(50, 50);
+    expect(gestures).toEqual([['double-tap', 'end']]);
+
+    touch('down', 1, 50, 50);
+    touch('up', 1, 50, 50);
+    engine.step(30); // Longer than the tap interval
+    touch('down', 1, 50, 50);
+    touch('up', 1, 50, 50);
+    expect(gestures).toEqual([['double-tap', 'end']]);
+  });
+
+  it('drops touches the browser cancels and recovers for the next gesture', () => {
+    const canvas = document.createElement('canvas');
+    createEngine(canvas);
+    canvas.getBoundingClientRect = () =>
+      ({ left: 0, top: 0, width: 320, height: 240 }) as DOMRect;
+
+    const dispatch = (type: string, ...touches: Array<[number, number]>) => {
+      const event = new Event(type, { cancelable: true });
+      Object.defineProperty(event, 'changedTouches', {
+        value: touches.map(([identifier, clientX]) => ({
+          identifier,
+          clientX,
+          clientY: 100,
+        })),
+      });
+      canvas.dispatchEvent(event);
+      engine.step();
+    };
+
+    dispatch('touchstart', [1, 100], [2, 140]);
+    dispatch('touchmove', [2, 200]);
+    dispatch('touchcancel', [1, 100], [2, 200]);
+
+    expect(gestures).toEqual([
+      ['two-finger-pan', 'start'],
+      ['pinch', 'start'],
+      ['two-finger-pan', 'cancel'],
+      ['pinch', 'cancel'],
+    ]);
+    expect(engine.gestures.getPointers()).toEqual([]);
+    expect(engine.inputManager.getState().touch.active).toBe(false);
+
+    gestures = [];
+    pinch();
+    doubleTap(50, 50);
+    expect(gestures).toContainEqual(['pinch', 'end']);
+    expect(gestures).toContainEqual(['double-tap', 'end']);
+  });
+
+  it('ignores presses that land on a UI widget', () => {
+    createEngine();
+    const ui = new UILayer(engine);
+    engine.systemManager.addSystem(ui);
+    let clicks = 0;
+    ui.add(
+      new UIButton({
+        text: 'OK',
+        width: 100,
+        height: 100,
+        onClick: () => clicks++,
+      })
+    );
+
+    doubleTap(50, 50);
+
+    expect(clicks).toBe(2);
+    expect(gestures).toEqual([]);
+  });
+});
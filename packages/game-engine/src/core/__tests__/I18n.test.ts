@@ -0,0 +1,128 @@
+import { I18n } from '../I18n';
+import type { LocaleChangeEvent } from '../I18n';
+import { GameEngine } from '../Engine';
+
+describe('I18n', () => {
+  let i18n: I18n;
+
+  beforeEach(() => {
+    i18n = new I18n();
+    i18n.addMessages('en', {
+      menu: { play: 'Play', quit: 'Quit' },
+      seeds: '{count, plural, =0 {No seeds} one {# seed} other {# seeds}} left',
+      party:
+        '{count, plural, offset:1 =0 {Nobody} =1 {You} one {You and # friend} other {You and # friends}}',
+      place: '{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}',
+      planted:
+        '{gender, select, female {She} male {He} other {They}} planted {crop}',
+    });
+  });
+
+  it('falls back from the region to the language to the fallback locale', async () => {
+    i18n.addMessages('pt', { menu: { play: 'Jogar' } });
+    const missing: unknown[] = [];
+    i18n.on('missing-key', event => missing.push(event));
+
+    await i18n.setLocale('pt-BR');
+
+    expect(i18n.t('menu.play')).toBe('Jogar');
+    expect(i18n.t('menu.quit')).toBe('Quit');
+    expect(i18n.has('menu.help')).toBe(false);
+    expect(i18n.t('menu.help')).toBe('menu.help');
+    expect(missing).toEqual([{ key: 'menu.help', locale: 'pt-BR' }]);
+  });
+
+  it('formats plurals, ordinals and selects for the locale', () => {
+    expect(i18n.t('seeds', { count: 0 })).toBe('No seeds left');
+    expect(i18n.t('seeds', { count: 1 })).toBe('1 seed left');
+    expect(i18n.t('seeds', { count: 1234 })).toBe('1,234 seeds left');
+
+    expect(i18n.t('party', { count: 1 })).toBe('You');
+    expect(i18n.t('party', { count: 2 })).toBe('You and 1 friend');
+    expect(i18n.t('party', { count: 3 })).toBe('You and 2 friends');
+
+    expect([1, 2, 3, 4, 11, 22].map(n => i18n.t('place', { n }))).toEqual([
+      '1st',
+      '2nd',
+      '3rd',
+      '4th',
+      '11th',
+      '22nd',
+    ]);
+
+    expect(i18n.t('planted', { gender: 'female', crop: 'carrots' })).toBe(
+      'She planted carrots'
+    );
+    expect(i18n.t('planted', { gender: 'x' })).toBe('They planted {crop}');
+  });
+
+  it('picks plural categories with the active locale rules', async () => {
+    i18n.addMessages('ru', {
+      apples:
+        '{n, plural, one {# яблоко} few {# яблока} many {# яблок} other {# яблока}}',
+    });
+    await i18n.setLocale('ru');
+
+    expect([1, 2, 5, 21].map(n => i18n.t('apples', { n }))).toEqual([
+      '1 яблоко',
+      '2 яблока',
+      '5 яблок',
+      '21 яблоко',
+    ]);
+  });
+
+  it('reports right-to-left languages', () => {
+    expect(i18n.getDirection()).toBe('ltr');
+    expect(i18n.isRTL('ar-EG')).toBe(true);
+    expect(i18n.getDirection('he')).toBe('rtl');
+  });
+
+  it('rejects malformed messages', () => {
+    expect(() => i18n.format('{n, plural, one {# seed}')).toThrow(
+      "Unterminated '{n}' in message: {n, plural, one {# seed}"
+    );
+    expect(() => i18n.format('{n, number, integer}')).toThrow(
+      "Unsupported message format 'number': {n, number, integer}"
+    );
+  });
+});
+
+describe('engine localization', () => {
+  const realFetch = global.fetch;
+  let fetched: string[];
+
+  beforeEach(() => {
+    fetched = [];
+    global.fetch = jest.fn(async (url: string) => {
+      fetched.push(url);
+      return { ok: true, json: async () => ({ menu: { play: 'العب' } }) };
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  it('loads catalogs from JSON assets and switches text direction', async () => {
+    const engine = new GameEngine({ width: 320, height: 240, headless: true });
+    engine.assetManager.addAsset('ar-catalog', 'locales/ar.json', 'json');
+    engine.i18n.registerCatalog('ar', 'ar-catalog');
+    const changes: LocaleChangeEvent[] = [];
+    engine.on('locale-changed', change => changes.push(change));
+
+    await engine.i18n.setLocale('ar');
+
+    expect(fetched).toEqual(['locales/ar.json']);
+    expect(engine.i18n.t('menu.play')).toBe('العب');
+    expect(engine.i18n.getAvailableLocales()).toEqual(['ar']);
+    expect(changes).toEqual([
+      { locale: 'ar', previous: 'en', direction: 'rtl' },
+    ]);
+    expect(engine.renderer.getTextDirection()).toBe('rtl');
+
+    await engine.i18n.setLocale('ar'); // Already active: no reload, no event
+    expect(fetched).toHaveLength(1);
+    expect(changes).toHaveLength(1);
+    engine.destroy();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @jest-environment jsdom
+ */
+import { GameEngine } from '../Engine';
+import { InputRecorder, InputReplayer } from '../InputRecorder';
+import { RecordingContext2D } from '../RecordingContext';
+import type { InputEvent } from '../InputManager';
+
+function createEngine(canvas?: HTMLCanvasElement): GameEngine {
+  return new GameEngine({
+    canvas,
+    width: 320,
+    height: 240,
+    headless: true,
+    context: new RecordingContext2D({ record: false }),
+  });
+}
+
+function click(x: number, y: number, action: 'down' | 'up'): InputEvent {
+  return { type: 'mouse', action, data: { button: 0, x, y }, timestamp: 0 };
+}
+
+describe('InputReplayer', () => {
+  it('replays recorded events on the frames they were recorded in', async () => {
+    const engine = createEngine();
+    const recorder = new InputRecorder(engine);
+    recorder.start();
+    engine.step(2);
+    engine.inputManager.queueEvent(click(10, 20, 'down'));
+    engine.step(3);
+    engine.inputManager.queueEvent(click(10, 20, 'up'));
+    engine.step(1);
+    const recording = recorder.stop()!;
+
+    const replayed: Array<[number, string]> = [];
+    const replayEngine = createEngine();
+    replayEngine.inputManager.on('input', (event: InputEvent) =>
+      replayed.push([replayEngine.currentFrame, event.action])
+    );
+    const replayer = new InputReplayer(replayEngine, recording);
+    await replayer.start();
+    replayEngine.step(recording.frameCount);
+
+    expect(recording.events.map(event => event.frame)).toEqual([3, 6]);
+    expect(replayed).toEqual([
+      [3, 'down'],
+      [6, 'up'],
+    ]);
+    expect(replayer.isPlaying).toBe(false);
+    engine.destroy();
+    replayEngine.destroy();
+  });
+
+  it('keeps live input off when the canvas is focused during a replay', async () => {
+    const canvas = document.createElement('canvas');
+    const engine = createEngine(canvas);
+    const live: InputEvent[] = [];
+    engine.inputManager.on('input', (event: InputEvent) => live.push(event));
+    const replayer = new InputReplayer(engine, {
+      version: 1,
+      seed: 1,
+      scene: null,
+      targetFPS: 60,
+      frameCount: 10,
+      events: [],
+    });
+
+    await replayer.start();
+    canvas.dispatchEvent(new FocusEvent('focus'));
+    canvas.dispatchEvent(new MouseEvent('mousedown', { button: 0 }));
+    engine.step(1);
+
+    expect(engine.inputManager.isReplaying).toBe(true);
+    expect(live).toEqual([]);
+
+    replayer.stop();
+    canvas.dispatchEvent(new MouseEvent('mousedown', { button: 0 }));
+    engine.step(1);
+
+    expect(engine.inputManager.isReplaying).toBe(false);
+    expect(live.map(event => event.action)).toEqual(['down']);
+    engine.destroy();
+  });
+});
+
+describe('InputRecorder.download', () => {
+  it('revokes the download URL only after the download has started', () => {
+    jest.useFakeTimers();
+    // jsdom has no object URLs, so stand them in for the test
+    const createObjectURL = jest.fn(() => 'blob:recording');
+    const revokeObjectURL = jest.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const clicked = jest
+      .spyOn(HTMLAnchorElement.prototype, 'click')
+      .mockImplementation(function (this: HTMLAnchorElement) {
+        expect(this.href).toBe('blob:recording');
+        expect(this.download).toBe('run.json');
+      });
+
+    InputRecorder.download(
+      {
+        version: 1,
+        seed: 1,
+        scene: null,
+        targetFPS: 60,
+        frameCount: 0,
+        events: [],
+      },
+      'run.json'
+    );
+
+    expect(clicked).toHaveBeenCalled();
+    expect(revokeObjectURL).not.toHaveBeenCalled();
+    jest.runAllTimers();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:recording');
+
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+});
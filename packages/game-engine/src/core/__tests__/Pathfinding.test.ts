@@ -0,0 +1,128 @@
+import { NavGrid, findPath } from '../Pathfinding';
+import type { GridPoint } from '../Pathfinding';
+
+const cells = (...points: Array<[number, number]>): GridPoint[] =>
+  points.map(([col, row]) => ({ col, row }));
+
+describe('findPath', () => {
+  describe('equal-cost ties', () => {
+    it('prefers the cell nearer the goal, then the earlier neighbour', () => {
+      const grid = new NavGrid(3, 3);
+
+      expect(findPath(grid, { col: 0, row: 0 }, { col: 2, row: 2 })).toEqual(
+        cells([0, 0], [1, 0], [2, 0], [2, 1], [2, 2])
+      );
+    });
+
+    it('returns the same path on every search', () => {
+      const grid = new NavGrid(12, 12);
+      grid.setCost(5, 5, 0);
+      grid.setCost(6, 4, 3);
+      const search = (): GridPoint[] | null =>
+        findPath(
+          grid,
+          { col: 1, row: 2 },
+          { col: 10, row: 9 },
+          {
+            diagonals: 'always',
+          }
+        );
+
+      const first = search();
+      expect(first).not.toBeNull();
+      for (let i = 0; i < 5; i++) {
+        expect(search()).toEqual(first);
+        expect(
+          findPath(
+            grid.clone(),
+            { col: 1, row: 2 },
+            { col: 10, row: 9 },
+            {
+              diagonals: 'always',
+            }
+          )
+        ).toEqual(first);
+      }
+    });
+  });
+
+  describe('blocked goals', () => {
+    // The goal at (3, 2) is walled in
+    const grid = NavGrid.fromArray([
+      [1, 1, 1, 1, 1],
+      [1, 1, 0, 0, 0],
+      [1, 1, 0, 1, 0],
+      [1, 1, 0, 0, 0],
+    ]);
+
+    it('finds no path to a blocked or walled-in goal', () => {
+      expect(findPath(grid, { col: 0, row: 3 }, { col: 2, row: 2 })).toBeNull();
+      expect(findPath(grid, { col: 0, row: 3 }, { col: 3, row: 2 })).toBeNull();
+    });
+
+    it('paths to the first of the nearest reachable cells with closest', () => {
+      expect(
+        findPath(
+          grid,
+          { col: 0, row: 3 },
+          { col: 3, row: 2 },
+          { closest: true }
+        )
+      ).toEqual(cells([0, 3], [0, 2], [1, 2]));
+      expect(
+        findPath(
+          grid,
+          { col: 0, row: 3 },
+          { col: 2, row: 2 },
+          { closest: true }
+        )
+      ).toEqual(cells([0, 3], [0, 2], [1, 2]));
+    });
+
+    it('finds no path from a blocked start', () => {
+      expect(
+        findPath(
+          grid,
+          { col: 2, row: 1 },
+          { col: 0, row: 0 },
+          { closest: true }
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('diagonal corner-cutting', () => {
+    it('cuts a blocked corner only when allowed', () => {
+      const grid = NavGrid.fromArray([
+        [1, 0],
+        [1, 1],
+      ]);
+      const start = { col: 0, row: 0 };
+      const goal = { col: 1, row: 1 };
+
+      expect(findPath(grid, start, goal, { diagonals: 'always' })).toEqual(
+        cells([0, 0], [1, 1])
+      );
+      expect(
+        findPath(grid, start, goal, { diagonals: 'no-corner-cutting' })
+      ).toEqual(cells([0, 0], [0, 1], [1, 1]));
+    });
+
+    it('blocks the gap between two diagonal walls unless corners may be cut', () => {
+      const grid = NavGrid.fromArray([
+        [1, 0],
+        [0, 1],
+      ]);
+      const start = { col: 0, row: 0 };
+      const goal = { col: 1, row: 1 };
+
+      expect(findPath(grid, start, goal, { diagonals: 'always' })).toEqual(
+        cells([0, 0], [1, 1])
+      );
+      expect(
+        findPath(grid, start, goal, { diagonals: 'no-corner-cutting' })
+      ).toBeNull();
+      expect(findPath(grid, start, goal)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { PhysicsWorld } from '../PhysicsWorld';
+import type { RigidBody, Shape } from '../PhysicsWorld';
+
+function createBody(id: string, x: number, y: number, shape: Shape): RigidBody {
+  return {
+    id,
+    position: { x, y },
+    velocity: { x: 0, y: 0 },
+    acceleration: { x: 0, y: 0 },
+    mass: 1,
+    drag: 0,
+    elasticity: 0,
+    static: true,
+    shape,
+    collisionLayer: 1,
+    collisionMask: 0xffff,
+  };
+}
+
+describe('PhysicsWorld.raycast', () => {
+  let world: PhysicsWorld;
+
+  beforeEach(() => {
+    world = new PhysicsWorld();
+  });
+
+  afterEach(() => {
+    world.destroy();
+  });
+
+  it('ends a diagonal ray that lands exactly on a cell corner', () => {
+    world.addBody(createBody('target', 120, -120, { x: 0, y: 0, radius: 8 }));
+
+    const hit = world.raycast(
+      { x: 0, y: 0 },
+      { x: 1, y: -1 },
+      128 * Math.SQRT2
+    );
+
+    expect(hit?.body.id).toBe('target');
+    expect(hit?.distance).toBeCloseTo(120 * Math.SQRT2 - 8);
+  });
+
+  it('ends near-axis rays built from an angle', () => {
+    const angle = (3 * Math.PI) / 2; // Straight up; cos() is -1.8e-16, not 0
+    const direction = { x: Math.cos(angle), y: Math.sin(angle) };
+    world.addBody(createBody('ceiling', 0, -250, { x: 0, y: 0, radius: 10 }));
+
+    const fromLine = world.raycast({ x: 0, y: 0 }, direction, 300);
+    const fromCell = world.raycast({ x: 32, y: 0 }, direction, 300);
+
+    expect(fromLine?.body.id).toBe('ceiling');
+    expect(fromLine?.distance).toBeCloseTo(240);
+    expect(fromCell).toBeNull();
+  });
+
+  it('hits bodies in every direction from a grid corner', () => {
+    for (let degrees = 0; degrees < 360; degrees += 15) {
+      const angle = (degrees * Math.PI) / 180;
+      const direction = { x: Math.cos(angle), y: Math.sin(angle) };
+      const id = `ring-${degrees}`;
+      world.addBody(
+        createBody(id, 64 + direction.x * 100, 64 + direction.y * 100, {
+          x: 0,
+          y: 0,
+          radius: 4,
+        })
+      );
+
+      const hit = world.raycast({ x: 64, y: 64 }, direction, 100);
+
+      expect(hit?.body.id).toBe(id);
+      expect(hit?.distance).toBeCloseTo(96);
+    }
+  });
+
+  it('ignores bodies past the maximum distance', () => {
+    world.addBody(createBody('far', 300, 0, { x: 0, y: 0, radius: 10 }));
+
+    expect(world.raycast({ x: 0, y: 0 }, { x: 1, y: 0 }, 200)).toBeNull();
+    expect(world.raycast({ x: 0, y: 0 }, { x: 1, y: 0 }, 290)?.body.id).toBe(
+      'far'
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { Profiler } from '../Profiler';
+import type { FrameSample } from '../Profiler';
+import { GameEngine } from '../Engine';
+import { RecordingContext2D } from '../RecordingContext';
+
+describe('Profiler', () => {
+  let time: number;
+  let profiler: Profiler;
+
+  beforeEach(() => {
+    time = 0;
+    profiler = new Profiler({ now: () => time });
+    profiler.enable();
+  });
+
+  // One frame starting at `start` with `input` ms of input and `update` ms
+  // in a system
+  function frame(start: number, input: number, update: number): void {
+    time = start;
+    profiler.beginFrame(start);
+    profiler.begin('input');
+    time += input;
+    profiler.end();
+    profiler.begin('update', 'system');
+    time += update;
+    profiler.end();
+    profiler.endFrame({ entities: 3, drawCalls: 7 });
+  }
+
+  it('times phases and systems per frame', () => {
+    frame(0, 2, 3);
+    frame(20, 4, 1);
+
+    expect(profiler.getLastFrame()).toMatchObject({
+      time: 5,
+      interval: 20,
+      phases: { input: 4 },
+      systems: { update: 1 },
+      entities: 3,
+      drawCalls: 7,
+    });
+    expect(profiler.getSummary()).toMatchObject({
+      frames: 2,
+      fps: 50,
+      avgTime: 5,
+      maxTime: 5,
+      phases: { input: 3 },
+      systems: { update: 2 },
+    });
+  });
+
+  it('buckets frame times into a histogram', () => {
+    frame(0, 1, 1);
+    frame(20, 10, 0);
+    frame(40, 30, 30);
+
+    expect(profiler.getHistogram()).toEqual([
+      { upTo: 4, count: 1 },
+      { upTo: 8, count: 0 },
+      { upTo: 16.7, count: 1 },
+      { upTo: 33.3, count: 0 },
+      { upTo: 50, count: 0 },
+      { upTo: 100, count: 1 },
+      { upTo: Infinity, count: 0 },
+    ]);
+  });
+
+  it('flags long gaps the frame work does not explain as GC pauses', () => {
+    const pauses: FrameSample[] = [];
+    profiler.on('gc-suspected', sample => pauses.push(sample));
+
+    for (let i = 0; i < 12; i++) frame(i * 16, 1, 1);
+    frame(12 * 16 + 80, 1, 1);
+
+    expect(pauses.map(sample => sample.interval)).toEqual([96]);
+    expect(profiler.getGcPauseCount()).toBe(1);
+  });
+
+  it('records spans as Chrome trace events', () => {
+    time = 1000;
+    profiler.startTrace();
+    frame(1000, 2, 3);
+    const trace = profiler.stopTrace();
+
+    expect(trace.displayTimeUnit).toBe('ms');
+    expect(trace.traceEvents).toEqual([
+      expect.objectContaining({ ph: 'M', name: 'thread_name' }),
+      expect.objectContaining({ name: 'input', ph: 'X', ts: 0, dur: 2000 }),
+      expect.objectContaining({ name: 'update', cat: 'system', ts: 2000 }),
+      expect.objectContaining({ name: 'Frame', ph: 'X', dur: 5000 }),
+      expect.objectContaining({
+        name: 'Counters',
+        ph: 'C',
+        ts: 5000,
+        args: { entities: 3, drawCalls: 7 },
+      }),
+    ]);
+
+    frame(1020, 1, 1); // Not recorded once stopped
+    expect(profiler.exportTrace().traceEvents).toHaveLength(5);
+  });
+
+  it('revokes the trace download URL only after the download has started', () => {
+    jest.useFakeTimers();
+    const link = { href: '', download: '', click: jest.fn() };
+    const globals = globalThis as { document?: unknown };
+    globals.document = { createElement: () => link };
+    jest.spyOn(URL, 'createObjectURL').mockReturnValue('blob:trace');
+    const revoke = jest
+      .spyOn(URL, 'revokeObjectURL')
+      .mockImplementation(() => {});
+
+    profiler.downloadTrace();
+
+    expect(link).toMatchObject({
+      href: 'blob:trace',
+      download: 'engine-trace.json',
+    });
+    expect(link.click).toHaveBeenCalled();
+    expect(revoke).not.toHaveBeenCalled();
+    jest.runAllTimers();
+    expect(revoke).toHaveBeenCalledWith('blob:trace');
+
+    delete globals.document;
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('profiles the engine loop and draws the overlay', () => {
+    const context = new RecordingContext2D();
+    const engine = new GameEngine({
+      width: 400,
+      height: 300,
+      headless: true,
+      defaultSystems: true,
+      profile: true,
+      context,
+    });
+    engine.entityManager.createEntity();
+
+    engine.step();
+
+    const sample = engine.profiler.getLastFrame()!;
+    expect(Object.keys(sample.phases)).toEqual(
+      expect.arrayContaining(['input', 'systems', 'render'])
+    );
+    expect(Object.keys(sample.systems)).toEqual(
+      expect.arrayContaining(['movement', 'render.render'])
+    );
+    expect(sample.entities).toBe(1);
+    expect(context.getCalls('fillText')).toEqual([]);
+
+    engine.profiler.toggleOverlay();
+    engine.step();
+    expect(context.getCalls('fillText').length).toBeGreaterThan(0);
+    engine.destroy();
+  });
+});
@@ -0,0 +1,114 @@
+import { GameEngine } from '../Engine';
+import { SaveManager } from '../SaveManager';
+import { defineComponent } from '../Component';
+import { Transform, Velocity } from '../../components/CoreComponents';
+
+interface Crop {
+  kind: string;
+  growth: number;
+  watered: boolean; // Transient
+}
+
+const Crop = defineComponent<Crop>(
+  'test-crop',
+  () => ({ kind: 'wheat', growth: 0, watered: false }),
+  { transient: ['watered'] }
+);
+
+class Sprinkler {
+  public type = 'test-sprinkler';
+  public range = 3;
+}
+
+function createEngine(): GameEngine {
+  const engine = new GameEngine({
+    width: 320,
+    height: 240,
+    headless: true,
+    seed: 42,
+    defaultSystems: true,
+  });
+  engine.sceneManager.addScene({ name: 'farm', active: true });
+  return engine;
+}
+
+describe('SaveManager', () => {
+  it('restores entities, physics, scenes and the random seed', async () => {
+    const engine = createEngine();
+    await engine.sceneManager.switchToScene('farm');
+    const plot = engine.entityManager.createEntity(['plot']);
+    const transform = engine.entityManager.addComponent(plot.id, Transform, {
+      x: 10,
+      y: 20,
+    });
+    engine.entityManager.addComponent(plot.id, Velocity, { x: 5 });
+    engine.entityManager.addComponent(plot.id, Crop, {
+      kind: 'carrot',
+      growth: 0.5,
+      watered: true,
+    });
+    engine.physics.addBody({
+      id: 'rock',
+      position: { x: 40, y: 50 },
+      velocity: { x: 0, y: 0 },
+      acceleration: { x: 0, y: 0 },
+      mass: 1,
+      drag: 0,
+      elasticity: 0,
+      static: true,
+      shape: { x: 0, y: 0, radius: 8 },
+      collisionLayer: 1,
+      collisionMask: 1,
+      userData: { label: 'rock', image: new Map() },
+    });
+    engine.step(10);
+
+    const json = SaveManager.toJSON(
+      new SaveManager(engine, { storage: null }).save()
+    );
+    const expectedRolls = [engine.random.next(), engine.random.next()];
+    engine.destroy();
+
+    const restored = createEngine();
+    const saves = new SaveManager(restored, { storage: null });
+    await saves.load(SaveManager.fromJSON(json));
+
+    expect(restored.sceneManager.getCurrentScene()?.name).toBe('farm');
+    expect(restored.entityManager.getEntitiesByTag('plot')).toHaveLength(1);
+    expect(transform.x).toBeGreaterThan(10); // Moved before saving
+    expect(restored.entityManager.getComponent(plot.id, Transform)).toEqual(
+      transform
+    );
+    expect(restored.entityManager.getComponent(plot.id, Crop)).toEqual({
+      type: 'test-crop',
+      kind: 'carrot',
+      growth: 0.5,
+      watered: false,
+    });
+    expect(restored.physics.getBody('rock')?.userData).toEqual({
+      label: 'rock',
+    });
+    expect([restored.random.next(), restored.random.next()]).toEqual(
+      expectedRolls
+    );
+    restored.destroy();
+  });
+
+  it('names a component that has no plain data to save', () => {
+    const engine = createEngine();
+    const entity = engine.entityManager.createEntity();
+    engine.entityManager.addComponent(entity.id, new Sprinkler());
+    const saves = new SaveManager(engine, { storage: null });
+
+    expect(() => saves.save()).toThrow(
+      `Component 'test-sprinkler' on entity ${entity.id} is not a plain object`
+    );
+    expect(() =>
+      new SaveManager(engine, {
+        storage: null,
+        exclude: ['test-sprinkler'],
+      }).save()
+    ).not.toThrow();
+    engine.destroy();
+  });
+});
@@ -0,0 +1,247 @@
+import { GameEngine } from '../Engine';
+import { RecordingContext2D } from '../RecordingContext';
+import type { Scene } from '../SceneManager';
+
+// Let pending scene lifecycle promises settle between steps
+const flushPromises = (): Promise<void> =>
+  new Promise(resolve => setImmediate(resolve));
+
+function createScene(name: string, log: string[]): Scene {
+  return {
+    name,
+    active: true,
+    enter: () => {
+      log.push(`enter ${name}`);
+    },
+    exit: () => {
+      log.push(`exit ${name}`);
+    },
+    update: () => {
+      log.push(`update ${name}`);
+    },
+  };
+}
+
+describe('SceneManager', () => {
+  let engine: GameEngine;
+  let log: string[];
+
+  beforeEach(async () => {
+    engine = new GameEngine({ width: 320, height: 240, headless: true });
+    log = [];
+    engine.sceneManager.addScene(createScene('menu', log));
+    engine.sceneManager.addScene(createScene('farm', log));
+    engine.sceneManager.addScene(createScene('pause', log));
+    await engine.sceneManager.switchToScene('menu');
+    log.length = 0;
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it('switches instantly without a transition', async () => {
+    await engine.sceneManager.switchToScene('farm');
+
+    expect(log).toEqual(['exit menu', 'enter farm']);
+    expect(engine.sceneManager.getCurrentScene()?.name).toBe('farm');
+    expect(engine.sceneManager.isInTransition()).toBe(false);
+  });
+
+  it('drives animated transitions from the engine clock', async () => {
+    const events: string[] = [];
+    engine.sceneManager.on('scene-changed', () => events.push('changed'));
+    engine.sceneManager.on('transition-complete', () =>
+      events.push('complete')
+    );
+    let done = false;
+    void engine.sceneManager
+      .switchToScene('farm', { type: 'fade', duration: 500 })
+      .then(() => {
+        done = true;
+      });
+
+    // 0.2s in: still before the halfway swap
+    engine.step(12);
+    await flushPromises();
+    expect(engine.sceneManager.getCurrentScene()?.name).toBe('menu');
+    expect(engine.sceneManager.isInTransition()).toBe(true);
+
+    // Past halfway: scenes swap, the fade is still playing
+    engine.step(6);
+    await flushPromises();
+    expect(engine.sceneManager.getCurrentScene()?.name).toBe('farm');
+    expect(events).toEqual(['changed']);
+    expect(done).toBe(false);
+
+    // Past the full duration
+    engine.step(13);
+    await flushPromises();
+    expect(engine.sceneManager.isInTransition()).toBe(false);
+    expect(events).toEqual(['changed', 'complete']);
+    expect(done).toBe(true);
+  });
+
+  it('finishes a transition stepped past its end in one call', async () => {
+    const switched = engine.sceneManager.switchToScene('farm', {
+      type: 'slide',
+      duration: 200,
+      direction: 'left',
+    });
+
+    engine.step(60);
+    await switched;
+
+    expect(engine.sceneManager.getCurrentScene()?.name).toBe('farm');
+    expect(engine.sceneManager.isInTransition()).toBe(false);
+  });
+
+  it('pauses the scene under a modal overlay until it is popped', () => {
+    engine.sceneManager.pushScene('pause');
+    engine.step(1);
+
+    expect(log).toEqual(['enter pause', 'update pause']);
+    expect(engine.sceneManager.isScenePaused('menu')).toBe(true);
+    expect(engine.sceneManager.isInputBlocked()).toBe(true);
+
+    log.length = 0;
+    engine.sceneManager.popScene();
+    engine.step(1);
+
+    expect(log).toEqual(['exit pause', 'update menu']);
+    expect(engine.sceneManager.isScenePaused('menu')).toBe(false);
+  });
+
+  it('keeps a popped overlay until its transition has played out', () => {
+    engine.sceneManager.pushScene('pause', {
+      pauseBelow: false,
+      transition: { type: 'fade', duration: 100 },
+    });
+    engine.step(10);
+    log.length = 0;
+
+    engine.sceneManager.popScene();
+    engine.step(3);
+    expect(log).not.toContain('exit pause');
+
+    engine.step(4);
+    expect(log).toContain('exit pause');
+    expect(engine.sceneManager.getSceneStack()).toEqual([]);
+  });
+
+  it('offers input to overlays first and stops at one that blocks it', () => {
+    const offered: string[] = [];
+    for (const name of ['menu', 'farm', 'pause']) {
+      engine.sceneManager.getScene(name)!.handleInput = () => {
+        offered.push(name);
+        return false;
+      };
+    }
+    const click = { type: 'mouse', action: 'down', data: {} };
+
+    engine.sceneManager.pushScene('farm', {
+      pauseBelow: false,
+      blockInput: false,
+    });
+    engine.sceneManager.handleInput(click);
+    expect(offered).toEqual(['farm', 'menu']);
+    expect(engine.sceneManager.isInputBlocked()).toBe(false);
+
+    offered.length = 0;
+    engine.sceneManager.pushScene('pause');
+    engine.sceneManager.handleInput(click);
+    expect(offered).toEqual(['pause']);
+    expect(engine.sceneManager.isInputBlocked()).toBe(true);
+  });
+
+  it('scales scene and world time', () => {
+    const menu: number[] = [];
+    const pause: number[] = [];
+    const world: number[] = [];
+    engine.sceneManager.getScene('menu')!.update = deltaTime => {
+      menu.push(deltaTime);
+    };
+    engine.sceneManager.getScene('pause')!.update = deltaTime => {
+      pause.push(deltaTime);
+    };
+    engine.systemManager.addSystem({
+      name: 'world',
+      priority: 0,
+      enabled: true,
+      update: deltaTime => {
+        world.push(deltaTime);
+      },
+    });
+    const frame = 1 / 60;
+
+    engine.sceneManager.setTimeScale('menu', 0.5);
+    engine.step();
+    expect(menu[0]).toBeCloseTo(frame / 2, 6);
+    expect(world[0]).toBeCloseTo(frame / 2, 6);
+
+    engine.sceneManager.pushScene('pause', { timeScale: 2 });
+    engine.step();
+    expect(engine.sceneManager.getWorldTimeScale()).toBe(0);
+    expect(menu).toHaveLength(1); // Paused
+    expect(pause[0]).toBeCloseTo(frame * 2, 6);
+    expect(world[1]).toBe(0);
+  });
+
+  it('dims the scenes below with the overlay backdrop', async () => {
+    const context = new RecordingContext2D();
+    const dimmed = new GameEngine({
+      width: 320,
+      height: 240,
+      headless: true,
+      context,
+    });
+    dimmed.sceneManager.addScene(createScene('farm', log));
+    dimmed.sceneManager.addScene(createScene('hint', log));
+    await dimmed.sceneManager.switchToScene('farm');
+
+    dimmed.sceneManager.pushScene('hint', {
+      backdrop: '#102030',
+      backdropAlpha: 0.6,
+    });
+    dimmed.step();
+    expect(context.getCalls('fillRect').map(call => call.args)).toContainEqual([
+      0,
+      0,
+      320,
+      240,
+      '#102030',
+    ]);
+
+    context.clearCalls();
+    dimmed.sceneManager.popScene();
+    dimmed.step();
+    expect(
+      context.getCalls('fillRect').map(call => call.args)
+    ).not.toContainEqual([0, 0, 320, 240, '#102030']);
+    dimmed.destroy();
+  });
+
+  it('restores the overlay stack with its policies and time scales', async () => {
+    engine.sceneManager.pushScene('farm', {
+      pauseBelow: false,
+      blockInput: false,
+      timeScale: 0.25,
+    });
+    engine.sceneManager.pushScene('pause', { backdrop: '#000000' });
+    const state = engine.sceneManager.getState();
+
+    while (engine.sceneManager.popScene()) {
+      // Empty the stack
+    }
+    await engine.sceneManager.setState(state);
+
+    expect(engine.sceneManager.getState()).toEqual(state);
+    expect(state.stack).toEqual(['farm', 'pause']);
+    expect(engine.sceneManager.getTimeScale('farm')).toBe(0.25);
+    expect(engine.sceneManager.getOverlayPolicy('pause')).toMatchObject({
+      pauseBelow: true,
+      backdrop: '#000000',
+    });
+    expect(engine.sceneManager.isScenePaused('farm')).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+import { GameEngine } from '../Engine';
+import type { System } from '../SystemManager';
+
+describe('SystemManager', () => {
+  let engine: GameEngine;
+  let calls: string[];
+
+  beforeEach(() => {
+    engine = new GameEngine({ width: 100, height: 100, headless: true });
+    calls = [];
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  function createSystem(
+    name: string,
+    priority: number,
+    order: Pick<System, 'before' | 'after'> = {}
+  ): System {
+    return {
+      name,
+      priority,
+      enabled: true,
+      ...order,
+      update: () => calls.push(`${name}.update`),
+      render: () => calls.push(`${name}.render`),
+    };
+  }
+
+  it('orders systems by their dependencies, then by priority', () => {
+    const systems = engine.systemManager;
+    systems.addSystem(createSystem('hud', 0, { after: ['world'] }));
+    systems.addSystem(createSystem('world', 5));
+    systems.addSystem(createSystem('input', 10, { before: ['world'] }));
+    systems.addSystem(createSystem('audio', 1, { after: ['missing'] }));
+
+    expect(systems.getExecutionOrder()).toEqual([
+      'audio',
+      'input',
+      'world',
+      'hud',
+    ]);
+  });
+
+  it('falls back to priority order when dependencies form a cycle', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const orderErrors: unknown[] = [];
+    engine.systemManager.on('system-order-error', event =>
+      orderErrors.push(event)
+    );
+
+    engine.systemManager.addSystem(createSystem('a', 2, { after: ['b'] }));
+    engine.systemManager.addSystem(createSystem('b', 1, { after: ['a'] }));
+
+    expect(engine.systemManager.getExecutionOrder()).toEqual(['b', 'a']);
+    expect(orderErrors).toHaveLength(1);
+    error.mockRestore();
+  });
+
+  it('updates every fixed step and renders once per frame', () => {
+    engine.systemManager.addSystem(createSystem('logic', 0));
+
+    engine.step(2);
+
+    expect(calls).toEqual(['logic.update', 'logic.update', 'logic.render']);
+  });
+
+  it('keeps running the other systems when one throws', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const broken = createSystem('broken', 0);
+    broken.update = () => {
+      throw new Error('boom');
+    };
+    engine.systemManager.addSystem(broken);
+    engine.systemManager.addSystem(createSystem('after', 1));
+
+    engine.step();
+
+    expect(calls).toEqual(['after.update', 'broken.render', 'after.render']);
+    error.mockRestore();
+  });
+
+  it('installs the default systems in pipeline order', () => {
+    engine.installDefaultSystems();
+
+    expect(engine.systemManager.getExecutionOrder()).toEqual([
+      'movement',
+      'physics',
+      'animation',
+      'render',
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  drawTextLayout,
+  getFontSize,
+  layoutText,
+  withFontSize,
+} from '../TextLayout';
+import type { TextMeasure } from '../TextLayout';
+import { CanvasRenderer } from '../CanvasRenderer';
+import { RecordingContext2D } from '../RecordingContext';
+
+// Every character is half an em wide
+const measure: TextMeasure = (text, font) =>
+  (text.length * getFontSize(font)) / 2;
+
+describe('layoutText', () => {
+  it('wraps at word boundaries and breaks words wider than a line', () => {
+    const layout = layoutText(
+      'the quick brown fox\nabcdefghijklmnop',
+      '16px sans-serif',
+      { maxWidth: 80, measure }
+    );
+
+    expect(layout.lines.map(line => line.text)).toEqual([
+      'the quick',
+      'brown fox',
+      'abcdefghij',
+      'klmnop',
+    ]);
+    expect(layout).toMatchObject({
+      width: 80,
+      lineHeight: 20,
+      height: 80,
+      overflow: false,
+    });
+  });
+
+  it('shrinks the font until the text fits its box', () => {
+    const layout = layoutText('hello world', 'bold 16px sans-serif', {
+      maxWidth: 80,
+      wrap: false,
+      measure,
+    });
+    expect(layout).toMatchObject({
+      font: 'bold 14px sans-serif',
+      fontSize: 14,
+      overflow: false,
+    });
+
+    const tall = layoutText('one two three', '16px sans-serif', {
+      maxWidth: 60,
+      maxHeight: 30,
+      measure,
+    });
+    expect(tall.fontSize).toBe(12);
+    expect(tall.lines.map(line => line.text)).toEqual(['one two', 'three']);
+
+    const tooLong = layoutText('a very long line of text', '16px serif', {
+      maxWidth: 20,
+      wrap: false,
+      measure,
+    });
+    expect(tooLong).toMatchObject({ fontSize: 8, overflow: true });
+  });
+
+  it('cuts extra lines with an ellipsis', () => {
+    const layout = layoutText('one two three four', '16px sans-serif', {
+      maxWidth: 40,
+      maxLines: 2,
+      measure,
+    });
+
+    expect(layout.lines.map(line => line.text)).toEqual(['one', 'two…']);
+    expect(layout.overflow).toBe(true);
+  });
+
+  it('changes only the pixel size of a font', () => {
+    expect(withFontSize('italic 12px Georgia', 20)).toBe('italic 20px Georgia');
+    expect(withFontSize('Georgia', 20)).toBe('20px Georgia');
+    expect(getFontSize('Georgia')).toBe(16);
+  });
+});
+
+describe('drawTextLayout', () => {
+  it('aligns lines to the start of the box for the text direction', () => {
+    const context = new RecordingContext2D();
+    const renderer = new CanvasRenderer(context.asContext2D(), {
+      width: 320,
+      height: 240,
+    });
+    const layout = layoutText('seeds', '16px sans-serif', { measure });
+
+    drawTextLayout(renderer, layout, 10, 0, '#000', { width: 100 });
+    drawTextLayout(renderer, layout, 10, 0, '#000', {
+      width: 100,
+      direction: 'rtl',
+    });
+    drawTextLayout(renderer, layout, 10, 0, '#000', {
+      width: 100,
+      align: 'center',
+    });
+
+    expect(
+      context.getCalls('fillText').map(call => call.args.slice(0, 3))
+    ).toEqual([
+      ['seeds', 10, 2],
+      ['seeds', 110, 2],
+      ['seeds', 60, 2],
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+import { GameEngine } from '../Engine';
+import { RecordingContext2D } from '../RecordingContext';
+import { TextureAtlas } from '../TextureAtlas';
+import type { AtlasData } from '../TextureAtlas';
+import {
+  Sprite,
+  SpriteAnimation,
+  Transform,
+} from '../../components/CoreComponents';
+
+const image = { width: 128, height: 64 } as HTMLCanvasElement;
+
+// Hash format, with frames added out of numeric order
+const heroData: AtlasData = {
+  frames: {
+    walk_10: { frame: { x: 64, y: 0, w: 16, h: 32 } },
+    walk_1: { frame: { x: 0, y: 0, w: 16, h: 32 } },
+    walk_2: { frame: { x: 16, y: 0, w: 16, h: 32 } },
+    coin: {
+      frame: { x: 32, y: 0, w: 12, h: 10 },
+      trimmed: true,
+      spriteSourceSize: { x: 2, y: 3, w: 12, h: 10 },
+      sourceSize: { w: 16, h: 16 },
+    },
+    sign: {
+      frame: { x: 96, y: 0, w: 16, h: 32 },
+      rotated: true,
+    },
+  },
+  animations: { idle: ['walk_1', 'walk_1', 'walk_2'] },
+  meta: { image: 'hero.png' },
+};
+
+describe('TextureAtlas', () => {
+  it('reads the array format the same as the hash format', () => {
+    const frames = Object.entries(heroData.frames).map(([filename, frame]) => ({
+      filename,
+      ...frame,
+    }));
+    const atlas = new TextureAtlas({ frames }, image);
+
+    expect(atlas.getFrameNames()).toEqual(
+      new TextureAtlas(heroData, image).getFrameNames()
+    );
+    expect(atlas.getFrame('coin')).toMatchObject({
+      width: 12,
+      height: 10,
+      offsetX: 2,
+      offsetY: 3,
+      sourceWidth: 16,
+      sourceHeight: 16,
+    });
+  });
+
+  it('builds animations from frame-name prefixes and declared animations', () => {
+    const atlas = new TextureAtlas(heroData, image);
+
+    const walk = atlas.createAnimation('walk_', { frameTime: 0.2 });
+    expect(walk.frames.map(frame => frame.name)).toEqual([
+      'walk_1',
+      'walk_2',
+      'walk_10',
+    ]);
+    expect(walk.frames[1]).toEqual({
+      name: 'walk_2',
+      x: 16,
+      y: 0,
+      width: 16,
+      height: 32,
+    });
+    expect(walk.frameTime).toBe(0.2);
+
+    expect(
+      atlas.createAnimation('idle').frames.map(frame => frame.name)
+    ).toEqual(['walk_1', 'walk_1', 'walk_2']);
+    expect(() => atlas.createAnimation('run_')).toThrow(
+      "No atlas frames match 'run_'"
+    );
+  });
+
+  it('restores trim offsets and rotation when drawing', () => {
+    const atlas = new TextureAtlas(heroData, image);
+    const context = new RecordingContext2D();
+    const ctx = context.asContext2D();
+
+    // Drawn at twice the original 16x16 size
+    atlas.drawFrame(ctx, 'coin', 100, 100, 32, 32);
+    expect(context.getCalls('drawImage')[0]!.args.slice(1)).toEqual([
+      32, 0, 12, 10, 104, 106, 24, 20,
+    ]);
+
+    context.clearCalls();
+    atlas.drawFrame(ctx, 'sign', 0, 0);
+    expect(context.getCalls('rotate')[0]!.args).toEqual([-Math.PI / 2]);
+    expect(context.getCalls('drawImage')[0]!.args.slice(1)).toEqual([
+      96, 0, 32, 16, 0, 0, 32, 16,
+    ]);
+
+    expect(atlas.drawFrame(ctx, 'missing', 0, 0)).toBe(false);
+  });
+});
+
+describe('atlas assets', () => {
+  const realFetch = global.fetch;
+  const globals = globalThis as { Image?: unknown };
+  let images: string[];
+
+  beforeEach(() => {
+    images = [];
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      json: async () => heroData,
+    })) as unknown as typeof fetch;
+    // Images "load" on the next tick
+    globals.Image = class {
+      public width = 128;
+      public height = 64;
+      public onload: (() => void) | null = null;
+      public set src(url: string) {
+        images.push(url);
+        setTimeout(() => this.onload?.());
+      }
+    };
+  });
+
+  afterEach(() => {
+    global.fetch = realFetch;
+    delete globals.Image;
+  });
+
+  it('loads the image next to the JSON and draws sprites by frame name', async () => {
+    const context = new RecordingContext2D();
+    const engine = new GameEngine({
+      width: 320,
+      height: 240,
+      headless: true,
+      defaultSystems: true,
+      context,
+    });
+    engine.assetManager.addAsset('hero', 'sprites/hero.json', 'atlas');
+    await engine.assetManager.loadAsset('hero');
+
+    expect(images).toEqual(['sprites/hero.png']);
+    const atlas = engine.assetManager.getAtlas('hero')!;
+
+    const entity = engine.entityManager.createEntity();
+    engine.entityManager.addComponent(entity.id, Transform, {
+      width: 16,
+      height: 32,
+    });
+    engine.entityManager.addComponent(entity.id, Sprite, {
+      imageUrl: 'hero',
+      frame: 'walk_1',
+    });
+    engine.entityManager.addComponent(
+      entity.id,
+      SpriteAnimation,
+      atlas.createAnimation('walk_', { frameTime: 1 / 60 })
+    );
+
+    context.clearCalls();
+    engine.step();
+
+    const sources = context
+      .getCalls('drawImage')
+      .map(call => call.args.slice(1, 3));
+    expect(sources).toEqual([[16, 0]]); // Advanced to walk_2
+    engine.destroy();
+  });
+});
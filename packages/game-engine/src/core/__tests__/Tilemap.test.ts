@@ -0,0 +1,149 @@
+import { CanvasRenderer } from '../CanvasRenderer';
+import { RecordingContext2D } from '../RecordingContext';
+import { Tilemap, Tileset, TILEMAP_FORMAT_VERSION } from '../Tilemap';
+import type { TilemapData } from '../Tilemap';
+
+// Stands in for a 4x4 tile atlas image
+const atlas = { width: 64, height: 64 } as HTMLCanvasElement;
+
+function createMapData(): TilemapData {
+  return {
+    version: TILEMAP_FORMAT_VERSION,
+    width: 3,
+    height: 2,
+    tileWidth: 16,
+    tileHeight: 16,
+    tileset: {
+      name: 'farm',
+      image: 'tiles.png',
+      tileWidth: 16,
+      tileHeight: 16,
+      tiles: { '2': { solid: true } },
+    },
+    layers: [
+      {
+        name: 'ground',
+        data: [
+          [1, 1, 1],
+          [1, 2, 1],
+        ],
+      },
+      { name: 'crops', data: [0, 3, 0, 0, 0, 4], opacity: 0.5 },
+    ],
+    properties: { season: 'spring' },
+  };
+}
+
+function createRenderer(context: RecordingContext2D): CanvasRenderer {
+  return new CanvasRenderer(context.asContext2D(), { width: 320, height: 240 });
+}
+
+describe('Tileset', () => {
+  it('finds tiles in the atlas, allowing for margin and spacing', () => {
+    const tileset = new Tileset(
+      {
+        name: 'padded',
+        image: 'padded.png',
+        tileWidth: 16,
+        tileHeight: 16,
+        margin: 1,
+        spacing: 2,
+      },
+      { width: 56, height: 56 } as HTMLCanvasElement
+    );
+
+    expect(tileset.getColumns()).toBe(3);
+    expect(tileset.getTileRect(0)).toBeNull();
+    expect(tileset.getTileRect(1)).toEqual({
+      x: 1,
+      y: 1,
+      width: 16,
+      height: 16,
+    });
+    expect(tileset.getTileRect(5)).toEqual({
+      x: 19,
+      y: 19,
+      width: 16,
+      height: 16,
+    });
+  });
+});
+
+describe('Tilemap', () => {
+  it('reads and writes the JSON map format', () => {
+    const tilemap = Tilemap.fromJSON(createMapData(), atlas);
+
+    expect(tilemap.getTile('ground', 1, 1)).toBe(2);
+    expect(tilemap.getTile('crops', 2, 1)).toBe(4);
+    expect(tilemap.getTileProperties('ground', 1, 1)).toEqual({ solid: true });
+    expect(tilemap.getLayer('crops')!.opacity).toBe(0.5);
+    expect(tilemap.properties).toEqual({ season: 'spring' });
+
+    const data = tilemap.toJSON();
+    expect(data.layers[1]!.data).toEqual([
+      [0, 3, 0],
+      [0, 0, 4],
+    ]);
+    expect(Tilemap.fromJSON(data).toJSON()).toEqual(data);
+  });
+
+  it('rejects maps it cannot read', () => {
+    const data = createMapData();
+    expect(() => Tilemap.fromJSON({ ...data, version: 99 })).toThrow(
+      'Unsupported tilemap version: 99'
+    );
+
+    data.layers[0]!.data = [1, 1];
+    expect(() => Tilemap.fromJSON(data)).toThrow(
+      "Tilemap layer 'ground' has 2 tiles, expected 6"
+    );
+  });
+
+  it('converts between tiles, world and screen positions', () => {
+    const renderer = createRenderer(new RecordingContext2D());
+    const tilemap = Tilemap.fromJSON(createMapData(), atlas);
+    tilemap.x = 100;
+    tilemap.y = 50;
+
+    expect(tilemap.tileToWorld(2, 1)).toEqual({ x: 132, y: 66 });
+    expect(tilemap.tileCenterToWorld(2, 1)).toEqual({ x: 140, y: 74 });
+    expect(tilemap.worldToTile(99, 66)).toEqual({ col: -1, row: 1 });
+
+    renderer.setCameraPosition(100, 50);
+    renderer.setCameraZoom(2);
+    const screen = tilemap.tileToScreen(renderer, 2, 1);
+    expect(screen).toEqual(renderer.worldToScreen(132, 66));
+    expect(tilemap.screenToTile(renderer, screen.x + 1, screen.y + 1)).toEqual({
+      col: 2,
+      row: 1,
+    });
+  });
+
+  it('draws only the chunks inside the camera view', () => {
+    const context = new RecordingContext2D();
+    const renderer = createRenderer(context);
+    const tileset = new Tileset(
+      { name: 'grass', image: 'grass.png', tileWidth: 16, tileHeight: 16 },
+      atlas
+    );
+    const tilemap = new Tilemap({
+      width: 64,
+      height: 64,
+      tileWidth: 16,
+      tileHeight: 16,
+      tileset,
+    });
+    tilemap.addLayer('ground');
+    tilemap.fill('ground', 1);
+    tilemap.setTile('ground', 20, 0, 0); // An empty tile is skipped
+
+    // The view spans x 96-416 and y 8-248, so two chunks of the top row
+    renderer.setCameraPosition(256, 128);
+    renderer.applyCameraTransform();
+    const drawn = renderer.drawTilemap(tilemap);
+    renderer.restore();
+
+    expect(drawn).toBe(2);
+    expect(context.getCalls('drawImage')).toHaveLength(2 * 16 * 16 - 1);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * @jest-environment jsdom
+ */
+import { GameEngine } from '../Engine';
+import { RecordingContext2D } from '../RecordingContext';
+
+describe('WebGL fallback', () => {
+  it('draws through Canvas2D when the browser has no WebGL2 context', async () => {
+    const context = new RecordingContext2D();
+    const requested: string[] = [];
+    const getContext = jest
+      .spyOn(HTMLCanvasElement.prototype, 'getContext')
+      .mockImplementation((type: string) => {
+        requested.push(type);
+        return type === '2d' ? context.asContext2D() : null;
+      });
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const engine = new GameEngine({
+      canvas: document.createElement('canvas'),
+      width: 320,
+      height: 240,
+      headless: true,
+      enableWebGL: true,
+    });
+    engine.sceneManager.addScene({
+      name: 'board',
+      active: false,
+      render: renderer => renderer.drawRect(10, 20, 30, 40, '#ff0000'),
+    });
+    await engine.sceneManager.switchToScene('board');
+    engine.step();
+
+    expect(requested).toEqual(['webgl2', '2d']);
+    expect(warn).toHaveBeenCalledWith(
+      'WebGL2 not supported, falling back to 2D context'
+    );
+    expect(engine.renderer.getBackend()).toBe('canvas2d');
+    expect(context.getCalls('fillRect')).toContainEqual({
+      method: 'fillRect',
+      args: [10, 20, 30, 40, '#ff0000'],
+    });
+
+    engine.destroy();
+    getContext.mockRestore();
+    warn.mockRestore();
+  });
+});
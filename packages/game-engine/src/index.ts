@@ -5,33 +5,370 @@
 // Core engine
 export { GameEngine } from './core/Engine';
 export type { EngineConfig } from './core/Engine';
+export {
+  SystemClock,
+  ManualClock,
+  AnimationFrameDriver,
+  ManualFrameDriver,
+} from './core/Clock';
+export type { EngineClock, FrameDriver } from './core/Clock';
+export { SeededRandom } from './core/Random';
+export { Profiler } from './core/Profiler';
+export type {
+  FrameSample,
+  HistogramBucket,
+  ProfilerCategory,
+  ProfilerOptions,
+  ProfilerSummary,
+  TraceData,
+  TraceEvent,
+} from './core/Profiler';
 
 // Core systems
 export { EventEmitter } from './core/EventEmitter';
 export { EntityManager } from './core/EntityManager';
-export type { Entity, Component } from './core/EntityManager';
+export type { Entity, EntityId, Component } from './core/EntityManager';
+export { defineComponent, ComponentRegistry } from './core/Component';
+export type {
+  ComponentType,
+  ComponentKey,
+  ComponentMigration,
+  ComponentOptions,
+} from './core/Component';
+export { Query } from './core/Query';
+export type { QueryRow } from './core/Query';
 export { SystemManager } from './core/SystemManager';
+export type { System } from './core/SystemManager';
 export { SceneManager } from './core/SceneManager';
-export type { Scene, SceneTransition } from './core/SceneManager';
+export type {
+  OverlayOptions,
+  OverlayPolicy,
+  Scene,
+  SceneStackState,
+  SceneTransition,
+} from './core/SceneManager';
+export { LoadingScene } from './scenes/LoadingScene';
+export type { LoadingSceneOptions } from './scenes/LoadingScene';
+export { SaveManager, SAVE_STATE_VERSION } from './core/SaveManager';
+export type {
+  ComponentRef,
+  SaveData,
+  SavedEntity,
+  SaveManagerOptions,
+  SaveMigration,
+} from './core/SaveManager';
+
+// Components
+export {
+  Transform,
+  Sprite,
+  Velocity,
+  SpriteAnimation,
+  PhysicsBody,
+} from './components/CoreComponents';
+export type { SpriteAnimationFrame } from './components/CoreComponents';
+export { Draggable, DropTarget } from './components/DragDropComponents';
+export {
+  ParticleEmitter,
+  ParticlePresets,
+} from './components/ParticleComponents';
+export type {
+  EmitterShape,
+  ParticleCurve,
+  ParticleEmitterConfig,
+  ParticlePresetName,
+  ParticleShape,
+} from './components/ParticleComponents';
+export { Hierarchy, Interactive } from './components/SceneGraphComponents';
+export { AudioEmitter } from './components/AudioComponents';
+export { Steering } from './components/NavigationComponents';
+export type { SteeringBehavior } from './components/NavigationComponents';
+export { Text } from './components/TextComponents';
+export { Accessible } from './components/AccessibilityComponents';
+export type {
+  AccessibleRole,
+  AccessibleState,
+  LivePoliteness,
+} from './components/AccessibilityComponents';
+export type {
+  ScenePointerEvent,
+  ScenePointerEventType,
+} from './components/SceneGraphComponents';
+
+// Systems
+export {
+  RenderSystem,
+  MovementSystem,
+  AnimationSystem,
+  PhysicsSystem,
+  createDefaultSystems,
+} from './systems/CoreSystems';
+export { DragDropSystem } from './systems/DragDropSystem';
+export { ParticleSystem } from './systems/ParticleSystem';
+export type { ParticleSystemOptions } from './systems/ParticleSystem';
+export { SceneGraphSystem } from './systems/SceneGraphSystem';
+export { SwitchScanSystem } from './systems/SwitchScanSystem';
+export { AudioSystem } from './systems/AudioSystem';
+export { SteeringSystem } from './systems/SteeringSystem';
+export type { SteeringSystemOptions } from './systems/SteeringSystem';
+export { TextSystem } from './systems/TextSystem';
+export { AccessibilitySystem } from './systems/AccessibilitySystem';
+export type {
+  AccessibilityPreferences,
+  AccessibilitySystemOptions,
+} from './systems/AccessibilitySystem';
+export type {
+  SwitchScanMode,
+  SwitchScanOptions,
+} from './systems/SwitchScanSystem';
+export type {
+  DragDropOptions,
+  DropRejectReason,
+} from './systems/DragDropSystem';
 
 // Input and interaction
-export { InputManager } from './core/InputManager';
+export { InputManager, GamepadButtons } from './core/InputManager';
 export type { InputEvent } from './core/InputManager';
+export {
+  ActionMap,
+  INPUT_BINDINGS_VERSION,
+  bindingKey,
+  describeBinding,
+} from './core/ActionMap';
+export type {
+  ActionBinding,
+  ActionDevice,
+  ActionEvent,
+  ActionMapOptions,
+  BindingCaptureOptions,
+  BindingStorage,
+  InputBindingsData,
+} from './core/ActionMap';
+export { InputRecorder, InputReplayer } from './core/InputRecorder';
+export type { InputRecording, RecordedInputEvent } from './core/InputRecorder';
+export { GestureManager } from './core/GestureManager';
+export type {
+  CameraGestureOptions,
+  GestureManagerOptions,
+} from './core/GestureManager';
+export {
+  GestureRecognizer,
+  TapRecognizer,
+  SwipeRecognizer,
+  DragRecognizer,
+  PinchRecognizer,
+  RotateRecognizer,
+  createDefaultRecognizers,
+} from './core/GestureRecognizer';
+export type {
+  DragOptions,
+  GestureEvent,
+  GesturePhase,
+  GesturePointer,
+  GestureState,
+  PinchOptions,
+  RotateOptions,
+  SwipeDirection,
+  SwipeOptions,
+  TapOptions,
+} from './core/GestureRecognizer';
 
 // Audio
 export { AudioManager } from './core/AudioManager';
+export type {
+  AudioCategory,
+  AudioConfig,
+  MusicOptions,
+  PlaylistOptions,
+  PlaySoundOptions,
+  PlayingSound,
+  Sound,
+  SoundGroup,
+  SpatialAudioOptions,
+  VoiceOptions,
+  VoiceResult,
+} from './core/AudioManager';
+
+// Music
+export {
+  CHORDS,
+  chord,
+  midiToFrequency,
+  midiToNoteName,
+  noteToFrequency,
+  toMidi,
+} from './audio/Notes';
+export type { ChordQuality, NoteEvent, NoteValue } from './audio/Notes';
+export {
+  Instrument,
+  SamplerInstrument,
+  SynthInstrument,
+} from './audio/Instruments';
+export type {
+  Envelope,
+  InstrumentOptions,
+  SamplerOptions,
+  ScheduledNote,
+  SynthOptions,
+} from './audio/Instruments';
+export { Transport } from './audio/Transport';
+export type {
+  TransportCallback,
+  TransportOptions,
+  TransportState,
+} from './audio/Transport';
+export { Part, StepSequencer } from './audio/Sequencer';
+export type {
+  PartOptions,
+  StepSequencerOptions,
+  StepTrack,
+} from './audio/Sequencer';
+export {
+  downloadAudioFile,
+  encodeWav,
+  exportMidi,
+  exportWav,
+  renderOffline,
+} from './audio/Export';
+export type {
+  MelodyTrack,
+  MidiExportOptions,
+  PcmSource,
+  WavExportOptions,
+} from './audio/Export';
 
 // Assets
 export { AssetManager } from './core/AssetManager';
+export type {
+  Asset,
+  AssetDescriptor,
+  AssetManifest,
+  BundleLoadOptions,
+  LoadProgress,
+} from './core/AssetManager';
+export { TextureAtlas } from './core/TextureAtlas';
+export type {
+  AtlasData,
+  AtlasFrame,
+  AtlasFrameData,
+} from './core/TextureAtlas';
 
 // Rendering
 export { CanvasRenderer } from './core/CanvasRenderer';
-export type { Camera } from './core/CanvasRenderer';
+export type {
+  Camera,
+  DrawContext,
+  RenderBackend,
+  RenderOptions,
+} from './core/CanvasRenderer';
+export { WebGLRenderer, isWebGL2Context } from './core/WebGLRenderer';
+export { RecordingContext2D, isContext2D } from './core/RecordingContext';
+export type { DrawCall } from './core/RecordingContext';
+export {
+  Tilemap,
+  Tileset,
+  TILEMAP_FORMAT_VERSION,
+  EMPTY_TILE,
+} from './core/Tilemap';
+export type {
+  TilemapData,
+  TilemapLayer,
+  TilemapLayerData,
+  TilesetData,
+  TileRect,
+} from './core/Tilemap';
+
+// UI
+export { UILayer } from './ui/UILayer';
+export type { UILayerOptions } from './ui/UILayer';
+export { Widget } from './ui/Widget';
+export type { UIAnchor, UIRect, WidgetOptions, WidgetState } from './ui/Widget';
+export {
+  UIButton,
+  UIProgress,
+  UIScoreDisplay,
+  UITimer,
+  formatScore,
+  formatTime,
+} from './ui/Widgets';
+export type {
+  UIButtonOptions,
+  UIButtonVariant,
+  UIProgressOptions,
+  UIScoreDisplayOptions,
+  UITimerFormat,
+  UITimerOptions,
+} from './ui/Widgets';
+export { defaultTheme, themeFont } from './ui/UITheme';
+export type { UIColor, UISize, UITheme } from './ui/UITheme';
+
+// Localization
+export { I18n } from './core/I18n';
+export type {
+  I18nOptions,
+  LocaleChangeEvent,
+  MessageCatalog,
+  MessageParams,
+  TextDirection,
+} from './core/I18n';
+export {
+  drawTextLayout,
+  getFontSize,
+  layoutText,
+  measureText,
+  withFontSize,
+} from './core/TextLayout';
+export type {
+  DrawTextLayoutOptions,
+  TextAlign,
+  TextLayout,
+  TextLayoutOptions,
+  TextLine,
+  TextMeasure,
+} from './core/TextLayout';
 
 // Physics
 export { PhysicsWorld } from './core/PhysicsWorld';
-export type { RigidBody, Collision } from './core/PhysicsWorld';
+export type {
+  AABB,
+  Circle,
+  Collision,
+  PhysicsQueryOptions,
+  PhysicsWorldState,
+  Polygon,
+  RaycastHit,
+  RigidBody,
+  Shape,
+  TriggerEvent,
+  Vector2,
+} from './core/PhysicsWorld';
+
+// Navigation
+export { NavGrid, findPath, smoothPath } from './core/Pathfinding';
+export type {
+  DiagonalMode,
+  GridPoint,
+  NavGridFromTilemapOptions,
+  PathOptions,
+} from './core/Pathfinding';
 
 // Animation
-export { AnimationManager } from './core/AnimationManager';
-export type { Animation, EasingFunction } from './core/AnimationManager';
+export { AnimationManager, Timeline } from './core/AnimationManager';
+export type {
+  Animation,
+  AnimationManagerState,
+  EasingFunction,
+  SavedAnimation,
+  SavedTimeline,
+  TimelineOptions,
+  TimelineState,
+} from './core/AnimationManager';
+export { AnimationClip, ANIMATION_CLIP_VERSION } from './core/AnimationClip';
+export type {
+  AnimationClipData,
+  ClipEasing,
+  ClipEvent,
+  ClipKeyframe,
+  ClipTargets,
+  ClipTrack,
+} from './core/AnimationClip';
@@ -0,0 +1,230 @@
+/**
+ * Loading Scene - Shows bundle load progress, then switches to a target scene
+ */
+
+import type { GameEngine } from '../core/Engine';
+import type { CanvasRenderer } from '../core/CanvasRenderer';
+import type { Scene, SceneTransition } from '../core/SceneManager';
+import type { BundleLoadOptions, LoadProgress } from '../core/AssetManager';
+
+export interface LoadingSceneOptions
+  extends Omit<BundleLoadOptions, 'onProgress'> {
+  name?: string;
+  minDuration?: number; // ms the screen stays up, to avoid flashes
+  transition?: SceneTransition; // Used when switching in and out
+  message?: string;
+  errorMessage?: string;
+  backgroundColor?: string;
+  trackColor?: string;
+  barColor?: string;
+  textColor?: string;
+  font?: string;
+}
+
+type LoadingState = 'idle' | 'loading' | 'ready' | 'switching' | 'error';
+
+/**
+ * Loading Scene - Add it once, then call load('target-scene') to show a
+ * progress bar while the target's bundles load. The loading scene holds its
+ * own bundle references until the target has taken over.
+ */
+export class LoadingScene implements Scene {
+  public name: string;
+  public active = true;
+
+  private engine!: GameEngine;
+  private options: LoadingSceneOptions;
+  private state: LoadingState = 'idle';
+  private target: string | null = null;
+  private targetBundles: string[] = [];
+  private heldBundles: string[] = [];
+  private bundleProgress: Map<string, number> = new Map();
+  private progress: LoadProgress = { loaded: 0, total: 0, percentage: 0 };
+  private enteredAt = 0;
+  private loadId = 0;
+
+  constructor(options: LoadingSceneOptions = {}) {
+    this.name = options.name ?? 'loading';
+    this.options = options;
+  }
+
+  public init(engine: GameEngine): void {
+    this.engine = engine;
+  }
+
+  /**
+   * Switch to a scene through the loading screen. Loads the given bundles,
+   * or the target scene's own bundles when omitted.
+   */
+  public async load(target: string, bundles?: string[]): Promise<void> {
+    const scene = this.engine.sceneManager.getScene(target);
+    if (!scene) {
+      throw new Error(`Scene '${target}' not found`);
+    }
+
+    this.target = target;
+    this.targetBundles = bundles ?? scene.bundles ?? [];
+    await this.engine.sceneManager.switchToScene(
+      this.name,
+      this.options.transition
+    );
+  }
+
+  /**
+   * Retry after a failed load
+   */
+  public retry(): void {
+    if (this.state !== 'error') return;
+    this.releaseHeldBundles();
+    this.startLoading();
+  }
+
+  /**
+   * Get the combined progress of all bundles being loaded
+   */
+  public getProgress(): LoadProgress {
+    return { ...this.progress };
+  }
+
+  public enter(engine: GameEngine): void {
+    this.engine = engine;
+    this.enteredAt = engine.engineClock.now();
+    this.startLoading();
+  }
+
+  public exit(): void {
+    // Invalidate loads still in flight; they release their own references
+    this.loadId++;
+    this.state = 'idle';
+    this.releaseHeldBundles();
+  }
+
+  public update(): void {
+    if (this.state !== 'ready' || !this.target) return;
+
+    const elapsed = this.engine.engineClock.now() - this.enteredAt;
+    if (elapsed < (this.options.minDuration ?? 0)) return;
+    if (this.engine.sceneManager.isInTransition()) return;
+
+    this.state = 'switching';
+    this.engine.sceneManager
+      .switchToScene(this.target, this.options.transition)
+      .catch(error => {
+        console.error(`Error switching to scene '${this.target}':`, error);
+      });
+  }
+
+  public render(renderer: CanvasRenderer): void {
+    const { width, height } = this.engine.engineConfig;
+    const barWidth = Math.min(width * 0.6, 400);
+    const barHeight = 16;
+    const x = (width - barWidth) / 2;
+    const y = height / 2;
+
+    renderer.drawRect(
+      0,
+      0,
+      width,
+      height,
+      this.options.backgroundColor ?? '#FFFFFF'
+    );
+    renderer.drawRect(
+      x,
+      y,
+      barWidth,
+      barHeight,
+      this.options.trackColor ?? '#E0E0E0'
+    );
+    renderer.drawRect(
+      x,
+      y,
+      (barWidth * this.progress.percentage) / 100,
+      barHeight,
+      this.options.barColor ?? '#4CAF50'
+    );
+
+    const text =
+      this.state === 'error'
+        ? (this.options.errorMessage ?? 'Something went wrong loading the game')
+        : `${this.options.message ?? 'Loading...'} ${Math.round(this.progress.percentage)}%`;
+
+    renderer.drawText(
+      text,
+      width / 2,
+      y - 32,
+      this.options.font ?? '20px sans-serif',
+      this.options.textColor ?? '#333333',
+      'center'
+    );
+  }
+
+  private startLoading(): void {
+    const loadId = ++this.loadId;
+    const { assetManager } = this.engine;
+    const bundles = this.targetBundles;
+
+    this.state = 'loading';
+    this.bundleProgress.clear();
+    this.updateProgress();
+
+    const loads = bundles.map(bundle =>
+      assetManager
+        .loadBundle(bundle, {
+          concurrency: this.options.concurrency,
+          retries: this.options.retries,
+          retryDelay: this.options.retryDelay,
+          onProgress: progress => {
+            if (loadId !== this.loadId) return;
+            this.bundleProgress.set(bundle, progress.loaded);
+            this.updateProgress(progress.currentAsset);
+          },
+        })
+        .then(() => {
+          // The scene was left mid-load; drop the reference we just took
+          if (loadId !== this.loadId) {
+            assetManager.unloadBundle(bundle);
+          } else {
+            this.heldBundles.push(bundle);
+          }
+        })
+    );
+
+    Promise.all(loads)
+      .then(() => {
+        if (loadId !== this.loadId) return;
+        this.state = 'ready';
+        this.engine.emit('loading-complete', { target: this.target });
+      })
+      .catch(error => {
+        if (loadId !== this.loadId) return;
+        this.state = 'error';
+        this.engine.emit('loading-error', { target: this.target, error });
+      });
+  }
+
+  private updateProgress(currentAsset?: string): void {
+    const { assetManager } = this.engine;
+    const total = this.targetBundles.reduce(
+      (sum, bundle) => sum + assetManager.getBundleAssets(bundle).length,
+      0
+    );
+    const loaded = Array.from(this.bundleProgress.values()).reduce(
+      (sum, count) => sum + count,
+      0
+    );
+
+    this.progress = {
+      loaded,
+      total,
+      percentage: total > 0 ? (loaded / total) * 100 : 100,
+      currentAsset,
+    };
+  }
+
+  private releaseHeldBundles(): void {
+    for (const bundle of this.heldBundles) {
+      this.engine.assetManager.unloadBundle(bundle);
+    }
+    this.heldBundles = [];
+  }
+}
@@ -0,0 +1,617 @@
+/**
+ * Accessibility System - Mirrors Accessible entities into an offscreen DOM
+ * for screen readers
+ */
+
+import type { GameEngine } from '../core/Engine';
+import type { CanvasRenderer } from '../core/CanvasRenderer';
+import type { Query } from '../core/Query';
+import type { System } from '../core/SystemManager';
+import type { EntityId } from '../core/EntityManager';
+import type { LocaleChangeEvent } from '../core/I18n';
+import { Transform } from '../components/CoreComponents';
+import { Hierarchy } from '../components/SceneGraphComponents';
+import { Accessible } from '../components/AccessibilityComponents';
+import type {
+  AccessibleRole,
+  LivePoliteness,
+} from '../components/AccessibilityComponents';
+import type { DragDropSystem } from './DragDropSystem';
+import type { ParticleSystem } from './ParticleSystem';
+import type { SceneGraphSystem } from './SceneGraphSystem';
+import type { SwitchScanSystem } from './SwitchScanSystem';
+import type { TextSystem } from './TextSystem';
+
+export interface AccessibilityPreferences {
+  highContrast: boolean;
+  reducedMotion: boolean;
+  largeText: boolean;
+}
+
+export interface AccessibilitySystemOptions {
+  container?: HTMLElement; // Parent for the mirror (default: next to the canvas)
+  root?: HTMLElement; // Element with the preference classes (default <html>)
+  label?: string; // Name of the mirrored group (default 'Game')
+  announceFocus?: boolean; // Read out UI and switch focus changes (default true)
+  largeTextScale?: number; // TextSystem scale under 'large-text' (default 1.25)
+  focusColor?: string;
+  highContrastFocusColor?: string;
+}
+
+interface MirrorEntry {
+  id: EntityId;
+  accessible: Accessible;
+  label: string;
+  x: number;
+  y: number;
+}
+
+interface MirrorNode {
+  element: HTMLElement | null; // null without a DOM (headless)
+  role: AccessibleRole;
+  label: string;
+  signature: string;
+}
+
+const ACTIVATABLE_ROLES = new Set<AccessibleRole>([
+  'button',
+  'checkbox',
+  'switch',
+  'link',
+]);
+
+const PREFERENCE_CLASSES: Record<keyof AccessibilityPreferences, string> = {
+  highContrast: 'high-contrast',
+  reducedMotion: 'reduced-motion',
+  largeText: 'large-text',
+};
+
+// Keys the mirror handles itself, kept away from the game's key bindings
+const MIRROR_KEYS = new Set(['Enter', ' ', 'Tab']);
+
+// Hidden from sight but not from screen readers or keyboard focus
+const VISUALLY_HIDDEN =
+  'position:absolute;width:1px;height:1px;margin:-1px;padding:0;border:0;' +
+  'overflow:hidden;clip:rect(0 0 0 0);clip-path:inset(50%);white-space:nowrap';
+
+const FOCUS_PADDING = 6;
+
+/**
+ * Accessibility System - Keeps an offscreen DOM mirror of visible Accessible
+ * entities so assistive technology can read and activate canvas content.
+ * Buttons become focusable elements in focus order, 'status' entities and
+ * live labels become live regions, and announce() reads out one-off
+ * messages. Activating a mirrored button clicks the entity through the scene
+ * graph. Follows the 'high-contrast', 'reduced-motion' and 'large-text'
+ * classes on <html>. Emits 'accessibility-focus', 'accessibility-activate',
+ * 'accessibility-announce' and 'accessibility-preferences' on the engine.
+ */
+export class AccessibilitySystem implements System {
+  public name = 'accessibility';
+  public priority = 210;
+  public enabled = true;
+  public after = ['scene-graph', 'switch-scan', 'ui'];
+
+  private engine: GameEngine;
+  private query: Query<[Transform, Accessible]>;
+  private options: Required<
+    Omit<AccessibilitySystemOptions, 'container' | 'root'>
+  >;
+  private root: HTMLElement | null = null;
+  private mirror: HTMLElement | null = null;
+  private list: HTMLElement | null = null;
+  private liveRegions: Map<LivePoliteness, HTMLElement> = new Map();
+  private observer: MutationObserver | null = null;
+  private nodes: Map<EntityId, MirrorNode> = new Map();
+  private order: EntityId[] = [];
+  private focused: EntityId | null = null;
+  private preferences: AccessibilityPreferences = {
+    highContrast: false,
+    reducedMotion: false,
+    largeText: false,
+  };
+
+  constructor(engine: GameEngine, options: AccessibilitySystemOptions = {}) {
+    this.engine = engine;
+    this.query = engine.entityManager.query(Transform, Accessible);
+
+    const { container, root, ...rest } = options;
+    this.options = {
+      label: 'Game',
+      announceFocus: true,
+      largeTextScale: 1.25,
+      focusColor: '#1E88E5',
+      highContrastFocusColor: '#FFFF00',
+      ...rest,
+    };
+
+    if (typeof document !== 'undefined') {
+      this.root = root ?? document.documentElement;
+      this.createMirror(container);
+      if (typeof MutationObserver !== 'undefined') {
+        this.observer = new MutationObserver(() => this.readPreferences());
+        this.observer.observe(this.root, {
+          attributes: true,
+          attributeFilter: ['class'],
+        });
+      }
+      this.readPreferences();
+    }
+
+    engine.on('ui-focus', this.handleUIFocus);
+    engine.on('switch-focus', this.handleSwitchFocus);
+    engine.on('locale-changed', this.handleLocaleChanged);
+    engine.systemManager.on('system-added', this.handleSystemAdded);
+  }
+
+  public update(): void {
+    // Entities under a modal overlay can't be reached
+    this.list?.toggleAttribute(
+      'inert',
+      this.engine.sceneManager.isInputBlocked()
+    );
+
+    const entries = this.collectEntries();
+    const visible = new Set(entries.map(entry => entry.id));
+
+    for (const [id, node] of this.nodes) {
+      if (visible.has(id)) continue;
+      node.element?.remove();
+      this.nodes.delete(id);
+      if (id === this.focused) this.setFocused(null);
+    }
+
+    for (const entry of entries) {
+      this.syncNode(entry);
+    }
+
+    const order = entries.map(entry => entry.id);
+    if (
+      order.length !== this.order.length ||
+      order.some((id, index) => id !== this.order[index])
+    ) {
+      this.reorder(order);
+    }
+  }
+
+  /**
+   * Outline the entity focused in the mirror (switch scanning draws its own)
+   */
+  public render(renderer: CanvasRenderer): void {
+    if (this.focused === null) return;
+    if (this.engine.systemManager.getSystem('switch-scan')) return;
+
+    const corners = this.getFocusCorners(this.focused);
+    if (!corners) return;
+
+    const strokes = this.preferences.highContrast
+      ? [
+          { color: '#000000', width: 8 },
+          { color: this.options.highContrastFocusColor, width: 4 },
+        ]
+      : [{ color: this.options.focusColor, width: 3 }];
+
+    renderer.applyCameraTransform();
+    for (const stroke of strokes) {
+      for (let i = 0; i < corners.length; i++) {
+        const from = corners[i];
+        const to = corners[(i + 1) % corners.length];
+        renderer.drawLine(
+          from.x,
+          from.y,
+          to.x,
+          to.y,
+          stroke.color,
+          stroke.width
+        );
+      }
+    }
+    renderer.restore();
+  }
+
+  /**
+   * Read out a message, e.g. 'Level complete'
+   */
+  public announce(
+    message: string,
+    politeness: Exclude<LivePoliteness, 'off'> = 'polite'
+  ): void {
+    const region = this.liveRegions.get(politeness);
+    if (region) {
+      // The same text again wouldn't be read out
+      region.textContent =
+        region.textContent === message ? `${message}\u00A0` : message;
+    }
+    this.engine.emit('accessibility-announce', { message, politeness });
+  }
+
+  /**
+   * Move keyboard focus to a mirrored button, or clear it with null
+   */
+  public focus(entityId: EntityId | null): void {
+    if (entityId === null) {
+      const node = this.focused === null ? null : this.nodes.get(this.focused);
+      node?.element?.blur();
+      this.setFocused(null);
+      return;
+    }
+
+    const node = this.nodes.get(entityId);
+    if (!node || !ACTIVATABLE_ROLES.has(node.role)) return;
+    if (node.element) {
+      node.element.focus(); // The focus listener records it
+    } else {
+      this.setFocused(entityId);
+    }
+  }
+
+  public getFocused(): EntityId | null {
+    return this.focused;
+  }
+
+  /**
+   * Click an entity as a pointer would, through the scene graph
+   */
+  public activate(entityId: EntityId): void {
+    const accessible = this.engine.entityManager.getComponent(
+      entityId,
+      Accessible
+    );
+    if (
+      !accessible ||
+      !ACTIVATABLE_ROLES.has(accessible.role) ||
+      accessible.state.disabled
+    ) {
+      return;
+    }
+
+    this.engine.systemManager
+      .getSystem<SceneGraphSystem>('scene-graph')
+      ?.activate(entityId, 'accessibility');
+    this.engine.emit('accessibility-activate', { entity: entityId });
+  }
+
+  /**
+   * Mirrored entities in focus order
+   */
+  public getFocusOrder(): EntityId[] {
+    return [...this.order];
+  }
+
+  public getPreferences(): AccessibilityPreferences {
+    return { ...this.preferences };
+  }
+
+  /**
+   * Override preferences, e.g. without a settings page setting the classes
+   */
+  public setPreferences(preferences: Partial<AccessibilityPreferences>): void {
+    const next = { ...this.preferences, ...preferences };
+    const changed = (
+      Object.keys(next) as Array<keyof AccessibilityPreferences>
+    ).some(key => next[key] !== this.preferences[key]);
+    this.preferences = next;
+    if (!changed) return;
+
+    this.applyPreferences();
+    this.engine.emit('accessibility-preferences', this.getPreferences());
+  }
+
+  private readPreferences(): void {
+    if (!this.root) return;
+
+    const classes = this.root.classList;
+    this.setPreferences({
+      highContrast: classes.contains(PREFERENCE_CLASSES.highContrast),
+      reducedMotion: classes.contains(PREFERENCE_CLASSES.reducedMotion),
+      largeText: classes.contains(PREFERENCE_CLASSES.largeText),
+    });
+  }
+
+  /**
+   * Pass preferences on to the systems that animate or draw text
+   */
+  private applyPreferences(): void {
+    const { systemManager } = this.engine;
+    const { reducedMotion, largeText } = this.preferences;
+
+    systemManager
+      .getSystem<DragDropSystem>('drag-drop')
+      ?.setReducedMotion(reducedMotion);
+    systemManager
+      .getSystem<ParticleSystem>('particles')
+      ?.setReducedMotion(reducedMotion);
+    systemManager
+      .getSystem<TextSystem>('text')
+      ?.setTextScale(largeText ? this.options.largeTextScale : 1);
+  }
+
+  // Mirror
+
+  private createMirror(container?: HTMLElement): void {
+    const mirror = document.createElement('div');
+    mirror.setAttribute('role', 'group');
+    mirror.setAttribute('aria-label', this.options.label);
+    mirror.style.cssText = VISUALLY_HIDDEN;
+    mirror.lang = this.engine.i18n.getLocale();
+    mirror.dir = this.engine.i18n.getDirection();
+    mirror.addEventListener('keydown', this.handleMirrorKey);
+    mirror.addEventListener('keyup', this.handleMirrorKey);
+
+    for (const politeness of ['polite', 'assertive'] as const) {
+      const region = document.createElement('div');
+      region.setAttribute('aria-live', politeness);
+      region.setAttribute('aria-atomic', 'true');
+      mirror.appendChild(region);
+      this.liveRegions.set(politeness, region);
+    }
+
+    // Entities get their own list so the live regions stay put
+    this.list = document.createElement('div');
+    mirror.appendChild(this.list);
+
+    const canvas = this.engine.canvasElement;
+    if (container) {
+      container.appendChild(mirror);
+    } else if (canvas?.parentElement) {
+      canvas.parentElement.insertBefore(mirror, canvas.nextSibling);
+    } else {
+      document.body.appendChild(mirror);
+    }
+    this.mirror = mirror;
+  }
+
+  /**
+   * Visible Accessible entities sorted by explicit order, then top to
+   * bottom and left to right
+   */
+  private collectEntries(): MirrorEntry[] {
+    const entries: MirrorEntry[] = [];
+
+    for (const [entity, transform, accessible] of this.query) {
+      if (!entity.active || accessible.hidden) continue;
+      const node = entity.components.get(Hierarchy.name) as
+        | Hierarchy
+        | undefined;
+      if (node && !node.worldVisible) continue;
+
+      entries.push({
+        id: entity.id,
+        accessible,
+        label:
+          accessible.labelKey !== undefined
+            ? this.engine.i18n.t(accessible.labelKey, accessible.labelParams)
+            : accessible.label,
+        x: transform.x,
+        y: transform.y,
+      });
+    }
+
+    return entries.sort(
+      (a, b) =>
+        (a.accessible.order ?? Infinity) - (b.accessible.order ?? Infinity) ||
+        a.y - b.y ||
+        a.x - b.x
+    );
+  }
+
+  private syncNode(entry: MirrorEntry): void {
+    const { accessible, label } = entry;
+    const signature = JSON.stringify([
+      accessible.role,
+      label,
+      accessible.description,
+      accessible.state,
+      accessible.live,
+    ]);
+
+    let node = this.nodes.get(entry.id);
+    if (node && node.role !== accessible.role) {
+      node.element?.remove();
+      node = undefined;
+      this.order = []; // Re-insert in order
+    }
+    if (!node) {
+      node = {
+        element: this.createElement(entry.id, accessible.role),
+        role: accessible.role,
+        label,
+        signature: '',
+      };
+      this.nodes.set(entry.id, node);
+    } else if (
+      label !== node.label &&
+      (accessible.live !== 'off' || accessible.role === 'status')
+    ) {
+      // Live elements are read out by the screen reader itself
+      this.engine.emit('accessibility-announce', {
+        message: label,
+        politeness: accessible.live === 'off' ? 'polite' : accessible.live,
+        entity: entry.id,
+      });
+    }
+
+    node.label = label;
+    if (node.signature === signature) return;
+    node.signature = signature;
+    if (node.element) this.applyAttributes(node.element, accessible, label);
+  }
+
+  private createElement(
+    entityId: EntityId,
+    role: AccessibleRole
+  ): HTMLElement | null {
+    if (!this.list) return null;
+
+    let element: HTMLElement;
+    if (ACTIVATABLE_ROLES.has(role)) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      if (role !== 'button') button.setAttribute('role', role);
+      button.addEventListener('click', () => this.activate(entityId));
+      button.addEventListener('focus', () => this.setFocused(entityId));
+      button.addEventListener('blur', (event: FocusEvent) => {
+        // Moving between mirrored buttons focuses the next one straight away
+        const next = event.relatedTarget as Node | null;
+        if (this.focused === entityId && !this.list?.contains(next)) {
+          this.setFocused(null);
+        }
+      });
+      element = button;
+    } else {
+      element = document.createElement('div');
+      if (role !== 'text') element.setAttribute('role', role);
+      if (role === 'heading') element.setAttribute('aria-level', '2');
+    }
+
+    this.list.appendChild(element);
+    return element;
+  }
+
+  private applyAttributes(
+    element: HTMLElement,
+    accessible: Accessible,
+    label: string
+  ): void {
+    const { role, state } = accessible;
+    const set = (name: string, value: unknown): void => {
+      if (value === undefined) {
+        element.removeAttribute(name);
+      } else {
+        element.setAttribute(name, String(value));
+      }
+    };
+
+    // Roles without text content take their name from aria-label
+    if (role === 'img' || role === 'progressbar' || role === 'group') {
+      element.textContent = '';
+      set('aria-label', label);
+    } else {
+      element.textContent = label;
+    }
+
+    set('aria-description', accessible.description);
+    set('aria-live', accessible.live === 'off' ? undefined : accessible.live);
+    set('aria-disabled', state.disabled);
+    set('aria-pressed', role === 'button' ? state.pressed : undefined);
+    set('aria-checked', state.checked);
+    set('aria-selected', state.selected);
+    set('aria-expanded', state.expanded);
+    set('aria-busy', state.busy);
+    set('aria-valuenow', state.value);
+    set('aria-valuemin', state.min);
+    set('aria-valuemax', state.max);
+    set('aria-valuetext', state.valueText);
+  }
+
+  /**
+   * Put elements in focus order, keeping keyboard focus where it was
+   */
+  private reorder(order: EntityId[]): void {
+    this.order = order;
+    if (!this.list) return;
+
+    const active = document.activeElement;
+    for (const id of order) {
+      const element = this.nodes.get(id)?.element;
+      if (element) this.list.appendChild(element);
+    }
+    if (active instanceof HTMLElement && active !== document.activeElement) {
+      active.focus();
+    }
+  }
+
+  private setFocused(entityId: EntityId | null): void {
+    if (entityId === this.focused) return;
+    this.focused = entityId;
+
+    // Show the focus ring for switch users too
+    this.engine.systemManager
+      .getSystem<SwitchScanSystem>('switch-scan')
+      ?.focus(entityId);
+    this.engine.emit('accessibility-focus', { entity: entityId });
+  }
+
+  private getFocusCorners(
+    entityId: EntityId
+  ): Array<{ x: number; y: number }> | null {
+    const { entityManager, systemManager } = this.engine;
+    const transform = entityManager.getComponent(entityId, Transform);
+    if (!transform) return null;
+
+    const pad = FOCUS_PADDING;
+    const local = [
+      { x: -pad, y: -pad },
+      { x: transform.width + pad, y: -pad },
+      { x: transform.width + pad, y: transform.height + pad },
+      { x: -pad, y: transform.height + pad },
+    ];
+
+    const sceneGraph = systemManager.getSystem<SceneGraphSystem>('scene-graph');
+    if (sceneGraph) {
+      return local.map(point =>
+        sceneGraph.localToWorld(entityId, point.x, point.y)
+      );
+    }
+    return local.map(point => ({
+      x: transform.x + point.x,
+      y: transform.y + point.y,
+    }));
+  }
+
+  private hasFocusWithin(): boolean {
+    return (
+      this.list !== null &&
+      typeof document !== 'undefined' &&
+      this.list.contains(document.activeElement)
+    );
+  }
+
+  // Event handlers
+
+  private handleMirrorKey = (event: KeyboardEvent): void => {
+    if (MIRROR_KEYS.has(event.key)) event.stopPropagation();
+  };
+
+  private handleUIFocus = (event: { label?: string }): void => {
+    if (this.options.announceFocus && event.label) {
+      this.announce(event.label);
+    }
+  };
+
+  private handleSwitchFocus = (event: { entity: EntityId | null }): void => {
+    if (event.entity === null || event.entity === this.focused) return;
+
+    // Keep screen reader focus with the switch scan
+    const node = this.nodes.get(event.entity);
+    if (node?.element && this.hasFocusWithin()) {
+      node.element.focus();
+    } else if (this.options.announceFocus && node?.label) {
+      this.announce(node.label);
+    }
+  };
+
+  private handleLocaleChanged = (event: LocaleChangeEvent): void => {
+    if (!this.mirror) return;
+    this.mirror.lang = event.locale;
+    this.mirror.dir = event.direction;
+  };
+
+  private handleSystemAdded = (system: System): void => {
+    if (system === this) return;
+    if (this.preferences.reducedMotion || this.preferences.largeText) {
+      this.applyPreferences();
+    }
+  };
+
+  public destroy(): void {
+    this.observer?.disconnect();
+    this.mirror?.remove();
+    this.nodes.clear();
+    this.liveRegions.clear();
+    this.engine.off('ui-focus', this.handleUIFocus);
+    this.engine.off('switch-focus', this.handleSwitchFocus);
+    this.engine.off('locale-changed', this.handleLocaleChanged);
+    this.engine.systemManager.off('system-added', this.handleSystemAdded);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Audio System - Plays AudioEmitter sounds at their entities' positions
+ */
+
+import type { GameEngine } from '../core/Engine';
+import type { Query } from '../core/Query';
+import type { System } from '../core/SystemManager';
+import type { Component, Entity } from '../core/EntityManager';
+import { Transform } from '../components/CoreComponents';
+import { AudioEmitter } from '../components/AudioComponents';
+
+/**
+ * Audio System - Starts and stops emitter sounds as their playing flag
+ * changes and moves them with the entity's centre every frame. Sounds stop
+ * when the entity is destroyed or deactivated, or loses its AudioEmitter.
+ * The engine keeps the listener on the camera.
+ */
+export class AudioSystem implements System {
+  public name = 'audio';
+  public priority = 92;
+  public enabled = true;
+  public after = ['movement', 'physics', 'scene-graph'];
+
+  private engine: GameEngine;
+  private emitters: Query<[Transform, AudioEmitter]>;
+  private playing: Set<string> = new Set();
+
+  constructor(engine: GameEngine) {
+    this.engine = engine;
+    this.emitters = engine.entityManager.query(Transform, AudioEmitter);
+
+    engine.entityManager.on('entity-destroyed', this.stopEntity);
+    engine.entityManager.on('entity-deactivated', this.stopEntity);
+    engine.entityManager.on('component-removed', this.handleComponentRemoved);
+    engine.entityManager.on('entities-cleared', this.handleEntitiesCleared);
+  }
+
+  public update(): void {
+    const { audioManager } = this.engine;
+
+    for (const [entity, transform, emitter] of this.emitters) {
+      const x = transform.x + transform.width / 2;
+      const y = transform.y + transform.height / 2;
+
+      // One-shots that finished on their own
+      if (
+        emitter.playingId !== null &&
+        !audioManager.isPlaying(emitter.playingId)
+      ) {
+        this.playing.delete(emitter.playingId);
+        emitter.playingId = null;
+        if (!emitter.loop) emitter.playing = false;
+      }
+
+      const shouldPlay = emitter.playing && entity.active;
+      if (shouldPlay && emitter.playingId === null) {
+        // Audio may not be initialized or loaded yet; try again next frame
+        if (!audioManager.isSoundLoaded(emitter.sound)) continue;
+
+        emitter.playingId = audioManager.playSpatialSound(emitter.sound, x, y, {
+          volume: emitter.volume,
+          loop: emitter.loop,
+        });
+        if (emitter.playingId) this.playing.add(emitter.playingId);
+      } else if (!shouldPlay && emitter.playingId !== null) {
+        this.stop(emitter);
+      } else if (emitter.playingId !== null) {
+        audioManager.setSoundPosition(emitter.playingId, x, y);
+      }
+    }
+  }
+
+  private stopEntity = (entity: Entity): void => {
+    const emitter = entity.components.get(AudioEmitter.name) as
+      | AudioEmitter
+      | undefined;
+    if (emitter) this.stop(emitter);
+  };
+
+  private handleComponentRemoved = ({
+    component,
+  }: {
+    entity: Entity;
+    component: Component;
+  }): void => {
+    if (component.type === AudioEmitter.name) {
+      this.stop(component as unknown as AudioEmitter);
+    }
+  };
+
+  private handleEntitiesCleared = (): void => {
+    for (const playingId of this.playing) {
+      this.engine.audioManager.stopSound(playingId, 0.1);
+    }
+    this.playing.clear();
+  };
+
+  private stop(emitter: AudioEmitter): void {
+    if (emitter.playingId === null) return;
+
+    this.engine.audioManager.stopSound(emitter.playingId, emitter.stopFade);
+    this.playing.delete(emitter.playingId);
+    emitter.playingId = null;
+  }
+
+  public destroy(): void {
+    const { entityManager } = this.engine;
+    entityManager.off('entity-destroyed', this.stopEntity);
+    entityManager.off('entity-deactivated', this.stopEntity);
+    entityManager.off('component-removed', this.handleComponentRemoved);
+    entityManager.off('entities-cleared', this.handleEntitiesCleared);
+  }
+}
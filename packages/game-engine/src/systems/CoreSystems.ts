@@ -1,118 +1,111 @@
 /**
- * Render System - Handles sprite rendering for entities with Transform and Sprite components
+ * Core Systems - Movement, animation, physics and sprite rendering
  */
 
 import type { GameEngine } from '../core/Engine';
 import type { CanvasRenderer } from '../core/CanvasRenderer';
-import type { Entity } from '../core/EntityManager';
-
-export interface Transform {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  rotation: number;
-  scaleX: number;
-  scaleY: number;
-  layer: number; // For z-ordering
-}
-
-export interface Sprite {
-  imageUrl: string;
-  sourceX?: number;
-  sourceY?: number;
-  sourceWidth?: number;
-  sourceHeight?: number;
-  alpha?: number;
-  tint?: string;
-  flipX?: boolean;
-  flipY?: boolean;
-}
+import type { Query } from '../core/Query';
+import type { System } from '../core/SystemManager';
+import type { Component, Entity, EntityId } from '../core/EntityManager';
+import type { Collision, RigidBody, TriggerEvent } from '../core/PhysicsWorld';
+import { TextureAtlas } from '../core/TextureAtlas';
+import {
+  Transform,
+  Sprite,
+  Velocity,
+  SpriteAnimation,
+  PhysicsBody,
+} from '../components/CoreComponents';
+import { Hierarchy } from '../components/SceneGraphComponents';
+
+export type {
+  Transform,
+  Sprite,
+  Velocity,
+  SpriteAnimation,
+  SpriteAnimationFrame,
+  PhysicsBody,
+} from '../components/CoreComponents';
 
-export interface Velocity {
-  x: number;
-  y: number;
-}
+/**
+ * Render System - Draws entities with Transform and Sprite components
+ * in the world pass, through the camera
+ */
+export class RenderSystem implements System {
+  public name = 'render';
+  public priority = 100;
+  public enabled = true;
+  public after = ['animation'];
 
-export class RenderSystem {
   private engine: GameEngine;
   private renderer: CanvasRenderer;
+  private query: Query<[Transform, Sprite]>;
 
   constructor(engine: GameEngine) {
     this.engine = engine;
     this.renderer = engine.renderer;
+
+    // Sorted by layer for proper z-ordering; re-sorted only when membership changes
+    this.query = engine.entityManager
+      .query(Transform, Sprite)
+      .sortBy(([, a], [, b]) => (a.layer || 0) - (b.layer || 0));
   }
 
   /**
-   * Update system - called every frame
+   * Render system - called once per rendered frame
    */
-  public update(deltaTime: number): void {
-    // Get all entities with Transform and Sprite components
-    const entities = this.engine.entityManager.getEntitiesWithComponents([
-      'transform',
-      'sprite',
-    ]);
-
-    // Sort by layer for proper z-ordering
-    entities.sort((a: Entity, b: Entity) => {
-      const transformA = this.engine.entityManager.getComponent(
-        a.id,
-        'transform'
-      ) as unknown as Transform;
-      const transformB = this.engine.entityManager.getComponent(
-        b.id,
-        'transform'
-      ) as unknown as Transform;
-      return (transformA?.layer || 0) - (transformB?.layer || 0);
-    });
-
-    // Render each entity
-    for (const entity of entities) {
-      this.renderEntity(entity.id);
-    }
+  public render(): void {
+    this.renderer.applyCameraTransform();
+    this.query.forEach((entity, transform, sprite) =>
+      this.renderEntity(entity, transform, sprite)
+    );
+    this.renderer.restore();
   }
 
-  private renderEntity(entity: number): void {
-    const transform = this.engine.entityManager.getComponent(
-      entity,
-      'transform'
-    ) as unknown as Transform;
-    const sprite = this.engine.entityManager.getComponent(
-      entity,
-      'sprite'
-    ) as unknown as Sprite;
+  /**
+   * Re-sort entities after changing a transform layer
+   */
+  public invalidateOrder(): void {
+    this.query.invalidate();
+  }
 
-    if (!transform || !sprite) return;
+  private renderEntity(
+    entity: Entity,
+    transform: Transform,
+    sprite: Sprite
+  ): void {
+    // Alpha and visibility inherited through the scene graph
+    const node = entity.components.get(Hierarchy.name) as Hierarchy | undefined;
+    if (node && !node.worldVisible) return;
 
     // Check if asset is loaded
     if (!this.engine.assetManager.isAssetLoaded(sprite.imageUrl)) {
-      // Load asset if not already loaded
-      this.engine.assetManager.loadAsset(sprite.imageUrl);
+      // Load asset if registered (failures are reported via 'asset-error')
+      if (this.engine.assetManager.hasAsset(sprite.imageUrl)) {
+        this.engine.assetManager.loadAsset(sprite.imageUrl).catch(() => {});
+      }
       return;
     }
 
-    const image = this.engine.assetManager.getAsset(
-      sprite.imageUrl
-    ) as HTMLImageElement;
+    const image = this.engine.assetManager.getAsset<
+      HTMLImageElement | TextureAtlas
+    >(sprite.imageUrl);
     if (!image) return;
 
-    this.renderer.save();
-
-    // Get the 2D context for manual transformations
-    const ctx = this.renderer.getContext();
-    if (!(ctx instanceof CanvasRenderingContext2D)) return;
+    const renderer = this.renderer;
+    renderer.save();
 
     // Apply transform
-    ctx.translate(
+    renderer.translate(
       transform.x + transform.width / 2,
       transform.y + transform.height / 2
     );
-    ctx.rotate(transform.rotation);
-    ctx.scale(transform.scaleX, transform.scaleY);
+    renderer.rotate(transform.rotation);
+    renderer.scale(transform.scaleX, transform.scaleY);
 
     // Apply sprite properties
-    if (sprite.alpha !== undefined) {
-      ctx.globalAlpha = sprite.alpha;
+    if (sprite.alpha !== undefined || node) {
+      renderer.setAlpha((sprite.alpha ?? 1) * (node?.worldAlpha ?? 1));
     }
 
     // Flip if needed
@@ -121,18 +114,30 @@ export class RenderSystem {
     if (sprite.flipX) scaleX = -1;
     if (sprite.flipY) scaleY = -1;
     if (scaleX !== 1 || scaleY !== 1) {
-      ctx.scale(scaleX, scaleY);
+      renderer.scale(scaleX, scaleY);
     }
 
     // Draw sprite
-    if (
+    if (image instanceof TextureAtlas) {
+      // Draw a named atlas frame (trim and rotation are handled by the atlas)
+      if (sprite.frame !== undefined) {
+        renderer.drawAtlasFrame(
+          image,
+          sprite.frame,
+          -transform.width / 2,
+          -transform.height / 2,
+          transform.width,
+          transform.height
+        );
+      }
+    } else if (
       sprite.sourceX !== undefined &&
       sprite.sourceY !== undefined &&
       sprite.sourceWidth !== undefined &&
       sprite.sourceHeight !== undefined
     ) {
       // Draw from sprite sheet
-      ctx.drawImage(
+      renderer.drawSprite(
         image,
         sprite.sourceX,
         sprite.sourceY,
@@ -145,7 +150,7 @@ export class RenderSystem {
       );
     } else {
       // Draw full image
-      ctx.drawImage(
+      renderer.drawImage(
         image,
         -transform.width / 2,
         -transform.height / 2,
@@ -158,33 +163,28 @@ export class RenderSystem {
   }
 }
 
-export class MovementSystem {
-  private engine: GameEngine;
+/**
+ * Movement System - Integrates Velocity into Transform
+ */
+export class MovementSystem implements System {
+  public name = 'movement';
+  public priority = 10;
+  public enabled = true;
+  public before = ['physics'];
+
+  private query: Query<[Transform, Velocity]>;
 
   constructor(engine: GameEngine) {
-    this.engine = engine;
+    this.query = engine.entityManager.query(Transform, Velocity);
   }
 
   /**
    * Update entities with Transform and Velocity components
    */
   public update(deltaTime: number): void {
-    const entities = this.engine.entityManager.getEntitiesWithComponents([
-      'transform',
-      'velocity',
-    ]);
-
-    for (const entity of entities) {
-      const transform = this.engine.entityManager.getComponent(
-        entity.id,
-        'transform'
-      ) as unknown as Transform;
-      const velocity = this.engine.entityManager.getComponent(
-        entity.id,
-        'velocity'
-      ) as unknown as Velocity;
-
-      if (!transform || !velocity) continue;
+    for (const [entity, transform, velocity] of this.query) {
+      // Physics bodies integrate their own velocity
+      if (entity.components.has(PhysicsBody.name)) continue;
 
       // Update position based on velocity
       transform.x += velocity.x * deltaTime;
@@ -193,63 +193,62 @@ export class MovementSystem {
   }
 }
 
-export class AnimationSystem {
+/**
+ * Animation System - Advances sprite sheet animations
+ */
+export class AnimationSystem implements System {
+  public name = 'animation';
+  public priority = 30;
+  public enabled = true;
+  public after = ['physics'];
+
   private engine: GameEngine;
+  private query: Query<[Transform, Sprite, SpriteAnimation]>;
 
   constructor(engine: GameEngine) {
     this.engine = engine;
+    this.query = engine.entityManager.query(Transform, Sprite, SpriteAnimation);
   }
 
   /**
    * Update entities with sprite animations
    */
   public update(deltaTime: number): void {
-    const entities = this.engine.entityManager.getEntitiesWithComponents([
-      'transform',
-      'sprite',
-      'animation',
-    ]);
-
-    for (const entity of entities) {
-      const sprite = this.engine.entityManager.getComponent(
-        entity.id,
-        'sprite'
-      ) as unknown as Sprite;
-      const animation = this.engine.entityManager.getComponent(
-        entity.id,
-        'animation'
-      ) as unknown as SpriteAnimation;
-
-      if (!sprite || !animation) continue;
+    for (const [entity, , sprite, animation] of this.query) {
+      const lastFrame = animation.frames.length - 1;
+
+      // Finished one-shot animations hold their last frame
+      if (
+        !animation.loop &&
+        animation.currentFrame >= lastFrame &&
+        animation.currentTime >= animation.frameTime
+      ) {
+        continue;
+      }
 
       // Update animation
       animation.currentTime += deltaTime;
 
       if (animation.currentTime >= animation.frameTime) {
-        animation.currentFrame++;
-        animation.currentTime = 0;
-
-        if (animation.currentFrame >= animation.frames.length) {
-          if (animation.loop) {
-            animation.currentFrame = 0;
-          } else {
-            animation.currentFrame = animation.frames.length - 1;
-            // Emit animation complete event via event emitter pattern
-            // Since GameEngine doesn't have emit, we could emit through the animation manager
-            // For now, just console.log
-            console.log(
-              'Animation complete:',
-              animation.name,
-              'for entity:',
-              entity.id
-            );
-          }
+        if (animation.currentFrame < lastFrame) {
+          animation.currentFrame++;
+          animation.currentTime = 0;
+        } else if (animation.loop) {
+          animation.currentFrame = 0;
+          animation.currentTime = 0;
+        } else {
+          this.engine.emit('sprite-animation-complete', {
+            entity: entity.id,
+            name: animation.name,
+          });
         }
       }
 
-      // Update sprite source rectangle
+      // Update sprite frame name or source rectangle
       const frame = animation.frames[animation.currentFrame];
-      if (frame) {
+      if (frame?.name !== undefined) {
+        sprite.frame = frame.name;
+      } else if (frame) {
         sprite.sourceX = frame.x;
         sprite.sourceY = frame.y;
         sprite.sourceWidth = frame.width;
@@ -259,77 +258,269 @@ export class AnimationSystem {
   }
 }
 
-export interface SpriteAnimationFrame {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
-
-export interface SpriteAnimation {
-  name: string;
-  frames: SpriteAnimationFrame[];
-  frameTime: number; // Time per frame in seconds
-  currentFrame: number;
-  currentTime: number;
-  loop: boolean;
-}
+/**
+ * Physics System - Bridges PhysicsBody components and the PhysicsWorld.
+ * Each PhysicsBody owns a RigidBody: transforms (and velocities) are written
+ * into the body before the step and resolved positions are copied back.
+ * Inactive entities take their body out of the world until reactivated.
+ */
+export class PhysicsSystem implements System {
+  public name = 'physics';
+  public priority = 20;
+  public enabled = true;
 
-export class PhysicsSystem {
   private engine: GameEngine;
+  private query: Query<[Transform, PhysicsBody]>;
+  private ownedBodies: Map<EntityId, string> = new Map();
 
   constructor(engine: GameEngine) {
     this.engine = engine;
+    this.query = engine.entityManager.query(Transform, PhysicsBody);
+
+    engine.entityManager.on('entity-destroyed', this.handleEntityDestroyed);
+    engine.entityManager.on('component-removed', this.handleComponentRemoved);
+    engine.entityManager.on('entities-cleared', this.handleEntitiesCleared);
+    engine.entityManager.on('entity-activated', this.handleEntityActivated);
+    engine.entityManager.on('entity-deactivated', this.handleEntityDeactivated);
+    engine.physics.on('collision', this.handleCollision);
+    engine.physics.on('trigger-enter', this.handleTriggerEnter);
+    engine.physics.on('trigger-exit', this.handleTriggerExit);
   }
 
   /**
-   * Update entities with physics bodies
+   * Sync transforms into bodies, step the world, then sync back
    */
   public update(deltaTime: number): void {
-    const entities = this.engine.entityManager.getEntitiesWithComponents([
-      'transform',
-      'rigidbody',
-    ]);
-
-    for (const entity of entities) {
-      const transform = this.engine.entityManager.getComponent(
-        entity.id,
-        'transform'
-      ) as unknown as Transform;
-      const body = this.engine.entityManager.getComponent(
-        entity.id,
-        'rigidbody'
-      ) as any;
+    const rows = this.query.getRows();
 
-      if (!transform || !body) continue;
-
-      // For now, skip physics body update since the method doesn't exist
-      // this.engine.physics.updateBodyPosition(body.id, transform.x, transform.y);
+    for (const [entity, transform, body] of rows) {
+      const rigidBody = this.getOrCreateBody(entity.id, transform, body);
+      this.writeBody(entity.id, transform, body, rigidBody);
     }
 
     // Update physics world
     this.engine.physics.update(deltaTime);
 
     // Update transform positions from physics bodies
-    for (const entity of entities) {
-      const transform = this.engine.entityManager.getComponent(
+    for (const [entity, transform, body] of rows) {
+      const rigidBody = body.bodyId
+        ? this.engine.physics.getBody(body.bodyId)
+        : undefined;
+      if (!rigidBody) continue;
+
+      const center = body.shape === 'circle';
+      transform.x = rigidBody.position.x - (center ? transform.width / 2 : 0);
+      transform.y = rigidBody.position.y - (center ? transform.height / 2 : 0);
+
+      const velocity = this.engine.entityManager.getComponent(
         entity.id,
-        'transform'
-      ) as unknown as Transform;
+        Velocity
+      );
+      if (velocity) {
+        velocity.x = rigidBody.velocity.x;
+        velocity.y = rigidBody.velocity.y;
+      }
+    }
+  }
+
+  /**
+   * Get the PhysicsWorld body owned by an entity
+   */
+  public getBodyForEntity(entityId: EntityId): RigidBody | undefined {
+    const bodyId = this.ownedBodies.get(entityId);
+    return bodyId ? this.engine.physics.getBody(bodyId) : undefined;
+  }
+
+  private getOrCreateBody(
+    entityId: EntityId,
+    transform: Transform,
+    body: PhysicsBody
+  ): RigidBody {
+    const existing = body.bodyId
+      ? this.engine.physics.getBody(body.bodyId)
+      : undefined;
+    if (existing) {
+      // Bodies restored from a save state are adopted by their entity
+      this.ownedBodies.set(entityId, existing.id);
+      return existing;
+    }
+
+    const rigidBody: RigidBody = {
+      id: body.bodyId ?? `entity_${entityId}`,
+      position: { x: 0, y: 0 },
+      velocity: { x: 0, y: 0 },
+      acceleration: { x: 0, y: 0 },
+      mass: body.mass,
+      drag: body.drag,
+      elasticity: body.elasticity,
+      static: body.static,
+      sensor: body.sensor,
+      shape: this.createShape(transform, body),
+      collisionLayer: body.collisionLayer,
+      collisionMask: body.collisionMask,
+      userData: { entityId },
+    };
+
+    body.bodyId = rigidBody.id;
+    this.ownedBodies.set(entityId, rigidBody.id);
+    this.engine.physics.addBody(rigidBody);
+    return rigidBody;
+  }
+
+  private createShape(
+    transform: Transform,
+    body: PhysicsBody
+  ): RigidBody['shape'] {
+    if (body.shape === 'circle') {
+      return {
+        x: 0,
+        y: 0,
+        radius: body.radius ?? Math.min(transform.width, transform.height) / 2,
+      };
+    }
+    if (body.shape === 'polygon' && body.points) {
+      return { x: 0, y: 0, points: body.points };
+    }
+    return { x: 0, y: 0, width: transform.width, height: transform.height };
+  }
+
+  private writeBody(
+    entityId: EntityId,
+    transform: Transform,
+    body: PhysicsBody,
+    rigidBody: RigidBody
+  ): void {
+    // Boxes are positioned by their top-left corner, circles by their centre
+    const center = body.shape === 'circle';
+    rigidBody.position.x = transform.x + (center ? transform.width / 2 : 0);
+    rigidBody.position.y = transform.y + (center ? transform.height / 2 : 0);
+    rigidBody.shape = this.createShape(transform, body);
+
+    rigidBody.mass = body.mass;
+    rigidBody.drag = body.drag;
+    rigidBody.elasticity = body.elasticity;
+    rigidBody.static = body.static;
+    rigidBody.sensor = body.sensor;
+    rigidBody.collisionLayer = body.collisionLayer;
+    rigidBody.collisionMask = body.collisionMask;
+
+    const velocity = this.engine.entityManager.getComponent(entityId, Velocity);
+    if (velocity) {
+      rigidBody.velocity.x = velocity.x;
+      rigidBody.velocity.y = velocity.y;
+    }
+  }
+
+  private removeBody(entityId: EntityId): void {
+    const bodyId = this.ownedBodies.get(entityId);
+    if (bodyId) {
+      this.engine.physics.removeBody(bodyId);
+      this.ownedBodies.delete(entityId);
+    }
+  }
+
+  private handleEntityDestroyed = (entity: Entity): void => {
+    this.removeBody(entity.id);
+  };
+
+  private handleEntityActivated = (entity: Entity): void => {
+    const { entityManager } = this.engine;
+    const transform = entityManager.getComponent(entity.id, Transform);
+    const body = entityManager.getComponent(entity.id, PhysicsBody);
+    if (!transform || !body) return;
+
+    // Back in the world straight away, so raycasts find it before the step
+    const rigidBody = this.getOrCreateBody(entity.id, transform, body);
+    this.writeBody(entity.id, transform, body, rigidBody);
+  };
+
+  private handleEntityDeactivated = (entity: Entity): void => {
+    // bodyId is kept, so reactivating recreates the same body
+    this.removeBody(entity.id);
+  };
+
+  private handleComponentRemoved = ({
+    entity,
+    component,
+  }: {
+    entity: Entity;
+    component: Component;
+  }): void => {
+    if (component.type === PhysicsBody.name) {
+      (component as unknown as PhysicsBody).bodyId = undefined;
+      this.removeBody(entity.id);
+    } else if (component.type === Transform.name) {
+      this.removeBody(entity.id);
       const body = this.engine.entityManager.getComponent(
         entity.id,
-        'rigidbody'
-      ) as any;
-
-      if (!transform || !body) continue;
+        PhysicsBody
+      );
+      if (body) body.bodyId = undefined;
+    }
+  };
 
-      // Get updated position from physics body
-      const physicsBody = this.engine.physics.getBody(body.id);
-      if (physicsBody) {
-        // For now, skip position updates since the physics body structure is different
-        // transform.x = physicsBody.x;
-        // transform.y = physicsBody.y;
-      }
+  private handleEntitiesCleared = (): void => {
+    for (const entityId of Array.from(this.ownedBodies.keys())) {
+      this.removeBody(entityId);
     }
+  };
+
+  private handleCollision = (collision: Collision): void => {
+    const entityA = collision.bodyA.userData?.entityId;
+    const entityB = collision.bodyB.userData?.entityId;
+    if (entityA === undefined && entityB === undefined) return;
+
+    this.engine.emit('entity-collision', {
+      entityA,
+      entityB,
+      normal: collision.normal,
+      penetration: collision.penetration,
+      point: collision.point,
+    });
+  };
+
+  private handleTriggerEnter = (trigger: TriggerEvent): void => {
+    this.emitTrigger('entity-trigger-enter', trigger);
+  };
+
+  private handleTriggerExit = (trigger: TriggerEvent): void => {
+    this.emitTrigger('entity-trigger-exit', trigger);
+  };
+
+  private emitTrigger(event: string, { sensor, body }: TriggerEvent): void {
+    const sensorEntity = sensor.userData?.entityId;
+    const entity = body.userData?.entityId;
+    if (sensorEntity === undefined && entity === undefined) return;
+
+    this.engine.emit(event, { sensor: sensorEntity, entity });
   }
+
+  /**
+   * Remove owned bodies and stop listening for entity changes
+   */
+  public destroy(): void {
+    const { entityManager, physics } = this.engine;
+    entityManager.off('entity-destroyed', this.handleEntityDestroyed);
+    entityManager.off('component-removed', this.handleComponentRemoved);
+    entityManager.off('entities-cleared', this.handleEntitiesCleared);
+    entityManager.off('entity-activated', this.handleEntityActivated);
+    entityManager.off('entity-deactivated', this.handleEntityDeactivated);
+    physics.off('collision', this.handleCollision);
+    physics.off('trigger-enter', this.handleTriggerEnter);
+    physics.off('trigger-exit', this.handleTriggerExit);
+    this.handleEntitiesCleared();
+  }
+}
+
+/**
+ * Create the default frame pipeline:
+ * movement -> physics -> animation (update), then render (world pass)
+ */
+export function createDefaultSystems(engine: GameEngine): System[] {
+  return [
+    new MovementSystem(engine),
+    new PhysicsSystem(engine),
+    new AnimationSystem(engine),
+    new RenderSystem(engine),
+  ];
 }
@@ -0,0 +1,750 @@
+/**
+ * Drag & Drop System - Pointer and keyboard dragging of Draggable entities
+ * onto DropTarget entities
+ */
+
+import type { GameEngine } from '../core/Engine';
+import type { Query } from '../core/Query';
+import type { System } from '../core/SystemManager';
+import type { Entity, EntityId } from '../core/EntityManager';
+import type { InputEvent } from '../core/InputManager';
+import type { AABB, Circle } from '../core/PhysicsWorld';
+import { Easing } from '../core/AnimationManager';
+import { Transform, Velocity, PhysicsBody } from '../components/CoreComponents';
+import { Draggable, DropTarget } from '../components/DragDropComponents';
+
+export type DropRejectReason =
+  | 'no-target'
+  | 'not-accepted'
+  | 'full'
+  | 'cancelled';
+
+export interface DragDropOptions {
+  keyboard?: boolean; // Arrow keys / Enter / Space / Escape picking (default true)
+  reducedMotion?: boolean; // Jump instead of animating snaps and returns
+}
+
+interface ActiveDrag {
+  entityId: EntityId;
+  pointerId: string | null; // null while carried with the keyboard
+  offsetX: number;
+  offsetY: number;
+  x: number; // Last pointer position in world space
+  y: number;
+  wasStatic?: boolean;
+}
+
+/**
+ * Drag & Drop System - Picks up the topmost Draggable under the pointer and
+ * drops it onto the DropTarget under its centre. Emits 'drag-start',
+ * 'drag-move', 'drop-accepted', 'drop-rejected' and 'drag-focus' on the engine.
+ */
+export class DragDropSystem implements System {
+  public name = 'drag-drop';
+  public priority = 15;
+  public enabled = true;
+  public after = ['movement'];
+  public before = ['physics'];
+
+  private engine: GameEngine;
+  private draggables: Query<[Transform, Draggable]>;
+  private targets: Query<[Transform, DropTarget]>;
+  private options: Required<DragDropOptions>;
+
+  private active: ActiveDrag | null = null;
+  private hoverTarget: EntityId | null = null;
+  private focusedDraggable: EntityId | null = null;
+
+  constructor(engine: GameEngine, options: DragDropOptions = {}) {
+    this.engine = engine;
+    this.options = { keyboard: true, reducedMotion: false, ...options };
+    this.draggables = engine.entityManager.query(Transform, Draggable);
+    this.targets = engine.entityManager.query(Transform, DropTarget);
+
+    engine.inputManager.on('input', this.handleInput);
+    engine.inputManager.on('blur', this.handleBlur);
+    engine.entityManager.on('entity-destroyed', this.handleEntityDestroyed);
+    engine.entityManager.on('entities-cleared', this.handleEntitiesCleared);
+  }
+
+  /**
+   * Keep the dragged entity pinned under its pointer
+   */
+  public update(): void {
+    const drag = this.active;
+    if (!drag || drag.pointerId === null) return;
+
+    const transform = this.engine.entityManager.getComponent(
+      drag.entityId,
+      Transform
+    );
+    if (!transform) return;
+
+    transform.x = drag.x - drag.offsetX;
+    transform.y = drag.y - drag.offsetY;
+
+    const velocity = this.engine.entityManager.getComponent(
+      drag.entityId,
+      Velocity
+    );
+    if (velocity) {
+      velocity.x = 0;
+      velocity.y = 0;
+    }
+  }
+
+  /**
+   * Get the entity currently being dragged
+   */
+  public getDraggedEntity(): EntityId | null {
+    return this.active?.entityId ?? null;
+  }
+
+  /**
+   * Get the drop target under the dragged entity (or focused by keyboard)
+   */
+  public getHoverTarget(): EntityId | null {
+    return this.hoverTarget;
+  }
+
+  /**
+   * Get the draggable focused by keyboard navigation
+   */
+  public getFocusedEntity(): EntityId | null {
+    return this.focusedDraggable;
+  }
+
+  /**
+   * Jump to positions instead of animating (for reduced-motion preferences)
+   */
+  public setReducedMotion(reducedMotion: boolean): void {
+    this.options.reducedMotion = reducedMotion;
+  }
+
+  /**
+   * Cancel the current drag, returning the entity to its origin
+   */
+  public cancel(): void {
+    if (this.active) {
+      this.endDrag(null, 'cancelled');
+    }
+  }
+
+  // Pointer handling
+
+  private handleInput = (event: InputEvent): void => {
+    if (!this.enabled) return;
+
+    // A modal overlay has the input; let go of anything held underneath
+    if (this.engine.sceneManager.isInputBlocked()) {
+      this.handleBlur();
+      return;
+    }
+
+    if (event.type === 'keyboard') {
+      if (event.action === 'down' && this.options.keyboard) {
+        this.handleKey(event);
+      }
+      return;
+    }
+
+    const pointerId = this.getPointerId(event);
+    if (!pointerId || event.handled) return;
+
+    const { x, y } = this.engine.renderer.screenToWorld(
+      event.data.x,
+      event.data.y
+    );
+
+    if (event.action === 'down') {
+      if (!this.active && this.pickAt(x, y, pointerId)) {
+        event.preventDefault?.();
+      }
+      return;
+    }
+
+    // The pointer that started a drag captures it until released
+    const drag = this.active;
+    if (!drag || drag.pointerId !== pointerId) return;
+    event.preventDefault?.();
+
+    if (event.action === 'move') {
+      this.moveTo(x, y);
+    } else if (event.action === 'up') {
+      this.moveTo(x, y);
+      this.endDrag(this.hoverTarget);
+    } else if (event.action === 'cancel') {
+      this.cancel();
+    }
+  };
+
+  private getPointerId(event: InputEvent): string | null {
+    const { data } = event;
+    if (event.type === 'mouse') {
+      if (event.action === 'wheel') return null;
+      if (event.action !== 'move' && data.button !== 0) return null;
+      return 'mouse';
+    }
+    if (event.type === 'touch') {
+      if (data.gesture === 'long-press') return null;
+      return `touch:${data.id}`;
+    }
+    return null;
+  }
+
+  private pickAt(x: number, y: number, pointerId: string): boolean {
+    let picked: Entity | null = null;
+    let pickedLayer = -Infinity;
+
+    for (const [entity, transform, draggable] of this.draggables) {
+      if (!draggable.enabled) continue;
+      if (!this.containsPoint(this.getShape(entity, transform), x, y)) continue;
+
+      // Topmost layer wins; later entities draw above earlier ones
+      if (transform.layer >= pickedLayer) {
+        picked = entity;
+        pickedLayer = transform.layer;
+      }
+    }
+
+    if (!picked) return false;
+
+    const transform = this.engine.entityManager.getComponent(
+      picked.id,
+      Transform
+    )!;
+    this.startDrag(picked.id, pointerId, x - transform.x, y - transform.y);
+    this.active!.x = x;
+    this.active!.y = y;
+    return true;
+  }
+
+  private moveTo(x: number, y: number): void {
+    const drag = this.active!;
+    drag.x = x;
+    drag.y = y;
+    this.update();
+    this.setHoverTarget(this.findTargetUnder(drag.entityId));
+
+    this.engine.emit('drag-move', {
+      entity: drag.entityId,
+      x,
+      y,
+      target: this.hoverTarget ?? undefined,
+    });
+  }
+
+  private handleBlur = (): void => {
+    // Releases outside the window never arrive, so treat focus loss as a cancel
+    this.cancel();
+  };
+
+  // Keyboard handling
+
+  private handleKey(event: InputEvent): void {
+    const key: string = event.data.key;
+    const drag = this.active;
+
+    if (drag && drag.pointerId !== null) {
+      if (key === 'Escape') {
+        this.cancel();
+        event.preventDefault?.();
+      }
+      return;
+    }
+
+    let handled = true;
+    switch (key) {
+      case 'ArrowRight':
+      case 'ArrowDown':
+        if (drag) this.cycleTarget(1);
+        else this.cycleFocus(1);
+        break;
+      case 'ArrowLeft':
+      case 'ArrowUp':
+        if (drag) this.cycleTarget(-1);
+        else this.cycleFocus(-1);
+        break;
+      case 'Enter':
+      case ' ':
+        if (drag) this.endDrag(this.hoverTarget);
+        else this.pickFocused();
+        break;
+      case 'Escape':
+        if (drag) this.cancel();
+        else handled = false;
+        break;
+      default:
+        handled = false;
+    }
+
+    if (handled) {
+      event.preventDefault?.();
+    }
+  }
+
+  private cycleFocus(direction: number): void {
+    const order = this.sortedByPosition(
+      this.draggables
+        .getRows()
+        .filter(([, , draggable]) => draggable.enabled)
+        .map(([entity, transform]) => [entity.id, transform] as const)
+    );
+    if (order.length === 0) return;
+
+    const index = this.focusedDraggable
+      ? order.indexOf(this.focusedDraggable)
+      : -1;
+    const next =
+      index === -1
+        ? direction > 0
+          ? 0
+          : order.length - 1
+        : (index + direction + order.length) % order.length;
+    this.setFocusedDraggable(order[next]);
+  }
+
+  private pickFocused(): void {
+    if (this.focusedDraggable === null) return;
+
+    const draggable = this.engine.entityManager.getComponent(
+      this.focusedDraggable,
+      Draggable
+    );
+    if (!draggable?.enabled) return;
+
+    this.startDrag(this.focusedDraggable, null, 0, 0);
+
+    // Start on the target the entity rests on, if any
+    if (draggable.target !== undefined) {
+      this.setHoverTarget(draggable.target);
+    }
+  }
+
+  private cycleTarget(direction: number): void {
+    const drag = this.active!;
+    const order = this.sortedByPosition(
+      this.targets
+        .getRows()
+        .filter(
+          ([entity, , target]) => target.enabled && entity.id !== drag.entityId
+        )
+        .map(([entity, transform]) => [entity.id, transform] as const)
+    );
+    if (order.length === 0) return;
+
+    const index = this.hoverTarget ? order.indexOf(this.hoverTarget) : -1;
+    const next =
+      index === -1
+        ? direction > 0
+          ? 0
+          : order.length - 1
+        : (index + direction + order.length) % order.length;
+    this.setHoverTarget(order[next]);
+
+    // Preview the drop by hovering the item over the target
+    const transform = this.engine.entityManager.getComponent(
+      drag.entityId,
+      Transform
+    );
+    if (transform) {
+      const centre = this.getCentre(order[next]);
+      const draggable = this.engine.entityManager.getComponent(
+        drag.entityId,
+        Draggable
+      )!;
+      this.moveTransform(
+        transform,
+        centre.x - transform.width / 2,
+        centre.y - transform.height / 2,
+        draggable.snapDuration
+      );
+    }
+
+    const target = this.engine.entityManager.getComponent(
+      order[next],
+      DropTarget
+    );
+    this.engine.emit('drag-focus', {
+      entity: order[next],
+      role: 'drop-target',
+      label: target?.label,
+    });
+  }
+
+  private setFocusedDraggable(entityId: EntityId | null): void {
+    if (this.focusedDraggable === entityId) return;
+
+    if (this.focusedDraggable !== null) {
+      const previous = this.engine.entityManager.getComponent(
+        this.focusedDraggable,
+        Draggable
+      );
+      if (previous) previous.focused = false;
+    }
+
+    this.focusedDraggable = entityId;
+    if (entityId === null) return;
+
+    const draggable = this.engine.entityManager.getComponent(
+      entityId,
+      Draggable
+    );
+    if (draggable) draggable.focused = true;
+
+    this.engine.emit('drag-focus', {
+      entity: entityId,
+      role: 'draggable',
+      label: draggable?.label,
+    });
+  }
+
+  private sortedByPosition(
+    items: ReadonlyArray<readonly [EntityId, Transform]>
+  ): EntityId[] {
+    // Reading order: top to bottom, then left to right
+    return items
+      .slice()
+      .sort(([idA, a], [idB, b]) => a.y - b.y || a.x - b.x || idA - idB)
+      .map(([id]) => id);
+  }
+
+  // Drag lifecycle
+
+  private startDrag(
+    entityId: EntityId,
+    pointerId: string | null,
+    offsetX: number,
+    offsetY: number
+  ): void {
+    const { entityManager } = this.engine;
+    const transform = entityManager.getComponent(entityId, Transform)!;
+    const draggable = entityManager.getComponent(entityId, Draggable)!;
+
+    // A snap or return may still be running from the previous drop
+    this.engine.animations.stopTarget(transform);
+
+    this.active = {
+      entityId,
+      pointerId,
+      offsetX,
+      offsetY,
+      x: transform.x + offsetX,
+      y: transform.y + offsetY,
+    };
+
+    // Dragged physics bodies follow the pointer rather than the simulation
+    const body = entityManager.getComponent(entityId, PhysicsBody);
+    if (body) {
+      this.active.wasStatic = body.static;
+      body.static = true;
+    }
+    const velocity = entityManager.getComponent(entityId, Velocity);
+    if (velocity) {
+      velocity.x = 0;
+      velocity.y = 0;
+    }
+
+    draggable.dragging = true;
+    draggable.originX = transform.x;
+    draggable.originY = transform.y;
+    this.setFocusedDraggable(entityId);
+
+    this.engine.emit('drag-start', {
+      entity: entityId,
+      x: transform.x,
+      y: transform.y,
+      pointer: pointerId ?? 'keyboard',
+    });
+  }
+
+  private endDrag(targetId: EntityId | null, reason?: DropRejectReason): void {
+    const drag = this.active!;
+    const { entityManager } = this.engine;
+    const entity = entityManager.getEntity(drag.entityId);
+    const transform = entityManager.getComponent(drag.entityId, Transform);
+    const draggable = entityManager.getComponent(drag.entityId, Draggable);
+
+    this.active = null;
+    this.setHoverTarget(null);
+
+    const body = entityManager.getComponent(drag.entityId, PhysicsBody);
+    if (body && drag.wasStatic !== undefined) {
+      body.static = drag.wasStatic;
+    }
+
+    if (!entity || !transform || !draggable) return;
+    draggable.dragging = false;
+
+    const target =
+      targetId !== null ? entityManager.getEntity(targetId) : undefined;
+    const dropTarget =
+      targetId !== null
+        ? entityManager.getComponent(targetId, DropTarget)
+        : undefined;
+
+    const rejection =
+      reason ??
+      (target && dropTarget
+        ? this.checkDrop(entity, draggable, target, dropTarget)
+        : 'no-target');
+
+    if (rejection || !target || !dropTarget) {
+      if (draggable.returnToOrigin) {
+        this.moveTransform(
+          transform,
+          draggable.originX,
+          draggable.originY,
+          draggable.returnDuration
+        );
+      } else {
+        // Left where it was dropped, off the target it rested on
+        this.leaveTarget(entity.id, draggable);
+      }
+      this.engine.emit('drop-rejected', {
+        entity: entity.id,
+        target: target?.id,
+        reason: rejection ?? 'no-target',
+      });
+      return;
+    }
+
+    // Move the entity from its previous target to the new one
+    if (draggable.target !== target.id) {
+      this.leaveTarget(entity.id, draggable);
+    }
+    if (!dropTarget.occupants.includes(entity.id)) {
+      dropTarget.occupants.push(entity.id);
+    }
+    draggable.target = target.id;
+
+    let x = transform.x;
+    let y = transform.y;
+    if (dropTarget.snap) {
+      const centre = this.getCentre(target.id);
+      x = centre.x - transform.width / 2;
+      y = centre.y - transform.height / 2;
+      this.moveTransform(transform, x, y, draggable.snapDuration);
+    }
+
+    // Later rejections return here
+    draggable.originX = x;
+    draggable.originY = y;
+
+    this.engine.emit('drop-accepted', {
+      entity: entity.id,
+      target: target.id,
+      x,
+      y,
+    });
+  }
+
+  private leaveTarget(entityId: EntityId, draggable: Draggable): void {
+    if (draggable.target === undefined) return;
+
+    const previous = this.engine.entityManager.getComponent(
+      draggable.target,
+      DropTarget
+    );
+    if (previous) {
+      previous.occupants = previous.occupants.filter(id => id !== entityId);
+    }
+    draggable.target = undefined;
+  }
+
+  private checkDrop(
+    entity: Entity,
+    draggable: Draggable,
+    target: Entity,
+    dropTarget: DropTarget
+  ): DropRejectReason | null {
+    if (!dropTarget.enabled) return 'not-accepted';
+
+    if (
+      dropTarget.accepts.length > 0 &&
+      (draggable.group === undefined ||
+        !dropTarget.accepts.includes(draggable.group))
+    ) {
+      return 'not-accepted';
+    }
+
+    const occupants = dropTarget.occupants.filter(id => id !== entity.id);
+    if (dropTarget.capacity > 0 && occupants.length >= dropTarget.capacity) {
+      return 'full';
+    }
+
+    if (dropTarget.validate && !dropTarget.validate(entity, target)) {
+      return 'not-accepted';
+    }
+
+    return null;
+  }
+
+  private moveTransform(
+    transform: Transform,
+    x: number,
+    y: number,
+    duration: number
+  ): void {
+    this.engine.animations.stopTarget(transform);
+
+    if (this.options.reducedMotion || duration <= 0) {
+      transform.x = x;
+      transform.y = y;
+      return;
+    }
+
+    this.engine.animations.animate(
+      transform,
+      { x, y },
+      { duration, easing: Easing.easeOutQuad }
+    );
+  }
+
+  // Targets and hit testing
+
+  private setHoverTarget(targetId: EntityId | null): void {
+    if (this.hoverTarget === targetId) return;
+
+    const { entityManager } = this.engine;
+    if (this.hoverTarget !== null) {
+      const previous = entityManager.getComponent(this.hoverTarget, DropTarget);
+      if (previous) previous.hovered = false;
+    }
+
+    this.hoverTarget = targetId;
+    if (targetId !== null) {
+      const target = entityManager.getComponent(targetId, DropTarget);
+      if (target) target.hovered = true;
+    }
+  }
+
+  /**
+   * Find the enabled target under the centre of an entity, nearest first
+   */
+  private findTargetUnder(entityId: EntityId): EntityId | null {
+    const centre = this.getCentre(entityId);
+    let best: EntityId | null = null;
+    let bestDistance = Infinity;
+
+    for (const [entity, transform, target] of this.targets) {
+      if (!target.enabled || entity.id === entityId) continue;
+
+      const shape = this.getShape(entity, transform);
+      if (!this.containsPoint(shape, centre.x, centre.y, target.snapRadius)) {
+        continue;
+      }
+
+      const targetCentre = this.getCentre(entity.id);
+      const distance = Math.hypot(
+        targetCentre.x - centre.x,
+        targetCentre.y - centre.y
+      );
+      if (distance < bestDistance) {
+        best = entity.id;
+        bestDistance = distance;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Get the hit shape of an entity: its physics body shape when it has one,
+   * otherwise its scaled transform bounds
+   */
+  private getShape(entity: Entity, transform: Transform): AABB | Circle {
+    const centreX = transform.x + transform.width / 2;
+    const centreY = transform.y + transform.height / 2;
+
+    const body = this.engine.entityManager.getComponent(entity.id, PhysicsBody);
+    const rigidBody = body?.bodyId
+      ? this.engine.physics.getBody(body.bodyId)
+      : undefined;
+
+    if (rigidBody && 'radius' in rigidBody.shape) {
+      return { x: centreX, y: centreY, radius: rigidBody.shape.radius };
+    }
+    if (rigidBody && 'width' in rigidBody.shape) {
+      return {
+        x: transform.x,
+        y: transform.y,
+        width: rigidBody.shape.width,
+        height: rigidBody.shape.height,
+      };
+    }
+
+    const width = transform.width * Math.abs(transform.scaleX);
+    const height = transform.height * Math.abs(transform.scaleY);
+    return {
+      x: centreX - width / 2,
+      y: centreY - height / 2,
+      width,
+      height,
+    };
+  }
+
+  private containsPoint(
+    shape: AABB | Circle,
+    x: number,
+    y: number,
+    padding = 0
+  ): boolean {
+    if ('radius' in shape) {
+      return Math.hypot(x - shape.x, y - shape.y) <= shape.radius + padding;
+    }
+    return (
+      x >= shape.x - padding &&
+      x <= shape.x + shape.width + padding &&
+      y >= shape.y - padding &&
+      y <= shape.y + shape.height + padding
+    );
+  }
+
+  private getCentre(entityId: EntityId): { x: number; y: number } {
+    const transform = this.engine.entityManager.getComponent(
+      entityId,
+      Transform
+    );
+    if (!transform) return { x: 0, y: 0 };
+    return {
+      x: transform.x + transform.width / 2,
+      y: transform.y + transform.height / 2,
+    };
+  }
+
+  // Entity lifecycle
+
+  private handleEntityDestroyed = (entity: Entity): void => {
+    if (this.active?.entityId === entity.id) {
+      this.active = null;
+      this.setHoverTarget(null);
+    }
+    if (this.hoverTarget === entity.id) this.hoverTarget = null;
+    if (this.focusedDraggable === entity.id) this.focusedDraggable = null;
+
+    for (const [, , target] of this.targets) {
+      target.occupants = target.occupants.filter(id => id !== entity.id);
+    }
+    for (const [, , draggable] of this.draggables) {
+      if (draggable.target === entity.id) draggable.target = undefined;
+    }
+  };
+
+  private handleEntitiesCleared = (): void => {
+    this.active = null;
+    this.hoverTarget = null;
+    this.focusedDraggable = null;
+  };
+
+  /**
+   * Stop listening for input and entity changes
+   */
+  public destroy(): void {
+    const { inputManager, entityManager } = this.engine;
+    inputManager.off('input', this.handleInput);
+    inputManager.off('blur', this.handleBlur);
+    entityManager.off('entity-destroyed', this.handleEntityDestroyed);
+    entityManager.off('entities-cleared', this.handleEntitiesCleared);
+  }
+}
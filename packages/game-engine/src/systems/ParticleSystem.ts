@@ -0,0 +1,551 @@
+/**
+ * Particle System - Pooled particles spawned by ParticleEmitter components
+ */
+
+import type { GameEngine } from '../core/Engine';
+import type { CanvasRenderer } from '../core/CanvasRenderer';
+import type { Query } from '../core/Query';
+import type { System } from '../core/SystemManager';
+import type { EntityId } from '../core/EntityManager';
+import { Transform } from '../components/CoreComponents';
+import {
+  ParticleEmitter,
+  ParticlePresets,
+  type ParticleCurve,
+  type ParticlePresetName,
+} from '../components/ParticleComponents';
+
+export interface ParticleSystemOptions {
+  reducedMotion?: boolean; // Emit a few still, fading particles instead
+  poolSize?: number; // Maximum recycled particles kept (default 1000)
+}
+
+interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  rotation: number;
+  spin: number;
+  age: number;
+  lifetime: number;
+  phase: number; // Wobble offset
+  color?: string; // Fixed palette colour
+  still: boolean; // Spawned under reduced motion
+}
+
+interface ParticleGroup {
+  emitter: ParticleEmitter;
+  particles: Particle[];
+}
+
+// Particles per burst when reduced motion is on
+const REDUCED_MOTION_BURST = 5;
+
+/**
+ * Particle System - Emits, simulates and draws particles in the world pass.
+ * Particles outlive their emitter entity so effects can finish playing.
+ */
+export class ParticleSystem implements System {
+  public name = 'particles';
+  public priority = 40;
+  public enabled = true;
+  public after = ['physics', 'render'];
+
+  private engine: GameEngine;
+  private query: Query<[Transform, ParticleEmitter]>;
+  private groups: Map<EntityId, ParticleGroup> = new Map();
+  private pool: Particle[] = [];
+  private poolSize: number;
+  private reducedMotion: boolean;
+  private colorCache: Map<string, [number, number, number] | null> = new Map();
+
+  constructor(engine: GameEngine, options: ParticleSystemOptions = {}) {
+    this.engine = engine;
+    this.reducedMotion = options.reducedMotion ?? false;
+    this.poolSize = options.poolSize ?? 1000;
+    this.query = engine.entityManager.query(Transform, ParticleEmitter);
+
+    engine.entityManager.on('entities-cleared', this.handleEntitiesCleared);
+  }
+
+  /**
+   * Emit new particles, then advance and retire existing ones
+   */
+  public update(deltaTime: number): void {
+    for (const [entity, transform, emitter] of this.query) {
+      this.updateEmitter(entity.id, transform, emitter, deltaTime);
+    }
+
+    for (const [entityId, group] of this.groups) {
+      this.simulate(group, deltaTime);
+
+      if (group.particles.length > 0) continue;
+
+      const entity = this.engine.entityManager.getEntity(entityId);
+      if (!entity) {
+        this.groups.delete(entityId);
+      } else if (group.emitter.autoDestroy && !group.emitter.emitting) {
+        this.groups.delete(entityId);
+        this.engine.entityManager.destroyEntity(entityId);
+      }
+    }
+  }
+
+  /**
+   * Draw all live particles through the camera
+   */
+  public render(renderer: CanvasRenderer): void {
+    if (this.getParticleCount() === 0) return;
+
+    renderer.applyCameraTransform();
+
+    for (const { emitter, particles } of this.groups.values()) {
+      for (const particle of particles) {
+        this.drawParticle(renderer, emitter, particle);
+      }
+    }
+
+    renderer.restore();
+  }
+
+  /**
+   * Emit a burst from an entity's emitter
+   */
+  public burst(entityId: EntityId, count?: number): void {
+    const transform = this.engine.entityManager.getComponent(
+      entityId,
+      Transform
+    );
+    const emitter = this.engine.entityManager.getComponent(
+      entityId,
+      ParticleEmitter
+    );
+    if (!transform || !emitter) return;
+
+    this.spawn(entityId, transform, emitter, count ?? emitter.burstCount);
+  }
+
+  /**
+   * Create a one-off effect entity from a preset at a world position.
+   * Burst effects destroy their entity once all particles have died.
+   */
+  public spawnEffect(
+    preset: ParticlePresetName,
+    x: number,
+    y: number,
+    overrides: Partial<ParticleEmitter> = {}
+  ): EntityId {
+    const config = { ...ParticlePresets[preset], ...overrides };
+    const entity = this.engine.entityManager.createEntity();
+
+    this.engine.entityManager.addComponent(entity.id, Transform, { x, y });
+    this.engine.entityManager.addComponent(entity.id, ParticleEmitter, {
+      autoDestroy: config.mode !== 'continuous',
+      ...config,
+    });
+
+    return entity.id;
+  }
+
+  /**
+   * Start (or restart) an emitter
+   */
+  public start(entityId: EntityId): void {
+    const emitter = this.engine.entityManager.getComponent(
+      entityId,
+      ParticleEmitter
+    );
+    if (emitter) {
+      emitter.emitting = true;
+      emitter.elapsed = 0;
+      emitter.accumulator = 0;
+    }
+  }
+
+  /**
+   * Stop an emitter; live particles finish their lifetime
+   */
+  public stop(entityId: EntityId): void {
+    const emitter = this.engine.entityManager.getComponent(
+      entityId,
+      ParticleEmitter
+    );
+    if (emitter) {
+      emitter.emitting = false;
+    }
+  }
+
+  /**
+   * Remove live particles immediately (all, or one emitter's)
+   */
+  public clear(entityId?: EntityId): void {
+    const groups =
+      entityId !== undefined
+        ? [this.groups.get(entityId)]
+        : Array.from(this.groups.values());
+
+    for (const group of groups) {
+      if (!group) continue;
+      for (const particle of group.particles) {
+        this.release(particle);
+      }
+      group.particles.length = 0;
+    }
+  }
+
+  /**
+   * Get the number of live particles (all, or one emitter's)
+   */
+  public getParticleCount(entityId?: EntityId): number {
+    if (entityId !== undefined) {
+      return this.groups.get(entityId)?.particles.length ?? 0;
+    }
+
+    let count = 0;
+    for (const group of this.groups.values()) {
+      count += group.particles.length;
+    }
+    return count;
+  }
+
+  /**
+   * Replace motion with a few still, fading particles
+   */
+  public setReducedMotion(reducedMotion: boolean): void {
+    this.reducedMotion = reducedMotion;
+  }
+
+  // Emission
+
+  private updateEmitter(
+    entityId: EntityId,
+    transform: Transform,
+    emitter: ParticleEmitter,
+    deltaTime: number
+  ): void {
+    if (!emitter.emitting) return;
+
+    if (emitter.mode === 'burst') {
+      this.spawn(entityId, transform, emitter, emitter.burstCount);
+      emitter.emitting = false;
+      return;
+    }
+
+    emitter.elapsed += deltaTime;
+    if (emitter.duration > 0 && emitter.elapsed >= emitter.duration) {
+      emitter.emitting = false;
+    }
+
+    // Ambient effects are dropped entirely under reduced motion
+    if (this.reducedMotion) return;
+
+    emitter.accumulator += emitter.rate * deltaTime;
+    const count = Math.floor(emitter.accumulator);
+    if (count > 0) {
+      emitter.accumulator -= count;
+      this.spawn(entityId, transform, emitter, count);
+    }
+  }
+
+  private spawn(
+    entityId: EntityId,
+    transform: Transform,
+    emitter: ParticleEmitter,
+    count: number
+  ): void {
+    let group = this.groups.get(entityId);
+    if (!group) {
+      group = { emitter, particles: [] };
+      this.groups.set(entityId, group);
+    }
+    group.emitter = emitter;
+
+    const random = this.engine.random;
+    const originX = transform.x + transform.width / 2 + emitter.offsetX;
+    const originY = transform.y + transform.height / 2 + emitter.offsetY;
+    const total = this.reducedMotion
+      ? Math.min(count, REDUCED_MOTION_BURST)
+      : count;
+
+    for (let i = 0; i < total; i++) {
+      if (group.particles.length >= emitter.maxParticles) break;
+
+      const particle = this.acquire();
+      const position = this.samplePosition(emitter, originX, originY);
+      const angle = random.range(emitter.angle[0], emitter.angle[1]);
+      const speed = random.range(emitter.speed[0], emitter.speed[1]);
+
+      particle.x = position.x;
+      particle.y = position.y;
+      particle.still = this.reducedMotion;
+      particle.vx = particle.still ? 0 : Math.cos(angle) * speed;
+      particle.vy = particle.still ? 0 : Math.sin(angle) * speed;
+      particle.rotation = random.range(0, Math.PI * 2);
+      particle.spin = particle.still
+        ? 0
+        : random.range(emitter.spin[0], emitter.spin[1]);
+      particle.age = 0;
+      particle.lifetime = random.range(
+        emitter.lifetime[0],
+        emitter.lifetime[1]
+      );
+      particle.phase = random.range(0, Math.PI * 2);
+      particle.color = emitter.palette?.length
+        ? random.pick(emitter.palette)
+        : undefined;
+
+      group.particles.push(particle);
+    }
+  }
+
+  private samplePosition(
+    emitter: ParticleEmitter,
+    x: number,
+    y: number
+  ): { x: number; y: number } {
+    const random = this.engine.random;
+    const shape = emitter.shape;
+
+    switch (shape.type) {
+      case 'circle': {
+        const angle = random.range(0, Math.PI * 2);
+        const radius = shape.edge
+          ? shape.radius
+          : shape.radius * Math.sqrt(random.next());
+        return {
+          x: x + Math.cos(angle) * radius,
+          y: y + Math.sin(angle) * radius,
+        };
+      }
+      case 'rect':
+        return {
+          x: x + (random.next() - 0.5) * shape.width,
+          y: y + (random.next() - 0.5) * shape.height,
+        };
+      case 'line': {
+        const distance = (random.next() - 0.5) * shape.length;
+        const angle = shape.angle ?? 0;
+        return {
+          x: x + Math.cos(angle) * distance,
+          y: y + Math.sin(angle) * distance,
+        };
+      }
+      default:
+        return { x, y };
+    }
+  }
+
+  // Simulation
+
+  private simulate(group: ParticleGroup, deltaTime: number): void {
+    const { emitter, particles } = group;
+    const damping = Math.max(0, 1 - emitter.drag * deltaTime);
+
+    for (let i = particles.length - 1; i >= 0; i--) {
+      const particle = particles[i];
+      particle.age += deltaTime;
+
+      if (particle.age >= particle.lifetime) {
+        // Swap-remove; draw order among particles doesn't matter
+        particles[i] = particles[particles.length - 1];
+        particles.pop();
+        this.release(particle);
+        continue;
+      }
+
+      if (particle.still) continue;
+
+      particle.vx = (particle.vx + emitter.gravity.x * deltaTime) * damping;
+      particle.vy = (particle.vy + emitter.gravity.y * deltaTime) * damping;
+      particle.x += particle.vx * deltaTime;
+      particle.y += particle.vy * deltaTime;
+      particle.rotation += particle.spin * deltaTime;
+
+      if (emitter.wobble) {
+        particle.x +=
+          Math.sin(particle.age * 3 + particle.phase) *
+          emitter.wobble *
+          deltaTime;
+      }
+    }
+  }
+
+  private acquire(): Particle {
+    return (
+      this.pool.pop() ?? {
+        x: 0,
+        y: 0,
+        vx: 0,
+        vy: 0,
+        rotation: 0,
+        spin: 0,
+        age: 0,
+        lifetime: 1,
+        phase: 0,
+        still: false,
+      }
+    );
+  }
+
+  private release(particle: Particle): void {
+    if (this.pool.length < this.poolSize) {
+      this.pool.push(particle);
+    }
+  }
+
+  // Rendering
+
+  private drawParticle(
+    renderer: CanvasRenderer,
+    emitter: ParticleEmitter,
+    particle: Particle
+  ): void {
+    const t = particle.age / particle.lifetime;
+    const size = this.sampleNumber(emitter.size, t);
+    const alpha = this.sampleNumber(emitter.alpha, t);
+    if (size <= 0 || alpha <= 0) return;
+
+    const color = particle.color ?? this.sampleColor(emitter.color, t);
+    const { x, y, rotation } = particle;
+    const half = size / 2;
+
+    renderer.setAlpha(alpha);
+
+    switch (emitter.particleShape) {
+      case 'circle':
+        renderer.drawCircle(x, y, half, color);
+        break;
+      case 'square':
+        renderer.drawPolygon(
+          this.rotated(x, y, rotation, [
+            [-half, -half],
+            [half, -half],
+            [half, half],
+            [-half, half],
+          ]),
+          color
+        );
+        break;
+      case 'rect':
+        renderer.drawPolygon(
+          this.rotated(x, y, rotation, [
+            [-half, -half / 2],
+            [half, -half / 2],
+            [half, half / 2],
+            [-half, half / 2],
+          ]),
+          color
+        );
+        break;
+      case 'leaf':
+        renderer.drawPolygon(
+          this.rotated(x, y, rotation, [
+            [half, 0],
+            [0, half / 2],
+            [-half, 0],
+            [0, -half / 2],
+          ]),
+          color
+        );
+        break;
+      case 'star': {
+        const points: Array<[number, number]> = [];
+        for (let i = 0; i < 10; i++) {
+          const radius = i % 2 === 0 ? half : half * 0.45;
+          const angle = (i * Math.PI) / 5 - Math.PI / 2;
+          points.push([Math.cos(angle) * radius, Math.sin(angle) * radius]);
+        }
+        renderer.drawPolygon(this.rotated(x, y, rotation, points), color);
+        break;
+      }
+    }
+  }
+
+  private rotated(
+    x: number,
+    y: number,
+    rotation: number,
+    points: Array<[number, number]>
+  ): Array<{ x: number; y: number }> {
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    return points.map(([px, py]) => ({
+      x: x + px * cos - py * sin,
+      y: y + px * sin + py * cos,
+    }));
+  }
+
+  private sampleNumber(curve: ParticleCurve<number>, t: number): number {
+    if (!Array.isArray(curve)) return curve;
+    if (curve.length === 1) return curve[0];
+
+    const position = Math.min(Math.max(t, 0), 1) * (curve.length - 1);
+    const index = Math.min(Math.floor(position), curve.length - 2);
+    const fraction = position - index;
+    return curve[index] + (curve[index + 1] - curve[index]) * fraction;
+  }
+
+  private sampleColor(curve: ParticleCurve<string>, t: number): string {
+    if (!Array.isArray(curve)) return curve;
+    if (curve.length === 1) return curve[0];
+
+    const position = Math.min(Math.max(t, 0), 1) * (curve.length - 1);
+    const index = Math.min(Math.floor(position), curve.length - 2);
+    const fraction = position - index;
+    const from = this.parseColor(curve[index]);
+    const to = this.parseColor(curve[index + 1]);
+
+    // Only hex colours interpolate; anything else steps between stops
+    if (!from || !to) {
+      return fraction < 0.5 ? curve[index] : curve[index + 1];
+    }
+
+    const channel = (i: number) =>
+      Math.round(from[i] + (to[i] - from[i]) * fraction);
+    return `rgb(${channel(0)}, ${channel(1)}, ${channel(2)})`;
+  }
+
+  private parseColor(color: string): [number, number, number] | null {
+    let parsed = this.colorCache.get(color);
+    if (parsed !== undefined) return parsed;
+
+    const hex = color.startsWith('#') ? color.slice(1) : '';
+    const full =
+      hex.length === 3
+        ? hex
+            .split('')
+            .map(c => c + c)
+            .join('')
+        : hex;
+
+    parsed = /^[0-9a-f]{6}$/i.test(full)
+      ? [
+          parseInt(full.slice(0, 2), 16),
+          parseInt(full.slice(2, 4), 16),
+          parseInt(full.slice(4, 6), 16),
+        ]
+      : null;
+
+    this.colorCache.set(color, parsed);
+    return parsed;
+  }
+
+  private handleEntitiesCleared = (): void => {
+    this.clear();
+    this.groups.clear();
+  };
+
+  /**
+   * Release particles and stop listening for entity changes
+   */
+  public destroy(): void {
+    this.engine.entityManager.off(
+      'entities-cleared',
+      this.handleEntitiesCleared
+    );
+    this.clear();
+    this.groups.clear();
+    this.pool = [];
+  }
+}
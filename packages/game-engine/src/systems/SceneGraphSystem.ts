@@ -0,0 +1,677 @@
+/**
+ * Scene Graph System - Parent/child transform propagation, hit testing and
+ * pointer routing
+ */
+
+import type { GameEngine } from '../core/Engine';
+import type { Query } from '../core/Query';
+import type { System } from '../core/SystemManager';
+import type { Entity, EntityId } from '../core/EntityManager';
+import type { InputEvent } from '../core/InputManager';
+import { Transform } from '../components/CoreComponents';
+import { Hierarchy, Interactive } from '../components/SceneGraphComponents';
+import type {
+  ScenePointerEvent,
+  ScenePointerEventType,
+} from '../components/SceneGraphComponents';
+
+type PointerInfo = Pick<
+  ScenePointerEvent,
+  'pointer' | 'button' | 'x' | 'y' | 'screenX' | 'screenY'
+>;
+
+interface NodeCache {
+  inputs: number[]; // Values the world state was last computed from
+  world: number[]; // Transform values last written (children only)
+}
+
+// Parents without a Transform act as a group at the world origin
+const IDENTITY: Transform = {
+  x: 0,
+  y: 0,
+  width: 0,
+  height: 0,
+  rotation: 0,
+  scaleX: 1,
+  scaleY: 1,
+  layer: 0,
+};
+
+/**
+ * Map a point in a transform's local space (origin at its top-left,
+ * unrotated and unscaled) to world space. Rotation and scale pivot on the
+ * centre, as in RenderSystem.
+ */
+function localToWorldPoint(
+  transform: Transform,
+  x: number,
+  y: number
+): { x: number; y: number } {
+  const dx = (x - transform.width / 2) * transform.scaleX;
+  const dy = (y - transform.height / 2) * transform.scaleY;
+  const cos = Math.cos(transform.rotation);
+  const sin = Math.sin(transform.rotation);
+
+  return {
+    x: transform.x + transform.width / 2 + dx * cos - dy * sin,
+    y: transform.y + transform.height / 2 + dx * sin + dy * cos,
+  };
+}
+
+function worldToLocalPoint(
+  transform: Transform,
+  x: number,
+  y: number
+): { x: number; y: number } {
+  const dx = x - (transform.x + transform.width / 2);
+  const dy = y - (transform.y + transform.height / 2);
+  const cos = Math.cos(transform.rotation);
+  const sin = Math.sin(transform.rotation);
+
+  // Zero scale collapses the entity; nothing maps back into it
+  return {
+    x: (dx * cos + dy * sin) / transform.scaleX + transform.width / 2,
+    y: (-dx * sin + dy * cos) / transform.scaleY + transform.height / 2,
+  };
+}
+
+function worldValues(transform: Transform): number[] {
+  return [
+    transform.x,
+    transform.y,
+    transform.rotation,
+    transform.scaleX,
+    transform.scaleY,
+  ];
+}
+
+function sameValues(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+/**
+ * Scene Graph System - Writes each child's world Transform from its parent
+ * and its Hierarchy local transform, recomputing only subtrees whose inputs
+ * changed. Routes pointer input to the topmost Interactive entity and
+ * bubbles it up through the parents; emits 'pointer-<type>' on the engine.
+ */
+export class SceneGraphSystem implements System {
+  public name = 'scene-graph';
+  public priority = 90;
+  public enabled = true;
+  public after = ['movement', 'drag-drop', 'physics', 'animation'];
+  public before = ['render'];
+
+  private engine: GameEngine;
+  private nodes: Query<[Hierarchy]>;
+  private interactives: Query<[Transform, Interactive]>;
+  private cache: Map<EntityId, NodeCache> = new Map();
+  private hovered: Map<string, EntityId> = new Map();
+  private pressed: Map<string, EntityId> = new Map();
+
+  constructor(engine: GameEngine) {
+    this.engine = engine;
+    this.nodes = engine.entityManager.query(Hierarchy);
+    this.interactives = engine.entityManager.query(Transform, Interactive);
+
+    engine.inputManager.on('input', this.handleInput);
+    engine.inputManager.on('blur', this.handleBlur);
+    engine.entityManager.on('entity-destroyed', this.handleEntityDestroyed);
+    engine.entityManager.on('entities-cleared', this.handleEntitiesCleared);
+  }
+
+  public update(): void {
+    this.updateTransforms();
+  }
+
+  /**
+   * Propagate transforms now (e.g. before hit testing mid-frame)
+   */
+  public updateTransforms(): void {
+    for (const [entity, node] of this.nodes) {
+      if (node.parent === undefined) {
+        this.updateNode(entity.id, node, null, false, 0);
+      }
+    }
+  }
+
+  /**
+   * Attach an entity to a parent, or detach it with null. By default the
+   * entity keeps its current world transform; pass false to place it at
+   * its Hierarchy local transform instead.
+   */
+  public setParent(
+    childId: EntityId,
+    parentId: EntityId | null,
+    keepWorldTransform = true
+  ): void {
+    const { entityManager } = this.engine;
+    if (!entityManager.getEntity(childId)) return;
+
+    if (parentId !== null) {
+      if (!entityManager.getEntity(parentId)) {
+        throw new Error(`Entity ${parentId} not found`);
+      }
+      if (parentId === childId || this.isAncestor(childId, parentId)) {
+        throw new Error(
+          `Entity ${childId} cannot be parented to itself or a descendant`
+        );
+      }
+    }
+
+    const node = this.ensureNode(childId);
+    if (node.parent !== undefined) {
+      const previous = entityManager.getComponent(node.parent, Hierarchy);
+      if (previous) {
+        previous.children = previous.children.filter(id => id !== childId);
+      }
+    }
+
+    node.parent = parentId ?? undefined;
+
+    if (parentId !== null) {
+      this.ensureNode(parentId).children.push(childId);
+
+      const transform = entityManager.getComponent(childId, Transform);
+      if (keepWorldTransform && transform) {
+        this.setLocalFromWorld(node, transform, this.getParentTransform(node));
+      }
+    }
+
+    // Detached entities keep their world Transform as the new root transform
+    this.cache.delete(childId);
+    node.dirty = true;
+    this.updateTransforms();
+  }
+
+  /**
+   * Get an entity's parent
+   */
+  public getParent(entityId: EntityId): EntityId | null {
+    return (
+      this.engine.entityManager.getComponent(entityId, Hierarchy)?.parent ??
+      null
+    );
+  }
+
+  /**
+   * Get an entity's direct children in draw order
+   */
+  public getChildren(entityId: EntityId): EntityId[] {
+    const node = this.engine.entityManager.getComponent(entityId, Hierarchy);
+    return node ? [...node.children] : [];
+  }
+
+  /**
+   * Convert a world point into an entity's local space (origin at its
+   * top-left, unrotated and unscaled)
+   */
+  public worldToLocal(
+    entityId: EntityId,
+    x: number,
+    y: number
+  ): { x: number; y: number } {
+    const transform = this.engine.entityManager.getComponent(
+      entityId,
+      Transform
+    );
+    return transform ? worldToLocalPoint(transform, x, y) : { x, y };
+  }
+
+  /**
+   * Convert a point in an entity's local space to world space
+   */
+  public localToWorld(
+    entityId: EntityId,
+    x: number,
+    y: number
+  ): { x: number; y: number } {
+    const transform = this.engine.entityManager.getComponent(
+      entityId,
+      Transform
+    );
+    return transform ? localToWorldPoint(transform, x, y) : { x, y };
+  }
+
+  /**
+   * Check whether a world point lies inside an entity, honouring rotation,
+   * scale, inherited visibility and the Interactive hit area
+   */
+  public hitTest(entityId: EntityId, x: number, y: number): boolean {
+    const { entityManager } = this.engine;
+    const transform = entityManager.getComponent(entityId, Transform);
+    if (!transform) return false;
+
+    const node = entityManager.getComponent(entityId, Hierarchy);
+    if (node && !node.worldVisible) return false;
+
+    const area = entityManager.getComponent(entityId, Interactive)?.hitArea ?? {
+      x: 0,
+      y: 0,
+      width: transform.width,
+      height: transform.height,
+    };
+    const local = worldToLocalPoint(transform, x, y);
+
+    return (
+      local.x >= area.x &&
+      local.x <= area.x + area.width &&
+      local.y >= area.y &&
+      local.y <= area.y + area.height
+    );
+  }
+
+  /**
+   * Find the topmost enabled Interactive entity at a world point
+   */
+  public pick(x: number, y: number): EntityId | null {
+    let picked: EntityId | null = null;
+    let pickedLayer = -Infinity;
+
+    for (const [entity, transform, interactive] of this.interactives) {
+      if (!interactive.enabled || !entity.active) continue;
+      if (!this.hitTest(entity.id, x, y)) continue;
+
+      // Topmost layer wins; later entities draw above earlier ones
+      if (transform.layer >= pickedLayer) {
+        picked = entity.id;
+        pickedLayer = transform.layer;
+      }
+    }
+
+    return picked;
+  }
+
+  /**
+   * Find the topmost Interactive entity at a screen point (camera applied)
+   */
+  public pickAtScreen(screenX: number, screenY: number): EntityId | null {
+    const { x, y } = this.engine.renderer.screenToWorld(screenX, screenY);
+    return this.pick(x, y);
+  }
+
+  /**
+   * Press and click an entity without a pointer (switch access, keyboard).
+   * Dispatches down, up and click at its centre, bubbling as usual.
+   */
+  public activate(entityId: EntityId, pointer = 'switch'): void {
+    const transform = this.engine.entityManager.getComponent(
+      entityId,
+      Transform
+    );
+    if (!transform) return;
+
+    const { x, y } = this.localToWorld(
+      entityId,
+      transform.width / 2,
+      transform.height / 2
+    );
+    const screen = this.engine.renderer.worldToScreen(x, y);
+    const info: PointerInfo = {
+      pointer,
+      button: 0,
+      x,
+      y,
+      screenX: screen.x,
+      screenY: screen.y,
+    };
+
+    this.dispatch('down', entityId, info);
+    this.dispatch('up', entityId, info);
+    this.dispatch('click', entityId, info);
+  }
+
+  // Transform propagation
+
+  private updateNode(
+    entityId: EntityId,
+    node: Hierarchy,
+    parent: { node: Hierarchy; transform: Transform } | null,
+    parentChanged: boolean,
+    depth: number
+  ): void {
+    const transform = this.engine.entityManager.getComponent(
+      entityId,
+      Transform
+    );
+    const cache = this.cache.get(entityId);
+    let changed = parentChanged || node.dirty;
+
+    // Something else moved the child (a drag, a tween); adopt it as local
+    if (
+      parent &&
+      transform &&
+      cache &&
+      !sameValues(cache.world, worldValues(transform))
+    ) {
+      this.setLocalFromWorld(node, transform, parent.transform);
+      changed = true;
+    }
+
+    const size = [transform?.width ?? 0, transform?.height ?? 0];
+    const inputs = parent
+      ? [node.x, node.y, node.rotation, node.scaleX, node.scaleY, ...size]
+      : [...(transform ? worldValues(transform) : []), ...size];
+    inputs.push(node.alpha, node.visible ? 1 : 0);
+
+    if (!cache || !sameValues(cache.inputs, inputs)) {
+      changed = true;
+    }
+
+    node.depth = depth;
+
+    if (changed) {
+      node.worldAlpha = (parent?.node.worldAlpha ?? 1) * node.alpha;
+      node.worldVisible = (parent?.node.worldVisible ?? true) && node.visible;
+
+      if (parent && transform) {
+        this.applyWorldTransform(node, transform, parent.transform);
+      }
+
+      this.cache.set(entityId, {
+        inputs,
+        world: transform ? worldValues(transform) : [],
+      });
+      node.dirty = false;
+    }
+
+    for (const childId of node.children) {
+      const child = this.engine.entityManager.getComponent(childId, Hierarchy);
+      if (child) {
+        this.updateNode(
+          childId,
+          child,
+          { node, transform: transform ?? IDENTITY },
+          changed,
+          depth + 1
+        );
+      }
+    }
+  }
+
+  private applyWorldTransform(
+    node: Hierarchy,
+    transform: Transform,
+    parent: Transform
+  ): void {
+    const centre = localToWorldPoint(
+      parent,
+      node.x + transform.width / 2,
+      node.y + transform.height / 2
+    );
+
+    transform.x = centre.x - transform.width / 2;
+    transform.y = centre.y - transform.height / 2;
+    transform.rotation = parent.rotation + node.rotation;
+    transform.scaleX = parent.scaleX * node.scaleX;
+    transform.scaleY = parent.scaleY * node.scaleY;
+  }
+
+  private setLocalFromWorld(
+    node: Hierarchy,
+    transform: Transform,
+    parent: Transform
+  ): void {
+    const centre = worldToLocalPoint(
+      parent,
+      transform.x + transform.width / 2,
+      transform.y + transform.height / 2
+    );
+
+    node.x = centre.x - transform.width / 2;
+    node.y = centre.y - transform.height / 2;
+    node.rotation = transform.rotation - parent.rotation;
+    if (parent.scaleX !== 0) node.scaleX = transform.scaleX / parent.scaleX;
+    if (parent.scaleY !== 0) node.scaleY = transform.scaleY / parent.scaleY;
+  }
+
+  private getParentTransform(node: Hierarchy): Transform {
+    if (node.parent === undefined) return IDENTITY;
+    return (
+      this.engine.entityManager.getComponent(node.parent, Transform) ?? IDENTITY
+    );
+  }
+
+  private ensureNode(entityId: EntityId): Hierarchy {
+    return (
+      this.engine.entityManager.getComponent(entityId, Hierarchy) ??
+      this.engine.entityManager.addComponent(entityId, Hierarchy)
+    );
+  }
+
+  private isAncestor(ancestorId: EntityId, entityId: EntityId): boolean {
+    return this.getPath(entityId).slice(1).includes(ancestorId);
+  }
+
+  /**
+   * The entity followed by its ancestors, nearest first
+   */
+  private getPath(entityId: EntityId): EntityId[] {
+    const path: EntityId[] = [entityId];
+    let parent = this.getParent(entityId);
+
+    while (parent !== null && !path.includes(parent)) {
+      path.push(parent);
+      parent = this.getParent(parent);
+    }
+
+    return path;
+  }
+
+  // Pointer routing
+
+  private handleInput = (event: InputEvent): void => {
+    if (!this.enabled) return;
+
+    // A modal overlay has the input; let go of anything held underneath
+    if (this.engine.sceneManager.isInputBlocked()) {
+      this.handleBlur();
+      return;
+    }
+
+    const pointer = this.getPointerId(event);
+    if (!pointer || event.handled) return;
+
+    const screenX: number = event.data.x;
+    const screenY: number = event.data.y;
+    const { x, y } = this.engine.renderer.screenToWorld(screenX, screenY);
+    const info: PointerInfo = {
+      pointer,
+      button: event.type === 'mouse' ? (event.data.button ?? 0) : 0,
+      x,
+      y,
+      screenX,
+      screenY,
+    };
+
+    // A cancelled touch lets go without clicking
+    if (event.action === 'cancel') {
+      this.setPressed(pointer, null);
+      this.setHovered(pointer, null, info);
+      return;
+    }
+
+    const target = this.pick(x, y);
+    this.setHovered(pointer, target, info);
+
+    if (event.action === 'move') {
+      if (target !== null) this.dispatch('move', target, info);
+    } else if (event.action === 'down') {
+      if (target !== null) {
+        this.setPressed(pointer, target);
+        this.dispatch('down', target, info);
+      }
+    } else if (event.action === 'up') {
+      const pressed = this.pressed.get(pointer);
+      this.setPressed(pointer, null);
+
+      if (target !== null) {
+        this.dispatch('up', target, info);
+
+        // Click the nearest entity containing both press and release
+        if (pressed !== undefined) {
+          const pressedPath = this.getPath(pressed);
+          const clicked = this.getPath(target).find(id =>
+            pressedPath.includes(id)
+          );
+          if (clicked !== undefined) this.dispatch('click', clicked, info);
+        }
+      }
+
+      // Lifted fingers no longer hover anything
+      if (event.type === 'touch') this.setHovered(pointer, null, info);
+    }
+  };
+
+  private getPointerId(event: InputEvent): string | null {
+    if (event.type === 'mouse') {
+      return event.action === 'wheel' ? null : 'mouse';
+    }
+    if (event.type === 'touch') {
+      if (event.data.gesture === 'long-press') return null;
+      return `touch:${event.data.id}`;
+    }
+    return null;
+  }
+
+  private setHovered(
+    pointer: string,
+    target: EntityId | null,
+    info: PointerInfo
+  ): void {
+    const previous = this.hovered.get(pointer) ?? null;
+    if (previous === target) return;
+
+    if (previous !== null) {
+      this.hovered.delete(pointer);
+      this.setInteractiveState(previous, 'hovered', false);
+      this.dispatch('out', previous, info);
+    }
+    if (target !== null) {
+      this.hovered.set(pointer, target);
+      this.setInteractiveState(target, 'hovered', true);
+      this.dispatch('over', target, info);
+    }
+  }
+
+  private setPressed(pointer: string, target: EntityId | null): void {
+    const previous = this.pressed.get(pointer);
+    if (previous !== undefined) {
+      this.pressed.delete(pointer);
+      this.setInteractiveState(previous, 'pressed', false);
+    }
+    if (target !== null) {
+      this.pressed.set(pointer, target);
+      this.setInteractiveState(target, 'pressed', true);
+    }
+  }
+
+  private setInteractiveState(
+    entityId: EntityId,
+    key: 'hovered' | 'pressed',
+    value: boolean
+  ): void {
+    const interactive = this.engine.entityManager.getComponent(
+      entityId,
+      Interactive
+    );
+    if (interactive) interactive[key] = value;
+  }
+
+  /**
+   * Run handlers from the target up through its ancestors until one stops
+   * propagation
+   */
+  private dispatch(
+    type: ScenePointerEventType,
+    target: EntityId,
+    info: PointerInfo
+  ): void {
+    const { entityManager } = this.engine;
+    let stopped = false;
+    const event: ScenePointerEvent = {
+      ...info,
+      type,
+      target,
+      currentTarget: target,
+      localX: 0,
+      localY: 0,
+      stopPropagation: () => {
+        stopped = true;
+      },
+    };
+
+    for (const entityId of this.getPath(target)) {
+      const interactive = entityManager.getComponent(entityId, Interactive);
+      const handler = interactive?.enabled
+        ? interactive.handlers[type]
+        : undefined;
+      if (!handler) continue;
+
+      const local = this.worldToLocal(entityId, info.x, info.y);
+      event.currentTarget = entityId;
+      event.localX = local.x;
+      event.localY = local.y;
+      handler(event);
+
+      if (stopped) break;
+    }
+
+    this.engine.emit(`pointer-${type}`, {
+      entity: target,
+      pointer: info.pointer,
+      x: info.x,
+      y: info.y,
+    });
+  }
+
+  private handleBlur = (): void => {
+    // Releases outside the window never arrive
+    for (const pointer of Array.from(this.pressed.keys())) {
+      this.setPressed(pointer, null);
+    }
+  };
+
+  private handleEntityDestroyed = (entity: Entity): void => {
+    const { entityManager } = this.engine;
+    this.cache.delete(entity.id);
+
+    for (const map of [this.hovered, this.pressed]) {
+      for (const [pointer, id] of Array.from(map)) {
+        if (id === entity.id) map.delete(pointer);
+      }
+    }
+
+    const node = entity.components.get(Hierarchy.name) as Hierarchy | undefined;
+    if (!node) return;
+
+    if (node.parent !== undefined) {
+      const parent = entityManager.getComponent(node.parent, Hierarchy);
+      if (parent) {
+        parent.children = parent.children.filter(id => id !== entity.id);
+      }
+    }
+
+    // Children go with their parent
+    for (const childId of node.children) {
+      entityManager.destroyEntity(childId);
+    }
+  };
+
+  private handleEntitiesCleared = (): void => {
+    this.cache.clear();
+    this.hovered.clear();
+    this.pressed.clear();
+  };
+
+  /**
+   * Stop listening for input and entity changes
+   */
+  public destroy(): void {
+    const { inputManager, entityManager } = this.engine;
+    inputManager.off('input', this.handleInput);
+    inputManager.off('blur', this.handleBlur);
+    entityManager.off('entity-destroyed', this.handleEntityDestroyed);
+    entityManager.off('entities-cleared', this.handleEntitiesCleared);
+  }
+}
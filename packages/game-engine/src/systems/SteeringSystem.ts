@@ -0,0 +1,243 @@
+/**
+ * Steering System - Drives Velocity from Steering behaviours
+ */
+
+import type { GameEngine } from '../core/Engine';
+import type { Query } from '../core/Query';
+import type { System } from '../core/SystemManager';
+import type { EntityId } from '../core/EntityManager';
+import { findPath } from '../core/Pathfinding';
+import type { NavGrid, PathOptions } from '../core/Pathfinding';
+import { Transform, Velocity } from '../components/CoreComponents';
+import { Steering } from '../components/NavigationComponents';
+
+export interface SteeringSystemOptions {
+  grid?: NavGrid; // Used by moveTo() to route around obstacles
+  pathOptions?: PathOptions; // Defaults for moveTo() (default: no corner cutting, smoothed)
+}
+
+/**
+ * Steering System - Accelerates each steering entity's Velocity towards the
+ * velocity its behaviour wants, capped by maxSpeed and maxAcceleration.
+ * MovementSystem or PhysicsSystem then moves the entity. Positions are the
+ * entity's centre. Emits 'steering-arrived' on the engine when 'arrive' or
+ * 'follow-path' reaches its end, and the entity goes idle.
+ */
+export class SteeringSystem implements System {
+  public name = 'steering';
+  public priority = 5;
+  public enabled = true;
+  public before = ['movement', 'physics'];
+
+  private engine: GameEngine;
+  private query: Query<[Transform, Velocity, Steering]>;
+  private grid: NavGrid | null;
+  private pathOptions: PathOptions;
+
+  constructor(engine: GameEngine, options: SteeringSystemOptions = {}) {
+    this.engine = engine;
+    this.query = engine.entityManager.query(Transform, Velocity, Steering);
+    this.grid = options.grid ?? null;
+    this.pathOptions = {
+      diagonals: 'no-corner-cutting',
+      smooth: true,
+      ...options.pathOptions,
+    };
+  }
+
+  /**
+   * Set the grid moveTo() plans on (null to move in straight lines)
+   */
+  public setGrid(grid: NavGrid | null): void {
+    this.grid = grid;
+  }
+
+  public getGrid(): NavGrid | null {
+    return this.grid;
+  }
+
+  /**
+   * Walk an entity to a world position, following a path over the grid when
+   * one is set. Returns false (and leaves the entity alone) if the target
+   * can't be reached.
+   */
+  public moveTo(
+    entityId: EntityId,
+    x: number,
+    y: number,
+    options: PathOptions = {}
+  ): boolean {
+    const { entityManager } = this.engine;
+    const transform = entityManager.getComponent(entityId, Transform);
+    const steering = entityManager.getComponent(entityId, Steering);
+    if (!transform || !steering) return false;
+
+    if (!this.grid) {
+      this.setBehavior(steering, 'arrive', { x, y }, []);
+      return true;
+    }
+
+    const grid = this.grid;
+    const path = findPath(
+      grid,
+      grid.worldToCell(
+        transform.x + transform.width / 2,
+        transform.y + transform.height / 2
+      ),
+      grid.worldToCell(x, y),
+      { ...this.pathOptions, ...options }
+    );
+    if (!path) return false;
+
+    // Skip the cell the entity stands in, and end on the exact target
+    const waypoints = path
+      .slice(1, -1)
+      .map(cell => grid.cellToWorld(cell.col, cell.row));
+    const last = path[path.length - 1];
+    const reached = grid.worldToCell(x, y);
+    waypoints.push(
+      last.col === reached.col && last.row === reached.row
+        ? { x, y }
+        : grid.cellToWorld(last.col, last.row)
+    );
+
+    this.setBehavior(steering, 'follow-path', null, waypoints);
+    return true;
+  }
+
+  /**
+   * Stop steering and bring the entity to a halt
+   */
+  public stop(entityId: EntityId): void {
+    const { entityManager } = this.engine;
+    const steering = entityManager.getComponent(entityId, Steering);
+    const velocity = entityManager.getComponent(entityId, Velocity);
+    if (steering) this.setBehavior(steering, 'idle', null, []);
+    if (velocity) {
+      velocity.x = 0;
+      velocity.y = 0;
+    }
+  }
+
+  public update(deltaTime: number): void {
+    for (const [entity, transform, velocity, steering] of this.query) {
+      if (steering.behavior === 'idle' || !entity.active) continue;
+
+      const x = transform.x + transform.width / 2;
+      const y = transform.y + transform.height / 2;
+      const desired = this.getDesiredVelocity(steering, x, y);
+
+      if (!desired) {
+        velocity.x = 0;
+        velocity.y = 0;
+        this.setBehavior(steering, 'idle', steering.target, steering.path);
+        steering.arrived = true;
+        this.engine.emit('steering-arrived', { entity: entity.id });
+        continue;
+      }
+
+      // Turn towards the desired velocity no faster than maxAcceleration
+      let ax = desired.x - velocity.x;
+      let ay = desired.y - velocity.y;
+      const change = Math.hypot(ax, ay);
+      const maxChange = steering.maxAcceleration * deltaTime;
+      if (change > maxChange) {
+        ax *= maxChange / change;
+        ay *= maxChange / change;
+      }
+      velocity.x += ax;
+      velocity.y += ay;
+
+      const speed = Math.hypot(velocity.x, velocity.y);
+      if (speed > steering.maxSpeed) {
+        velocity.x *= steering.maxSpeed / speed;
+        velocity.y *= steering.maxSpeed / speed;
+      }
+    }
+  }
+
+  /**
+   * The velocity the behaviour wants, or null once it has arrived
+   */
+  private getDesiredVelocity(
+    steering: Steering,
+    x: number,
+    y: number
+  ): { x: number; y: number } | null {
+    if (steering.behavior === 'follow-path') {
+      const path = steering.path;
+      if (path.length === 0) return null;
+      const isLast = (): boolean =>
+        !steering.loop && steering.pathIndex === path.length - 1;
+
+      // Move on past waypoints that are close enough
+      for (let skipped = 0; skipped < path.length && !isLast(); skipped++) {
+        const waypoint = path[steering.pathIndex];
+        if (
+          Math.hypot(waypoint.x - x, waypoint.y - y) > steering.waypointRadius
+        ) {
+          break;
+        }
+        steering.pathIndex = (steering.pathIndex + 1) % path.length;
+      }
+
+      const waypoint = path[steering.pathIndex];
+      return isLast()
+        ? this.arrive(steering, x, y, waypoint)
+        : this.seek(steering, x, y, waypoint);
+    }
+
+    if (!steering.target) return null;
+    return steering.behavior === 'seek'
+      ? this.seek(steering, x, y, steering.target)
+      : this.arrive(steering, x, y, steering.target);
+  }
+
+  private seek(
+    steering: Steering,
+    x: number,
+    y: number,
+    target: { x: number; y: number }
+  ): { x: number; y: number } {
+    const dx = target.x - x;
+    const dy = target.y - y;
+    const distance = Math.hypot(dx, dy);
+    if (distance === 0) return { x: 0, y: 0 };
+
+    return {
+      x: (dx / distance) * steering.maxSpeed,
+      y: (dy / distance) * steering.maxSpeed,
+    };
+  }
+
+  private arrive(
+    steering: Steering,
+    x: number,
+    y: number,
+    target: { x: number; y: number }
+  ): { x: number; y: number } | null {
+    const dx = target.x - x;
+    const dy = target.y - y;
+    const distance = Math.hypot(dx, dy);
+    if (distance <= steering.arriveRadius) return null;
+
+    const speed =
+      distance < steering.slowingRadius
+        ? (steering.maxSpeed * distance) / steering.slowingRadius
+        : steering.maxSpeed;
+    return { x: (dx / distance) * speed, y: (dy / distance) * speed };
+  }
+
+  private setBehavior(
+    steering: Steering,
+    behavior: Steering['behavior'],
+    target: Steering['target'],
+    path: Steering['path']
+  ): void {
+    steering.behavior = behavior;
+    steering.target = target;
+    steering.path = path;
+    steering.pathIndex = 0;
+    steering.arrived = false;
+  }
+}
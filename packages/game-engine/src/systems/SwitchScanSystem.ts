@@ -0,0 +1,310 @@
+/**
+ * Switch Scan System - Single- and two-switch access to Interactive
+ * entities
+ */
+
+import type { GameEngine } from '../core/Engine';
+import type { CanvasRenderer } from '../core/CanvasRenderer';
+import type { Query } from '../core/Query';
+import type { System } from '../core/SystemManager';
+import type { Entity, EntityId } from '../core/EntityManager';
+import { GamepadButtons } from '../core/InputManager';
+import { Transform } from '../components/CoreComponents';
+import { Hierarchy, Interactive } from '../components/SceneGraphComponents';
+import type { SceneGraphSystem } from './SceneGraphSystem';
+
+// 'auto': focus advances on a timer and the switch selects.
+// 'step': the scan switch advances and the select switch (or dwell) selects.
+export type SwitchScanMode = 'auto' | 'step';
+
+export interface SwitchScanOptions {
+  mode?: SwitchScanMode; // Default 'auto'
+  interval?: number; // ms each entity stays focused in auto mode (default 1500)
+  dwell?: number; // ms before a step-mode focus selects itself (default 0, off)
+  scanAction?: string; // Default 'switch-scan' (Space, gamepad A)
+  selectAction?: string; // Default 'switch-select' (Enter, gamepad B)
+  color?: string; // Focus ring
+  lineWidth?: number;
+}
+
+const FOCUS_PADDING = 6;
+
+/**
+ * Switch Scan System - Cycles focus through enabled, visible Interactive
+ * entities in reading order and clicks the focused one through the scene
+ * graph, so switch users reach everything a pointer can. Scanning starts
+ * with the first switch press. Actions are defined on engine.actions with
+ * default bindings unless the game already declared them. Emits
+ * 'switch-focus' and 'switch-select' on the engine.
+ */
+export class SwitchScanSystem implements System {
+  public name = 'switch-scan';
+  public priority = 95;
+  public enabled = true;
+  public after = ['scene-graph'];
+
+  private engine: GameEngine;
+  private interactives: Query<[Transform, Interactive]>;
+  private options: Required<SwitchScanOptions>;
+  private focused: EntityId | null = null;
+  private elapsed = 0; // ms since focus last moved or selected
+  private dwelled = false;
+
+  constructor(engine: GameEngine, options: SwitchScanOptions = {}) {
+    this.engine = engine;
+    this.interactives = engine.entityManager.query(Transform, Interactive);
+    this.options = {
+      mode: 'auto',
+      interval: 1500,
+      dwell: 0,
+      scanAction: 'switch-scan',
+      selectAction: 'switch-select',
+      color: '#FFEB3B',
+      lineWidth: 4,
+      ...options,
+    };
+
+    const { actions } = engine;
+    if (!actions.hasAction(this.options.scanAction)) {
+      actions.define(this.options.scanAction, [
+        { device: 'keyboard', code: 'Space' },
+        { device: 'gamepad', button: GamepadButtons.A },
+      ]);
+    }
+    if (!actions.hasAction(this.options.selectAction)) {
+      actions.define(this.options.selectAction, [
+        { device: 'keyboard', code: 'Enter' },
+        { device: 'gamepad', button: GamepadButtons.B },
+      ]);
+    }
+
+    engine.entityManager.on('entity-destroyed', this.handleEntityDestroyed);
+    engine.entityManager.on('entities-cleared', this.handleEntitiesCleared);
+  }
+
+  public update(deltaTime: number): void {
+    const { actions, sceneManager } = this.engine;
+    if (sceneManager.isInputBlocked()) return; // A modal overlay is up
+
+    const scan = actions.wasPressed(this.options.scanAction);
+    const select = actions.wasPressed(this.options.selectAction);
+
+    if (this.focused !== null && !this.isScannable(this.focused)) {
+      this.focus(null);
+    }
+
+    this.elapsed += deltaTime * 1000;
+
+    if (this.options.mode === 'auto') {
+      if (scan || select) {
+        if (this.focused === null) {
+          this.next();
+        } else {
+          this.select();
+        }
+      } else if (
+        this.focused !== null &&
+        this.elapsed >= this.options.interval
+      ) {
+        this.next();
+      }
+      return;
+    }
+
+    if (scan) this.next();
+    if (select) {
+      this.select();
+    } else if (
+      this.options.dwell > 0 &&
+      this.focused !== null &&
+      !this.dwelled &&
+      this.elapsed >= this.options.dwell
+    ) {
+      this.dwelled = true;
+      this.select();
+    }
+  }
+
+  public render(renderer: CanvasRenderer): void {
+    if (this.focused === null) return;
+
+    const corners = this.getFocusCorners(this.focused);
+    if (!corners) return;
+
+    renderer.applyCameraTransform();
+    for (let i = 0; i < corners.length; i++) {
+      const from = corners[i];
+      const to = corners[(i + 1) % corners.length];
+      renderer.drawLine(
+        from.x,
+        from.y,
+        to.x,
+        to.y,
+        this.options.color,
+        this.options.lineWidth
+      );
+    }
+    renderer.restore();
+  }
+
+  /**
+   * Move focus to the next (or previous) entity, wrapping around
+   */
+  public next(reverse = false): void {
+    const order = this.getScanOrder();
+    if (order.length === 0) {
+      this.focus(null);
+      return;
+    }
+
+    const index = this.focused === null ? -1 : order.indexOf(this.focused);
+    let nextIndex: number;
+    if (index === -1) {
+      nextIndex = reverse ? order.length - 1 : 0;
+    } else {
+      nextIndex = (index + (reverse ? -1 : 1) + order.length) % order.length;
+    }
+    this.focus(order[nextIndex]);
+  }
+
+  /**
+   * Click the focused entity
+   */
+  public select(): void {
+    if (this.focused === null) return;
+
+    const entity = this.focused;
+    const sceneGraph =
+      this.engine.systemManager.getSystem<SceneGraphSystem>('scene-graph');
+    if (sceneGraph) {
+      sceneGraph.activate(entity);
+    } else {
+      this.clickWithoutSceneGraph(entity);
+    }
+
+    this.elapsed = 0;
+    this.engine.emit('switch-select', { entity });
+  }
+
+  /**
+   * Focus an entity directly, or clear focus with null
+   */
+  public focus(entityId: EntityId | null): void {
+    if (entityId !== null && !this.isScannable(entityId)) return;
+
+    this.elapsed = 0;
+    this.dwelled = false;
+    if (entityId === this.focused) return;
+
+    this.focused = entityId;
+    this.engine.emit('switch-focus', { entity: entityId });
+  }
+
+  public getFocused(): EntityId | null {
+    return this.focused;
+  }
+
+  public setMode(mode: SwitchScanMode): void {
+    this.options.mode = mode;
+    this.elapsed = 0;
+  }
+
+  public getMode(): SwitchScanMode {
+    return this.options.mode;
+  }
+
+  /**
+   * Scannable entities sorted top to bottom, then left to right
+   */
+  public getScanOrder(): EntityId[] {
+    const entries: Array<{ id: EntityId; x: number; y: number }> = [];
+    for (const [entity, transform] of this.interactives) {
+      if (this.isScannable(entity.id)) {
+        entries.push({ id: entity.id, x: transform.x, y: transform.y });
+      }
+    }
+    return entries.sort((a, b) => a.y - b.y || a.x - b.x).map(e => e.id);
+  }
+
+  private isScannable(entityId: EntityId): boolean {
+    const { entityManager } = this.engine;
+    const entity = entityManager.getEntity(entityId);
+    const interactive = entityManager.getComponent(entityId, Interactive);
+    if (!entity?.active || !interactive?.enabled) return false;
+    if (!entityManager.hasComponent(entityId, Transform)) return false;
+
+    const node = entityManager.getComponent(entityId, Hierarchy);
+    return !node || node.worldVisible;
+  }
+
+  private getFocusCorners(
+    entityId: EntityId
+  ): Array<{ x: number; y: number }> | null {
+    const { entityManager, systemManager } = this.engine;
+    const transform = entityManager.getComponent(entityId, Transform);
+    if (!transform) return null;
+
+    const pad = FOCUS_PADDING;
+    const local = [
+      { x: -pad, y: -pad },
+      { x: transform.width + pad, y: -pad },
+      { x: transform.width + pad, y: transform.height + pad },
+      { x: -pad, y: transform.height + pad },
+    ];
+
+    const sceneGraph = systemManager.getSystem<SceneGraphSystem>('scene-graph');
+    if (sceneGraph) {
+      return local.map(point =>
+        sceneGraph.localToWorld(entityId, point.x, point.y)
+      );
+    }
+    return local.map(point => ({
+      x: transform.x + point.x,
+      y: transform.y + point.y,
+    }));
+  }
+
+  /**
+   * Without a scene graph there are no parents to bubble to; call the
+   * entity's own click handler
+   */
+  private clickWithoutSceneGraph(entityId: EntityId): void {
+    const { entityManager, renderer } = this.engine;
+    const transform = entityManager.getComponent(entityId, Transform);
+    const interactive = entityManager.getComponent(entityId, Interactive);
+    const handler = interactive?.handlers.click;
+    if (!transform || !handler) return;
+
+    const x = transform.x + transform.width / 2;
+    const y = transform.y + transform.height / 2;
+    const screen = renderer.worldToScreen(x, y);
+    handler({
+      type: 'click',
+      target: entityId,
+      currentTarget: entityId,
+      pointer: 'switch',
+      button: 0,
+      x,
+      y,
+      localX: transform.width / 2,
+      localY: transform.height / 2,
+      screenX: screen.x,
+      screenY: screen.y,
+      stopPropagation: () => {},
+    });
+  }
+
+  private handleEntityDestroyed = (entity: Entity): void => {
+    if (entity.id === this.focused) this.focus(null);
+  };
+
+  private handleEntitiesCleared = (): void => {
+    this.focus(null);
+  };
+
+  public destroy(): void {
+    const { entityManager } = this.engine;
+    entityManager.off('entity-destroyed', this.handleEntityDestroyed);
+    entityManager.off('entities-cleared', this.handleEntitiesCleared);
+  }
+}
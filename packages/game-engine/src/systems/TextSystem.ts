@@ -0,0 +1,177 @@
+/**
+ * Text System - Draws Text components through the camera
+ */
+
+import type { GameEngine } from '../core/Engine';
+import type { Query } from '../core/Query';
+import type { System } from '../core/SystemManager';
+import type { Entity, EntityId } from '../core/EntityManager';
+import {
+  drawTextLayout,
+  getFontSize,
+  layoutText,
+  withFontSize,
+} from '../core/TextLayout';
+import type { TextLayout } from '../core/TextLayout';
+import { Transform } from '../components/CoreComponents';
+import { Hierarchy } from '../components/SceneGraphComponents';
+import { Text } from '../components/TextComponents';
+
+interface CachedLayout {
+  signature: string;
+  layout: TextLayout;
+}
+
+/**
+ * Text System - Translates each Text's key for the active locale, lays it
+ * out in the entity's box and draws it after sprites. Layouts are cached
+ * until the text, font or box changes, and dropped when the language does,
+ * so switching locale re-renders every visible text on the next frame.
+ */
+export class TextSystem implements System {
+  public name = 'text';
+  public priority = 105;
+  public enabled = true;
+  public after = ['render'];
+
+  private engine: GameEngine;
+  private query: Query<[Transform, Text]>;
+  private layouts: Map<EntityId, CachedLayout> = new Map();
+  private textScale = 1;
+
+  constructor(engine: GameEngine) {
+    this.engine = engine;
+    this.query = engine.entityManager
+      .query(Transform, Text)
+      .sortBy(([, a], [, b]) => (a.layer || 0) - (b.layer || 0));
+
+    engine.on('locale-changed', this.handleLocaleChanged);
+    engine.entityManager.on('entity-destroyed', this.handleEntityDestroyed);
+    engine.entityManager.on('entities-cleared', this.handleEntitiesCleared);
+  }
+
+  /**
+   * The layout last drawn for an entity (after translation and shrinking)
+   */
+  public getLayout(entityId: EntityId): TextLayout | null {
+    return this.layouts.get(entityId)?.layout ?? null;
+  }
+
+  /**
+   * Scale every Text font, e.g. 1.25 for a large-text preference
+   */
+  public setTextScale(scale: number): void {
+    if (scale === this.textScale) return;
+    this.textScale = scale;
+    this.layouts.clear();
+  }
+
+  public getTextScale(): number {
+    return this.textScale;
+  }
+
+  public render(): void {
+    const renderer = this.engine.renderer;
+    renderer.applyCameraTransform();
+    this.query.forEach((entity, transform, text) =>
+      this.renderEntity(entity, transform, text)
+    );
+    renderer.restore();
+  }
+
+  private renderEntity(entity: Entity, transform: Transform, text: Text): void {
+    const node = entity.components.get(Hierarchy.name) as Hierarchy | undefined;
+    if (!entity.active || (node && !node.worldVisible)) return;
+
+    const content =
+      text.key !== undefined
+        ? this.engine.i18n.t(text.key, text.params)
+        : text.text;
+    if (content === '') return;
+
+    const layout = this.getOrCreateLayout(entity.id, content, transform, text);
+    const width = transform.width || layout.width;
+    const height = transform.height || layout.height;
+
+    const renderer = this.engine.renderer;
+    renderer.save();
+    renderer.translate(transform.x + width / 2, transform.y + height / 2);
+    renderer.rotate(transform.rotation);
+    renderer.scale(transform.scaleX, transform.scaleY);
+    if (node) renderer.setAlpha(node.worldAlpha);
+
+    // Centre the block vertically in the box
+    drawTextLayout(
+      renderer,
+      layout,
+      -width / 2,
+      -layout.height / 2,
+      text.color,
+      {
+        align: text.align,
+        width,
+        direction: this.engine.i18n.getDirection(),
+      }
+    );
+    renderer.restore();
+  }
+
+  private getOrCreateLayout(
+    entityId: EntityId,
+    content: string,
+    transform: Transform,
+    text: Text
+  ): TextLayout {
+    const maxWidth = text.wrap || text.shrinkToFit ? transform.width : 0;
+    const maxHeight = text.shrinkToFit ? transform.height : 0;
+    const font =
+      this.textScale === 1
+        ? text.font
+        : withFontSize(text.font, getFontSize(text.font) * this.textScale);
+    const signature = [
+      content,
+      font,
+      maxWidth,
+      maxHeight,
+      text.wrap,
+      text.minFontSize,
+      text.lineHeight,
+      text.maxLines,
+    ].join('|');
+
+    const cached = this.layouts.get(entityId);
+    if (cached && cached.signature === signature) return cached.layout;
+
+    const renderer = this.engine.renderer;
+    const layout = layoutText(content, font, {
+      maxWidth,
+      wrap: text.wrap,
+      maxHeight,
+      maxLines: text.maxLines,
+      minFontSize: text.minFontSize,
+      lineHeight: text.lineHeight,
+      measure: (value, font) => renderer.measureText(value, font),
+    });
+    this.layouts.set(entityId, { signature, layout });
+    return layout;
+  }
+
+  private handleLocaleChanged = (): void => {
+    this.layouts.clear();
+  };
+
+  private handleEntityDestroyed = (entity: Entity): void => {
+    this.layouts.delete(entity.id);
+  };
+
+  private handleEntitiesCleared = (): void => {
+    this.layouts.clear();
+  };
+
+  public destroy(): void {
+    const { entityManager } = this.engine;
+    this.engine.off('locale-changed', this.handleLocaleChanged);
+    entityManager.off('entity-destroyed', this.handleEntityDestroyed);
+    entityManager.off('entities-cleared', this.handleEntitiesCleared);
+  }
+}
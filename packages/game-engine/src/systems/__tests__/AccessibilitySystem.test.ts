@@ -0,0 +1,203 @@
+/**
+ * @jest-environment jsdom
+ */
+import { GameEngine } from '../../core/Engine';
+import { RecordingContext2D } from '../../core/RecordingContext';
+import type { EntityId } from '../../core/EntityManager';
+import { AccessibilitySystem } from '../AccessibilitySystem';
+import { SceneGraphSystem } from '../SceneGraphSystem';
+import { TextSystem } from '../TextSystem';
+import { Transform } from '../../components/CoreComponents';
+import { Interactive } from '../../components/SceneGraphComponents';
+import { Accessible } from '../../components/AccessibilityComponents';
+
+describe('AccessibilitySystem', () => {
+  let engine: GameEngine;
+  let accessibility: AccessibilitySystem;
+  let clicks: EntityId[];
+
+  beforeEach(() => {
+    engine = new GameEngine({
+      width: 400,
+      height: 300,
+      headless: true,
+      context: new RecordingContext2D({ record: false }),
+    });
+    engine.systemManager.addSystem(new SceneGraphSystem(engine));
+    accessibility = new AccessibilitySystem(engine);
+    engine.systemManager.addSystem(accessibility);
+    clicks = [];
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    document.documentElement.className = '';
+  });
+
+  function createEntity(
+    x: number,
+    y: number,
+    accessible: Partial<Accessible>
+  ): EntityId {
+    const entity = engine.entityManager.createEntity();
+    engine.entityManager.addComponent(entity.id, Transform, {
+      x,
+      y,
+      width: 40,
+      height: 40,
+    });
+    engine.entityManager.addComponent(entity.id, Interactive, {
+      handlers: { click: () => clicks.push(entity.id) },
+    });
+    engine.entityManager.addComponent(entity.id, Accessible, accessible);
+    return entity.id;
+  }
+
+  function mirrored(): string[] {
+    return Array.from(
+      document.querySelectorAll('[role="group"] > div:last-child > *')
+    ).map(element => `${element.tagName}:${element.textContent}`);
+  }
+
+  it('mirrors visible entities in focus order', () => {
+    const below = createEntity(0, 100, { label: 'Water' });
+    const right = createEntity(100, 0, { label: 'Plant' });
+    const first = createEntity(200, 200, { label: 'Menu', order: 0 });
+    createEntity(0, 0, { label: 'Secret', hidden: true });
+    createEntity(0, 50, { role: 'status', label: 'Score: 0' });
+
+    engine.step();
+
+    expect(accessibility.getFocusOrder()).toEqual([
+      first,
+      right,
+      expect.any(Number),
+      below,
+    ]);
+    expect(mirrored()).toEqual([
+      'BUTTON:Menu',
+      'BUTTON:Plant',
+      'DIV:Score: 0',
+      'BUTTON:Water',
+    ]);
+
+    engine.entityManager.destroyEntity(right);
+    engine.step();
+    expect(mirrored()).toEqual(['BUTTON:Menu', 'DIV:Score: 0', 'BUTTON:Water']);
+  });
+
+  it('reflects state in ARIA attributes', () => {
+    const toggle = createEntity(0, 0, {
+      label: 'Music',
+      state: { pressed: true },
+    });
+    createEntity(0, 50, {
+      role: 'progressbar',
+      label: 'Growth',
+      state: { value: 3, min: 0, max: 5, valueText: '3 of 5 days' },
+    });
+    engine.step();
+
+    const button = document.querySelector('button')!;
+    expect(button.getAttribute('aria-pressed')).toBe('true');
+    const progress = document.querySelector('[role="progressbar"]')!;
+    expect(progress.getAttribute('aria-label')).toBe('Growth');
+    expect(progress.getAttribute('aria-valuenow')).toBe('3');
+    expect(progress.getAttribute('aria-valuetext')).toBe('3 of 5 days');
+
+    engine.entityManager.getComponent(toggle, Accessible)!.state = {
+      pressed: false,
+      disabled: true,
+    };
+    engine.step();
+    expect(button.getAttribute('aria-pressed')).toBe('false');
+    expect(button.getAttribute('aria-disabled')).toBe('true');
+  });
+
+  it('clicks the entity when its mirrored button is activated', () => {
+    const plant = createEntity(0, 0, { label: 'Plant' });
+    const locked = createEntity(50, 0, {
+      label: 'Sell',
+      state: { disabled: true },
+    });
+    const focused: unknown[] = [];
+    engine.on('accessibility-focus', event => focused.push(event));
+    engine.step();
+
+    const [plantButton, lockedButton] = Array.from(
+      document.querySelectorAll('button')
+    );
+    plantButton!.focus();
+    plantButton!.click();
+    lockedButton!.click();
+
+    expect(accessibility.getFocused()).toBe(plant);
+    expect(focused).toEqual([{ entity: plant }]);
+    expect(clicks).toEqual([plant]);
+    expect(clicks).not.toContain(locked);
+  });
+
+  it('announces live label changes and one-off messages', () => {
+    const score = createEntity(0, 0, { role: 'status', label: 'Score: 0' });
+    const announced: unknown[] = [];
+    engine.on('accessibility-announce', event => announced.push(event));
+    engine.step();
+
+    engine.entityManager.getComponent(score, Accessible)!.label = 'Score: 10';
+    engine.step();
+    accessibility.announce('Level complete', 'assertive');
+    accessibility.announce('Level complete', 'assertive');
+
+    expect(announced).toEqual([
+      { message: 'Score: 10', politeness: 'polite', entity: score },
+      { message: 'Level complete', politeness: 'assertive' },
+      { message: 'Level complete', politeness: 'assertive' },
+    ]);
+    // Changed each time so the screen reader reads it again
+    expect(document.querySelector('[aria-live="assertive"]')!.textContent).toBe(
+      'Level complete\u00A0'
+    );
+  });
+
+  it('follows the preference classes on <html>', async () => {
+    const text = new TextSystem(engine);
+    engine.systemManager.addSystem(text);
+    const changes: unknown[] = [];
+    engine.on('accessibility-preferences', event => changes.push(event));
+
+    document.documentElement.classList.add('large-text', 'high-contrast');
+    await Promise.resolve(); // Mutation observers run as microtasks
+
+    expect(accessibility.getPreferences()).toEqual({
+      highContrast: true,
+      reducedMotion: false,
+      largeText: true,
+    });
+    expect(text.getTextScale()).toBe(1.25);
+    expect(changes).toHaveLength(1);
+  });
+
+  it('makes the mirror inert under a modal overlay', () => {
+    engine.sceneManager.addScene({ name: 'pause', active: false });
+    createEntity(0, 0, { label: 'Plant' });
+    engine.step();
+    const list = document.querySelector('button')!.parentElement!;
+    expect(list.hasAttribute('inert')).toBe(false);
+
+    engine.sceneManager.pushScene('pause');
+    engine.step();
+    expect(list.hasAttribute('inert')).toBe(true);
+
+    engine.sceneManager.popScene();
+    engine.step();
+    expect(list.hasAttribute('inert')).toBe(false);
+  });
+
+  it('follows the locale in the mirror language and direction', async () => {
+    await engine.i18n.setLocale('ar');
+
+    const mirror = document.querySelector<HTMLElement>('[role="group"]')!;
+    expect(mirror.lang).toBe('ar');
+    expect(mirror.dir).toBe('rtl');
+  });
+});
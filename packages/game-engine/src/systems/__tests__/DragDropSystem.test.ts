@@ -0,0 +1,129 @@
+import { GameEngine } from '../../core/Engine';
+import type { EntityId } from '../../core/EntityManager';
+import { DragDropSystem } from '../DragDropSystem';
+import { Transform } from '../../components/CoreComponents';
+import { Draggable, DropTarget } from '../../components/DragDropComponents';
+
+describe('DragDropSystem', () => {
+  let engine: GameEngine;
+
+  beforeEach(() => {
+    engine = new GameEngine({ width: 400, height: 400, headless: true });
+    engine.systemManager.addSystem(new DragDropSystem(engine));
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  // Press at one world position and release at another
+  function drag(from: [number, number], to: [number, number]): void {
+    const mouse = (
+      action: 'down' | 'move' | 'up',
+      [x, y]: [number, number]
+    ) => {
+      engine.inputManager.queueEvent({
+        type: 'mouse',
+        action,
+        data: { button: 0, ...engine.renderer.worldToScreen(x, y) },
+        timestamp: engine.engineClock.now(),
+      });
+    };
+    mouse('down', from);
+    mouse('move', to);
+    mouse('up', to);
+    engine.step(30); // Let snaps and returns finish
+  }
+
+  function createTarget(x: number, y: number): EntityId {
+    const target = engine.entityManager.createEntity();
+    engine.entityManager.addComponent(target.id, Transform, {
+      x,
+      y,
+      width: 100,
+      height: 100,
+    });
+    engine.entityManager.addComponent(target.id, DropTarget);
+    return target.id;
+  }
+
+  function createItem(returnToOrigin: boolean): EntityId {
+    const item = engine.entityManager.createEntity();
+    engine.entityManager.addComponent(item.id, Transform, {
+      x: 250,
+      y: 250,
+      width: 20,
+      height: 20,
+    });
+    engine.entityManager.addComponent(item.id, Draggable, { returnToOrigin });
+    return item.id;
+  }
+
+  it('moves an item between targets', () => {
+    const first = createTarget(0, 0);
+    const second = createTarget(0, 150);
+    const item = createItem(true);
+
+    drag([260, 260], [50, 50]);
+    expect(engine.entityManager.getComponent(item, Draggable)?.target).toBe(
+      first
+    );
+    expect(
+      engine.entityManager.getComponent(first, DropTarget)?.occupants
+    ).toEqual([item]);
+
+    drag([50, 50], [50, 200]);
+    expect(engine.entityManager.getComponent(item, Draggable)?.target).toBe(
+      second
+    );
+    expect(
+      engine.entityManager.getComponent(first, DropTarget)?.occupants
+    ).toEqual([]);
+    expect(
+      engine.entityManager.getComponent(second, DropTarget)?.occupants
+    ).toEqual([item]);
+  });
+
+  it('returns an item dropped outside every target to its target', () => {
+    const target = createTarget(0, 0);
+    const item = createItem(true);
+    drag([260, 260], [50, 50]);
+
+    drag([50, 50], [300, 100]);
+
+    expect(engine.entityManager.getComponent(item, Transform)).toMatchObject({
+      x: 40,
+      y: 40,
+    });
+    expect(engine.entityManager.getComponent(item, Draggable)?.target).toBe(
+      target
+    );
+    expect(
+      engine.entityManager.getComponent(target, DropTarget)?.occupants
+    ).toEqual([item]);
+  });
+
+  it('takes an item off its target when it stays outside every target', () => {
+    const target = createTarget(0, 0);
+    const item = createItem(false);
+    const rejected = jest.fn();
+    engine.on('drop-rejected', rejected);
+    drag([260, 260], [50, 50]);
+
+    drag([50, 50], [300, 100]);
+
+    expect(rejected).toHaveBeenCalledWith(
+      expect.objectContaining({ entity: item, reason: 'no-target' })
+    );
+    expect(engine.entityManager.getComponent(item, Transform)).toMatchObject({
+      x: 290,
+      y: 90,
+    });
+    expect(
+      engine.entityManager.getComponent(item, Draggable)?.target
+    ).toBeUndefined();
+    expect(
+      engine.entityManager.getComponent(target, DropTarget)?.occupants
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+import { GameEngine } from '../../core/Engine';
+import { RecordingContext2D } from '../../core/RecordingContext';
+import type { EntityId } from '../../core/EntityManager';
+import { ParticleSystem } from '../ParticleSystem';
+import { Transform } from '../../components/CoreComponents';
+import { ParticleEmitter } from '../../components/ParticleComponents';
+
+describe('ParticleSystem', () => {
+  let engine: GameEngine;
+  let context: RecordingContext2D;
+  let particles: ParticleSystem;
+
+  beforeEach(() => {
+    context = new RecordingContext2D();
+    engine = new GameEngine({
+      width: 400,
+      height: 400,
+      headless: true,
+      context,
+      seed: 1,
+    });
+    particles = new ParticleSystem(engine);
+    engine.systemManager.addSystem(particles);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  function createEmitter(config: Partial<ParticleEmitter>): EntityId {
+    const entity = engine.entityManager.createEntity();
+    engine.entityManager.addComponent(entity.id, Transform, { x: 100, y: 100 });
+    engine.entityManager.addComponent(entity.id, ParticleEmitter, config);
+    return entity.id;
+  }
+
+  it('fires a burst once, up to the particle limit', () => {
+    const emitter = createEmitter({ burstCount: 30, maxParticles: 25 });
+
+    engine.step();
+    expect(particles.getParticleCount(emitter)).toBe(25);
+
+    engine.step(59); // Particles live for one second
+    expect(particles.getParticleCount(emitter)).toBe(0);
+    expect(engine.entityManager.getEntity(emitter)).toBeDefined();
+  });
+
+  it('emits continuously at its rate until the duration runs out', () => {
+    const emitter = createEmitter({
+      mode: 'continuous',
+      rate: 30,
+      duration: 0.5,
+      lifetime: [10, 10],
+    });
+
+    engine.step(30);
+    expect(particles.getParticleCount(emitter)).toBe(15);
+
+    engine.step(30);
+    expect(particles.getParticleCount(emitter)).toBe(15);
+  });
+
+  it('moves particles under gravity and samples curves over their lifetime', () => {
+    createEmitter({
+      burstCount: 1,
+      speed: [0, 0],
+      gravity: { x: 0, y: 120 },
+      size: [10, 0],
+      alpha: 1,
+      color: ['#000000', '#c8c8c8'],
+    });
+
+    engine.step(30); // Half way through a one second lifetime
+
+    const [x, y, radius] = context.getCalls('arc')[0]!.args as number[];
+    expect(x).toBe(100);
+    expect(y).toBeCloseTo(115.5);
+    expect(radius).toBeCloseTo(2.5);
+    expect(context.getCalls('fill')[0]!.args).toEqual(['rgb(100, 100, 100)']);
+  });
+
+  it('removes one-off effects once their particles have died', () => {
+    const effect = particles.spawnEffect('sparkle', 50, 50);
+
+    engine.step();
+    expect(particles.getParticleCount(effect)).toBe(24);
+
+    engine.step(60);
+    expect(particles.getParticleCount(effect)).toBe(0);
+    expect(engine.entityManager.getEntity(effect)).toBeUndefined();
+  });
+
+  it('keeps particles still and few under reduced motion', () => {
+    particles.setReducedMotion(true);
+    const burst = createEmitter({ burstCount: 20, gravity: { x: 0, y: 500 } });
+    const ambient = createEmitter({ mode: 'continuous', rate: 60 });
+
+    engine.step(2);
+    expect(particles.getParticleCount(burst)).toBe(5);
+    expect(particles.getParticleCount(ambient)).toBe(0);
+    for (const call of context.getCalls('arc')) {
+      expect(call.args.slice(0, 2)).toEqual([100, 100]);
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { GameEngine } from '../../core/Engine';
+import type { EntityId } from '../../core/EntityManager';
+import {
+  PhysicsBody,
+  Transform,
+  Velocity,
+} from '../../components/CoreComponents';
+
+describe('PhysicsSystem', () => {
+  let engine: GameEngine;
+
+  beforeEach(() => {
+    engine = new GameEngine({
+      width: 400,
+      height: 400,
+      headless: true,
+      defaultSystems: true,
+    });
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  function createBox(x: number, isStatic: boolean): EntityId {
+    const entity = engine.entityManager.createEntity();
+    engine.entityManager.addComponent(entity.id, Transform, {
+      x,
+      y: 0,
+      width: 20,
+      height: 20,
+    });
+    engine.entityManager.addComponent(entity.id, PhysicsBody, {
+      static: isStatic,
+      elasticity: 0,
+    });
+    return entity.id;
+  }
+
+  it('creates a body per PhysicsBody and copies resolved positions back', () => {
+    const ball = createBox(0, false);
+    engine.entityManager.addComponent(ball, Velocity, { x: 60, y: 0 });
+
+    engine.step(60);
+
+    const body = engine.entityManager.getComponent(ball, PhysicsBody)!;
+    expect(engine.physics.getBody(body.bodyId!)?.userData).toEqual({
+      entityId: ball,
+    });
+    expect(engine.entityManager.getComponent(ball, Transform)!.x).toBeCloseTo(
+      60
+    );
+
+    engine.entityManager.destroyEntity(ball);
+    expect(engine.physics.getBody(body.bodyId!)).toBeUndefined();
+  });
+
+  it('takes inactive entities out of the world until they are reactivated', () => {
+    const wall = createBox(50, true);
+    const ball = createBox(0, false);
+    engine.entityManager.addComponent(ball, Velocity, { x: 120, y: 0 });
+    const collisions: unknown[] = [];
+    engine.on('entity-collision', event => collisions.push(event));
+    engine.step();
+    const wallBodyId = engine.entityManager.getComponent(
+      wall,
+      PhysicsBody
+    )!.bodyId!;
+
+    engine.entityManager.setEntityActive(wall, false);
+    expect(engine.physics.getBody(wallBodyId)).toBeUndefined();
+
+    engine.step(60);
+    expect(collisions).toEqual([]);
+    expect(
+      engine.entityManager.getComponent(ball, Transform)!.x
+    ).toBeGreaterThan(100);
+
+    engine.entityManager.setEntityActive(wall, true);
+    expect(engine.physics.getBody(wallBodyId)?.position).toEqual({
+      x: 50,
+      y: 0,
+    });
+
+    // Sent back through the wall, the ball is stopped this time
+    const velocity = engine.entityManager.getComponent(ball, Velocity)!;
+    velocity.x = -120;
+    engine.step(60);
+    expect(collisions.length).toBeGreaterThan(0);
+    expect(
+      engine.entityManager.getComponent(ball, Transform)!.x
+    ).toBeGreaterThanOrEqual(70);
+  });
+});
@@ -0,0 +1,176 @@
+import { GameEngine } from '../../core/Engine';
+import type { EntityId } from '../../core/EntityManager';
+import { SceneGraphSystem } from '../SceneGraphSystem';
+import { Transform } from '../../components/CoreComponents';
+import { Hierarchy, Interactive } from '../../components/SceneGraphComponents';
+import type { ScenePointerEvent } from '../../components/SceneGraphComponents';
+
+describe('SceneGraphSystem', () => {
+  let engine: GameEngine;
+  let graph: SceneGraphSystem;
+
+  beforeEach(() => {
+    engine = new GameEngine({ width: 400, height: 300, headless: true });
+    graph = new SceneGraphSystem(engine);
+    engine.systemManager.addSystem(graph);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  function createBox(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    layer = 0
+  ): EntityId {
+    const entity = engine.entityManager.createEntity();
+    engine.entityManager.addComponent(entity.id, Transform, {
+      x,
+      y,
+      width,
+      height,
+      layer,
+    });
+    return entity.id;
+  }
+
+  function transformOf(entityId: EntityId): Transform {
+    return engine.entityManager.getComponent(entityId, Transform)!;
+  }
+
+  it('moves, rotates and scales children with their parent', () => {
+    const card = createBox(100, 100, 100, 50);
+    const badge = createBox(0, 0, 20, 20);
+    engine.entityManager.addComponent(badge, Hierarchy, { x: 10, y: 10 });
+    graph.setParent(badge, card, false);
+
+    expect(transformOf(badge)).toMatchObject({ x: 110, y: 110 });
+
+    transformOf(card).x = 200;
+    engine.step();
+    expect(transformOf(badge)).toMatchObject({ x: 210, y: 110 });
+
+    // A quarter turn about the card's centre (250, 125)
+    transformOf(card).rotation = Math.PI / 2;
+    transformOf(card).scaleX = 2;
+    engine.step();
+    const badgeTransform = transformOf(badge);
+    expect(badgeTransform.x).toBeCloseTo(245);
+    expect(badgeTransform.y).toBeCloseTo(55);
+    expect(badgeTransform.rotation).toBeCloseTo(Math.PI / 2);
+    expect(badgeTransform.scaleX).toBe(2);
+  });
+
+  it('keeps the world transform when reparenting by default', () => {
+    const card = createBox(100, 100, 100, 50);
+    const icon = createBox(120, 130, 10, 10);
+
+    graph.setParent(icon, card);
+    expect(transformOf(icon)).toMatchObject({ x: 120, y: 130 });
+    expect(engine.entityManager.getComponent(icon, Hierarchy)).toMatchObject({
+      x: 20,
+      y: 30,
+    });
+
+    expect(() => graph.setParent(card, icon)).toThrow(
+      `Entity ${card} cannot be parented to itself or a descendant`
+    );
+  });
+
+  it('multiplies alpha and visibility down the tree', () => {
+    const card = createBox(0, 0, 100, 100);
+    const label = createBox(10, 10, 50, 20);
+    graph.setParent(label, card);
+    const cardNode = engine.entityManager.getComponent(card, Hierarchy)!;
+    const labelNode = engine.entityManager.getComponent(label, Hierarchy)!;
+
+    cardNode.alpha = 0.5;
+    labelNode.alpha = 0.5;
+    engine.step();
+    expect(labelNode.worldAlpha).toBe(0.25);
+
+    cardNode.visible = false;
+    engine.step();
+    expect(labelNode.worldVisible).toBe(false);
+    expect(graph.hitTest(label, 20, 20)).toBe(false);
+  });
+
+  it('hit tests rotated and scaled entities through the camera', () => {
+    // A 100x20 bar turned upright about its centre (50, 10)
+    const bar = createBox(0, 0, 100, 20);
+    engine.entityManager.addComponent(bar, Interactive);
+    transformOf(bar).rotation = Math.PI / 2;
+
+    expect(graph.hitTest(bar, 50, 55)).toBe(true);
+    expect(graph.hitTest(bar, 90, 10)).toBe(false);
+
+    transformOf(bar).scaleY = 3; // Now 60 wide across
+    expect(graph.hitTest(bar, 75, 10)).toBe(true);
+
+    engine.renderer.setCameraPosition(50, 10);
+    engine.renderer.setCameraZoom(2);
+    expect(graph.pickAtScreen(200 + 2 * 25, 150)).toBe(bar);
+    expect(graph.pickAtScreen(200 + 2 * 35, 150)).toBeNull();
+  });
+
+  it('routes pointer events to the topmost entity and bubbles them', () => {
+    const card = createBox(0, 0, 200, 100);
+    const button = createBox(20, 20, 60, 30, 1);
+    graph.setParent(button, card);
+
+    const log: string[] = [];
+    const record =
+      (name: string) =>
+      (event: ScenePointerEvent): void => {
+        log.push(`${event.type}:${name}:${event.localX},${event.localY}`);
+      };
+    engine.entityManager.addComponent(card, Interactive, {
+      handlers: { down: record('card'), click: record('card') },
+    });
+    engine.entityManager.addComponent(button, Interactive, {
+      handlers: {
+        down: record('button'),
+        click: event => {
+          record('button')(event);
+          event.stopPropagation();
+        },
+      },
+    });
+
+    const { x, y } = engine.renderer.worldToScreen(30, 25);
+    for (const action of ['down', 'up'] as const) {
+      engine.inputManager.queueEvent({
+        type: 'mouse',
+        action,
+        data: { button: 0, x, y },
+        timestamp: engine.engineClock.now(),
+      });
+    }
+    engine.step();
+
+    expect(log).toEqual([
+      'down:button:10,5',
+      'down:card:30,25',
+      'click:button:10,5',
+    ]);
+    expect(
+      engine.entityManager.getComponent(button, Interactive)!.hovered
+    ).toBe(true);
+  });
+
+  it('destroys children along with their parent', () => {
+    const card = createBox(0, 0, 100, 100);
+    const label = createBox(0, 0, 10, 10);
+    const icon = createBox(0, 0, 10, 10);
+    graph.setParent(label, card);
+    graph.setParent(icon, label);
+
+    engine.entityManager.destroyEntity(card);
+
+    expect(engine.entityManager.getEntity(label)).toBeUndefined();
+    expect(engine.entityManager.getEntity(icon)).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+import { GameEngine } from '../../core/Engine';
+import type { EntityId } from '../../core/EntityManager';
+import { SceneGraphSystem } from '../SceneGraphSystem';
+import { SwitchScanSystem } from '../SwitchScanSystem';
+import type { SwitchScanOptions } from '../SwitchScanSystem';
+import { Transform } from '../../components/CoreComponents';
+import { Interactive } from '../../components/SceneGraphComponents';
+
+describe('SwitchScanSystem', () => {
+  let engine: GameEngine;
+  let clicks: EntityId[];
+
+  beforeEach(() => {
+    engine = new GameEngine({ width: 400, height: 300, headless: true });
+    engine.systemManager.addSystem(new SceneGraphSystem(engine));
+    clicks = [];
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  function createScanner(options: SwitchScanOptions): SwitchScanSystem {
+    const scanner = new SwitchScanSystem(engine, options);
+    engine.systemManager.addSystem(scanner);
+    return scanner;
+  }
+
+  function createButton(x: number, y: number, enabled = true): EntityId {
+    const entity = engine.entityManager.createEntity();
+    engine.entityManager.addComponent(entity.id, Transform, {
+      x,
+      y,
+      width: 40,
+      height: 40,
+    });
+    engine.entityManager.addComponent(entity.id, Interactive, {
+      enabled,
+      handlers: { click: () => clicks.push(entity.id) },
+    });
+    return entity.id;
+  }
+
+  function press(code: string): void {
+    for (const action of ['down', 'up'] as const) {
+      engine.inputManager.queueEvent({
+        type: 'keyboard',
+        action,
+        data: { key: code, code },
+        timestamp: engine.engineClock.now(),
+      });
+      engine.step();
+    }
+  }
+
+  it('steps through entities in reading order and selects with a second switch', () => {
+    const scanner = createScanner({ mode: 'step' });
+    const right = createButton(200, 0);
+    const below = createButton(0, 100);
+    createButton(100, 50, false); // Disabled entities are skipped
+    const left = createButton(0, 0);
+
+    expect(scanner.getScanOrder()).toEqual([left, right, below]);
+
+    press('Space');
+    press('Space');
+    expect(scanner.getFocused()).toBe(right);
+
+    press('Enter');
+    expect(clicks).toEqual([right]);
+
+    press('Space');
+    press('Space');
+    expect(scanner.getFocused()).toBe(left);
+  });
+
+  it('advances on a timer in auto mode and selects with the same switch', () => {
+    const scanner = createScanner({ mode: 'auto', interval: 500 });
+    const first = createButton(0, 0);
+    const second = createButton(100, 0);
+    const focused: unknown[] = [];
+    engine.on('switch-focus', event => focused.push(event));
+
+    engine.step(60);
+    expect(scanner.getFocused()).toBeNull(); // Waits for the first press
+
+    press('Space');
+    expect(scanner.getFocused()).toBe(first);
+
+    engine.step(30);
+    expect(scanner.getFocused()).toBe(second);
+
+    press('Space');
+    expect(clicks).toEqual([second]);
+    expect(focused).toEqual([{ entity: first }, { entity: second }]);
+  });
+});
@@ -0,0 +1,127 @@
+import { GameEngine } from '../../core/Engine';
+import { RecordingContext2D } from '../../core/RecordingContext';
+import type { EntityId } from '../../core/EntityManager';
+import { TextSystem } from '../TextSystem';
+import { Transform } from '../../components/CoreComponents';
+import { Text } from '../../components/TextComponents';
+
+describe('TextSystem', () => {
+  let engine: GameEngine;
+  let context: RecordingContext2D;
+  let text: TextSystem;
+
+  beforeEach(() => {
+    context = new RecordingContext2D();
+    engine = new GameEngine({
+      width: 400,
+      height: 300,
+      headless: true,
+      context,
+    });
+    text = new TextSystem(engine);
+    engine.systemManager.addSystem(text);
+    engine.i18n.addMessages('en', {
+      harvest: '{count, plural, one {# carrot} other {# carrots}}',
+    });
+    engine.i18n.addMessages('fr', {
+      harvest: '{count, plural, one {# carotte} other {# carottes}}',
+    });
+    engine.i18n.addMessages('ar', { harvest: 'جزر' });
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  function createLabel(
+    config: Partial<Text>,
+    width = 100,
+    height = 40
+  ): EntityId {
+    const entity = engine.entityManager.createEntity();
+    engine.entityManager.addComponent(entity.id, Transform, {
+      x: 0,
+      y: 0,
+      width,
+      height,
+    });
+    engine.entityManager.addComponent(entity.id, Text, config);
+    return entity.id;
+  }
+
+  function drawn(): unknown[][] {
+    const calls = context.getCalls('fillText').map(call => call.args);
+    context.clearCalls();
+    return calls;
+  }
+
+  it('re-renders translated text when the locale changes', async () => {
+    createLabel({ key: 'harvest', params: { count: 2 } });
+
+    engine.step();
+    expect(drawn().map(args => args[0])).toEqual(['2 carrots']);
+
+    await engine.i18n.setLocale('fr');
+    engine.step();
+    expect(drawn().map(args => args[0])).toEqual(['2 carottes']);
+  });
+
+  it('aligns start text to the side the locale reads from', async () => {
+    createLabel({ key: 'harvest', params: { count: 3 } });
+
+    engine.step();
+    const [, ltrX] = drawn()[0]!;
+    await engine.i18n.setLocale('ar');
+    engine.step();
+    const [label, rtlX] = drawn()[0]!;
+
+    // Drawn about the box centre, so start is the left or right edge
+    expect(ltrX).toBe(-50);
+    expect(label).toBe('جزر');
+    expect(rtlX).toBe(50);
+    expect(context.direction).toBe('rtl');
+  });
+
+  it('wraps and shrinks text to its box', () => {
+    // The recording context measures 0.6em per character
+    const wrapped = createLabel(
+      { text: 'plant the seeds', font: '10px sans-serif' },
+      60
+    );
+    const shrunk = createLabel(
+      {
+        text: 'carrot seeds',
+        font: '20px sans-serif',
+        wrap: false,
+        shrinkToFit: true,
+      },
+      60,
+      20
+    );
+
+    engine.step();
+
+    expect(text.getLayout(wrapped)!.lines.map(line => line.text)).toEqual([
+      'plant the',
+      'seeds',
+    ]);
+    expect(text.getLayout(shrunk)).toMatchObject({
+      fontSize: 8,
+      overflow: false,
+    });
+    expect(drawn().map(args => args.slice(0, 1).concat(args[3]))).toEqual([
+      ['plant the', '10px sans-serif'],
+      ['seeds', '10px sans-serif'],
+      ['carrot seeds', '8px sans-serif'],
+    ]);
+  });
+
+  it('scales every font for large text', () => {
+    createLabel({ text: 'Play' });
+    text.setTextScale(1.25);
+
+    engine.step();
+
+    expect(drawn()[0]![3]).toBe('20px sans-serif');
+  });
+});
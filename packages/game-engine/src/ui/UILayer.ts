@@ -0,0 +1,352 @@
+/**
+ * UI Layer - Retained screen-space widgets drawn above the world
+ */
+
+import type { GameEngine } from '../core/Engine';
+import type { CanvasRenderer } from '../core/CanvasRenderer';
+import type { System } from '../core/SystemManager';
+import type { InputEvent } from '../core/InputManager';
+import { GamepadButtons } from '../core/InputManager';
+import type { UITheme } from './UITheme';
+import { defaultTheme } from './UITheme';
+import type { UIRect, Widget } from './Widget';
+
+export interface UILayerOptions {
+  theme?: Partial<UITheme>;
+  keyboard?: boolean; // Tab/arrows move focus, Enter/Space activate
+  gamepad?: boolean; // D-pad moves focus, A activates, B clears focus
+}
+
+type Direction = 'up' | 'down' | 'left' | 'right';
+
+const ARROW_KEYS: Record<string, Direction> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+const DPAD_BUTTONS: Record<number, Direction> = {
+  [GamepadButtons.Up]: 'up',
+  [GamepadButtons.Down]: 'down',
+  [GamepadButtons.Left]: 'left',
+  [GamepadButtons.Right]: 'right',
+};
+
+/**
+ * UI Layer - Lays widgets out against the canvas every frame and draws
+ * them after the world pass without the camera transform. Pointer input is
+ * hit-tested in screen space; the topmost widget added last wins, and
+ * presses that land on a widget are marked handled so world input skips
+ * them. Emits 'ui-click' and 'ui-focus' on the engine.
+ */
+export class UILayer implements System {
+  public name = 'ui';
+  public priority = 200;
+  public enabled = true;
+  public after = ['render', 'particles'];
+
+  public readonly theme: UITheme;
+
+  private engine: GameEngine;
+  private options: Required<Omit<UILayerOptions, 'theme'>>;
+  private widgets: Widget[] = [];
+  private focused: Widget | null = null;
+  private hovered: Widget | null = null;
+  private pressed: Map<string, Widget> = new Map();
+  private captured: Set<string> = new Set(); // Pointers that went down on a widget
+
+  constructor(engine: GameEngine, options: UILayerOptions = {}) {
+    this.engine = engine;
+    this.theme = { ...defaultTheme, ...options.theme };
+    this.options = {
+      keyboard: options.keyboard ?? true,
+      gamepad: options.gamepad ?? true,
+    };
+
+    // Widgets sit above the world, so they see pointer input before it
+    engine.inputManager.on('input-capture', this.handleInput);
+    engine.inputManager.on('blur', this.handleBlur);
+  }
+
+  /**
+   * Add a widget on top of the existing ones
+   */
+  public add<T extends Widget>(widget: T): T {
+    if (!this.widgets.includes(widget)) {
+      this.widgets.push(widget);
+      this.layoutWidget(widget);
+    }
+    return widget;
+  }
+
+  public remove(widgetOrId: Widget | string): void {
+    const widget =
+      typeof widgetOrId === 'string' ? this.get(widgetOrId) : widgetOrId;
+    if (!widget) return;
+
+    this.widgets = this.widgets.filter(w => w !== widget);
+    if (this.focused === widget) this.focus(null);
+    if (this.hovered === widget) this.hovered = null;
+    for (const [pointer, w] of Array.from(this.pressed)) {
+      if (w === widget) this.pressed.delete(pointer);
+    }
+  }
+
+  public get<T extends Widget = Widget>(id: string): T | undefined {
+    return this.widgets.find(w => w.id === id) as T | undefined;
+  }
+
+  public getWidgets(): Widget[] {
+    return [...this.widgets];
+  }
+
+  public clear(): void {
+    this.focus(null);
+    this.widgets = [];
+    this.hovered = null;
+    this.pressed.clear();
+    this.captured.clear();
+  }
+
+  /**
+   * Move keyboard/gamepad focus, or clear it with null
+   */
+  public focus(widget: Widget | null): void {
+    if (widget && !widget.isFocusable()) return;
+    if (widget === this.focused) return;
+
+    this.focused = widget;
+    this.engine.emit('ui-focus', {
+      widget: widget?.id ?? null,
+      label: widget?.label,
+    });
+  }
+
+  public getFocused(): Widget | null {
+    return this.focused;
+  }
+
+  /**
+   * Focus the next (or previous) focusable widget in reading order
+   */
+  public focusNext(reverse = false): void {
+    const order = this.getFocusOrder();
+    if (order.length === 0) return;
+
+    const index = this.focused ? order.indexOf(this.focused) : -1;
+    let next: number;
+    if (index === -1) {
+      next = reverse ? order.length - 1 : 0;
+    } else {
+      next = (index + (reverse ? -1 : 1) + order.length) % order.length;
+    }
+    this.focus(order[next]);
+  }
+
+  /**
+   * Focus the nearest focusable widget in a screen direction
+   */
+  public focusInDirection(direction: Direction): void {
+    if (!this.focused) {
+      this.focusNext(direction === 'up' || direction === 'left');
+      return;
+    }
+
+    const from = center(this.focused.bounds);
+    let best: Widget | null = null;
+    let bestScore = Infinity;
+
+    for (const widget of this.getFocusOrder()) {
+      if (widget === this.focused) continue;
+
+      const to = center(widget.bounds);
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      const vertical = direction === 'up' || direction === 'down';
+      const along =
+        direction === 'up'
+          ? -dy
+          : direction === 'down'
+            ? dy
+            : direction === 'left'
+              ? -dx
+              : dx;
+      if (along <= 0) continue;
+
+      // Prefer widgets straight ahead over ones off to the side
+      const across = Math.abs(vertical ? dx : dy);
+      const score = along + across * 2;
+      if (score < bestScore) {
+        bestScore = score;
+        best = widget;
+      }
+    }
+
+    if (best) this.focus(best);
+  }
+
+  /**
+   * Topmost visible widget at a screen point
+   */
+  public widgetAt(x: number, y: number): Widget | null {
+    for (let i = this.widgets.length - 1; i >= 0; i--) {
+      const widget = this.widgets[i];
+      if (widget.visible && widget.contains(x, y)) return widget;
+    }
+    return null;
+  }
+
+  /**
+   * Recompute every widget's bounds (done each frame before drawing)
+   */
+  public layout(): void {
+    for (const widget of this.widgets) {
+      this.layoutWidget(widget);
+    }
+  }
+
+  public update(deltaTime: number): void {
+    for (const widget of this.widgets) {
+      widget.update(deltaTime);
+    }
+
+    // Hidden or disabled widgets can't keep focus
+    if (this.focused && !this.focused.isFocusable()) {
+      this.focus(null);
+    }
+  }
+
+  public render(renderer: CanvasRenderer): void {
+    this.layout();
+
+    for (const widget of this.widgets) {
+      if (!widget.visible) continue;
+
+      widget.render(renderer, this.theme, {
+        focused: widget === this.focused,
+        hovered: widget === this.hovered,
+        pressed: Array.from(this.pressed.values()).includes(widget),
+      });
+    }
+  }
+
+  private layoutWidget(widget: Widget): void {
+    const { width, height } = this.engine.engineConfig;
+    const viewport: UIRect = { x: 0, y: 0, width, height };
+    widget.layout(viewport, this.theme);
+  }
+
+  private getFocusOrder(): Widget[] {
+    return this.widgets
+      .filter(w => w.isFocusable())
+      .sort((a, b) => a.bounds.y - b.bounds.y || a.bounds.x - b.bounds.x);
+  }
+
+  private handleInput = (event: InputEvent): void => {
+    if (!this.enabled) return;
+
+    // A modal overlay has the input; let go of anything held underneath
+    if (this.engine.sceneManager.isInputBlocked()) {
+      this.handleBlur();
+      return;
+    }
+
+    if (event.type === 'mouse' || event.type === 'touch') {
+      this.handlePointer(event);
+    } else if (event.type === 'keyboard' && this.options.keyboard) {
+      this.handleKey(event);
+    } else if (event.type === 'gamepad' && this.options.gamepad) {
+      this.handleGamepad(event);
+    }
+  };
+
+  private handlePointer(event: InputEvent): void {
+    if (event.action === 'wheel') return;
+    if (event.type === 'touch' && event.data.gesture === 'long-press') return;
+
+    const pointer = event.type === 'mouse' ? 'mouse' : `touch:${event.data.id}`;
+    const hit = this.widgetAt(event.data.x, event.data.y);
+    const target = hit?.isFocusable() ? hit : null;
+
+    if (event.type === 'mouse') {
+      this.hovered = target;
+    }
+
+    // A pointer that goes down on any widget belongs to the UI until it
+    // lifts, so the world never sees half of a press
+    if (event.action === 'down' && hit) this.captured.add(pointer);
+    if (this.captured.has(pointer)) event.handled = true;
+
+    if (event.action === 'down') {
+      if (target) this.pressed.set(pointer, target);
+    } else if (event.action === 'up') {
+      const pressed = this.pressed.get(pointer);
+      this.pressed.delete(pointer);
+      this.captured.delete(pointer);
+
+      if (target && target === pressed) {
+        this.activate(target);
+      }
+    } else if (event.action === 'cancel') {
+      this.pressed.delete(pointer);
+      this.captured.delete(pointer);
+    }
+  }
+
+  private handleKey(event: InputEvent): void {
+    if (event.action !== 'down') return;
+
+    const key: string = event.data.key;
+    if (key === 'Tab') {
+      this.focusNext(event.data.modifiers?.shift ?? false);
+      return;
+    }
+
+    // Leave the arrows and Enter to the game until a widget has focus
+    if (!this.focused) return;
+
+    const direction = ARROW_KEYS[key];
+    if (direction) {
+      this.focusInDirection(direction);
+    } else if (key === 'Enter' || key === ' ') {
+      this.activate(this.focused);
+    } else if (key === 'Escape') {
+      this.focus(null);
+    }
+  }
+
+  private handleGamepad(event: InputEvent): void {
+    if (event.action !== 'down') return;
+
+    const button: number = event.data.button;
+    const direction = DPAD_BUTTONS[button];
+    if (direction) {
+      this.focusInDirection(direction);
+    } else if (button === GamepadButtons.A && this.focused) {
+      this.activate(this.focused);
+    } else if (button === GamepadButtons.B) {
+      this.focus(null);
+    }
+  }
+
+  private activate(widget: Widget): void {
+    widget.activate();
+    this.engine.emit('ui-click', { widget: widget.id });
+  }
+
+  private handleBlur = (): void => {
+    this.pressed.clear();
+    this.captured.clear();
+    this.hovered = null;
+  };
+
+  public destroy(): void {
+    this.engine.inputManager.off('input-capture', this.handleInput);
+    this.engine.inputManager.off('blur', this.handleBlur);
+  }
+}
+
+function center(rect: UIRect): { x: number; y: number } {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
@@ -0,0 +1,139 @@
+/**
+ * UI Theme - The @cropschool/ui design tokens (shared with the React kit
+ * through @cropschool/shared) converted to canvas pixels
+ */
+
+import {
+  borderRadius,
+  colors,
+  spacing,
+  touchTarget,
+  typography,
+} from '@cropschool/shared';
+
+export type UISize = 'sm' | 'md' | 'lg' | 'xl';
+
+export type UIColor =
+  | 'primary'
+  | 'secondary'
+  | 'success'
+  | 'warning'
+  | 'error'
+  | 'info'
+  | 'neutral';
+
+export interface UITheme {
+  colors: Record<UIColor, string>;
+  text: string;
+  textMuted: string;
+  textInverse: string;
+  surface: string;
+  track: string;
+  border: string;
+  focusRing: string;
+  focusRingWidth: number;
+  radius: number;
+  fontFamily: string;
+  fontWeight: number;
+
+  button: Record<
+    UISize,
+    { height: number; paddingX: number; minWidth: number; fontSize: number }
+  >;
+  progress: Record<UISize, { height: number; fontSize: number }>;
+  score: Record<UISize, { fontSize: number; paddingX: number }>;
+  timer: Record<UISize, { fontSize: number; paddingX: number }>;
+}
+
+// Token values are CSS lengths; the canvas works in pixels (1rem = 16px)
+function px(length: string): number {
+  const value = parseFloat(length);
+  return length.endsWith('rem') ? value * 16 : value;
+}
+
+function withAlpha(hex: string, alpha: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${value >> 16}, ${(value >> 8) & 0xff}, ${value & 0xff}, ${alpha})`;
+}
+
+const { fontSize } = typography;
+
+export const defaultTheme: UITheme = {
+  colors: {
+    primary: colors.primary[500],
+    secondary: colors.secondary[500],
+    success: colors.semantic.success,
+    warning: colors.semantic.warning,
+    error: colors.semantic.error,
+    info: colors.semantic.info,
+    neutral: colors.neutral[500],
+  },
+  text: colors.neutral[900],
+  textMuted: colors.neutral[700],
+  textInverse: colors.neutral[0],
+  surface: colors.background.primary,
+  track: colors.neutral[200],
+  border: colors.neutral[300],
+  focusRing: withAlpha(colors.primary[500], 0.5), // As focusRing.default in the UI kit
+  focusRingWidth: 3,
+  radius: px(borderRadius.lg),
+  fontFamily: typography.fontFamily.primary,
+  fontWeight: typography.fontWeight.semibold,
+
+  // Button sizes keep the touch targets (48px minimum at md)
+  button: {
+    sm: {
+      height: px(spacing[10]),
+      paddingX: px(spacing[4]),
+      minWidth: px(spacing[16]),
+      fontSize: px(fontSize.sm),
+    },
+    md: {
+      height: px(touchTarget.minimum),
+      paddingX: px(spacing[6]),
+      minWidth: px(spacing[20]),
+      fontSize: px(fontSize.base),
+    },
+    lg: {
+      height: px(touchTarget.comfortable),
+      paddingX: px(spacing[8]),
+      minWidth: px(spacing[24]),
+      fontSize: px(fontSize.lg),
+    },
+    xl: {
+      height: px(touchTarget.large),
+      paddingX: px(spacing[10]),
+      minWidth: px(spacing[32]),
+      fontSize: px(fontSize.xl),
+    },
+  },
+  progress: {
+    sm: { height: px(spacing[2]), fontSize: px(fontSize.xs) },
+    md: { height: px(spacing[3]), fontSize: px(fontSize.sm) },
+    lg: { height: px(spacing[4]), fontSize: px(fontSize.base) },
+    xl: { height: px(spacing[6]), fontSize: px(fontSize.lg) },
+  },
+  score: {
+    sm: { fontSize: px(fontSize.lg), paddingX: px(spacing[4]) },
+    md: { fontSize: px(fontSize.xl), paddingX: px(spacing[6]) },
+    lg: { fontSize: px(fontSize['2xl']), paddingX: px(spacing[8]) },
+    xl: { fontSize: px(fontSize['3xl']), paddingX: px(spacing[10]) },
+  },
+  timer: {
+    sm: { fontSize: px(fontSize.lg), paddingX: px(spacing[4]) },
+    md: { fontSize: px(fontSize.xl), paddingX: px(spacing[6]) },
+    lg: { fontSize: px(fontSize['2xl']), paddingX: px(spacing[8]) },
+    xl: { fontSize: px(fontSize['3xl']), paddingX: px(spacing[10]) },
+  },
+};
+
+/**
+ * Build a canvas font string from the theme
+ */
+export function themeFont(
+  theme: UITheme,
+  size: number,
+  weight: number = theme.fontWeight
+): string {
+  return `${weight} ${size}px ${theme.fontFamily}`;
+}
@@ -0,0 +1,185 @@
+/**
+ * Widget - Base class for retained UI elements anchored to the screen
+ */
+
+import type { CanvasRenderer } from '../core/CanvasRenderer';
+import type { UITheme } from './UITheme';
+
+export type UIAnchor =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right';
+
+export interface UIRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface WidgetOptions {
+  id?: string;
+  anchor?: UIAnchor;
+  x?: number; // Offset from the anchor, measured inward from right/bottom edges
+  y?: number;
+  width?: number; // 0 sizes the widget from the theme and its content
+  height?: number;
+  visible?: boolean;
+  label?: string; // Accessible name announced on focus
+}
+
+export interface WidgetState {
+  focused: boolean;
+  hovered: boolean;
+  pressed: boolean;
+}
+
+let nextWidgetId = 1;
+
+/**
+ * Widget - Laid out by UILayer every frame from its anchor, offset and
+ * measured size. Screen space only; the camera never applies.
+ */
+export abstract class Widget {
+  public id: string;
+  public anchor: UIAnchor;
+  public x: number;
+  public y: number;
+  public width: number;
+  public height: number;
+  public visible: boolean;
+  public label?: string;
+
+  // Screen rectangle from the last layout
+  public readonly bounds: UIRect = { x: 0, y: 0, width: 0, height: 0 };
+
+  constructor(options: WidgetOptions = {}) {
+    this.id = options.id ?? `widget-${nextWidgetId++}`;
+    this.anchor = options.anchor ?? 'top-left';
+    this.x = options.x ?? 0;
+    this.y = options.y ?? 0;
+    this.width = options.width ?? 0;
+    this.height = options.height ?? 0;
+    this.visible = options.visible ?? true;
+    this.label = options.label;
+  }
+
+  /**
+   * Whether keyboard/gamepad focus and pointer activation reach this widget
+   */
+  public isFocusable(): boolean {
+    return false;
+  }
+
+  /**
+   * Position the widget inside the viewport
+   */
+  public layout(viewport: UIRect, theme: UITheme): void {
+    const { width, height } = this.measure(theme);
+    const anchor = this.anchor;
+
+    let x = viewport.x + (viewport.width - width) / 2 + this.x;
+    if (anchor === 'left' || anchor.endsWith('-left')) {
+      x = viewport.x + this.x;
+    } else if (anchor === 'right' || anchor.endsWith('-right')) {
+      x = viewport.x + viewport.width - width - this.x;
+    }
+
+    let y = viewport.y + (viewport.height - height) / 2 + this.y;
+    if (anchor.startsWith('top')) {
+      y = viewport.y + this.y;
+    } else if (anchor.startsWith('bottom')) {
+      y = viewport.y + viewport.height - height - this.y;
+    }
+
+    this.bounds.x = x;
+    this.bounds.y = y;
+    this.bounds.width = width;
+    this.bounds.height = height;
+  }
+
+  /**
+   * Check if a screen point lies inside the last layout
+   */
+  public contains(x: number, y: number): boolean {
+    const b = this.bounds;
+    return x >= b.x && x <= b.x + b.width && y >= b.y && y <= b.y + b.height;
+  }
+
+  /**
+   * Advance animations and timers (seconds)
+   */
+  public update(_deltaTime: number): void {}
+
+  /**
+   * Click, tap, Enter/Space or gamepad A while focused
+   */
+  public activate(): void {}
+
+  public abstract render(
+    renderer: CanvasRenderer,
+    theme: UITheme,
+    state: WidgetState
+  ): void;
+
+  /**
+   * Size used for layout; explicit width/height win over the measured size
+   */
+  protected measure(_theme: UITheme): { width: number; height: number } {
+    return { width: this.width, height: this.height };
+  }
+}
+
+/**
+ * Fill a rounded rectangle (corners approximated with short segments)
+ */
+export function fillRoundedRect(
+  renderer: CanvasRenderer,
+  rect: UIRect,
+  radius: number,
+  color: string
+): void {
+  const r = Math.max(0, Math.min(radius, rect.width / 2, rect.height / 2));
+  if (r === 0) {
+    renderer.drawRect(rect.x, rect.y, rect.width, rect.height, color);
+    return;
+  }
+
+  const corners = [
+    { x: rect.x + rect.width - r, y: rect.y + r, start: -Math.PI / 2 },
+    { x: rect.x + rect.width - r, y: rect.y + rect.height - r, start: 0 },
+    { x: rect.x + r, y: rect.y + rect.height - r, start: Math.PI / 2 },
+    { x: rect.x + r, y: rect.y + r, start: Math.PI },
+  ];
+  const points: Array<{ x: number; y: number }> = [];
+
+  for (const corner of corners) {
+    for (let i = 0; i <= 4; i++) {
+      const angle = corner.start + (i / 4) * (Math.PI / 2);
+      points.push({
+        x: corner.x + Math.cos(angle) * r,
+        y: corner.y + Math.sin(angle) * r,
+      });
+    }
+  }
+
+  renderer.drawPolygon(points, color);
+}
+
+/**
+ * Grow (or shrink, with a negative amount) a rectangle on every side
+ */
+export function insetRect(rect: UIRect, amount: number): UIRect {
+  return {
+    x: rect.x + amount,
+    y: rect.y + amount,
+    width: rect.width - amount * 2,
+    height: rect.height - amount * 2,
+  };
+}
@@ -0,0 +1,597 @@
+/**
+ * Widgets - Canvas counterparts of the @cropschool/ui Button, Progress,
+ * ScoreDisplay and Timer components
+ */
+
+import type { CanvasRenderer } from '../core/CanvasRenderer';
+import { measureText } from '../core/TextLayout';
+import type { UIColor, UISize, UITheme } from './UITheme';
+import { themeFont } from './UITheme';
+import type { WidgetOptions, WidgetState } from './Widget';
+import { Widget, fillRoundedRect, insetRect } from './Widget';
+
+export type UIButtonVariant = 'solid' | 'outline' | 'ghost' | 'soft';
+
+export interface UIButtonOptions extends WidgetOptions {
+  text: string;
+  onClick?: () => void;
+  variant?: UIButtonVariant;
+  color?: UIColor;
+  size?: UISize;
+  disabled?: boolean;
+}
+
+export class UIButton extends Widget {
+  public text: string;
+  public onClick?: () => void;
+  public variant: UIButtonVariant;
+  public color: UIColor;
+  public size: UISize;
+  public disabled: boolean;
+
+  constructor(options: UIButtonOptions) {
+    super({ label: options.text, ...options });
+    this.text = options.text;
+    this.onClick = options.onClick;
+    this.variant = options.variant ?? 'solid';
+    this.color = options.color ?? 'primary';
+    this.size = options.size ?? 'md';
+    this.disabled = options.disabled ?? false;
+  }
+
+  public override isFocusable(): boolean {
+    return this.visible && !this.disabled;
+  }
+
+  public override activate(): void {
+    if (!this.disabled) {
+      this.onClick?.();
+    }
+  }
+
+  public render(
+    renderer: CanvasRenderer,
+    theme: UITheme,
+    state: WidgetState
+  ): void {
+    const size = theme.button[this.size];
+    const main = theme.colors[this.color];
+    const bounds = this.bounds;
+
+    renderer.save();
+    if (this.disabled) {
+      renderer.setAlpha(0.6);
+    }
+
+    if (state.focused) {
+      fillRoundedRect(
+        renderer,
+        insetRect(bounds, -theme.focusRingWidth),
+        theme.radius + theme.focusRingWidth,
+        theme.focusRing
+      );
+    }
+
+    switch (this.variant) {
+      case 'solid':
+        fillRoundedRect(renderer, bounds, theme.radius, main);
+        break;
+      case 'outline':
+        fillRoundedRect(renderer, bounds, theme.radius, main);
+        fillRoundedRect(
+          renderer,
+          insetRect(bounds, 2),
+          theme.radius - 2,
+          theme.surface
+        );
+        break;
+      case 'soft':
+        fillRoundedRect(renderer, bounds, theme.radius, theme.surface);
+        this.fillTint(renderer, theme, main, 0.12);
+        break;
+      case 'ghost':
+        break;
+    }
+
+    // Hover and press feedback: darken solid fills, tint the others
+    if (!this.disabled && (state.hovered || state.pressed)) {
+      const amount = state.pressed ? 0.2 : 0.1;
+      if (this.variant === 'solid') {
+        fillRoundedRect(
+          renderer,
+          bounds,
+          theme.radius,
+          `rgba(0, 0, 0, ${amount})`
+        );
+      } else {
+        this.fillTint(renderer, theme, main, amount);
+      }
+    }
+
+    renderer.drawText(
+      this.text,
+      bounds.x + bounds.width / 2,
+      bounds.y + (bounds.height - size.fontSize) / 2,
+      themeFont(theme, size.fontSize),
+      this.variant === 'solid' ? theme.textInverse : main,
+      'center'
+    );
+
+    renderer.restore();
+  }
+
+  protected override measure(theme: UITheme): {
+    width: number;
+    height: number;
+  } {
+    const size = theme.button[this.size];
+    return {
+      width:
+        this.width ||
+        Math.max(
+          size.minWidth,
+          measureText(this.text, themeFont(theme, size.fontSize)) +
+            size.paddingX * 2
+        ),
+      height: this.height || size.height,
+    };
+  }
+
+  private fillTint(
+    renderer: CanvasRenderer,
+    theme: UITheme,
+    color: string,
+    alpha: number
+  ): void {
+    renderer.save();
+    renderer.setAlpha(alpha * (this.disabled ? 0.6 : 1));
+    fillRoundedRect(renderer, this.bounds, theme.radius, color);
+    renderer.restore();
+  }
+}
+
+export interface UIProgressOptions extends WidgetOptions {
+  value: number;
+  min?: number;
+  max?: number;
+  size?: UISize;
+  color?: UIColor;
+  showLabel?: boolean;
+  animated?: boolean; // Ease the bar toward new values
+}
+
+export class UIProgress extends Widget {
+  public value: number;
+  public min: number;
+  public max: number;
+  public size: UISize;
+  public color: UIColor;
+  public showLabel: boolean;
+  public animated: boolean;
+
+  private displayValue: number;
+
+  constructor(options: UIProgressOptions) {
+    super(options);
+    this.value = options.value;
+    this.min = options.min ?? 0;
+    this.max = options.max ?? 100;
+    this.size = options.size ?? 'md';
+    this.color = options.color ?? 'primary';
+    this.showLabel = options.showLabel ?? false;
+    this.animated = options.animated ?? true;
+    this.displayValue = this.value;
+  }
+
+  /**
+   * Percentage of the range covered by the current value (0-100)
+   */
+  public getPercentage(value: number = this.value): number {
+    const range = this.max - this.min;
+    if (range <= 0) return 0;
+    return Math.min(Math.max(((value - this.min) / range) * 100, 0), 100);
+  }
+
+  public override update(deltaTime: number): void {
+    if (!this.animated) {
+      this.displayValue = this.value;
+      return;
+    }
+    const t = Math.min(1, deltaTime * 10);
+    this.displayValue += (this.value - this.displayValue) * t;
+    if (Math.abs(this.value - this.displayValue) < 0.001) {
+      this.displayValue = this.value;
+    }
+  }
+
+  public render(
+    renderer: CanvasRenderer,
+    theme: UITheme,
+    _state: WidgetState
+  ): void {
+    const size = theme.progress[this.size];
+    const bounds = this.bounds;
+    let barY = bounds.y;
+
+    if (this.showLabel) {
+      const font = themeFont(theme, size.fontSize);
+      renderer.drawText(
+        this.label ?? `${this.value} / ${this.max}`,
+        bounds.x,
+        bounds.y,
+        font,
+        theme.textMuted
+      );
+      renderer.drawText(
+        `${Math.round(this.getPercentage())}%`,
+        bounds.x + bounds.width,
+        bounds.y,
+        font,
+        theme.text,
+        'right'
+      );
+      barY += size.fontSize + 8;
+    }
+
+    const bar = {
+      x: bounds.x,
+      y: barY,
+      width: bounds.width,
+      height: bounds.y + bounds.height - barY,
+    };
+    fillRoundedRect(renderer, bar, bar.height / 2, theme.track);
+
+    const fillWidth = (bar.width * this.getPercentage(this.displayValue)) / 100;
+    if (fillWidth > 0) {
+      fillRoundedRect(
+        renderer,
+        { ...bar, width: fillWidth },
+        bar.height / 2,
+        theme.colors[this.color]
+      );
+    }
+  }
+
+  protected override measure(theme: UITheme): {
+    width: number;
+    height: number;
+  } {
+    const size = theme.progress[this.size];
+    return {
+      width: this.width || 200,
+      height:
+        this.height || size.height + (this.showLabel ? size.fontSize + 8 : 0),
+    };
+  }
+}
+
+export interface UIScoreDisplayOptions extends WidgetOptions {
+  score: number;
+  maxScore?: number;
+  showChange?: boolean; // Count up to new scores and flash the difference
+  size?: UISize;
+  color?: UIColor;
+}
+
+const SCORE_ANIMATION_DURATION = 1; // seconds
+const SCORE_CHANGE_DURATION = 2;
+
+/**
+ * Format scores the way ScoreDisplay does (1.2K, 3.4M)
+ */
+export function formatScore(value: number): string {
+  if (value >= 1000000) {
+    return `${(value / 1000000).toFixed(1)}M`;
+  }
+  if (value >= 1000) {
+    return `${(value / 1000).toFixed(1)}K`;
+  }
+  return value.toLocaleString();
+}
+
+export class UIScoreDisplay extends Widget {
+  public maxScore?: number;
+  public showChange: boolean;
+  public size: UISize;
+  public color: UIColor;
+
+  private score: number;
+  private fromScore: number;
+  private displayScore: number;
+  private animationTime = SCORE_ANIMATION_DURATION;
+  private change = 0;
+  private changeTime = 0;
+
+  constructor(options: UIScoreDisplayOptions) {
+    super(options);
+    this.score = options.score;
+    this.fromScore = options.score;
+    this.displayScore = options.score;
+    this.maxScore = options.maxScore;
+    this.showChange = options.showChange ?? false;
+    this.size = options.size ?? 'md';
+    this.color = options.color ?? 'primary';
+  }
+
+  public getScore(): number {
+    return this.score;
+  }
+
+  public setScore(score: number): void {
+    if (score === this.score) return;
+
+    if (this.showChange) {
+      this.fromScore = this.displayScore;
+      this.animationTime = 0;
+      this.change = score - this.score;
+      this.changeTime = SCORE_CHANGE_DURATION;
+    } else {
+      this.displayScore = score;
+    }
+    this.score = score;
+  }
+
+  public override update(deltaTime: number): void {
+    if (this.animationTime < SCORE_ANIMATION_DURATION) {
+      this.animationTime = Math.min(
+        SCORE_ANIMATION_DURATION,
+        this.animationTime + deltaTime
+      );
+      const progress = this.animationTime / SCORE_ANIMATION_DURATION;
+      const eased = 1 - Math.pow(1 - progress, 4); // easeOutQuart
+      this.displayScore = Math.round(
+        this.fromScore + (this.score - this.fromScore) * eased
+      );
+    }
+    this.changeTime = Math.max(0, this.changeTime - deltaTime);
+  }
+
+  public render(
+    renderer: CanvasRenderer,
+    theme: UITheme,
+    _state: WidgetState
+  ): void {
+    const size = theme.score[this.size];
+    const main = theme.colors[this.color];
+    const bounds = this.bounds;
+
+    fillRoundedRect(renderer, bounds, theme.radius, main);
+    fillRoundedRect(
+      renderer,
+      insetRect(bounds, 2),
+      theme.radius - 2,
+      theme.surface
+    );
+    renderer.save();
+    renderer.setAlpha(0.1);
+    fillRoundedRect(renderer, insetRect(bounds, 2), theme.radius - 2, main);
+    renderer.restore();
+
+    renderer.drawText(
+      this.getText(),
+      bounds.x + bounds.width / 2,
+      bounds.y + (bounds.height - size.fontSize) / 2,
+      themeFont(theme, size.fontSize, 700),
+      theme.text,
+      'center'
+    );
+
+    if (this.changeTime > 0 && this.change !== 0) {
+      const fade = this.changeTime / SCORE_CHANGE_DURATION;
+      const changeSize = Math.round(size.fontSize * 0.75);
+      renderer.save();
+      renderer.setAlpha(fade);
+      renderer.drawText(
+        this.change > 0 ? `+${this.change}` : `${this.change}`,
+        bounds.x + bounds.width,
+        bounds.y - changeSize - (1 - fade) * 12,
+        themeFont(theme, changeSize, 700),
+        this.change > 0 ? theme.colors.success : theme.colors.error,
+        'right'
+      );
+      renderer.restore();
+    }
+  }
+
+  protected override measure(theme: UITheme): {
+    width: number;
+    height: number;
+  } {
+    const size = theme.score[this.size];
+    return {
+      width:
+        this.width ||
+        measureText(this.getText(), themeFont(theme, size.fontSize, 700)) +
+          size.paddingX * 2,
+      height: this.height || size.fontSize + size.paddingX,
+    };
+  }
+
+  private getText(): string {
+    const score = formatScore(this.displayScore);
+    const text =
+      this.maxScore !== undefined
+        ? `${score} / ${formatScore(this.maxScore)}`
+        : score;
+    return this.label ? `${this.label} ${text}` : text;
+  }
+}
+
+export type UITimerFormat = 'mm:ss' | 'ss' | 'mm:ss:ms';
+
+export interface UITimerOptions extends WidgetOptions {
+  duration: number; // seconds
+  running?: boolean;
+  format?: UITimerFormat;
+  onTick?: (remainingSeconds: number) => void; // Once per whole second
+  onComplete?: () => void;
+  size?: UISize;
+  color?: UIColor;
+  showProgress?: boolean;
+}
+
+/**
+ * Format a time the way Timer does
+ */
+export function formatTime(
+  seconds: number,
+  format: UITimerFormat = 'mm:ss'
+): string {
+  const mins = Math.floor(seconds / 60)
+    .toString()
+    .padStart(2, '0');
+  const secs = Math.floor(seconds % 60)
+    .toString()
+    .padStart(2, '0');
+
+  switch (format) {
+    case 'ss':
+      return Math.floor(seconds).toString();
+    case 'mm:ss:ms':
+      return `${mins}:${secs}:${Math.floor((seconds % 1) * 100)
+        .toString()
+        .padStart(2, '0')}`;
+    default:
+      return `${mins}:${secs}`;
+  }
+}
+
+/**
+ * UITimer - Countdown driven by engine time, so it pauses with the engine
+ * and stays deterministic in headless runs
+ */
+export class UITimer extends Widget {
+  public duration: number;
+  public running: boolean;
+  public format: UITimerFormat;
+  public onTick?: (remainingSeconds: number) => void;
+  public onComplete?: () => void;
+  public size: UISize;
+  public color: UIColor;
+  public showProgress: boolean;
+
+  private remaining: number;
+
+  constructor(options: UITimerOptions) {
+    super(options);
+    this.duration = options.duration;
+    this.remaining = options.duration;
+    this.running = options.running ?? false;
+    this.format = options.format ?? 'mm:ss';
+    this.onTick = options.onTick;
+    this.onComplete = options.onComplete;
+    this.size = options.size ?? 'md';
+    this.color = options.color ?? 'primary';
+    this.showProgress = options.showProgress ?? false;
+  }
+
+  public start(): void {
+    if (this.remaining > 0) {
+      this.running = true;
+    }
+  }
+
+  public pause(): void {
+    this.running = false;
+  }
+
+  /**
+   * Stop and rewind, optionally to a new duration
+   */
+  public reset(duration: number = this.duration): void {
+    this.duration = duration;
+    this.remaining = duration;
+    this.running = false;
+  }
+
+  public getRemaining(): number {
+    return this.remaining;
+  }
+
+  public override update(deltaTime: number): void {
+    if (!this.running || this.remaining <= 0) return;
+
+    const previous = Math.ceil(this.remaining);
+    this.remaining = Math.max(0, this.remaining - deltaTime);
+
+    const current = Math.ceil(this.remaining);
+    if (current !== previous) {
+      this.onTick?.(current);
+    }
+
+    if (this.remaining === 0) {
+      this.running = false;
+      this.onComplete?.();
+    }
+  }
+
+  public render(
+    renderer: CanvasRenderer,
+    theme: UITheme,
+    _state: WidgetState
+  ): void {
+    const size = theme.timer[this.size];
+    const bounds = this.bounds;
+    const ratio = this.duration > 0 ? this.remaining / this.duration : 0;
+
+    // Same urgency thresholds as Timer: warning at half, error at a quarter
+    let color = theme.colors[this.color];
+    if (ratio <= 0.25) {
+      color = theme.colors.error;
+    } else if (ratio <= 0.5) {
+      color = theme.colors.warning;
+    }
+
+    fillRoundedRect(renderer, bounds, theme.radius, theme.surface);
+    renderer.save();
+    renderer.setAlpha(0.1);
+    fillRoundedRect(renderer, bounds, theme.radius, color);
+    renderer.restore();
+
+    const textHeight = this.showProgress ? bounds.height - 6 : bounds.height;
+    renderer.drawText(
+      formatTime(this.remaining, this.format),
+      bounds.x + bounds.width / 2,
+      bounds.y + (textHeight - size.fontSize) / 2,
+      themeFont(theme, size.fontSize, 700),
+      color,
+      'center'
+    );
+
+    if (this.showProgress) {
+      const inset = theme.radius;
+      const track = {
+        x: bounds.x + inset,
+        y: bounds.y + bounds.height - 8,
+        width: bounds.width - inset * 2,
+        height: 4,
+      };
+      fillRoundedRect(renderer, track, 2, theme.track);
+      if (ratio > 0) {
+        fillRoundedRect(
+          renderer,
+          { ...track, width: track.width * ratio },
+          2,
+          color
+        );
+      }
+    }
+  }
+
+  protected override measure(theme: UITheme): {
+    width: number;
+    height: number;
+  } {
+    const size = theme.timer[this.size];
+    const sample = formatTime(this.duration, this.format);
+    return {
+      width:
+        this.width ||
+        measureText(sample, themeFont(theme, size.fontSize, 700)) +
+          size.paddingX * 2,
+      height:
+        this.height ||
+        size.fontSize + size.paddingX + (this.showProgress ? 6 : 0),
+    };
+  }
+}
@@ -0,0 +1,176 @@
+import { GameEngine } from '../../core/Engine';
+import { UILayer } from '../UILayer';
+import { UIButton } from '../Widgets';
+import { DragDropSystem } from '../../systems/DragDropSystem';
+import { SceneGraphSystem } from '../../systems/SceneGraphSystem';
+import { Transform } from '../../components/CoreComponents';
+import { Draggable } from '../../components/DragDropComponents';
+import { Interactive } from '../../components/SceneGraphComponents';
+
+describe('UILayer', () => {
+  let engine: GameEngine;
+  let ui: UILayer;
+
+  beforeEach(() => {
+    engine = new GameEngine({ width: 400, height: 300, headless: true });
+    ui = new UILayer(engine);
+    engine.systemManager.addSystem(ui);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  function click(x: number, y: number): void {
+    for (const action of ['down', 'up'] as const) {
+      engine.inputManager.queueEvent({
+        type: 'mouse',
+        action,
+        data: { button: 0, x, y },
+        timestamp: engine.engineClock.now(),
+      });
+    }
+    engine.step();
+  }
+
+  function key(key: string, shift = false): void {
+    engine.inputManager.queueEvent({
+      type: 'keyboard',
+      action: 'down',
+      data: { key, code: key, modifiers: { shift } },
+      timestamp: engine.engineClock.now(),
+    });
+    engine.step();
+  }
+
+  it('lays widgets out against their anchors', () => {
+    const corner = ui.add(
+      new UIButton({
+        text: 'Menu',
+        anchor: 'bottom-right',
+        x: 10,
+        y: 20,
+        width: 80,
+        height: 30,
+      })
+    );
+    const centre = ui.add(
+      new UIButton({ text: 'Go', anchor: 'center', width: 100, height: 40 })
+    );
+    ui.layout();
+
+    expect(corner.bounds).toEqual({ x: 310, y: 250, width: 80, height: 30 });
+    expect(centre.bounds).toEqual({ x: 150, y: 130, width: 100, height: 40 });
+  });
+
+  it('activates the topmost button under a click', () => {
+    const clicks: string[] = [];
+    ui.add(
+      new UIButton({
+        id: 'below',
+        text: 'Below',
+        width: 100,
+        height: 40,
+        onClick: () => clicks.push('below'),
+      })
+    );
+    ui.add(
+      new UIButton({
+        id: 'above',
+        text: 'Above',
+        width: 50,
+        height: 40,
+        onClick: () => clicks.push('above'),
+      })
+    );
+    const events: unknown[] = [];
+    engine.on('ui-click', event => events.push(event));
+
+    click(20, 20);
+    click(80, 20);
+
+    expect(clicks).toEqual(['above', 'below']);
+    expect(events).toEqual([{ widget: 'above' }, { widget: 'below' }]);
+  });
+
+  it('moves focus with Tab and activates with Enter', () => {
+    const clicks: string[] = [];
+    for (const [id, y] of [
+      ['first', 0],
+      ['second', 50],
+    ] as const) {
+      ui.add(
+        new UIButton({
+          id,
+          text: id,
+          y,
+          width: 100,
+          height: 40,
+          onClick: () => clicks.push(id),
+        })
+      );
+    }
+    ui.add(new UIButton({ id: 'off', text: 'Off', y: 100, disabled: true }));
+    const focused: unknown[] = [];
+    engine.on('ui-focus', event => focused.push(event));
+
+    key('Tab');
+    key('Tab');
+    key('Enter');
+    key('Tab'); // The disabled button is skipped
+    key('Tab', true);
+
+    expect(focused).toEqual([
+      { widget: 'first', label: 'first' },
+      { widget: 'second', label: 'second' },
+      { widget: 'first', label: 'first' },
+      { widget: 'second', label: 'second' },
+    ]);
+    expect(clicks).toEqual(['second']);
+  });
+
+  it('keeps presses on a widget away from the world underneath', () => {
+    engine.systemManager.addSystem(new DragDropSystem(engine));
+    engine.systemManager.addSystem(new SceneGraphSystem(engine));
+
+    const item = engine.entityManager.createEntity();
+    engine.entityManager.addComponent(item.id, Transform, {
+      x: 20,
+      y: 20,
+      width: 40,
+      height: 40,
+    });
+    engine.entityManager.addComponent(item.id, Draggable);
+    engine.entityManager.addComponent(item.id, Interactive);
+
+    // Put a button over the middle of the item on screen
+    const { x, y } = engine.renderer.worldToScreen(40, 40);
+    const clicks: string[] = [];
+    ui.add(
+      new UIButton({
+        text: 'Pause',
+        x: x - 50,
+        y: y - 50,
+        width: 100,
+        height: 100,
+        onClick: () => clicks.push('pause'),
+      })
+    );
+    const world: string[] = [];
+    engine.on('drag-start', () => world.push('drag-start'));
+    engine.on('pointer-down', () => world.push('pointer-down'));
+    engine.on('pointer-click', () => world.push('pointer-click'));
+
+    click(x, y);
+
+    expect(clicks).toEqual(['pause']);
+    expect(world).toEqual([]);
+
+    // Outside the button the same press reaches the item
+    ui.clear();
+    click(x, y);
+    expect(world).toEqual(
+      expect.arrayContaining(['drag-start', 'pointer-down'])
+    );
+  });
+});
@@ -12,3 +12,6 @@ export * from './hooks';
 
 // Constants
 export * from './constants';
+
+// Design tokens
+export * from './tokens';
@@ -0,0 +1,223 @@
+/**
+ * CropSchool Design System Tokens
+ * Child-friendly design system with accessibility considerations
+ */
+
+// Color Palette - High contrast and child-friendly
+export const colors = {
+  // Primary Colors - Vibrant but accessible
+  primary: {
+    50: '#e8f5e8',
+    100: '#c3e6c3',
+    200: '#9dd49d',
+    300: '#76c176',
+    400: '#5cb35c',
+    500: '#4caf50', // Main green - WCAG AA compliant
+    600: '#449944',
+    700: '#388e3c',
+    800: '#2e7d32',
+    900: '#1b5e20',
+  },
+
+  // Secondary Colors - Warm and inviting
+  secondary: {
+    50: '#fff3e0',
+    100: '#ffe0b2',
+    200: '#ffcc80',
+    300: '#ffb74d',
+    400: '#ffa726',
+    500: '#ff9800', // Main orange
+    600: '#fb8c00',
+    700: '#f57c00',
+    800: '#ef6c00',
+    900: '#e65100',
+  },
+
+  // Accent Colors - Fun and engaging
+  accent: {
+    blue: '#2196f3',
+    purple: '#9c27b0',
+    pink: '#e91e63',
+    yellow: '#ffeb3b',
+    red: '#f44336',
+  },
+
+  // Neutral Colors - High contrast for readability
+  neutral: {
+    0: '#ffffff',
+    50: '#fafafa',
+    100: '#f5f5f5',
+    200: '#eeeeee',
+    300: '#e0e0e0',
+    400: '#bdbdbd',
+    500: '#9e9e9e',
+    600: '#757575',
+    700: '#616161',
+    800: '#424242',
+    900: '#212121',
+    950: '#0d0d0d',
+  },
+
+  // Semantic Colors - Clear meaning for children
+  semantic: {
+    success: '#4caf50',
+    warning: '#ff9800',
+    error: '#f44336',
+    info: '#2196f3',
+  },
+
+  // Background Colors
+  background: {
+    primary: '#ffffff',
+    secondary: '#f8f9fa',
+    accent: '#e8f5e8',
+    overlay: 'rgba(0, 0, 0, 0.5)',
+  },
+} as const;
+
+// Typography Scale - Optimized for young readers
+export const typography = {
+  fontFamily: {
+    primary:
+      '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+    display: '"Comic Neue", "Arial Rounded MT Bold", Arial, sans-serif', // Child-friendly display font
+    mono: 'SFMono-Regular, Consolas, "Liberation Mono", Menlo, monospace',
+  },
+
+  fontSize: {
+    xs: '0.75rem', // 12px
+    sm: '0.875rem', // 14px
+    base: '1rem', // 16px - minimum for accessibility
+    lg: '1.125rem', // 18px
+    xl: '1.25rem', // 20px
+    '2xl': '1.5rem', // 24px
+    '3xl': '1.875rem', // 30px
+    '4xl': '2.25rem', // 36px - good for young children
+    '5xl': '3rem', // 48px
+    '6xl': '3.75rem', // 60px
+  },
+
+  fontWeight: {
+    light: 300,
+    normal: 400,
+    medium: 500,
+    semibold: 600,
+    bold: 700,
+    extrabold: 800,
+  },
+
+  lineHeight: {
+    tight: 1.25,
+    snug: 1.375,
+    normal: 1.5,
+    relaxed: 1.625, // Better for young readers
+    loose: 2,
+  },
+
+  letterSpacing: {
+    tighter: '-0.05em',
+    tight: '-0.025em',
+    normal: '0em',
+    wide: '0.025em',
+    wider: '0.05em',
+    widest: '0.1em',
+  },
+} as const;
+
+// Spacing Scale - Touch-friendly sizes
+export const spacing = {
+  0: '0rem',
+  1: '0.25rem', // 4px
+  2: '0.5rem', // 8px
+  3: '0.75rem', // 12px
+  4: '1rem', // 16px
+  5: '1.25rem', // 20px
+  6: '1.5rem', // 24px
+  8: '2rem', // 32px
+  10: '2.5rem', // 40px
+  12: '3rem', // 48px - minimum touch target
+  16: '4rem', // 64px
+  20: '5rem', // 80px
+  24: '6rem', // 96px
+  32: '8rem', // 128px
+  40: '10rem', // 160px
+  48: '12rem', // 192px
+  56: '14rem', // 224px
+  64: '16rem', // 256px
+} as const;
+
+// Border Radius - Friendly rounded corners
+export const borderRadius = {
+  none: '0',
+  sm: '0.125rem', // 2px
+  base: '0.25rem', // 4px
+  md: '0.375rem', // 6px
+  lg: '0.5rem', // 8px
+  xl: '0.75rem', // 12px
+  '2xl': '1rem', // 16px
+  '3xl': '1.5rem', // 24px
+  full: '9999px',
+} as const;
+
+// Shadows - Soft and friendly
+export const shadows = {
+  sm: '0 1px 2px 0 rgba(0, 0, 0, 0.05)',
+  base: '0 1px 3px 0 rgba(0, 0, 0, 0.1), 0 1px 2px 0 rgba(0, 0, 0, 0.06)',
+  md: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)',
+  lg: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)',
+  xl: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)',
+  inner: 'inset 0 2px 4px 0 rgba(0, 0, 0, 0.06)',
+  none: 'none',
+} as const;
+
+// Z-Index Scale
+export const zIndex = {
+  hide: -1,
+  auto: 'auto',
+  base: 0,
+  docked: 10,
+  dropdown: 1000,
+  sticky: 1100,
+  banner: 1200,
+  overlay: 1300,
+  modal: 1400,
+  popover: 1500,
+  skipLink: 1600,
+  toast: 1700,
+  tooltip: 1800,
+} as const;
+
+// Animation Durations - Child-friendly timing
+export const animation = {
+  duration: {
+    instant: '0ms',
+    fast: '150ms',
+    normal: '200ms',
+    slow: '300ms',
+    slower: '500ms',
+  },
+
+  easing: {
+    linear: 'linear',
+    easeIn: 'cubic-bezier(0.4, 0, 1, 1)',
+    easeOut: 'cubic-bezier(0, 0, 0.2, 1)',
+    easeInOut: 'cubic-bezier(0.4, 0, 0.2, 1)',
+    bounce: 'cubic-bezier(0.68, -0.55, 0.265, 1.55)', // Fun bounce for children
+  },
+} as const;
+
+// Breakpoints for responsive design
+export const breakpoints = {
+  sm: '640px',
+  md: '768px',
+  lg: '1024px',
+  xl: '1280px',
+  '2xl': '1536px',
+} as const;
+
+// Touch target sizes - Accessibility compliant
+export const touchTarget = {
+  minimum: spacing[12], // 48px - WCAG AA minimum
+  comfortable: spacing[16], // 64px - More comfortable for children
+  large: spacing[20], // 80px - Extra large for very young children
+} as const;
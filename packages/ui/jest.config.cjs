@@ -4,6 +4,7 @@ module.exports = {
     setupFilesAfterEnv: ['<rootDir>/src/test-setup.ts'],
     moduleNameMapper: {
         '^@/(.*)$': '<rootDir>/src/$1',
+        '^@cropschool/shared$': '<rootDir>/../shared/src',
     },
     transform: {
         '^.+\\.(ts|tsx)$': ['ts-jest', {
@@ -33,7 +33,13 @@ export default [
                 exclude: ['**/*.stories.tsx', '**/*.test.tsx'],
             }),
         ],
-        external: ['react', 'react-dom', 'react-native', 'framer-motion'],
+        external: [
+            'react',
+            'react-dom',
+            'react-native',
+            'framer-motion',
+            '@cropschool/shared',
+        ],
     },
     {
         input: 'dist/index.d.ts',